@@ -0,0 +1,19 @@
+/**
+ * Validate maps, levels and enemies and print a report.
+ * Exits with status 1 when any problem is found.
+ *
+ * Usage: npm run validate
+ */
+import { runnerImport } from 'vite';
+
+const { module } = await runnerImport('/src/config/validation.ts', { configFile: false, logLevel: 'silent' });
+
+const report = module.validateContent();
+const output = module.formatValidationReport(report);
+
+if (report.issues.length > 0) {
+  console.error(output);
+  process.exitCode = 1;
+} else {
+  console.log(output);
+}
@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { describeDamageMultipliers, getDamageMultiplier } from '../damage';
+
+/**
+ * Test suite for damage multiplier lookups and their codex summaries.
+ */
+
+describe('damage types', () => {
+  it('should default to normal damage', () => {
+    expect(getDamageMultiplier(undefined, 'energy')).toBe(1);
+    expect(getDamageMultiplier({ kinetic: 0.5 }, undefined)).toBe(1);
+    expect(getDamageMultiplier({ kinetic: 0.5 }, 'energy')).toBe(1);
+    expect(getDamageMultiplier({ kinetic: 0.5 }, 'kinetic')).toBe(0.5);
+  });
+
+  it('should summarise resistances and weaknesses in type order', () => {
+    expect(describeDamageMultipliers({ kinetic: 0.5, energy: 1.5 })).toBe('Energy +50%, Kinetic -50%');
+    expect(describeDamageMultipliers({ cryo: 1 })).toBe('');
+    expect(describeDamageMultipliers(undefined)).toBe('');
+  });
+});
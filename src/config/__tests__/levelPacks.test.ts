@@ -0,0 +1,142 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  LEVEL_PACK_FORMAT,
+  LEVEL_PACK_VERSION,
+  createLevelPack,
+  serializeLevelPack,
+  parseLevelPack,
+  applyLevelPackOverrides,
+} from '../levelPacks';
+import { MAPS } from '../maps';
+import { LEVELS } from '../levels';
+import { ENEMIES } from '../enemies';
+import { TOWERS } from '../towers';
+
+/**
+ * Test suite for level pack serialization, parsing / validation and
+ * enemy / tower overrides.
+ */
+
+/** JSON object for a one-level pack built from level 1, with `changes` merged in. */
+function createPackData(changes: Record<string, unknown> = {}): Record<string, unknown> {
+  const data = JSON.parse(serializeLevelPack(createLevelPack('Test Pack', [MAPS[0]], [LEVELS[0]])));
+  return { ...data, ...changes };
+}
+
+const parse = (data: unknown) => parseLevelPack(JSON.stringify(data));
+
+describe('levelPacks', () => {
+  afterEach(() => applyLevelPackOverrides());
+
+  // ──────────────────────────────────────────────
+  // Round trip
+  // ──────────────────────────────────────────────
+
+  describe('serialize and parse', () => {
+    it('should round-trip the built-in maps and levels', () => {
+      const pack = createLevelPack('Built-in', MAPS, LEVELS);
+      expect(parseLevelPack(serializeLevelPack(pack))).toEqual(pack);
+    });
+
+    it('should leave derived waypoints and build slot counts out of the JSON', () => {
+      const data = createPackData() as { maps: object[]; levels: object[] };
+      expect(data.maps[0]).not.toHaveProperty('pathPoints');
+      expect(data.levels[0]).not.toHaveProperty('buildSlots');
+    });
+
+    it('should derive waypoints and build slots on load', () => {
+      const pack = parse(createPackData());
+      expect(pack.maps[0].pathPoints).toEqual(MAPS[0].pathPoints);
+      expect(pack.levels[0].buildSlots).toBe(LEVELS[0].buildSlots);
+    });
+  });
+
+  // ──────────────────────────────────────────────
+  // Schema errors
+  // ──────────────────────────────────────────────
+
+  describe('schema validation', () => {
+    it('should reject malformed JSON', () => {
+      expect(() => parseLevelPack('{')).toThrow(/not valid JSON/);
+    });
+
+    it('should reject other formats and versions', () => {
+      expect(() => parse(createPackData({ format: 'something-else' }))).toThrow(new RegExp(LEVEL_PACK_FORMAT));
+      expect(() => parse(createPackData({ version: LEVEL_PACK_VERSION + 1 }))).toThrow(/Unsupported level pack version/);
+    });
+
+    it('should name the field with the wrong type', () => {
+      const data = createPackData();
+      (data.levels as Record<string, unknown>[])[0].lives = 'ten';
+      expect(() => parse(data)).toThrow('Invalid level pack: levels[0].lives must be a number');
+    });
+
+    it('should report a map whose path cannot be traced', () => {
+      const data = createPackData();
+      const grid = (data.maps as { grid: number[][] }[])[0].grid;
+      grid.forEach((row) => row.forEach((_, x) => (row[x] = row[x] === 4 ? 0 : row[x])));
+      expect(() => parse(data)).toThrow(/maps\[0\]: .*exactly one Base tile/);
+    });
+
+    it('should run the content validator over the pack', () => {
+      const data = createPackData();
+      (data.levels as { segments: { enemyKey: string }[] }[])[0].segments[0].enemyKey = 'dron';
+      expect(() => parse(data)).toThrow(/segments\[0\]\.enemyKey: unknown enemy "dron"/);
+    });
+
+    it('should reject overrides for enemies or towers that do not exist', () => {
+      expect(() => parse(createPackData({ enemies: { kraken: { baseHp: 1 } } }))).toThrow(/unknown key "kraken"/);
+      expect(() => parse(createPackData({ towers: { nuke: {} } }))).toThrow(/unknown key "nuke"/);
+    });
+
+    it('should reject tier overrides of anything but the numeric stats', () => {
+      const data = createPackData({ towers: { cryo: { tiers: [{ effects: 1 }] } } });
+      expect(() => parse(data)).toThrow('towers.cryo.tiers[0].effects is not a tier stat a pack can override');
+    });
+
+    it('should reject a tier without fire rate or range', () => {
+      const noFire = createPackData({ towers: { laser: { tiers: [{ fireRate: 0 }] } } });
+      expect(() => parse(noFire)).toThrow('towers.laser.tiers[0].fireRate must be a positive number');
+      const noRange = createPackData({ towers: { laser: { tiers: [{}, { range: 0 }] } } });
+      expect(() => parse(noRange)).toThrow('towers.laser.tiers[1].range must be a positive number');
+    });
+
+    it('should keep the sell refund rate between 0 and 1', () => {
+      const data = createPackData({ towers: { laser: { sellRefundRate: 5 } } });
+      expect(() => parse(data)).toThrow('sellRefundRate must be a number from 0 to 1');
+    });
+
+    it('should reject enemies without HP or speed', () => {
+      expect(() => parse(createPackData({ enemies: { drone: { baseHp: 0 } } }))).toThrow(/baseHp must be a positive/);
+      expect(() => parse(createPackData({ enemies: { drone: { speed: 0 } } }))).toThrow(/speed must be a positive/);
+      expect(() => parse(createPackData({ enemies: { drone: { reward: 0, armor: 0 } } }))).not.toThrow();
+    });
+  });
+
+  // ──────────────────────────────────────────────
+  // Overrides
+  // ──────────────────────────────────────────────
+
+  describe('overrides', () => {
+    it('should apply enemy and tower overrides and restore the built-in stats', () => {
+      const baseHp = ENEMIES.drone.baseHp;
+      const tier1 = { ...TOWERS.laser.tiers[0] };
+      const pack = parse(
+        createPackData({
+          enemies: { drone: { baseHp: 999 } },
+          towers: { laser: { baseCost: 10, tiers: [{ damage: 50 }] } },
+        }),
+      );
+
+      applyLevelPackOverrides(pack);
+      expect(ENEMIES.drone.baseHp).toBe(999);
+      expect(ENEMIES.drone.name).toBe('Drone');
+      expect(TOWERS.laser.baseCost).toBe(10);
+      expect(TOWERS.laser.tiers[0]).toEqual({ ...tier1, damage: 50 });
+
+      applyLevelPackOverrides();
+      expect(ENEMIES.drone.baseHp).toBe(baseHp);
+      expect(TOWERS.laser.tiers[0]).toEqual(tier1);
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { extractPathPoints, findPathTilesInRange, MAPS, TileType } from '../maps';
+
+/**
+ * Test suite for deriving map waypoints from the tile grid and for path
+ * coverage lookups.
+ */
+
+// Tile shorthands: 0 ground, 1 path, 2 build slot, 3 spawn, 4 base
+const L_SHAPED = [
+  [3, 1, 1, 0],
+  [0, 0, 1, 0],
+  [0, 2, 1, 1],
+  [0, 0, 0, 4],
+];
+
+describe('extractPathPoints', () => {
+  // ──────────────────────────────────────────────
+  // Waypoint extraction
+  // ──────────────────────────────────────────────
+
+  describe('waypoints', () => {
+    it('should keep only the endpoints and the corners', () => {
+      expect(extractPathPoints(L_SHAPED)).toEqual([
+        { x: 0, y: 0 },
+        { x: 2, y: 0 },
+        { x: 2, y: 2 },
+        { x: 3, y: 2 },
+        { x: 3, y: 3 },
+      ]);
+    });
+
+    it('should handle a spawn directly next to the base', () => {
+      expect(extractPathPoints([[3, 4]])).toEqual([
+        { x: 0, y: 0 },
+        { x: 1, y: 0 },
+      ]);
+    });
+
+    it('should derive a route from spawn to base for every built-in map', () => {
+      for (const map of MAPS) {
+        const first = map.pathPoints[0];
+        const last = map.pathPoints[map.pathPoints.length - 1];
+        expect(map.grid[first.y][first.x]).toBe(TileType.Spawn);
+        expect(map.grid[last.y][last.x]).toBe(TileType.Base);
+      }
+    });
+  });
+
+  // ──────────────────────────────────────────────
+  // Errors
+  // ──────────────────────────────────────────────
+
+  describe('errors', () => {
+    it('should reject a grid without exactly one spawn and one base', () => {
+      expect(() => extractPathPoints([[1, 1, 4]], 'Empty')).toThrow(/Map "Empty": expected exactly one Spawn/);
+      expect(() => extractPathPoints([[3, 1, 4, 1, 4]])).toThrow(/exactly one Base tile, found 2/);
+    });
+
+    it('should report where a broken path stops', () => {
+      const grid = [[3, 1, 0, 1, 4]];
+      expect(() => extractPathPoints(grid)).toThrow(/path is broken at \(1, 0\)/);
+    });
+
+    it('should report where a path forks', () => {
+      const grid = [
+        [0, 1, 0],
+        [3, 1, 4],
+        [0, 1, 0],
+      ];
+      expect(() => extractPathPoints(grid)).toThrow(/path is ambiguous at \(1, 1\)/);
+    });
+
+    it('should reject path tiles that are not on the route', () => {
+      const grid = [
+        [3, 1, 4],
+        [0, 0, 0],
+        [1, 1, 0],
+      ];
+      expect(() => extractPathPoints(grid)).toThrow(/Path tile \(0, 2\) is not on the route/);
+    });
+  });
+});
+
+describe('findPathTilesInRange', () => {
+  // Centre of the build slot at tile (1, 2)
+  const slotX = 96;
+  const slotY = 160;
+
+  it('should list path tiles whose centre is within range', () => {
+    expect(findPathTilesInRange(L_SHAPED, slotX, slotY, 64)).toEqual([{ x: 2, y: 2 }]);
+    expect(findPathTilesInRange(L_SHAPED, slotX, slotY, 100)).toEqual([
+      { x: 2, y: 1 },
+      { x: 2, y: 2 },
+    ]);
+  });
+
+  it('should include the spawn and base tiles', () => {
+    const tiles = findPathTilesInRange(L_SHAPED, slotX, slotY, 1000);
+    expect(tiles).toContainEqual({ x: 0, y: 0 });
+    expect(tiles).toContainEqual({ x: 3, y: 3 });
+    expect(tiles).toHaveLength(7);
+  });
+
+  it('should return nothing when no path tile is in range', () => {
+    expect(findPathTilesInRange(L_SHAPED, slotX, slotY, 40)).toEqual([]);
+  });
+});
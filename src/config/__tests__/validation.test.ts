@@ -0,0 +1,189 @@
+import { describe, it, expect } from 'vitest';
+import { validateContent, validateMap, validateLevel, validateEnemy, formatValidationReport } from '../validation';
+import { MAPS, MapConfig, TileType } from '../maps';
+import { LEVELS, LevelConfig } from '../levels';
+import { ENEMIES, EnemyConfig } from '../enemies';
+
+/**
+ * Test suite for the map / level / enemy content validator.
+ */
+
+// Deep copies of the first map and level so tests can break them freely.
+function createTestMap(): MapConfig {
+  return structuredClone(MAPS[0]);
+}
+
+function createTestLevel(overrides: Partial<LevelConfig> = {}): LevelConfig {
+  return { ...structuredClone(LEVELS[0]), ...overrides };
+}
+
+const fields = (issues: { field: string }[]) => issues.map((i) => i.field);
+
+describe('validation', () => {
+  // ──────────────────────────────────────────────
+  // Built-in content
+  // ──────────────────────────────────────────────
+
+  it('should find no problems in the shipped maps, levels and enemies', () => {
+    const report = validateContent();
+    expect(report.issues).toEqual([]);
+    expect(formatValidationReport(report)).toMatch(/^Content OK/);
+  });
+
+  // ──────────────────────────────────────────────
+  // Maps
+  // ──────────────────────────────────────────────
+
+  describe('validateMap', () => {
+    it('should reject grids of the wrong size', () => {
+      const map = createTestMap();
+      map.grid.pop();
+      map.grid[0].push(0);
+      expect(fields(validateMap(map))).toEqual(['grid', 'grid[0]']);
+    });
+
+    it('should reject unknown tile values', () => {
+      const map = createTestMap();
+      map.grid[0][0] = 9;
+      expect(validateMap(map)).toContainEqual(expect.objectContaining({ field: 'grid[0][0]' }));
+    });
+
+    it('should reject a path step that leaves the Path tiles', () => {
+      const map = createTestMap();
+      const [a, b] = map.pathPoints;
+      const crossed = { x: a.x + Math.sign(b.x - a.x), y: a.y + Math.sign(b.y - a.y) };
+      map.grid[crossed.y][crossed.x] = TileType.Ground;
+      const issues = validateMap(map);
+      expect(issues).toHaveLength(1);
+      expect(issues[0].message).toMatch(/crosses .* not a Path tile/);
+    });
+
+    it('should reject diagonal path steps', () => {
+      const map = createTestMap();
+      map.pathPoints.splice(2, 1);
+      expect(validateMap(map).map((i) => i.message)).toContain('step from point 1 to 2 is diagonal');
+    });
+
+    it('should require the path to run from a Spawn to a Base', () => {
+      const map = createTestMap();
+      map.pathPoints = map.pathPoints.slice(1, -1);
+      const messages = validateMap(map).map((i) => i.message);
+      expect(messages.some((m) => /not a Spawn tile/.test(m))).toBe(true);
+      expect(messages.some((m) => /not a Base tile/.test(m))).toBe(true);
+    });
+
+    it('should report path graph errors instead of throwing', () => {
+      const map = createTestMap();
+      map.paths = [{ name: 'a', points: map.pathPoints, next: [{ path: 'b' }] }];
+      const issues = validateMap(map);
+      expect(fields(issues)).toEqual(['paths']);
+      expect(issues[0].message).toMatch(/unknown path "b"/);
+    });
+  });
+
+  // ──────────────────────────────────────────────
+  // Levels
+  // ──────────────────────────────────────────────
+
+  describe('validateLevel', () => {
+    it('should require buildSlots to match the map', () => {
+      const issues = validateLevel(createTestLevel({ buildSlots: 99 }), MAPS[0]);
+      expect(fields(issues)).toEqual(['buildSlots']);
+    });
+
+    it('should report unknown enemy keys with their location', () => {
+      const level = createTestLevel({
+        waves: [
+          {
+            name: 'Typo',
+            segments: [
+              { enemyKey: 'drone', count: 1, spawnInterval: 1 },
+              { mix: [{ enemyKey: 'brut', weight: 1 }], count: 1, spawnInterval: 1 },
+            ],
+          },
+        ],
+      });
+      expect(validateLevel(level, MAPS[0])).toEqual([
+        { subject: 'level', id: '1', field: 'waves[0].segments[1].mix[0].enemyKey', message: 'unknown enemy "brut"' },
+      ]);
+    });
+
+    it('should reject invalid segment numbers and unknown paths', () => {
+      const level = createTestLevel({
+        segments: [{ enemyKey: 'drone', count: 0, spawnInterval: -1, path: 'north' }],
+      });
+      expect(fields(validateLevel(level, MAPS[0]))).toEqual([
+        'segments[0].count',
+        'segments[0].spawnInterval',
+        'segments[0].path',
+      ]);
+    });
+
+    it('should check the boss enemy and path', () => {
+      const level = createTestLevel({ boss: { enemyKey: 'mothershp', delay: -1, path: 'north' } });
+      expect(fields(validateLevel(level, MAPS[0]))).toEqual(['boss.enemyKey', 'boss.delay', 'boss.path']);
+    });
+
+    it('should report a level without a map', () => {
+      expect(fields(validateLevel(createTestLevel(), undefined))).toEqual(['level']);
+    });
+  });
+
+  // ──────────────────────────────────────────────
+  // Enemies and the full report
+  // ──────────────────────────────────────────────
+
+  describe('validateEnemy', () => {
+    it('should reject a split into an unknown enemy', () => {
+      const swarm: EnemyConfig = { ...ENEMIES.swarm, special: { type: 'split', splitCount: 3, splitEnemyKey: 'nano' } };
+      expect(validateEnemy('swarm', swarm)).toEqual([
+        { subject: 'enemy', id: 'swarm', field: 'special.splitEnemyKey', message: 'unknown enemy "nano"' },
+      ]);
+    });
+
+    it('should reject negative armor', () => {
+      expect(validateEnemy('brute', { ...ENEMIES.brute, armor: -1 })).toEqual([
+        { subject: 'enemy', id: 'brute', field: 'armor', message: 'must not be negative' },
+      ]);
+    });
+
+    it('should reject negative and unknown resistances', () => {
+      const brute = {
+        ...ENEMIES.brute,
+        resistances: { kinetic: -0.5, plasma: 2 },
+      } as unknown as EnemyConfig;
+      expect(validateEnemy('brute', brute).map((i) => `${i.field}: ${i.message}`)).toEqual([
+        'resistances.kinetic: must not be negative',
+        'resistances.plasma: unknown damage type',
+      ]);
+    });
+
+    it('should reject boss phases out of order or with unknown minions', () => {
+      const mothership: EnemyConfig = {
+        ...ENEMIES.mothership,
+        boss: {
+          phases: [
+            { hpThreshold: 0.5, spawnMinions: { enemyKey: 'nano', count: 2 } },
+            { hpThreshold: 0.6, speedScale: 0 },
+            { hpThreshold: 0.2, spawnMinions: { enemyKey: 'mothership', count: 1 } },
+          ],
+        },
+      };
+      expect(validateEnemy('mothership', mothership).map((i) => `${i.field}: ${i.message}`)).toEqual([
+        'boss.phases[0].spawnMinions.enemyKey: unknown enemy "nano"',
+        'boss.phases[1].hpThreshold: must be lower than the previous phase',
+        'boss.phases[1].speedScale: must be greater than 0',
+        'boss.phases[2].spawnMinions.enemyKey: minions cannot be bosses',
+      ]);
+    });
+  });
+
+  describe('validateContent', () => {
+    it('should collect every problem into one report', () => {
+      const report = validateContent(MAPS, [createTestLevel({ buildSlots: 1 }), createTestLevel({ level: 9 })]);
+      expect(report.issues.map((i) => `${i.id}:${i.field}`)).toEqual(['1:buildSlots', '9:level']);
+      expect(formatValidationReport(report)).toContain('Found 2 problems');
+      expect(formatValidationReport(report)).toContain('level 1 > buildSlots:');
+    });
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * Damage types -- what kind of damage a tower deals. Enemies can resist or
+ * be weak to each type (see `EnemyConfig.resistances`).
+ */
+export type DamageType = 'energy' | 'explosive' | 'kinetic' | 'cryo';
+
+export const DAMAGE_TYPES: readonly DamageType[] = ['energy', 'explosive', 'kinetic', 'cryo'];
+
+/** Display names for the tower info panel and the enemy codex. */
+export const DAMAGE_TYPE_LABELS: Record<DamageType, string> = {
+  energy: 'Energy',
+  explosive: 'Explosive',
+  kinetic: 'Kinetic',
+  cryo: 'Cryo',
+};
+
+/**
+ * Damage multipliers by type: below 1 resists that type, above 1 is a
+ * weakness. Missing types take normal (1x) damage.
+ */
+export type DamageMultipliers = Partial<Record<DamageType, number>>;
+
+/**
+ * Multiplier for `type` in `multipliers`. Untyped damage and types that are
+ * not listed take normal damage.
+ */
+export function getDamageMultiplier(multipliers: DamageMultipliers | undefined, type: DamageType | undefined): number {
+  if (!multipliers || type === undefined) return 1;
+  return multipliers[type] ?? 1;
+}
+
+/**
+ * Short summary of a set of multipliers, e.g. "Kinetic -50%, Explosive +25%".
+ * Returns an empty string when every type takes normal damage.
+ */
+export function describeDamageMultipliers(multipliers: DamageMultipliers | undefined): string {
+  return DAMAGE_TYPES.filter((type) => getDamageMultiplier(multipliers, type) !== 1)
+    .map((type) => {
+      const percent = Math.round((getDamageMultiplier(multipliers, type) - 1) * 100);
+      return `${DAMAGE_TYPE_LABELS[type]} ${percent > 0 ? '+' : ''}${percent}%`;
+    })
+    .join(', ');
+}
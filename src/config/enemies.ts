@@ -1,3 +1,17 @@
+import type { DamageMultipliers } from './damage';
+
+/**
+ * One stage of a boss fight. A phase starts the first time the boss's HP
+ * drops to `hpThreshold` of its maximum; phases are listed from the highest
+ * threshold down and each one starts at most once.
+ */
+export interface BossPhase {
+  hpThreshold: number; // fraction of max HP, e.g. 0.5
+  speedScale?: number; // multiplier on the boss's base speed from this phase on
+  spawnMinions?: { enemyKey: string; count: number }; // released through the split mechanism
+  shieldPercent?: number; // raises a shield of this fraction of max HP (it does not regenerate)
+}
+
 export interface EnemyConfig {
   key: string;
   name: string;
@@ -6,12 +20,24 @@ export interface EnemyConfig {
   speed: number; // pixels per second
   reward: number; // credits on kill
   color: string; // placeholder color until sprites
+  armor?: number; // flat damage removed from each hit to HP
+  resistances?: DamageMultipliers; // damage to HP by type; below 1 resists
+  shieldResistances?: DamageMultipliers; // damage to the shield by type
   special?: {
-    type: 'shield' | 'split' | 'none';
+    type: 'shield' | 'split' | 'heal' | 'stealth' | 'flying' | 'tunnel' | 'none';
     shieldPercent?: number; // fraction of HP absorbed by shield
     shieldRegenDelay?: number; // seconds before shield regenerates
     splitCount?: number;
     splitEnemyKey?: string;
+    healAmount?: number; // HP restored to each nearby enemy per pulse
+    healRadius?: number; // pixels
+    healInterval?: number; // seconds between heal pulses
+    revealDuration?: number; // seconds a cloaked enemy stays targetable after being hit
+    tunnelStart?: number; // fraction of the route where the enemy burrows
+    tunnelEnd?: number; // fraction of the route where it surfaces
+  };
+  boss?: {
+    phases: BossPhase[];
   };
 }
 
@@ -42,6 +68,8 @@ export const ENEMIES: Record<string, EnemyConfig> = {
     speed: 30,
     reward: 30,
     color: '#ff4444',
+    armor: 5,
+    resistances: { kinetic: 0.5 },
   },
   shielded: {
     key: 'shielded',
@@ -51,6 +79,7 @@ export const ENEMIES: Record<string, EnemyConfig> = {
     speed: 50,
     reward: 25,
     color: '#4488ff',
+    shieldResistances: { energy: 1.5, kinetic: 0.75 },
     special: {
       type: 'shield',
       shieldPercent: 0.5,
@@ -65,6 +94,7 @@ export const ENEMIES: Record<string, EnemyConfig> = {
     speed: 50,
     reward: 20,
     color: '#ff88ff',
+    resistances: { explosive: 1.25 },
     special: {
       type: 'split',
       splitCount: 3,
@@ -80,4 +110,76 @@ export const ENEMIES: Record<string, EnemyConfig> = {
     reward: 3,
     color: '#ccffcc',
   },
+  mender: {
+    key: 'mender',
+    name: 'Mender',
+    description: 'Support drone that patches up nearby aliens every few seconds.',
+    baseHp: 90,
+    speed: 45,
+    reward: 25,
+    color: '#44ffaa',
+    special: {
+      type: 'heal',
+      healAmount: 15,
+      healRadius: 96,
+      healInterval: 2,
+    },
+  },
+  phantom: {
+    key: 'phantom',
+    name: 'Phantom',
+    description: 'Cloaked infiltrator. Towers cannot target it until splash damage or a Sensor Array reveals it.',
+    baseHp: 80,
+    speed: 70,
+    reward: 25,
+    color: '#9999cc',
+    special: {
+      type: 'stealth',
+      revealDuration: 2,
+    },
+  },
+  skyray: {
+    key: 'skyray',
+    name: 'Skyray',
+    description: 'Winged raider that flies straight over the defences to the base.',
+    baseHp: 60,
+    speed: 45,
+    reward: 20,
+    color: '#ffaa44',
+    resistances: { explosive: 0.75 },
+    special: { type: 'flying' },
+  },
+  burrower: {
+    key: 'burrower',
+    name: 'Burrower',
+    description: 'Digs under the middle of its route, where nothing can hit it.',
+    baseHp: 180,
+    speed: 40,
+    reward: 25,
+    color: '#aa7744',
+    armor: 2,
+    special: {
+      type: 'tunnel',
+      tunnelStart: 0.3,
+      tunnelEnd: 0.6,
+    },
+  },
+  mothership: {
+    key: 'mothership',
+    name: 'Mothership',
+    description: 'Invasion command ship. Launches escorts, raises shields, then makes a final dash.',
+    baseHp: 2400,
+    speed: 18,
+    reward: 250,
+    color: '#ff2266',
+    armor: 3,
+    resistances: { explosive: 0.75 },
+    boss: {
+      phases: [
+        { hpThreshold: 0.7, spawnMinions: { enemyKey: 'drone', count: 6 } },
+        { hpThreshold: 0.4, shieldPercent: 0.25, spawnMinions: { enemyKey: 'skitter', count: 4 } },
+        { hpThreshold: 0.15, speedScale: 2 },
+      ],
+    },
+  },
 };
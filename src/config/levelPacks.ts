@@ -0,0 +1,471 @@
+import { ENEMIES, EnemyConfig } from './enemies';
+import { TOWERS, TowerConfig, TowerTier } from './towers';
+import { BossSpawn, LevelConfig, WaveConfig, WaveSegment, EnemyMixEntry } from './levels';
+import { MapConfig, MapPathConfig, MapPoint, PathBranch, TileType, extractPathPoints, findTiles } from './maps';
+import { validateContent, formatValidationReport } from './validation';
+
+/**
+ * Level packs -- a versioned JSON bundle of maps, level configs and
+ * optional enemy / tower stat overrides, so new content can be shared as
+ * a file instead of compiled into MAPS and LEVELS.
+ *
+ * Pack layout (version 1):
+ *   {
+ *     "format": "earth-defense-level-pack",
+ *     "version": 1,
+ *     "name": "...", "author"?: "...", "description"?: "...",
+ *     "maps":   [{ "level", "name", "grid", "paths"? }],
+ *     "levels": [LevelConfig without "buildSlots" (counted from the grid), "boss"?],
+ *     "enemies"?: { "<enemyKey>": { "baseHp"?, "speed"?, ... } },
+ *     "towers"?:  { "<towerKey>": { "baseCost"?, "tiers"?: [{ "damage"? }] } }
+ *   }
+ *
+ * Map waypoints are always derived from the grid, as for built-in maps.
+ * Overrides can only adjust existing enemies and towers: new ones would
+ * need sprites and behaviour the game does not have.
+ */
+
+export const LEVEL_PACK_FORMAT = 'earth-defense-level-pack';
+
+/** Bumped whenever the pack layout changes incompatibly. */
+export const LEVEL_PACK_VERSION = 1;
+
+/** Stats a pack may change on an existing enemy. */
+export type EnemyOverride = Partial<Pick<EnemyConfig, 'name' | 'description' | 'baseHp' | 'speed' | 'reward' | 'armor'>>;
+
+/** Stats a pack may change on an existing tower; `tiers` entries merge by index. */
+export interface TowerOverride {
+  name?: string;
+  description?: string;
+  baseCost?: number;
+  upgradeCosts?: [number, number];
+  sellRefundRate?: number;
+  projectileSpeed?: number;
+  tiers?: Partial<TowerTier>[];
+}
+
+export interface LevelPack {
+  format: typeof LEVEL_PACK_FORMAT;
+  version: number;
+  name: string;
+  author?: string;
+  description?: string;
+  maps: MapConfig[];
+  levels: LevelConfig[];
+  enemies?: Record<string, EnemyOverride>;
+  towers?: Record<string, TowerOverride>;
+}
+
+// ---------------------------------------------------------------------------
+// Building and exporting
+// ---------------------------------------------------------------------------
+
+/** Bundle maps and levels into a pack with no overrides. */
+export function createLevelPack(name: string, maps: MapConfig[], levels: LevelConfig[]): LevelPack {
+  return { format: LEVEL_PACK_FORMAT, version: LEVEL_PACK_VERSION, name, maps, levels };
+}
+
+/**
+ * Serialize a pack to pretty-printed JSON. Derived data (map waypoints and
+ * level build slot counts) is left out; the loader recomputes it.
+ */
+export function serializeLevelPack(pack: LevelPack): string {
+  const maps = pack.maps.map(({ level, name, grid, paths }) => ({ level, name, grid, ...(paths ? { paths } : {}) }));
+  const levels = pack.levels.map(({ buildSlots: _buildSlots, ...level }) => level);
+  return JSON.stringify({ ...pack, maps, levels }, null, 2);
+}
+
+// ---------------------------------------------------------------------------
+// Loading
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse a pack from JSON: check its structure, derive waypoints and build
+ * slot counts, then run the content validator over the result.
+ * Throws an Error describing the problems found.
+ */
+export function parseLevelPack(json: string): LevelPack {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Invalid level pack: not valid JSON');
+  }
+
+  const root = expectObject(data, 'pack');
+  if (root.format !== LEVEL_PACK_FORMAT) {
+    throw new Error(`Invalid level pack: "format" must be "${LEVEL_PACK_FORMAT}"`);
+  }
+  if (root.version !== LEVEL_PACK_VERSION) {
+    throw new Error(`Unsupported level pack version: ${String(root.version)} (expected ${LEVEL_PACK_VERSION})`);
+  }
+
+  const name = required(root, 'name', 'pack', isNonEmptyString, 'a non-empty string');
+  const author = optional(root, 'author', 'pack', isString, 'a string');
+  const description = optional(root, 'description', 'pack', isString, 'a string');
+
+  const maps = expectArray(root.maps, 'maps').map((raw, i) => parseMap(raw, `maps[${i}]`));
+  const levels = expectArray(root.levels, 'levels').map((raw, i) => parseLevel(raw, `levels[${i}]`, maps));
+  if (levels.length === 0) throw new Error('Invalid level pack: "levels" must not be empty');
+
+  const enemies = parseOverrides(root.enemies, 'enemies', ENEMY_DEFAULTS, parseEnemyOverride);
+  const towers = parseOverrides(root.towers, 'towers', TOWER_DEFAULTS, parseTowerOverride);
+
+  const pack: LevelPack = {
+    format: LEVEL_PACK_FORMAT,
+    version: LEVEL_PACK_VERSION,
+    name,
+    ...(author !== undefined ? { author } : {}),
+    ...(description !== undefined ? { description } : {}),
+    maps,
+    levels,
+    ...(enemies ? { enemies } : {}),
+    ...(towers ? { towers } : {}),
+  };
+
+  const report = validateContent(pack.maps, pack.levels, getPackEnemies(pack));
+  if (report.issues.length > 0) {
+    throw new Error(`Invalid level pack "${name}": ${formatValidationReport(report)}`);
+  }
+  return pack;
+}
+
+// ---------------------------------------------------------------------------
+// Overrides
+// ---------------------------------------------------------------------------
+
+// Built-in configs, captured before any pack touches the registries.
+const ENEMY_DEFAULTS: Record<string, EnemyConfig> = { ...ENEMIES };
+const TOWER_DEFAULTS: Record<string, TowerConfig> = { ...TOWERS };
+
+/** The enemy registry as it would look with the pack's overrides applied. */
+export function getPackEnemies(pack: LevelPack): Record<string, EnemyConfig> {
+  const enemies = { ...ENEMY_DEFAULTS };
+  for (const [key, override] of Object.entries(pack.enemies ?? {})) {
+    enemies[key] = { ...ENEMY_DEFAULTS[key], ...override };
+  }
+  return enemies;
+}
+
+/**
+ * Swap the pack's enemy and tower overrides into ENEMIES and TOWERS, which
+ * the simulation and UI read. Passing no pack restores the built-in stats.
+ * GameScene calls this for every level it starts.
+ */
+export function applyLevelPackOverrides(pack?: LevelPack): void {
+  Object.assign(ENEMIES, ENEMY_DEFAULTS);
+  Object.assign(TOWERS, TOWER_DEFAULTS);
+  if (!pack) return;
+
+  Object.assign(ENEMIES, getPackEnemies(pack));
+  for (const [key, override] of Object.entries(pack.towers ?? {})) {
+    const base = TOWER_DEFAULTS[key];
+    const { tiers, ...rest } = override;
+    TOWERS[key] = {
+      ...base,
+      ...rest,
+      tiers: base.tiers.map((tier, i) => ({ ...tier, ...tiers?.[i] })) as TowerConfig['tiers'],
+    };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Structure checks
+// ---------------------------------------------------------------------------
+
+function parseMap(raw: unknown, where: string): MapConfig {
+  const obj = expectObject(raw, where);
+  const level = required(obj, 'level', where, isPositiveInt, 'a positive integer');
+  const name = required(obj, 'name', where, isNonEmptyString, 'a non-empty string');
+  const grid = expectArray(obj.grid, `${where}.grid`).map((row, y) =>
+    expectArray(row, `${where}.grid[${y}]`).map((tile, x) => {
+      if (!isInt(tile)) throw new Error(`Invalid level pack: ${where}.grid[${y}][${x}] must be an integer`);
+      return tile;
+    }),
+  );
+
+  if (obj.paths === undefined) {
+    try {
+      return { level, name, grid, pathPoints: extractPathPoints(grid, name) };
+    } catch (err) {
+      throw new Error(`Invalid level pack: ${where}: ${(err as Error).message}`);
+    }
+  }
+
+  const paths = expectArray(obj.paths, `${where}.paths`).map((p, i) => parsePath(p, `${where}.paths[${i}]`));
+  return { level, name, grid, pathPoints: [], paths };
+}
+
+function parsePath(raw: unknown, where: string): MapPathConfig {
+  const obj = expectObject(raw, where);
+  const name = required(obj, 'name', where, isNonEmptyString, 'a non-empty string');
+  const points = expectArray(obj.points, `${where}.points`).map((p, i) => parsePoint(p, `${where}.points[${i}]`));
+  if (obj.next === undefined) return { name, points };
+
+  const next = expectArray(obj.next, `${where}.next`).map((b, i): PathBranch => {
+    const branch = expectObject(b, `${where}.next[${i}]`);
+    const path = required(branch, 'path', `${where}.next[${i}]`, isNonEmptyString, 'a non-empty string');
+    const weight = optional(branch, 'weight', `${where}.next[${i}]`, isNonNegative, 'a non-negative number');
+    return weight !== undefined ? { path, weight } : { path };
+  });
+  return { name, points, next };
+}
+
+function parsePoint(raw: unknown, where: string): MapPoint {
+  const obj = expectObject(raw, where);
+  return {
+    x: required(obj, 'x', where, isInt, 'an integer'),
+    y: required(obj, 'y', where, isInt, 'an integer'),
+  };
+}
+
+function parseLevel(raw: unknown, where: string, maps: MapConfig[]): LevelConfig {
+  const obj = expectObject(raw, where);
+  const level = required(obj, 'level', where, isPositiveInt, 'a positive integer');
+  const map = maps.find((m) => m.level === level);
+
+  const config: LevelConfig = {
+    level,
+    name: required(obj, 'name', where, isNonEmptyString, 'a non-empty string'),
+    theme: optional(obj, 'theme', where, isString, 'a string') ?? 'custom',
+    startingCredits: required(obj, 'startingCredits', where, isNumber, 'a number'),
+    passiveIncomeRate: required(obj, 'passiveIncomeRate', where, isNumber, 'a number'),
+    lives: required(obj, 'lives', where, isNumber, 'a number'),
+    buildSlots: map ? findTiles(map.grid, TileType.BuildSlot).length : 0,
+    hpScale: required(obj, 'hpScale', where, isNumber, 'a number'),
+    segments: [],
+  };
+
+  if (obj.waves !== undefined) {
+    config.waves = expectArray(obj.waves, `${where}.waves`).map((w, i) => parseWave(w, `${where}.waves[${i}]`));
+  }
+  if (obj.segments !== undefined || !config.waves) {
+    config.segments = expectArray(obj.segments, `${where}.segments`).map((s, i) =>
+      parseSegment(s, `${where}.segments[${i}]`),
+    );
+  }
+  if (obj.boss !== undefined) {
+    config.boss = parseBoss(obj.boss, `${where}.boss`);
+  }
+  return config;
+}
+
+function parseBoss(raw: unknown, where: string): BossSpawn {
+  const obj = expectObject(raw, where);
+  const boss: BossSpawn = { enemyKey: required(obj, 'enemyKey', where, isString, 'a string') };
+  for (const key of ['delay', 'hpScale'] as const) {
+    const value = optional(obj, key, where, isNumber, 'a number');
+    if (value !== undefined) boss[key] = value;
+  }
+  const path = optional(obj, 'path', where, isString, 'a string');
+  if (path !== undefined) boss.path = path;
+  return boss;
+}
+
+function parseWave(raw: unknown, where: string): WaveConfig {
+  const obj = expectObject(raw, where);
+  const wave: WaveConfig = {
+    name: required(obj, 'name', where, isString, 'a string'),
+    segments: expectArray(obj.segments, `${where}.segments`).map((s, i) => parseSegment(s, `${where}.segments[${i}]`)),
+  };
+  const buildTime = optional(obj, 'buildTime', where, isNumber, 'a number');
+  if (buildTime !== undefined) wave.buildTime = buildTime;
+  return wave;
+}
+
+function parseSegment(raw: unknown, where: string): WaveSegment {
+  const obj = expectObject(raw, where);
+  const segment: WaveSegment = {
+    count: required(obj, 'count', where, isNumber, 'a number'),
+    spawnInterval: required(obj, 'spawnInterval', where, isNumber, 'a number'),
+  };
+
+  const enemyKey = optional(obj, 'enemyKey', where, isString, 'a string');
+  if (enemyKey !== undefined) segment.enemyKey = enemyKey;
+  if (obj.mix !== undefined) {
+    segment.mix = expectArray(obj.mix, `${where}.mix`).map((m, i): EnemyMixEntry => {
+      const entry = expectObject(m, `${where}.mix[${i}]`);
+      return {
+        enemyKey: required(entry, 'enemyKey', `${where}.mix[${i}]`, isString, 'a string'),
+        weight: required(entry, 'weight', `${where}.mix[${i}]`, isNumber, 'a number'),
+      };
+    });
+  }
+  for (const key of ['startOffset', 'hpScale', 'speedScale'] as const) {
+    const value = optional(obj, key, where, isNumber, 'a number');
+    if (value !== undefined) segment[key] = value;
+  }
+  const path = optional(obj, 'path', where, isString, 'a string');
+  if (path !== undefined) segment.path = path;
+  return segment;
+}
+
+/**
+ * Parse an optional `{ key: override }` record. Keys must name an existing
+ * enemy / tower. Returns undefined when the section is absent.
+ */
+function parseOverrides<T>(
+  raw: unknown,
+  where: string,
+  defaults: Record<string, unknown>,
+  parseOne: (raw: unknown, where: string) => T,
+): Record<string, T> | undefined {
+  if (raw === undefined) return undefined;
+  const obj = expectObject(raw, where);
+  const overrides: Record<string, T> = {};
+  for (const [key, value] of Object.entries(obj)) {
+    if (!(key in defaults)) throw new Error(`Invalid level pack: ${where} names unknown key "${key}"`);
+    overrides[key] = parseOne(value, `${where}.${key}`);
+  }
+  return overrides;
+}
+
+function parseEnemyOverride(raw: unknown, where: string): EnemyOverride {
+  const obj = expectObject(raw, where);
+  const override: EnemyOverride = {};
+  for (const key of ['name', 'description'] as const) {
+    const value = optional(obj, key, where, isString, 'a string');
+    if (value !== undefined) override[key] = value;
+  }
+  // An enemy without HP or speed could never die or never reach the base
+  for (const key of ['baseHp', 'speed'] as const) {
+    const value = optional(obj, key, where, isPositive, 'a positive number');
+    if (value !== undefined) override[key] = value;
+  }
+  for (const key of ['reward', 'armor'] as const) {
+    const value = optional(obj, key, where, isNonNegative, 'a non-negative number');
+    if (value !== undefined) override[key] = value;
+  }
+  return override;
+}
+
+/** Numeric tower tier stats a pack may override (status effects cannot be). */
+const TIER_STATS = [
+  'damage',
+  'range',
+  'fireRate',
+  'splashRadius',
+  'armorPiercing',
+  'detectionRadius',
+  'incomeBonus',
+] as const;
+type TierStat = (typeof TIER_STATS)[number];
+
+/** Tier stats that must be positive: a tower without range or fire rate never fires. */
+const POSITIVE_TIER_STATS: readonly TierStat[] = ['range', 'fireRate'];
+
+function parseTowerOverride(raw: unknown, where: string): TowerOverride {
+  const obj = expectObject(raw, where);
+  const override: TowerOverride = {};
+  for (const key of ['name', 'description'] as const) {
+    const value = optional(obj, key, where, isString, 'a string');
+    if (value !== undefined) override[key] = value;
+  }
+  for (const key of ['baseCost', 'projectileSpeed'] as const) {
+    const value = optional(obj, key, where, isNonNegative, 'a non-negative number');
+    if (value !== undefined) override[key] = value;
+  }
+  // A refund above the cost would let the player build and sell for endless credits
+  const sellRefundRate = optional(obj, 'sellRefundRate', where, isFraction, 'a number from 0 to 1');
+  if (sellRefundRate !== undefined) override.sellRefundRate = sellRefundRate;
+  if (obj.upgradeCosts !== undefined) {
+    const costs = expectArray(obj.upgradeCosts, `${where}.upgradeCosts`);
+    if (costs.length !== 2 || !costs.every(isNonNegative)) {
+      throw new Error(`Invalid level pack: ${where}.upgradeCosts must be two non-negative numbers`);
+    }
+    override.upgradeCosts = [costs[0], costs[1]];
+  }
+  if (obj.tiers !== undefined) {
+    const tiers = expectArray(obj.tiers, `${where}.tiers`);
+    if (tiers.length > 3) throw new Error(`Invalid level pack: ${where}.tiers has more than 3 entries`);
+    override.tiers = tiers.map((t, i) => {
+      const tier = expectObject(t, `${where}.tiers[${i}]`);
+      const parsed: Partial<TowerTier> = {};
+      for (const [key, value] of Object.entries(tier)) {
+        if (!TIER_STATS.includes(key as TierStat)) {
+          throw new Error(`Invalid level pack: ${where}.tiers[${i}].${key} is not a tier stat a pack can override`);
+        }
+        if (POSITIVE_TIER_STATS.includes(key as TierStat)) {
+          if (!isPositive(value)) {
+            throw new Error(`Invalid level pack: ${where}.tiers[${i}].${key} must be a positive number`);
+          }
+        } else if (!isNonNegative(value)) {
+          throw new Error(`Invalid level pack: ${where}.tiers[${i}].${key} must be a non-negative number`);
+        }
+        parsed[key as TierStat] = value;
+      }
+      return parsed;
+    });
+  }
+  return override;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function required<T>(
+  obj: Record<string, unknown>,
+  key: string,
+  where: string,
+  check: (value: unknown) => value is T,
+  expected: string,
+): T {
+  const value = obj[key];
+  if (!check(value)) throw new Error(`Invalid level pack: ${where}.${key} must be ${expected}`);
+  return value;
+}
+
+function optional<T>(
+  obj: Record<string, unknown>,
+  key: string,
+  where: string,
+  check: (value: unknown) => value is T,
+  expected: string,
+): T | undefined {
+  return obj[key] === undefined ? undefined : required(obj, key, where, check, expected);
+}
+
+function expectObject(value: unknown, where: string): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error(`Invalid level pack: ${where} must be an object`);
+  }
+  return value as Record<string, unknown>;
+}
+
+function expectArray(value: unknown, where: string): unknown[] {
+  if (!Array.isArray(value)) throw new Error(`Invalid level pack: ${where} must be an array`);
+  return value;
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === 'string';
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isNonNegative(value: unknown): value is number {
+  return isNumber(value) && value >= 0;
+}
+
+function isPositive(value: unknown): value is number {
+  return isNumber(value) && value > 0;
+}
+
+function isFraction(value: unknown): value is number {
+  return isNonNegative(value) && value <= 1;
+}
+
+function isInt(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value);
+}
+
+function isPositiveInt(value: unknown): value is number {
+  return isInt(value) && value >= 1;
+}
@@ -1,7 +1,39 @@
-export interface WaveSegment {
+/** One entry of a segment's weighted enemy mix. */
+export interface EnemyMixEntry {
   enemyKey: string;
+  weight: number; // relative chance of being picked for each spawn
+}
+
+export interface WaveSegment {
+  enemyKey?: string; // single enemy type (required unless `mix` is set)
+  mix?: EnemyMixEntry[]; // weighted random enemy type per spawn; takes precedence over `enemyKey`
   count: number;
   spawnInterval: number; // seconds between spawns
+  startOffset?: number; // seconds after the level (or wave) starts; runs concurrently with other segments
+  hpScale?: number; // replaces the level hpScale for enemies from this segment
+  speedScale?: number; // multiplier on enemy base speed
+  path?: string; // map path (spawn) to start on; defaults to a random entry path
+}
+
+/**
+ * A discrete wave: its segments spawn in parallel, and the wave ends once
+ * all of them are exhausted and the field is clear.
+ */
+export interface WaveConfig {
+  name: string;
+  segments: WaveSegment[]; // spawned in parallel
+  buildTime?: number; // seconds of build phase before this wave (default DEFAULT_BUILD_TIME)
+}
+
+/**
+ * A boss that arrives at the end of a level: after the last trickle segment
+ * has spawned or, in wave mode, after the final wave's segments have.
+ */
+export interface BossSpawn {
+  enemyKey: string;
+  delay?: number; // seconds after the last segment is exhausted (default DEFAULT_BOSS_DELAY)
+  hpScale?: number; // replaces the level hpScale for the boss
+  path?: string; // map path (spawn) to start on; defaults to a random entry path
 }
 
 export interface LevelConfig {
@@ -13,9 +45,32 @@ export interface LevelConfig {
   lives: number;
   buildSlots: number;
   segments: WaveSegment[]; // continuous trickle segments played in sequence
+  waves?: WaveConfig[]; // when set, the level plays in wave mode and `segments` is ignored
+  boss?: BossSpawn; // spawned once every segment has been spawned
   hpScale: number; // multiplier on enemy base HP for this level
 }
 
+/** Default build phase length before each wave (seconds). */
+export const DEFAULT_BUILD_TIME = 15;
+
+/** Credits paid per second of build phase skipped by calling a wave early. */
+export const EARLY_WAVE_BONUS_PER_SECOND = 2;
+
+/** Default pause between the last segment and the boss (seconds). */
+export const DEFAULT_BOSS_DELAY = 5;
+
+/**
+ * Total number of enemies a level spawns (excluding split children and
+ * boss minions), in either trickle or wave mode, including its boss.
+ */
+export function getLevelEnemyCount(levelConfig: LevelConfig): number {
+  const segments = levelConfig.waves
+    ? levelConfig.waves.flatMap((wave) => wave.segments)
+    : levelConfig.segments;
+  const boss = levelConfig.boss ? 1 : 0;
+  return segments.reduce((sum, seg) => sum + seg.count, boss);
+}
+
 export const LEVELS: LevelConfig[] = [
   {
     level: 1,
@@ -77,7 +132,9 @@ export const LEVELS: LevelConfig[] = [
       { enemyKey: 'drone', count: 16, spawnInterval: 1.5 },
       { enemyKey: 'shielded', count: 10, spawnInterval: 3.0 },
       { enemyKey: 'skitter', count: 20, spawnInterval: 1.0 },
+      { enemyKey: 'mender', count: 6, spawnInterval: 3.0 },
       { enemyKey: 'brute', count: 8, spawnInterval: 3.5 },
+      { enemyKey: 'burrower', count: 8, spawnInterval: 2.5 },
       { enemyKey: 'shielded', count: 16, spawnInterval: 2.5 },
       { enemyKey: 'drone', count: 30, spawnInterval: 1.0 },
     ],
@@ -97,10 +154,13 @@ export const LEVELS: LevelConfig[] = [
       { enemyKey: 'brute', count: 10, spawnInterval: 3.0 },
       { enemyKey: 'shielded', count: 12, spawnInterval: 2.5 },
       { enemyKey: 'swarm', count: 16, spawnInterval: 3.0 },
+      { enemyKey: 'skyray', count: 12, spawnInterval: 1.5 },
+      { enemyKey: 'phantom', count: 6, spawnInterval: 2.5 },
       { enemyKey: 'brute', count: 8, spawnInterval: 2.5 },
       { enemyKey: 'shielded', count: 10, spawnInterval: 2.0 },
       { enemyKey: 'swarm', count: 12, spawnInterval: 2.5 },
       { enemyKey: 'drone', count: 40, spawnInterval: 0.8 },
     ],
+    boss: { enemyKey: 'mothership', delay: 8 },
   },
 ];
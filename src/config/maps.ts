@@ -9,6 +9,9 @@
  *   2 = build slot (where towers can be placed)
  *   3 = spawn point (where enemies enter)
  *   4 = base/goal (what enemies are trying to reach)
+ *
+ * Waypoints are derived from the grid by `extractPathPoints()`, so the path
+ * only needs to be drawn once, as tiles.
  */
 
 export const TILE_SIZE = 64;
@@ -28,11 +31,46 @@ export interface MapPoint {
   y: number;
 }
 
+/** A possible continuation at the end of a path. */
+export interface PathBranch {
+  path: string; // name of the path to continue on
+  weight?: number; // relative chance of taking this branch (default 1)
+}
+
+/**
+ * A named stretch of path. Paths that no other path continues into are
+ * entry paths and should start on a spawn tile. A path with several `next`
+ * branches forks; several paths continuing into the same one merge. A path
+ * without `next` ends at a base.
+ */
+export interface MapPathConfig {
+  name: string;
+  points: MapPoint[]; // tile coordinates
+  next?: PathBranch[];
+}
+
 export interface MapConfig {
   level: number;
   name: string;
   grid: number[][];
-  pathPoints: MapPoint[];
+  pathPoints: MapPoint[]; // single spawn-to-base route (see extractPathPoints); ignored when `paths` is set
+  paths?: MapPathConfig[]; // named paths for multiple spawns and branching routes
+}
+
+/** Name given to the single route of a map that only defines `pathPoints`. */
+export const MAIN_PATH = 'main';
+
+/** A map path converted to world coordinates. */
+export interface WorldPath {
+  name: string;
+  points: MapPoint[];
+  next: PathBranch[];
+}
+
+/** All paths of a map in world coordinates, plus the names of its entry paths. */
+export interface PathGraph {
+  paths: Record<string, WorldPath>;
+  entries: string[];
 }
 
 // ---------------------------------------------------------------------------
@@ -56,51 +94,6 @@ const level1Grid: number[][] = [
   [ 0, 0, 0, 0, 0, 2, 0, 0, 0, 0, 2, 0, 0, 0, 0, 0 ], // row 11
 ];
 
-const level1Path: MapPoint[] = [
-  { x: 0, y: 1 },
-  { x: 1, y: 1 },
-  { x: 2, y: 1 },
-  { x: 3, y: 1 },
-  { x: 4, y: 1 },
-  { x: 5, y: 1 },
-  { x: 6, y: 1 },
-  { x: 6, y: 2 },
-  { x: 6, y: 3 },
-  { x: 6, y: 4 },
-  { x: 7, y: 4 },
-  { x: 8, y: 4 },
-  { x: 9, y: 4 },
-  { x: 10, y: 4 },
-  { x: 11, y: 4 },
-  { x: 12, y: 4 },
-  { x: 12, y: 5 },
-  { x: 12, y: 6 },
-  { x: 12, y: 7 },
-  { x: 11, y: 7 },
-  { x: 10, y: 7 },
-  { x: 9, y: 7 },
-  { x: 8, y: 7 },
-  { x: 7, y: 7 },
-  { x: 6, y: 7 },
-  { x: 5, y: 7 },
-  { x: 4, y: 7 },
-  { x: 3, y: 7 },
-  { x: 3, y: 8 },
-  { x: 3, y: 9 },
-  { x: 3, y: 10 },
-  { x: 4, y: 10 },
-  { x: 5, y: 10 },
-  { x: 6, y: 10 },
-  { x: 7, y: 10 },
-  { x: 8, y: 10 },
-  { x: 9, y: 10 },
-  { x: 10, y: 10 },
-  { x: 11, y: 10 },
-  { x: 12, y: 10 },
-  { x: 13, y: 10 },
-  { x: 14, y: 10 },
-  { x: 15, y: 10 },
-];
 
 // ---------------------------------------------------------------------------
 // Level 2 -- Coastal Base
@@ -123,48 +116,6 @@ const level2Grid: number[][] = [
   [ 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 2, 0, 0 ], // row 11
 ];
 
-const level2Path: MapPoint[] = [
-  { x: 3, y: 1 },
-  { x: 4, y: 1 },
-  { x: 5, y: 1 },
-  { x: 6, y: 1 },
-  { x: 7, y: 1 },
-  { x: 8, y: 1 },
-  { x: 9, y: 1 },
-  { x: 10, y: 1 },
-  { x: 11, y: 1 },
-  { x: 12, y: 1 },
-  { x: 12, y: 2 },
-  { x: 12, y: 3 },
-  { x: 12, y: 4 },
-  { x: 11, y: 4 },
-  { x: 10, y: 4 },
-  { x: 9, y: 4 },
-  { x: 8, y: 4 },
-  { x: 7, y: 4 },
-  { x: 6, y: 4 },
-  { x: 5, y: 4 },
-  { x: 4, y: 4 },
-  { x: 3, y: 4 },
-  { x: 3, y: 5 },
-  { x: 3, y: 6 },
-  { x: 3, y: 7 },
-  { x: 4, y: 7 },
-  { x: 5, y: 7 },
-  { x: 6, y: 7 },
-  { x: 7, y: 7 },
-  { x: 8, y: 7 },
-  { x: 9, y: 7 },
-  { x: 10, y: 7 },
-  { x: 11, y: 7 },
-  { x: 12, y: 7 },
-  { x: 12, y: 8 },
-  { x: 12, y: 9 },
-  { x: 12, y: 10 },
-  { x: 13, y: 10 },
-  { x: 14, y: 10 },
-  { x: 15, y: 10 },
-];
 
 // ---------------------------------------------------------------------------
 // Level 3 -- Mountain Pass
@@ -188,59 +139,6 @@ const level3Grid: number[][] = [
   [ 0, 0, 2, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0 ], // row 11
 ];
 
-const level3Path: MapPoint[] = [
-  { x: 0, y: 1 },
-  { x: 1, y: 1 },
-  { x: 2, y: 1 },
-  { x: 2, y: 2 },
-  { x: 2, y: 3 },
-  { x: 3, y: 3 },
-  { x: 4, y: 3 },
-  { x: 5, y: 3 },
-  { x: 6, y: 3 },
-  { x: 7, y: 3 },
-  { x: 8, y: 3 },
-  { x: 9, y: 3 },
-  { x: 10, y: 3 },
-  { x: 11, y: 3 },
-  { x: 12, y: 3 },
-  { x: 13, y: 3 },
-  { x: 14, y: 3 },
-  { x: 14, y: 4 },
-  { x: 14, y: 5 },
-  { x: 14, y: 6 },
-  { x: 14, y: 7 },
-  { x: 13, y: 7 },
-  { x: 12, y: 7 },
-  { x: 11, y: 7 },
-  { x: 10, y: 7 },
-  { x: 9, y: 7 },
-  { x: 8, y: 7 },
-  { x: 7, y: 7 },
-  { x: 6, y: 7 },
-  { x: 5, y: 7 },
-  { x: 4, y: 7 },
-  { x: 3, y: 7 },
-  { x: 2, y: 7 },
-  { x: 1, y: 7 },
-  { x: 1, y: 8 },
-  { x: 1, y: 9 },
-  { x: 1, y: 10 },
-  { x: 2, y: 10 },
-  { x: 3, y: 10 },
-  { x: 4, y: 10 },
-  { x: 5, y: 10 },
-  { x: 6, y: 10 },
-  { x: 7, y: 10 },
-  { x: 8, y: 10 },
-  { x: 9, y: 10 },
-  { x: 10, y: 10 },
-  { x: 11, y: 10 },
-  { x: 12, y: 10 },
-  { x: 13, y: 10 },
-  { x: 14, y: 10 },
-  { x: 15, y: 10 },
-];
 
 // ---------------------------------------------------------------------------
 // Level 4 -- Urban Ruins
@@ -264,55 +162,6 @@ const level4Grid: number[][] = [
   [ 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 2, 0, 0, 2, 0 ], // row 11
 ];
 
-const level4Path: MapPoint[] = [
-  { x: 1, y: 0 },
-  { x: 2, y: 0 },
-  { x: 3, y: 0 },
-  { x: 4, y: 0 },
-  { x: 5, y: 0 },
-  { x: 6, y: 0 },
-  { x: 6, y: 1 },
-  { x: 6, y: 2 },
-  { x: 7, y: 2 },
-  { x: 8, y: 2 },
-  { x: 9, y: 2 },
-  { x: 10, y: 2 },
-  { x: 11, y: 2 },
-  { x: 12, y: 2 },
-  { x: 13, y: 2 },
-  { x: 13, y: 3 },
-  { x: 13, y: 4 },
-  { x: 12, y: 4 },
-  { x: 11, y: 4 },
-  { x: 10, y: 4 },
-  { x: 9, y: 4 },
-  { x: 8, y: 4 },
-  { x: 7, y: 4 },
-  { x: 6, y: 4 },
-  { x: 5, y: 4 },
-  { x: 4, y: 4 },
-  { x: 3, y: 4 },
-  { x: 2, y: 4 },
-  { x: 2, y: 5 },
-  { x: 2, y: 6 },
-  { x: 2, y: 7 },
-  { x: 3, y: 7 },
-  { x: 4, y: 7 },
-  { x: 5, y: 7 },
-  { x: 6, y: 7 },
-  { x: 7, y: 7 },
-  { x: 8, y: 7 },
-  { x: 9, y: 7 },
-  { x: 9, y: 8 },
-  { x: 9, y: 9 },
-  { x: 10, y: 9 },
-  { x: 11, y: 9 },
-  { x: 12, y: 9 },
-  { x: 12, y: 10 },
-  { x: 13, y: 10 },
-  { x: 14, y: 10 },
-  { x: 15, y: 10 },
-];
 
 // ---------------------------------------------------------------------------
 // Level 5 -- Mothership Approach
@@ -335,55 +184,6 @@ const level5Grid: number[][] = [
   [ 0, 0, 0, 0, 0, 0, 2, 4, 0, 2, 0, 0, 0, 0, 0, 0 ], // row 11
 ];
 
-const level5Path: MapPoint[] = [
-  { x: 1, y: 1 },
-  { x: 2, y: 1 },
-  { x: 3, y: 1 },
-  { x: 4, y: 1 },
-  { x: 5, y: 1 },
-  { x: 6, y: 1 },
-  { x: 7, y: 1 },
-  { x: 8, y: 1 },
-  { x: 9, y: 1 },
-  { x: 10, y: 1 },
-  { x: 11, y: 1 },
-  { x: 12, y: 1 },
-  { x: 13, y: 1 },
-  { x: 13, y: 2 },
-  { x: 13, y: 3 },
-  { x: 13, y: 4 },
-  { x: 12, y: 4 },
-  { x: 11, y: 4 },
-  { x: 10, y: 4 },
-  { x: 9, y: 4 },
-  { x: 8, y: 4 },
-  { x: 7, y: 4 },
-  { x: 6, y: 4 },
-  { x: 5, y: 4 },
-  { x: 4, y: 4 },
-  { x: 3, y: 4 },
-  { x: 2, y: 4 },
-  { x: 2, y: 5 },
-  { x: 2, y: 6 },
-  { x: 2, y: 7 },
-  { x: 3, y: 7 },
-  { x: 4, y: 7 },
-  { x: 5, y: 7 },
-  { x: 6, y: 7 },
-  { x: 7, y: 7 },
-  { x: 8, y: 7 },
-  { x: 9, y: 7 },
-  { x: 10, y: 7 },
-  { x: 11, y: 7 },
-  { x: 11, y: 8 },
-  { x: 11, y: 9 },
-  { x: 11, y: 10 },
-  { x: 10, y: 10 },
-  { x: 9, y: 10 },
-  { x: 8, y: 10 },
-  { x: 7, y: 10 },
-  { x: 7, y: 11 },
-];
 
 // ---------------------------------------------------------------------------
 // Exported map configurations
@@ -393,31 +193,31 @@ export const MAPS: MapConfig[] = [
     level: 1,
     name: 'Desert Outpost',
     grid: level1Grid,
-    pathPoints: level1Path,
+    pathPoints: extractPathPoints(level1Grid, 'Desert Outpost'),
   },
   {
     level: 2,
     name: 'Coastal Base',
     grid: level2Grid,
-    pathPoints: level2Path,
+    pathPoints: extractPathPoints(level2Grid, 'Coastal Base'),
   },
   {
     level: 3,
     name: 'Mountain Pass',
     grid: level3Grid,
-    pathPoints: level3Path,
+    pathPoints: extractPathPoints(level3Grid, 'Mountain Pass'),
   },
   {
     level: 4,
     name: 'Urban Ruins',
     grid: level4Grid,
-    pathPoints: level4Path,
+    pathPoints: extractPathPoints(level4Grid, 'Urban Ruins'),
   },
   {
     level: 5,
     name: 'Mothership Approach',
     grid: level5Grid,
-    pathPoints: level5Path,
+    pathPoints: extractPathPoints(level5Grid, 'Mothership Approach'),
   },
 ];
 
@@ -428,3 +228,176 @@ export const MAPS: MapConfig[] = [
 export function getMapByLevel(level: number): MapConfig {
   return MAPS.find((m) => m.level === level) ?? MAPS[0];
 }
+
+/**
+ * Convert a map's tile-coordinate path points into world-coordinate
+ * waypoints (centre of each tile).
+ */
+export function getWorldPathPoints(map: MapConfig): MapPoint[] {
+  return map.pathPoints.map(tileToWorld);
+}
+
+/**
+ * Build the world-coordinate path graph of a map. Maps without `paths`
+ * produce a single entry path named MAIN_PATH.
+ *
+ * Throws if a branch names an unknown path, a path is empty, the paths
+ * loop back on themselves, or there is no entry path.
+ */
+export function getPathGraph(map: MapConfig): PathGraph {
+  const configs: MapPathConfig[] = map.paths ?? [{ name: MAIN_PATH, points: map.pathPoints }];
+
+  const paths: Record<string, WorldPath> = {};
+  for (const config of configs) {
+    if (paths[config.name]) {
+      throw new Error(`Map "${map.name}": duplicate path name "${config.name}"`);
+    }
+    if (config.points.length === 0) {
+      throw new Error(`Map "${map.name}": path "${config.name}" has no points`);
+    }
+    paths[config.name] = {
+      name: config.name,
+      points: config.points.map(tileToWorld),
+      next: config.next ? [...config.next] : [],
+    };
+  }
+
+  const continued = new Set<string>();
+  for (const path of Object.values(paths)) {
+    for (const branch of path.next) {
+      if (!paths[branch.path]) {
+        throw new Error(`Map "${map.name}": path "${path.name}" branches to unknown path "${branch.path}"`);
+      }
+      continued.add(branch.path);
+    }
+  }
+
+  const entries = configs.map((c) => c.name).filter((name) => !continued.has(name));
+  if (entries.length === 0) {
+    throw new Error(`Map "${map.name}": no entry path (every path is continued from another)`);
+  }
+
+  // Depth-first walk from every path to catch loops.
+  const done = new Set<string>();
+  const visit = (name: string, trail: string[]): void => {
+    if (trail.includes(name)) {
+      throw new Error(`Map "${map.name}": paths loop back on themselves (${[...trail, name].join(' -> ')})`);
+    }
+    if (done.has(name)) return;
+    for (const branch of paths[name].next) visit(branch.path, [...trail, name]);
+    done.add(name);
+  };
+  for (const name of Object.keys(paths)) visit(name, []);
+
+  return { paths, entries };
+}
+
+/**
+ * Tile coordinates of every tile of the given type, in row-major order.
+ */
+export function findTiles(grid: number[][], type: TileType): MapPoint[] {
+  const tiles: MapPoint[] = [];
+  grid.forEach((row, y) =>
+    row.forEach((tile, x) => {
+      if (tile === type) tiles.push({ x, y });
+    }),
+  );
+  return tiles;
+}
+
+/**
+ * Tile coordinates of every tile enemies walk on (Path, Spawn and Base)
+ * whose centre lies within `range` pixels of the world point (x, y), in
+ * row-major order. Used to preview how much of the route a tower covers.
+ */
+export function findPathTilesInRange(grid: number[][], x: number, y: number, range: number): MapPoint[] {
+  const walkable = [TileType.Path, TileType.Spawn, TileType.Base];
+  const tiles: MapPoint[] = [];
+  grid.forEach((row, tileY) =>
+    row.forEach((tile, tileX) => {
+      if (!walkable.includes(tile)) return;
+      const dx = tileX * TILE_SIZE + TILE_SIZE / 2 - x;
+      const dy = tileY * TILE_SIZE + TILE_SIZE / 2 - y;
+      if (dx * dx + dy * dy <= range * range) tiles.push({ x: tileX, y: tileY });
+    }),
+  );
+  return tiles;
+}
+
+/**
+ * Derive a map's waypoints from its grid: walk from the Spawn tile through
+ * Path tiles to the Base tile, keeping only the endpoints and the corners
+ * where the direction changes.
+ *
+ * Throws a descriptive error when there is not exactly one Spawn and one
+ * Base, when the walk dead-ends, when a tile offers more than one way
+ * forward, or when Path tiles are left off the route.
+ */
+export function extractPathPoints(grid: number[][], mapName: string = 'map'): MapPoint[] {
+  const fail = (message: string): never => {
+    throw new Error(`Map "${mapName}": ${message}`);
+  };
+  const tileAt = (x: number, y: number): number | undefined => grid[y]?.[x];
+  const describe = (p: MapPoint) => `(${p.x}, ${p.y})`;
+
+  const spawns = findTiles(grid, TileType.Spawn);
+  const bases = findTiles(grid, TileType.Base);
+  if (spawns.length !== 1) fail(`expected exactly one Spawn tile, found ${spawns.length}`);
+  if (bases.length !== 1) fail(`expected exactly one Base tile, found ${bases.length}`);
+
+  const directions = [
+    { x: 1, y: 0 },
+    { x: -1, y: 0 },
+    { x: 0, y: 1 },
+    { x: 0, y: -1 },
+  ];
+
+  const visited = new Set<string>();
+  const key = (p: MapPoint) => `${p.x},${p.y}`;
+  const tiles: MapPoint[] = [spawns[0]];
+  visited.add(key(spawns[0]));
+
+  let current = spawns[0];
+  while (tileAt(current.x, current.y) !== TileType.Base) {
+    const options = directions
+      .map((d) => ({ x: current.x + d.x, y: current.y + d.y }))
+      .filter((p) => !visited.has(key(p)))
+      .filter((p) => tileAt(p.x, p.y) === TileType.Path || tileAt(p.x, p.y) === TileType.Base);
+
+    if (options.length === 0) {
+      fail(`path is broken at ${describe(current)}: no Path or Base tile continues from it`);
+    }
+    if (options.length > 1) {
+      fail(`path is ambiguous at ${describe(current)}: it continues to ${options.map(describe).join(' and ')}`);
+    }
+
+    current = options[0];
+    visited.add(key(current));
+    tiles.push(current);
+  }
+
+  const stray = findTiles(grid, TileType.Path).filter((p) => !visited.has(key(p)));
+  if (stray.length > 0) {
+    fail(`Path tile ${describe(stray[0])} is not on the route from Spawn to Base`);
+  }
+
+  return collapseStraightRuns(tiles);
+}
+
+/** Drop every point that lies on a straight line between its neighbours. */
+function collapseStraightRuns(points: MapPoint[]): MapPoint[] {
+  return points.filter((p, i) => {
+    if (i === 0 || i === points.length - 1) return true;
+    const prev = points[i - 1];
+    const next = points[i + 1];
+    return p.x - prev.x !== next.x - p.x || p.y - prev.y !== next.y - p.y;
+  });
+}
+
+/** World-coordinate centre of a tile. */
+function tileToWorld(p: MapPoint): MapPoint {
+  return {
+    x: p.x * TILE_SIZE + TILE_SIZE / 2,
+    y: p.y * TILE_SIZE + TILE_SIZE / 2,
+  };
+}
@@ -0,0 +1,68 @@
+/**
+ * Status effects -- timed conditions that towers (and later enemy
+ * abilities) put on enemies. The simulation side lives in
+ * `sim/StatusEffects.ts`; this file holds the data a tower tier declares.
+ *
+ * Kinds and what `magnitude` means for each:
+ *   slow        -- fraction of speed removed (0.5 = half speed)
+ *   burn        -- damage per second
+ *   poison      -- damage per second, per stack
+ *   stun        -- unused; the enemy stops moving for the duration
+ *   armor-shred -- armor removed, per stack
+ *
+ * Burn and poison damage goes straight to HP, past shields and armor.
+ */
+export type StatusEffectKind = 'slow' | 'burn' | 'poison' | 'stun' | 'armor-shred';
+
+export const STATUS_EFFECT_KINDS: readonly StatusEffectKind[] = ['slow', 'burn', 'poison', 'stun', 'armor-shred'];
+
+/**
+ * How a fresh application combines with an effect of the same kind that is
+ * already active:
+ *   strongest -- keep the larger magnitude and the longer remaining time
+ *   stack     -- add a stack (up to `maxStacks`) and restart the timer
+ */
+export type StackingRule = 'strongest' | 'stack';
+
+/** One effect a tower tier applies on every hit. */
+export interface StatusEffectConfig {
+  kind: StatusEffectKind;
+  magnitude: number;
+  duration: number; // seconds
+  maxStacks?: number; // stacking kinds only; defaults to DEFAULT_MAX_STACKS
+}
+
+/** Fixed behaviour of each kind. */
+export interface StatusEffectRule {
+  stacking: StackingRule;
+  label: string;
+  color: number; // marker color on the enemy view
+}
+
+export const STATUS_EFFECT_RULES: Record<StatusEffectKind, StatusEffectRule> = {
+  slow: { stacking: 'strongest', label: 'Slow', color: 0x44ccff },
+  burn: { stacking: 'strongest', label: 'Burn', color: 0xff8833 },
+  poison: { stacking: 'stack', label: 'Poison', color: 0x66ff44 },
+  stun: { stacking: 'strongest', label: 'Stun', color: 0xffff66 },
+  'armor-shred': { stacking: 'stack', label: 'Shred', color: 0xcc88ff },
+};
+
+export const DEFAULT_MAX_STACKS = 5;
+
+/** Short description for the tower info panel, e.g. "Slow: 50% for 2s". */
+export function describeStatusEffect(effect: StatusEffectConfig): string {
+  const { kind, magnitude, duration } = effect;
+  const label = STATUS_EFFECT_RULES[kind].label;
+  const stacks = STATUS_EFFECT_RULES[kind].stacking === 'stack' ? ` x${effect.maxStacks ?? DEFAULT_MAX_STACKS}` : '';
+  switch (kind) {
+    case 'slow':
+      return `${label}: ${Math.round(magnitude * 100)}% for ${duration}s`;
+    case 'burn':
+    case 'poison':
+      return `${label}: ${magnitude}/s for ${duration}s${stacks}`;
+    case 'stun':
+      return `${label}: ${duration}s`;
+    case 'armor-shred':
+      return `${label}: -${magnitude} armor${stacks}`;
+  }
+}
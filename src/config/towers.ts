@@ -1,10 +1,61 @@
+import type { DamageType } from './damage';
+import type { StatusEffectConfig } from './statusEffects';
+
+/**
+ * Buff a support tower gives every attacking tower within `radius` tiles
+ * (centre to centre). Bonuses are fractions of the buffed tower's own stat
+ * (0.2 = +20%). Auras from several support towers do not add up: each
+ * stat takes the strongest bonus on offer.
+ */
+export interface TowerAura {
+  radius: number; // tiles
+  damage?: number;
+  range?: number;
+  fireRate?: number;
+}
+
+/**
+ * Continuous beam. A tier with a beam locks onto one enemy and deals its
+ * `damage` per second for as long as the enemy stays in range. Holding the
+ * same target ramps the damage up by `rampRate` (fraction per second) to at
+ * most `maxRamp` extra; switching targets starts over.
+ */
+export interface BeamConfig {
+  rampRate?: number;
+  maxRamp?: number;
+}
+
+/** Aura bonuses in display order, with their info panel labels. */
+export const AURA_STATS = [
+  ['damage', 'DMG'],
+  ['range', 'RNG'],
+  ['fireRate', 'ROF'],
+] as const;
+
 export interface TowerTier {
   damage: number;
   range: number;
   fireRate: number; // shots per second
   splashRadius?: number;
-  slowFactor?: number;
-  slowDuration?: number;
+  effects?: StatusEffectConfig[]; // applied to every enemy hit
+  armorPiercing?: number; // ignores up to this much enemy armor
+  detectionRadius?: number; // cloaked enemies this close can be targeted by any tower in range of them
+  targets?: number; // projectile towers: enemies fired at per shot (default 1)
+  beam?: BeamConfig; // attack with a beam instead; `damage` is then per second
+  aura?: TowerAura; // support towers: buff for nearby towers
+  incomeBonus?: number; // support towers: credits per second added to passive income
+}
+
+/**
+ * A tier-3 branch. Upgrading from tier 2 means picking one of the tower's
+ * two specializations; its `stats` are applied on top of the tower's third
+ * tier, so a branch only lists what it changes.
+ */
+export interface TowerSpecialization {
+  key: string;
+  name: string;
+  description: string;
+  stats: Partial<TowerTier>;
 }
 
 export interface TowerConfig {
@@ -15,7 +66,11 @@ export interface TowerConfig {
   upgradeCosts: [number, number]; // tier 2, tier 3
   sellRefundRate: number;
   tiers: [TowerTier, TowerTier, TowerTier];
+  specializations?: [TowerSpecialization, TowerSpecialization]; // tier-3 branches
   projectileSpeed: number;
+  damageType: DamageType;
+  groundOnly?: boolean; // cannot hit flying enemies
+  support?: boolean; // never attacks; helps through its aura or income instead
   color: string; // placeholder color until sprites
 }
 
@@ -28,12 +83,27 @@ export const TOWERS: Record<string, TowerConfig> = {
     upgradeCosts: [75, 100],
     sellRefundRate: 0.5,
     projectileSpeed: 600,
+    damageType: 'energy',
     color: '#00ff88',
     tiers: [
       { damage: 8, range: 120, fireRate: 4 },
       { damage: 12, range: 140, fireRate: 5 },
       { damage: 18, range: 160, fireRate: 6 },
     ],
+    specializations: [
+      {
+        key: 'beam',
+        name: 'Beam Laser',
+        description: 'Continuous beam that burns hotter the longer it holds a target.',
+        stats: { damage: 80, armorPiercing: 2, beam: { rampRate: 0.5, maxRamp: 1 } },
+      },
+      {
+        key: 'scatter',
+        name: 'Scatter Laser',
+        description: 'Splits every shot between up to three enemies.',
+        stats: { damage: 14, targets: 3 },
+      },
+    ],
   },
   missile: {
     key: 'missile',
@@ -43,12 +113,27 @@ export const TOWERS: Record<string, TowerConfig> = {
     upgradeCosts: [112, 150],
     sellRefundRate: 0.5,
     projectileSpeed: 300,
+    damageType: 'explosive',
     color: '#ff6644',
     tiers: [
       { damage: 30, range: 140, fireRate: 0.8, splashRadius: 50 },
       { damage: 45, range: 160, fireRate: 1.0, splashRadius: 60 },
       { damage: 65, range: 180, fireRate: 1.2, splashRadius: 75 },
     ],
+    specializations: [
+      {
+        key: 'cluster',
+        name: 'Cluster Battery',
+        description: 'Launches a smaller warhead at each of up to three enemies.',
+        stats: { damage: 40, splashRadius: 55, targets: 3 },
+      },
+      {
+        key: 'nuke',
+        name: 'Nuke Silo',
+        description: 'One slow, enormous warhead with a huge blast.',
+        stats: { damage: 160, range: 200, fireRate: 0.5, splashRadius: 130 },
+      },
+    ],
   },
   cryo: {
     key: 'cryo',
@@ -58,11 +143,32 @@ export const TOWERS: Record<string, TowerConfig> = {
     upgradeCosts: [90, 120],
     sellRefundRate: 0.5,
     projectileSpeed: 0, // area effect, no projectile
+    damageType: 'cryo',
     color: '#44ccff',
     tiers: [
-      { damage: 3, range: 100, fireRate: 2, slowFactor: 0.5, slowDuration: 2 },
-      { damage: 5, range: 120, fireRate: 2.5, slowFactor: 0.4, slowDuration: 2.5 },
-      { damage: 8, range: 140, fireRate: 3, slowFactor: 0.3, slowDuration: 3 },
+      { damage: 3, range: 100, fireRate: 2, effects: [{ kind: 'slow', magnitude: 0.5, duration: 2 }] },
+      { damage: 5, range: 120, fireRate: 2.5, effects: [{ kind: 'slow', magnitude: 0.6, duration: 2.5 }] },
+      { damage: 8, range: 140, fireRate: 3, effects: [{ kind: 'slow', magnitude: 0.7, duration: 3 }] },
+    ],
+    specializations: [
+      {
+        key: 'glacier',
+        name: 'Glacier Emitter',
+        description: 'Deep freeze. A stronger, longer slow.',
+        stats: { effects: [{ kind: 'slow', magnitude: 0.8, duration: 4 }] },
+      },
+      {
+        key: 'shatter',
+        name: 'Shatter Emitter',
+        description: 'Brittle frost. Slows less, but cracks enemy armor.',
+        stats: {
+          damage: 12,
+          effects: [
+            { kind: 'slow', magnitude: 0.6, duration: 3 },
+            { kind: 'armor-shred', magnitude: 2, duration: 3, maxStacks: 3 },
+          ],
+        },
+      },
     ],
   },
   railgun: {
@@ -73,26 +179,168 @@ export const TOWERS: Record<string, TowerConfig> = {
     upgradeCosts: [150, 200],
     sellRefundRate: 0.5,
     projectileSpeed: 900,
+    damageType: 'kinetic',
     color: '#ffcc00',
     tiers: [
-      { damage: 60, range: 200, fireRate: 0.4 },
-      { damage: 90, range: 240, fireRate: 0.5 },
-      { damage: 130, range: 280, fireRate: 0.6 },
+      { damage: 60, range: 200, fireRate: 0.4, armorPiercing: 5 },
+      { damage: 90, range: 240, fireRate: 0.5, armorPiercing: 8 },
+      { damage: 130, range: 280, fireRate: 0.6, armorPiercing: 12 },
+    ],
+    specializations: [
+      {
+        key: 'lance',
+        name: 'Lance Driver',
+        description: 'Heavier slugs that ignore almost any armor.',
+        stats: { damage: 150, armorPiercing: 30 },
+      },
+      {
+        key: 'gauss',
+        name: 'Gauss Repeater',
+        description: 'Lighter slugs fired more than twice as fast.',
+        stats: { damage: 70, fireRate: 1.4 },
+      },
     ],
   },
   pulse: {
     key: 'pulse',
     name: 'Pulse Cannon',
-    description: 'Shockwave emitter. Hits all enemies in radius.',
+    description: 'Shockwave emitter. Hits all ground enemies in radius.',
     baseCost: 150,
     upgradeCosts: [300, 500],
     sellRefundRate: 0.5,
     projectileSpeed: 0, // area effect
+    damageType: 'energy',
+    groundOnly: true, // the shockwave runs along the ground
     color: '#cc44ff',
     tiers: [
       { damage: 15, range: 110, fireRate: 1.5, splashRadius: 110 },
       { damage: 22, range: 130, fireRate: 1.8, splashRadius: 130 },
       { damage: 32, range: 150, fireRate: 2.0, splashRadius: 150 },
     ],
+    specializations: [
+      {
+        key: 'quake',
+        name: 'Quake Cannon',
+        description: 'Shockwaves briefly stun everything they hit.',
+        stats: { effects: [{ kind: 'stun', magnitude: 0, duration: 0.4 }] },
+      },
+      {
+        key: 'overload',
+        name: 'Overload Cannon',
+        description: 'Bigger, harder shockwaves.',
+        stats: { damage: 45, range: 170, splashRadius: 170 },
+      },
+    ],
+  },
+  sensor: {
+    key: 'sensor',
+    name: 'Sensor Array',
+    description: 'Exposes cloaked enemies in its scan radius to the towers covering it. Weak pulse bolts.',
+    baseCost: 60,
+    upgradeCosts: [60, 90],
+    sellRefundRate: 0.5,
+    projectileSpeed: 700,
+    damageType: 'energy',
+    color: '#66ddff',
+    tiers: [
+      { damage: 5, range: 110, fireRate: 1, detectionRadius: 160 },
+      { damage: 7, range: 120, fireRate: 1.2, detectionRadius: 200 },
+      { damage: 10, range: 130, fireRate: 1.4, detectionRadius: 240 },
+    ],
+    specializations: [
+      {
+        key: 'scanner',
+        name: 'Deep Scanner',
+        description: 'A much wider scan radius.',
+        stats: { detectionRadius: 320 },
+      },
+      {
+        key: 'marker',
+        name: 'Target Marker',
+        description: 'Bolts shred the armor of whatever they hit.',
+        stats: { damage: 14, effects: [{ kind: 'armor-shred', magnitude: 2, duration: 4 }] },
+      },
+    ],
+  },
+  amplifier: {
+    key: 'amplifier',
+    name: 'Amplifier',
+    description: 'Support node. Boosts the damage and fire rate of adjacent towers.',
+    baseCost: 90,
+    upgradeCosts: [90, 140],
+    sellRefundRate: 0.5,
+    projectileSpeed: 0, // does not attack
+    damageType: 'energy',
+    support: true,
+    color: '#ffaa33',
+    tiers: [
+      { damage: 0, range: 0, fireRate: 0, aura: { radius: 1.5, damage: 0.1, fireRate: 0.1 } },
+      { damage: 0, range: 0, fireRate: 0, aura: { radius: 1.5, damage: 0.15, fireRate: 0.15 } },
+      { damage: 0, range: 0, fireRate: 0, aura: { radius: 2, damage: 0.2, fireRate: 0.2 } },
+    ],
+    specializations: [
+      {
+        key: 'overclock',
+        name: 'Overclock Node',
+        description: 'Drives nearby towers to fire much faster.',
+        stats: { aura: { radius: 2, fireRate: 0.35 } },
+      },
+      {
+        key: 'focus',
+        name: 'Focus Array',
+        description: 'Extends the reach and punch of nearby towers.',
+        stats: { aura: { radius: 2, damage: 0.2, range: 0.2 } },
+      },
+    ],
+  },
+  relay: {
+    key: 'relay',
+    name: 'Relay',
+    description: 'Supply relay. Adds to the passive credit income while it stands.',
+    baseCost: 80,
+    upgradeCosts: [80, 120],
+    sellRefundRate: 0.5,
+    projectileSpeed: 0, // does not attack
+    damageType: 'energy',
+    support: true,
+    color: '#ffdd66',
+    tiers: [
+      { damage: 0, range: 0, fireRate: 0, incomeBonus: 1 },
+      { damage: 0, range: 0, fireRate: 0, incomeBonus: 2 },
+      { damage: 0, range: 0, fireRate: 0, incomeBonus: 3 },
+    ],
+    specializations: [
+      {
+        key: 'trade',
+        name: 'Trade Hub',
+        description: 'Pure income.',
+        stats: { incomeBonus: 5 },
+      },
+      {
+        key: 'signal',
+        name: 'Signal Relay',
+        description: 'Keeps the tier-3 income and extends the range of adjacent towers.',
+        stats: { aura: { radius: 1.5, range: 0.15 } },
+      },
+    ],
   },
 };
+
+/**
+ * Stats a tower has at tier 3 with the given specialization: the branch's
+ * stats on top of the third tier. Throws on an unknown specialization key.
+ */
+export function getSpecializedTier(config: TowerConfig, specializationKey: string): TowerTier {
+  const specialization = config.specializations?.find((s) => s.key === specializationKey);
+  if (!specialization) {
+    throw new Error(`Tower "${config.key}" has no specialization "${specializationKey}"`);
+  }
+  return { ...config.tiers[2], ...specialization.stats };
+}
+
+/** Short summary of an aura's bonuses, e.g. "+15% DMG +15% ROF". */
+export function describeAura(aura: TowerAura): string {
+  return AURA_STATS.filter(([stat]) => (aura[stat] ?? 0) > 0)
+    .map(([stat, label]) => `+${Math.round(aura[stat]! * 100)}% ${label}`)
+    .join(' ');
+}
@@ -0,0 +1,402 @@
+import { ENEMIES, EnemyConfig } from './enemies';
+import { DAMAGE_TYPES, DamageType } from './damage';
+import { LEVELS, LevelConfig, WaveSegment } from './levels';
+import {
+  MAPS,
+  MAP_COLS,
+  MAP_ROWS,
+  MapConfig,
+  MapPoint,
+  MapPathConfig,
+  TileType,
+  findTiles,
+  getPathGraph,
+} from './maps';
+
+/**
+ * Content validation -- cross-checks MAPS, LEVELS and ENEMIES so that a
+ * typo in a config is caught by `npm run validate` (and the test suite)
+ * instead of in a running game.
+ *
+ * Every check reports a ValidationIssue rather than throwing, so one run
+ * lists every problem at once.
+ */
+
+export type ValidationSubject = 'map' | 'level' | 'enemy';
+
+export interface ValidationIssue {
+  subject: ValidationSubject;
+  id: string; // map/level number or enemy key
+  field: string; // property path inside the subject, e.g. "segments[2].enemyKey"
+  message: string;
+}
+
+export interface ValidationReport {
+  issues: ValidationIssue[];
+  mapsChecked: number;
+  levelsChecked: number;
+  enemiesChecked: number;
+}
+
+// ---------------------------------------------------------------------------
+// Whole-content validation
+// ---------------------------------------------------------------------------
+
+/**
+ * Validate every map, level and enemy, including the links between them
+ * (each level has a map, each enemy key resolves).
+ */
+export function validateContent(
+  maps: MapConfig[] = MAPS,
+  levels: LevelConfig[] = LEVELS,
+  enemies: Record<string, EnemyConfig> = ENEMIES,
+): ValidationReport {
+  const issues: ValidationIssue[] = [];
+
+  for (const [key, enemy] of Object.entries(enemies)) {
+    issues.push(...validateEnemy(key, enemy, enemies));
+  }
+
+  for (const map of maps) {
+    issues.push(...validateMap(map));
+  }
+  for (const level of duplicates(maps.map((m) => m.level))) {
+    issues.push({ subject: 'map', id: String(level), field: 'level', message: 'another map uses this level number' });
+  }
+
+  for (const level of levels) {
+    const map = maps.find((m) => m.level === level.level);
+    issues.push(...validateLevel(level, map, enemies));
+  }
+  for (const level of duplicates(levels.map((l) => l.level))) {
+    issues.push({ subject: 'level', id: String(level), field: 'level', message: 'another level uses this number' });
+  }
+
+  return {
+    issues,
+    mapsChecked: maps.length,
+    levelsChecked: levels.length,
+    enemiesChecked: Object.keys(enemies).length,
+  };
+}
+
+/**
+ * Render a report as plain text, one issue per line, ending with a summary.
+ */
+export function formatValidationReport(report: ValidationReport): string {
+  const lines = report.issues.map((issue) => `  ${issue.subject} ${issue.id} > ${issue.field}: ${issue.message}`);
+  const checked = `${report.mapsChecked} maps, ${report.levelsChecked} levels, ${report.enemiesChecked} enemies`;
+  if (lines.length === 0) {
+    return `Content OK (${checked} checked)`;
+  }
+  const noun = lines.length === 1 ? 'problem' : 'problems';
+  return [`Found ${lines.length} ${noun} in ${checked}:`, ...lines].join('\n');
+}
+
+// ---------------------------------------------------------------------------
+// Maps
+// ---------------------------------------------------------------------------
+
+/**
+ * Check a map's grid dimensions and tile values, and that every path
+ * walks tile by tile over Path tiles from a Spawn to a Base.
+ */
+export function validateMap(map: MapConfig): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const report = (field: string, message: string) =>
+    issues.push({ subject: 'map', id: String(map.level), field, message });
+
+  if (map.grid.length !== MAP_ROWS) {
+    report('grid', `has ${map.grid.length} rows, expected ${MAP_ROWS}`);
+  }
+  const tileTypes = new Set<number>(Object.values(TileType).filter((v): v is number => typeof v === 'number'));
+  map.grid.forEach((row, y) => {
+    if (row.length !== MAP_COLS) {
+      report(`grid[${y}]`, `has ${row.length} columns, expected ${MAP_COLS}`);
+    }
+    row.forEach((tile, x) => {
+      if (!tileTypes.has(tile)) report(`grid[${y}][${x}]`, `unknown tile type ${tile}`);
+    });
+  });
+
+  if (map.paths) {
+    try {
+      const graph = getPathGraph(map);
+      map.paths.forEach((path, i) => {
+        const isEntry = graph.entries.includes(path.name);
+        const isTerminal = !path.next || path.next.length === 0;
+        issues.push(...validatePathPoints(map, `paths[${i}].points`, path.points, isEntry, isTerminal));
+      });
+    } catch (err) {
+      report('paths', (err as Error).message);
+    }
+  } else {
+    issues.push(...validatePathPoints(map, 'pathPoints', map.pathPoints, true, true));
+  }
+
+  return issues;
+}
+
+/**
+ * Walk a path point to point. Consecutive points must share a row or
+ * column, and every tile stepped on must be walkable. Entry paths must
+ * start on a Spawn tile and terminal paths must end on a Base tile.
+ */
+function validatePathPoints(
+  map: MapConfig,
+  field: string,
+  points: MapPathConfig['points'],
+  isEntry: boolean,
+  isTerminal: boolean,
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const report = (message: string) => issues.push({ subject: 'map', id: String(map.level), field, message });
+  const tileAt = (p: MapPoint): number | undefined => map.grid[p.y]?.[p.x];
+  const walkable = (p: MapPoint) => {
+    const tile = tileAt(p);
+    return tile === TileType.Path || tile === TileType.Spawn || tile === TileType.Base;
+  };
+
+  if (points.length === 0) {
+    report('has no points');
+    return issues;
+  }
+  if (isEntry && tileAt(points[0]) !== TileType.Spawn) {
+    report(`starts at (${points[0].x}, ${points[0].y}), which is not a Spawn tile`);
+  }
+  const last = points[points.length - 1];
+  if (isTerminal && tileAt(last) !== TileType.Base) {
+    report(`ends at (${last.x}, ${last.y}), which is not a Base tile`);
+  }
+
+  for (let i = 0; i < points.length; i++) {
+    if (!walkable(points[i])) {
+      report(`point ${i} (${points[i].x}, ${points[i].y}) is not a Path tile`);
+      continue;
+    }
+    if (i === 0) continue;
+
+    const from = points[i - 1];
+    const to = points[i];
+    if (from.x !== to.x && from.y !== to.y) {
+      report(`step from point ${i - 1} to ${i} is diagonal`);
+      continue;
+    }
+    const dx = Math.sign(to.x - from.x);
+    const dy = Math.sign(to.y - from.y);
+    for (let x = from.x + dx, y = from.y + dy; x !== to.x || y !== to.y; x += dx, y += dy) {
+      if (!walkable({ x, y })) {
+        report(`step from point ${i - 1} to ${i} crosses (${x}, ${y}), which is not a Path tile`);
+        break;
+      }
+    }
+  }
+
+  return issues;
+}
+
+// ---------------------------------------------------------------------------
+// Levels
+// ---------------------------------------------------------------------------
+
+/**
+ * Check a level's numbers, its spawn segments and its agreement with the
+ * map it plays on. `map` is undefined when no map exists for the level.
+ */
+export function validateLevel(
+  level: LevelConfig,
+  map: MapConfig | undefined,
+  enemies: Record<string, EnemyConfig> = ENEMIES,
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const report = (field: string, message: string) =>
+    issues.push({ subject: 'level', id: String(level.level), field, message });
+
+  if (!map) {
+    report('level', `no map exists for level ${level.level}`);
+  } else {
+    const slots = findTiles(map.grid, TileType.BuildSlot).length;
+    if (level.buildSlots !== slots) {
+      report('buildSlots', `is ${level.buildSlots} but the map has ${slots} build slot tiles`);
+    }
+  }
+
+  if (!(level.startingCredits >= 0)) report('startingCredits', 'must not be negative');
+  if (!(level.passiveIncomeRate >= 0)) report('passiveIncomeRate', 'must not be negative');
+  if (!Number.isInteger(level.lives) || level.lives < 1) report('lives', 'must be a positive integer');
+  if (!(level.hpScale > 0)) report('hpScale', 'must be greater than 0');
+
+  // Segment paths can only be checked against a map with a valid path graph.
+  let pathNames: string[] | undefined;
+  if (map) {
+    try {
+      pathNames = Object.keys(getPathGraph(map).paths);
+    } catch {
+      // Reported by validateMap.
+    }
+  }
+
+  const checkSegments = (prefix: string, segments: WaveSegment[]) =>
+    segments.forEach((segment, i) =>
+      issues.push(...validateSegment(level, `${prefix}[${i}]`, segment, enemies, pathNames)),
+    );
+
+  if (level.waves) {
+    if (level.waves.length === 0) report('waves', 'must contain at least one wave');
+    level.waves.forEach((wave, w) => {
+      if (wave.segments.length === 0) report(`waves[${w}].segments`, 'must contain at least one segment');
+      if (wave.buildTime !== undefined && !(wave.buildTime >= 0)) {
+        report(`waves[${w}].buildTime`, 'must not be negative');
+      }
+      checkSegments(`waves[${w}].segments`, wave.segments);
+    });
+  } else {
+    if (level.segments.length === 0) report('segments', 'must contain at least one segment');
+    checkSegments('segments', level.segments);
+  }
+
+  const boss = level.boss;
+  if (boss) {
+    if (!enemies[boss.enemyKey]) report('boss.enemyKey', `unknown enemy "${boss.enemyKey}"`);
+    if (boss.delay !== undefined && !(boss.delay >= 0)) report('boss.delay', 'must not be negative');
+    if (boss.hpScale !== undefined && !(boss.hpScale > 0)) report('boss.hpScale', 'must be greater than 0');
+    if (boss.path !== undefined && pathNames && !pathNames.includes(boss.path)) {
+      report('boss.path', `unknown path "${boss.path}"`);
+    }
+  }
+
+  return issues;
+}
+
+function validateSegment(
+  level: LevelConfig,
+  field: string,
+  segment: WaveSegment,
+  enemies: Record<string, EnemyConfig>,
+  pathNames: string[] | undefined,
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const report = (suffix: string, message: string) =>
+    issues.push({ subject: 'level', id: String(level.level), field: `${field}${suffix}`, message });
+
+  if (segment.mix) {
+    if (!segment.mix.some((entry) => entry.weight > 0)) {
+      report('.mix', 'needs at least one entry with a positive weight');
+    }
+    segment.mix.forEach((entry, i) => {
+      if (!enemies[entry.enemyKey]) report(`.mix[${i}].enemyKey`, `unknown enemy "${entry.enemyKey}"`);
+      if (entry.weight < 0) report(`.mix[${i}].weight`, 'must not be negative');
+    });
+  } else if (segment.enemyKey === undefined) {
+    report('', 'needs an enemyKey or a mix');
+  } else if (!enemies[segment.enemyKey]) {
+    report('.enemyKey', `unknown enemy "${segment.enemyKey}"`);
+  }
+
+  if (!Number.isInteger(segment.count) || segment.count < 1) report('.count', 'must be a positive integer');
+  if (!(segment.spawnInterval >= 0)) report('.spawnInterval', 'must not be negative');
+  if (segment.startOffset !== undefined && !(segment.startOffset >= 0)) {
+    report('.startOffset', 'must not be negative');
+  }
+  if (segment.hpScale !== undefined && !(segment.hpScale > 0)) report('.hpScale', 'must be greater than 0');
+  if (segment.speedScale !== undefined && !(segment.speedScale > 0)) report('.speedScale', 'must be greater than 0');
+  if (segment.path !== undefined && pathNames && !pathNames.includes(segment.path)) {
+    report('.path', `unknown path "${segment.path}"`);
+  }
+
+  return issues;
+}
+
+// ---------------------------------------------------------------------------
+// Enemies
+// ---------------------------------------------------------------------------
+
+/**
+ * Check an enemy's stats, its damage resistances, its special behavior's
+ * settings (including that a split child exists) and that its boss phases
+ * are in order.
+ */
+export function validateEnemy(
+  key: string,
+  enemy: EnemyConfig,
+  enemies: Record<string, EnemyConfig> = ENEMIES,
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const report = (field: string, message: string) => issues.push({ subject: 'enemy', id: key, field, message });
+
+  if (enemy.key !== key) report('key', `is "${enemy.key}" but the enemy is registered as "${key}"`);
+  if (!(enemy.baseHp > 0)) report('baseHp', 'must be greater than 0');
+  if (!(enemy.speed > 0)) report('speed', 'must be greater than 0');
+  if (!(enemy.reward >= 0)) report('reward', 'must not be negative');
+  if (enemy.armor !== undefined && !(enemy.armor >= 0)) report('armor', 'must not be negative');
+
+  for (const field of ['resistances', 'shieldResistances'] as const) {
+    for (const [type, multiplier] of Object.entries(enemy[field] ?? {})) {
+      if (!DAMAGE_TYPES.includes(type as DamageType)) {
+        report(`${field}.${type}`, 'unknown damage type');
+      } else if (!(multiplier >= 0)) {
+        report(`${field}.${type}`, 'must not be negative');
+      }
+    }
+  }
+
+  const special = enemy.special;
+  if (special?.type === 'split') {
+    if (!special.splitEnemyKey) {
+      report('special.splitEnemyKey', 'is required for split enemies');
+    } else if (!enemies[special.splitEnemyKey]) {
+      report('special.splitEnemyKey', `unknown enemy "${special.splitEnemyKey}"`);
+    } else if (special.splitEnemyKey === key) {
+      report('special.splitEnemyKey', 'an enemy cannot split into itself');
+    }
+    if (!Number.isInteger(special.splitCount) || (special.splitCount ?? 0) < 1) {
+      report('special.splitCount', 'must be a positive integer');
+    }
+  } else if (special?.type === 'heal') {
+    if (!((special.healAmount ?? 0) > 0)) report('special.healAmount', 'must be greater than 0');
+    if (!((special.healRadius ?? 0) > 0)) report('special.healRadius', 'must be greater than 0');
+    if (!((special.healInterval ?? 0) > 0)) report('special.healInterval', 'must be greater than 0');
+  } else if (special?.type === 'stealth') {
+    if (special.revealDuration !== undefined && !(special.revealDuration >= 0)) {
+      report('special.revealDuration', 'must not be negative');
+    }
+  } else if (special?.type === 'tunnel') {
+    const start = special.tunnelStart ?? 0;
+    const end = special.tunnelEnd ?? 0;
+    if (!(start >= 0 && start < end && end <= 1)) {
+      report('special.tunnelEnd', 'tunnelStart and tunnelEnd must satisfy 0 <= start < end <= 1');
+    }
+  }
+
+  enemy.boss?.phases.forEach((phase, i) => {
+    const field = `boss.phases[${i}]`;
+    const previous = enemy.boss!.phases[i - 1];
+    if (!(phase.hpThreshold > 0 && phase.hpThreshold < 1)) {
+      report(`${field}.hpThreshold`, 'must be between 0 and 1');
+    } else if (previous && !(phase.hpThreshold < previous.hpThreshold)) {
+      report(`${field}.hpThreshold`, 'must be lower than the previous phase');
+    }
+    if (phase.speedScale !== undefined && !(phase.speedScale > 0)) {
+      report(`${field}.speedScale`, 'must be greater than 0');
+    }
+    if (phase.shieldPercent !== undefined && !(phase.shieldPercent > 0)) {
+      report(`${field}.shieldPercent`, 'must be greater than 0');
+    }
+    if (phase.spawnMinions) {
+      if (!enemies[phase.spawnMinions.enemyKey]) {
+        report(`${field}.spawnMinions.enemyKey`, `unknown enemy "${phase.spawnMinions.enemyKey}"`);
+      } else if (enemies[phase.spawnMinions.enemyKey].boss) {
+        report(`${field}.spawnMinions.enemyKey`, 'minions cannot be bosses');
+      }
+      if (!Number.isInteger(phase.spawnMinions.count) || phase.spawnMinions.count < 1) {
+        report(`${field}.spawnMinions.count`, 'must be a positive integer');
+      }
+    }
+  });
+
+  return issues;
+}
+
+function duplicates(values: number[]): number[] {
+  return [...new Set(values.filter((v, i) => values.indexOf(v) !== i))];
+}
@@ -1,31 +1,31 @@
 import Phaser from 'phaser';
-import type { Tower } from './Tower';
+import type { SimProjectile } from '../sim/SimProjectile';
 
 export interface ProjectileConfig {
-  startX: number;
-  startY: number;
-  target: any; // enemy reference (enemy system built in parallel)
-  speed: number; // pixels per second
-  damage: number;
   color: string; // hex color string
-  splashRadius: number; // 0 = no splash
   towerKey?: string; // tower type key for texture lookup
-  sourceTower?: Tower; // the tower that fired this projectile (for kill attribution)
 }
 
-const HIT_THRESHOLD = 5; // pixels; projectile considered "arrived" at target
 const TRAIL_LIFETIME = 120; // ms for trail particles to fade out
-const STALE_THRESHOLD = 10000; // ms; destroy projectile if it has been alive too long
 
+/**
+ * Projectile -- renders a simulated projectile in flight.
+ *
+ * Movement and damage are resolved by the `SimProjectile` model. The view
+ * follows it after every scene update, leaves a fading trail, plays an
+ * impact flash when the model reports a hit, and destroys itself once the
+ * model is done.
+ */
 export class Projectile extends Phaser.GameObjects.Container {
+  private model: SimProjectile;
   private config: ProjectileConfig;
   private bullet: Phaser.GameObjects.Arc | Phaser.GameObjects.Sprite;
-  private elapsed: number = 0;
   private trailTimer: number = 0;
   private trails: Phaser.GameObjects.Arc[] = [];
 
-  constructor(scene: Phaser.Scene, config: ProjectileConfig) {
-    super(scene, config.startX, config.startY);
+  constructor(scene: Phaser.Scene, model: SimProjectile, config: ProjectileConfig) {
+    super(scene, model.x, model.y);
+    this.model = model;
     this.config = config;
 
     // -- Bullet visual (sprite if projectile texture exists, fallback to arc) --
@@ -42,11 +42,18 @@ export class Projectile extends Phaser.GameObjects.Container {
 
     scene.add.existing(this);
 
-    // Register an update callback so the projectile drives itself each frame.
-    // We store the listener reference so we can clean up on destroy.
-    this.scene.events.on('update', this.tick, this);
+    // Impact flash is driven by the model so it plays at the exact hit point.
+    const onHit = (data: { x: number; y: number; splashRadius: number }) => {
+      this.playImpactFlash(data.x, data.y, data.splashRadius);
+    };
+    model.once('projectile-hit', onHit);
+
+    // Follow the model after each scene update. We store the listener
+    // reference so we can clean up on destroy.
+    this.scene.events.on('postupdate', this.tick, this);
     this.once('destroy', () => {
-      this.scene.events.off('update', this.tick, this);
+      this.scene.events.off('postupdate', this.tick, this);
+      model.off('projectile-hit', onHit);
       // Clean up any remaining trail particles
       for (const t of this.trails) {
         t.destroy();
@@ -55,40 +62,18 @@ export class Projectile extends Phaser.GameObjects.Container {
     });
   }
 
-  /** Called each frame via the scene 'update' event. */
+  /** Called each frame via the scene 'postupdate' event. */
   private tick = (_time: number, delta: number): void => {
     if (!this.active) return;
 
-    this.elapsed += delta;
-
-    // Safety net: destroy if the projectile has been alive far too long.
-    if (this.elapsed > STALE_THRESHOLD) {
-      this.destroy();
-      return;
-    }
-
-    const target = this.config.target;
-
-    // If the target is gone / destroyed, just remove the projectile.
-    if (!target || !target.active) {
+    if (this.model.done) {
       this.destroy();
       return;
     }
 
-    // Move toward the target
-    const dx = target.x - this.x;
-    const dy = target.y - this.y;
-    const dist = Math.sqrt(dx * dx + dy * dy);
-
-    if (dist <= HIT_THRESHOLD) {
-      this.onHitTarget();
-      return;
-    }
-
-    const step = (this.config.speed * delta) / 1000;
-    const ratio = Math.min(step / dist, 1);
-    this.x += dx * ratio;
-    this.y += dy * ratio;
+    // Paused: the model did not move, so neither does the view or its trail
+    if (this.model.x === this.x && this.model.y === this.y) return;
+    this.setPosition(this.model.x, this.model.y);
 
     // Trail effect: spawn a small fading circle every few ms
     this.trailTimer += delta;
@@ -98,70 +83,19 @@ export class Projectile extends Phaser.GameObjects.Container {
     }
   };
 
-  /** Impact logic when reaching the target. */
-  private onHitTarget(): void {
-    const target = this.config.target;
-
-    if (this.config.splashRadius > 0) {
-      // Splash damage: get all active enemies from the scene and damage those in radius.
-      this.applySplashDamage();
-    } else {
-      // Single-target damage
-      if (target && typeof target.takeDamage === 'function') {
-        const wasAlive = target.isAlive;
-        target.takeDamage(this.config.damage);
-        if (wasAlive && !target.isAlive && this.config.sourceTower) {
-          this.config.sourceTower.addKill();
-        }
-      }
-    }
-
-    // Impact flash
-    this.playImpactFlash();
-
-    this.destroy();
-  }
-
-  /** Deal splash damage to all enemies within the splash radius centered on impact point. */
-  private applySplashDamage(): void {
-    // The TowerManager stores its towers' scene reference. Enemies can be located via
-    // a well-known registry key or a scene data property. We search for them dynamically
-    // to remain decoupled from the enemy system.
-    const impactX = this.x;
-    const impactY = this.y;
-    const radius = this.config.splashRadius;
-
-    // Attempt to read the enemy list from the scene's data store (set by EnemyManager or TowerManager).
-    const enemies: any[] = this.scene.data.get('enemies') ?? [];
-
-    for (const enemy of enemies) {
-      if (!enemy || !enemy.active) continue;
-      const dist = Phaser.Math.Distance.Between(impactX, impactY, enemy.x, enemy.y);
-      if (dist <= radius) {
-        if (typeof enemy.takeDamage === 'function') {
-          const wasAlive = enemy.isAlive;
-          enemy.takeDamage(this.config.damage);
-          if (wasAlive && !enemy.isAlive && this.config.sourceTower) {
-            this.config.sourceTower.addKill();
-          }
-        }
-      }
-    }
-  }
-
   /** Small expanding ring at the impact site. */
-  private playImpactFlash(): void {
+  private playImpactFlash(x: number, y: number, splashRadius: number): void {
     const colorInt = Phaser.Display.Color.HexStringToColor(this.config.color).color;
-    const flashRadius = this.config.splashRadius > 0 ? this.config.splashRadius : 12;
+    const flashRadius = splashRadius > 0 ? splashRadius : 12;
 
-    const flash = this.scene.add.arc(this.x, this.y, 4, 0, 360, false, colorInt, 0.6);
+    const flash = this.scene.add.arc(x, y, 4, 0, 360, false, colorInt, 0.6);
     flash.setStrokeStyle(1, colorInt, 0.8);
 
     this.scene.tweens.add({
       targets: flash,
       radius: flashRadius,
       alpha: 0,
-      duration: this.config.splashRadius > 0 ? 300 : 150,
+      duration: splashRadius > 0 ? 300 : 150,
       ease: 'Quad.easeOut',
       onComplete: () => flash.destroy(),
     });
@@ -1,63 +1,67 @@
 import Phaser from 'phaser';
-import { TOWERS, TowerConfig, TowerTier } from '../config/towers';
 import { Projectile } from './Projectile';
 import { SoundManager } from '../systems/SoundManager';
+import type { SimTower } from '../sim/SimTower';
+import type { SimProjectile } from '../sim/SimProjectile';
 
 const TILE_SIZE = 64;
 
-/** Kills required before a tower can upgrade to the next tier. */
-export const UPGRADE_KILLS_REQUIRED: [number, number] = [3, 5]; // tier 1→2, tier 2→3
-
+/**
+ * Tower -- renders a simulated tower: body sprite, tier pips and a hover
+ * range indicator, plus a detection ring for towers that reveal cloaked
+ * enemies.
+ *
+ * Targeting, cooldowns and damage live on the `SimTower` model. The view
+ * listens to the model's firing events to spawn `Projectile` views, play
+ * sounds (a pulsed hum for beams) and draw area pulses, draws the beam of
+ * a beam tier after every scene update, and emits 'tower-clicked' with the
+ * model when the player clicks it.
+ */
 export class Tower extends Phaser.GameObjects.Container {
-  public readonly towerKey: string;
-  public readonly config: TowerConfig;
-  public currentTier: number = 1;
-  public creditsSpent: number = 0;
-  public kills: number = 0;
+  public readonly model: SimTower;
 
   private towerBody: Phaser.GameObjects.Arc | Phaser.GameObjects.Sprite;
   private rangeIndicator: Phaser.GameObjects.Arc;
+  private detectionIndicator: Phaser.GameObjects.Arc;
   private tierPips: Phaser.GameObjects.Arc[] = [];
-  private fireCooldownRemaining: number = 0;
-  private tilePos: { x: number; y: number };
-
-  constructor(scene: Phaser.Scene, tileX: number, tileY: number, towerKey: string) {
-    const worldX = tileX * TILE_SIZE + TILE_SIZE / 2;
-    const worldY = tileY * TILE_SIZE + TILE_SIZE / 2;
-    super(scene, worldX, worldY);
+  /** Beam line, drawn in world space so it passes over enemies. */
+  private beamGraphics: Phaser.GameObjects.Graphics;
 
-    this.towerKey = towerKey;
-    this.config = TOWERS[towerKey];
-
-    if (!this.config) {
-      throw new Error(`Tower config not found for key: "${towerKey}"`);
-    }
+  private static readonly DETECTION_COLOR = 0x66ddff;
+  private static readonly BEAM_DEPTH = 4; // above units, below the placement preview
 
-    this.tilePos = { x: tileX, y: tileY };
-    this.creditsSpent = this.config.baseCost;
+  constructor(scene: Phaser.Scene, model: SimTower) {
+    super(scene, model.x, model.y);
+    this.model = model;
 
     // -- Range indicator (behind the tower body) --
-    const tier = this.getCurrentTierStats();
+    const tier = model.getCurrentTierStats();
     this.rangeIndicator = scene.add.arc(0, 0, tier.range, 0, 360, false, 0xffffff, 0.08);
-    this.rangeIndicator.setStrokeStyle(1, Phaser.Display.Color.HexStringToColor(this.config.color).color, 0.25);
+    this.rangeIndicator.setStrokeStyle(1, Phaser.Display.Color.HexStringToColor(model.config.color).color, 0.25);
     this.rangeIndicator.setVisible(false);
     this.add(this.rangeIndicator);
 
+    // -- Detection radius (outline only; radius 0 for towers that cannot detect) --
+    this.detectionIndicator = scene.add.arc(0, 0, model.detectionRadius, 0, 360, false);
+    this.detectionIndicator.setStrokeStyle(1, Tower.DETECTION_COLOR, 0.5);
+    this.detectionIndicator.setVisible(false);
+    this.add(this.detectionIndicator);
+
     // -- Tower body (sprite if texture exists, fallback to colored circle) --
-    const towerTextureKey = `tower-${this.towerKey}`;
+    const towerTextureKey = `tower-${model.towerKey}`;
     if (scene.textures.exists(towerTextureKey)) {
       const sprite = scene.add.sprite(0, 0, towerTextureKey);
       sprite.setDisplaySize(40, 40);
       this.towerBody = sprite;
     } else {
-      const colorInt = Phaser.Display.Color.HexStringToColor(this.config.color).color;
+      const colorInt = Phaser.Display.Color.HexStringToColor(model.config.color).color;
       this.towerBody = scene.add.arc(0, 0, 20, 0, 360, false, colorInt, 1);
       (this.towerBody as Phaser.GameObjects.Arc).setStrokeStyle(2, 0xffffff, 0.6);
     }
     this.add(this.towerBody);
 
-    // -- Tier pips --
-    this.createTierPips();
+    // -- Tier pips and tier scaling (a restored tower may start above tier 1) --
+    this.refresh();
 
     // -- Interactive hover for range display --
     this.setSize(TILE_SIZE, TILE_SIZE);
@@ -65,198 +69,110 @@ export class Tower extends Phaser.GameObjects.Container {
 
     this.on('pointerover', () => {
       this.rangeIndicator.setVisible(true);
+      this.detectionIndicator.setVisible(this.model.detectionRadius > 0);
     });
 
     this.on('pointerout', () => {
       this.rangeIndicator.setVisible(false);
+      this.detectionIndicator.setVisible(false);
     });
 
     this.on('pointerdown', () => {
-      this.emit('tower-clicked', this);
+      this.emit('tower-clicked', this.model);
     });
 
-    scene.add.existing(this);
-  }
-
-  /** Returns the stat block for the current tier (tiers are 1-indexed, array is 0-indexed). */
-  public getCurrentTierStats(): TowerTier {
-    return this.config.tiers[this.currentTier - 1];
-  }
+    // -- Beam (redrawn after the scene, and therefore the simulation, updated) --
+    this.beamGraphics = scene.add.graphics();
+    this.beamGraphics.setDepth(Tower.BEAM_DEPTH);
+    scene.events.on('postupdate', this.drawBeam, this);
+
+    // -- Model firing events --
+    model.on('projectile-fired', this.onProjectileFired, this);
+    model.on('area-pulse', this.onAreaPulse, this);
+    model.on('beam-pulse', this.onBeamPulse, this);
+    this.once('destroy', () => {
+      model.off('projectile-fired', this.onProjectileFired, this);
+      model.off('area-pulse', this.onAreaPulse, this);
+      model.off('beam-pulse', this.onBeamPulse, this);
+      scene.events.off('postupdate', this.drawBeam, this);
+      this.beamGraphics.destroy();
+    });
 
-  /** Returns the tile grid position of this tower. */
-  public getTilePos(): { x: number; y: number } {
-    return { ...this.tilePos };
+    scene.add.existing(this);
   }
 
-  /** Advance the tower to the next tier. Returns false if already at max tier. */
-  public upgrade(): boolean {
-    if (this.currentTier >= 3) {
-      return false;
-    }
-
-    const upgradeCost = this.config.upgradeCosts[this.currentTier - 1];
-    this.creditsSpent += upgradeCost;
-    this.currentTier++;
-
-    // Update range indicator to reflect new range
-    const tier = this.getCurrentTierStats();
-    this.rangeIndicator.setRadius(tier.range);
+  /**
+   * Refresh tier-dependent visuals after the model was upgraded or the
+   * auras buffing it changed.
+   */
+  public refresh(): void {
+    // Update range indicator to reflect new range (a support tower shows its aura instead)
+    const tier = this.model.getCurrentTierStats();
+    this.rangeIndicator.setRadius(tier.aura ? tier.aura.radius * TILE_SIZE : tier.range);
+    this.detectionIndicator.setRadius(this.model.detectionRadius);
 
     // Scale up the tower body slightly to visually indicate power growth
-    const scale = 1 + (this.currentTier - 1) * 0.15;
+    const scale = 1 + (this.model.currentTier - 1) * 0.15;
     this.towerBody.setScale(scale);
 
     // Refresh tier pips
     this.createTierPips();
-
-    return true;
   }
 
-  /** Total credits invested in this tower (base cost + all upgrade costs). */
-  public getTotalInvestment(): number {
-    return this.creditsSpent;
-  }
+  // ----------------------------------------------------------------
+  //  Private helpers
+  // ----------------------------------------------------------------
 
-  /** Credits returned when selling this tower. */
-  public getSellValue(): number {
-    return Math.floor(this.getTotalInvestment() * this.config.sellRefundRate);
+  /** Render a projectile the model just fired. */
+  private onProjectileFired(projectile: SimProjectile): void {
+    new Projectile(this.scene, projectile, {
+      color: this.model.config.color,
+      towerKey: this.model.towerKey,
+    });
+    this.playShootSound();
   }
 
-  /** Increment this tower's kill counter. */
-  public addKill(): void {
-    this.kills++;
+  /** Render an area pulse the model just emitted. */
+  private onAreaPulse(data: { range: number }): void {
+    this.playShootSound();
+    this.playAreaPulse(data.range);
   }
 
-  /** Returns the number of kills still needed before the next upgrade is unlocked. */
-  public killsUntilUpgrade(): number {
-    if (this.currentTier >= 3) return 0;
-    const required = UPGRADE_KILLS_REQUIRED[this.currentTier - 1];
-    return Math.max(0, required - this.kills);
+  /** Hum while the beam holds: the model pulses on lock-on and every second after. */
+  private onBeamPulse(): void {
+    const sm = this.scene.registry.get('soundManager') as SoundManager | undefined;
+    sm?.play('beam-hum');
   }
 
-  /** Whether this tower has enough kills to unlock the next tier. */
-  public hasEnoughKills(): boolean {
-    return this.killsUntilUpgrade() === 0;
+  /** Play the tower-type-specific firing sound. */
+  private playShootSound(): void {
+    const sm = this.scene.registry.get('soundManager') as SoundManager | undefined;
+    sm?.play(`shoot-${this.model.towerKey}`);
   }
 
   /**
-   * Main update loop called each frame by TowerManager.
-   * @param time - total elapsed game time (ms)
-   * @param delta - time since last frame (ms)
-   * @param enemies - array of active enemies (typed loosely; enemy system built in parallel)
+   * Draw the beam to its locked target: a flickering glow in the tower's
+   * color around a white core, both thicker as the beam ramps up.
    */
-  public update(time: number, delta: number, enemies: any[]): void {
-    const tier = this.getCurrentTierStats();
-    const cooldownPeriod = 1000 / tier.fireRate; // ms between shots
-
-    this.fireCooldownRemaining -= delta;
-    if (this.fireCooldownRemaining > 0) {
-      return;
-    }
-
-    // Find enemies in range
-    const inRange = enemies.filter((enemy) => {
-      if (!enemy.active) return false;
-      const dist = Phaser.Math.Distance.Between(this.x, this.y, enemy.x, enemy.y);
-      return dist <= tier.range;
-    });
-
-    if (inRange.length === 0) {
-      return;
-    }
-
-    // ---- Area-effect towers (cryo / pulse) ----
-    if (this.config.projectileSpeed === 0) {
-      this.fireCooldownRemaining = cooldownPeriod;
-      this.applyAreaEffect(inRange, tier);
-      return;
-    }
-
-    // ---- Projectile towers ----
-    // "First" targeting: enemy furthest along the path (highest pathProgress)
-    const target = this.selectTarget(inRange);
+  private drawBeam(): void {
+    const g = this.beamGraphics;
+    g.clear();
+    const target = this.model.beamTarget;
     if (!target) return;
 
-    this.fireCooldownRemaining = cooldownPeriod;
-    this.fireProjectile(target, tier);
-  }
-
-  // ----------------------------------------------------------------
-  //  Private helpers
-  // ----------------------------------------------------------------
-
-  /**
-   * Selects the enemy closest to reaching the base.
-   * We look for a `pathProgress` property (0..1). Higher = closer to base.
-   * Falls back to the first enemy in the array if pathProgress is unavailable.
-   */
-  private selectTarget(enemiesInRange: any[]): any {
-    let best: any = null;
-    let bestProgress = -1;
-
-    for (const enemy of enemiesInRange) {
-      const progress: number = enemy.pathProgress ?? 0;
-      if (progress > bestProgress) {
-        bestProgress = progress;
-        best = enemy;
-      }
-    }
+    const colorInt = Phaser.Display.Color.HexStringToColor(this.model.config.color).color;
+    const flicker = 0.75 + 0.25 * Math.sin(this.scene.time.now / 40);
+    const width = 2 + 2 * (this.model.beamMultiplier - 1);
 
-    return best;
-  }
-
-  /** Fire a projectile toward the target enemy. */
-  private fireProjectile(target: any, tier: TowerTier): void {
-    const hasSplash = (tier.splashRadius ?? 0) > 0;
-
-    new Projectile(this.scene, {
-      startX: this.x,
-      startY: this.y,
-      target,
-      speed: this.config.projectileSpeed,
-      damage: tier.damage,
-      color: this.config.color,
-      splashRadius: hasSplash ? tier.splashRadius! : 0,
-      towerKey: this.towerKey,
-      sourceTower: this,
-    });
-
-    // Play the tower-type-specific firing sound
-    const sm = this.scene.registry.get('soundManager') as SoundManager | undefined;
-    sm?.play(`shoot-${this.towerKey}`);
-  }
-
-  /** Apply area-of-effect damage/slow to all enemies in range. */
-  private applyAreaEffect(enemiesInRange: any[], tier: TowerTier): void {
-    // Play the tower-type-specific firing sound
-    const sm = this.scene.registry.get('soundManager') as SoundManager | undefined;
-    sm?.play(`shoot-${this.towerKey}`);
-
-    // Visual pulse effect
-    this.playAreaPulse(tier.range);
-
-    for (const enemy of enemiesInRange) {
-      // Damage
-      if (typeof enemy.takeDamage === 'function') {
-        const wasAlive = enemy.isAlive;
-        enemy.takeDamage(tier.damage);
-        if (wasAlive && !enemy.isAlive) {
-          this.addKill();
-        }
-      }
-
-      // Slow (cryo)
-      if (tier.slowFactor !== undefined && tier.slowDuration !== undefined) {
-        if (typeof enemy.applySlow === 'function') {
-          enemy.applySlow(tier.slowFactor, tier.slowDuration);
-        }
-      }
-    }
+    g.lineStyle(width * 3, colorInt, 0.3 * flicker);
+    g.lineBetween(this.x, this.y, target.x, target.y);
+    g.lineStyle(width, 0xffffff, 0.9 * flicker);
+    g.lineBetween(this.x, this.y, target.x, target.y);
   }
 
   /** Quick expanding ring to visualize an area pulse. */
   private playAreaPulse(range: number): void {
-    const colorInt = Phaser.Display.Color.HexStringToColor(this.config.color).color;
+    const colorInt = Phaser.Display.Color.HexStringToColor(this.model.config.color).color;
     const ring = this.scene.add.arc(this.x, this.y, 10, 0, 360, false, colorInt, 0.3);
     ring.setStrokeStyle(2, colorInt, 0.6);
     ring.setDepth(this.depth - 1);
@@ -281,10 +197,11 @@ export class Tower extends Phaser.GameObjects.Container {
 
     const pipRadius = 3;
     const spacing = 10;
-    const totalWidth = (this.currentTier - 1) * spacing;
+    const tierCount = this.model.currentTier;
+    const totalWidth = (tierCount - 1) * spacing;
     const startX = -totalWidth / 2;
 
-    for (let i = 0; i < this.currentTier; i++) {
+    for (let i = 0; i < tierCount; i++) {
       const pip = this.scene.add.arc(startX + i * spacing, 26, pipRadius, 0, 360, false, 0xffffff, 0.9);
       this.add(pip);
       this.tierPips.push(pip);
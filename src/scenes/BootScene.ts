@@ -1,6 +1,9 @@
 import Phaser from 'phaser';
 import { SoundManager } from '../systems/SoundManager';
 import { AssetGenerator } from '../systems/AssetGenerator';
+import { CampaignProgress } from '../systems/CampaignProgress';
+import { SavedRunStore } from '../systems/SavedRunStore';
+import { KeyBindings } from '../systems/KeyBindings';
 
 export class BootScene extends Phaser.Scene {
   constructor() {
@@ -21,6 +24,15 @@ export class BootScene extends Phaser.Scene {
     const soundManager = new SoundManager(this);
     this.registry.set('soundManager', soundManager);
 
+    // Saved campaign progress (cleared levels and stars), shared the same way.
+    this.registry.set('campaignProgress', new CampaignProgress());
+
+    // Mid-level save slot behind the menu's "Continue" button.
+    this.registry.set('savedRuns', new SavedRunStore());
+
+    // Rebindable keyboard shortcuts, edited from the menu's controls panel.
+    this.registry.set('keyBindings', new KeyBindings());
+
     this.scene.start('MenuScene');
   }
 }
@@ -0,0 +1,449 @@
+import Phaser from 'phaser';
+import { ENEMIES } from '../config/enemies';
+import { LEVELS } from '../config/levels';
+import { getMapByLevel, MAP_COLS, MAP_ROWS, TileType } from '../config/maps';
+import { createLevelPack, serializeLevelPack } from '../config/levelPacks';
+import { BackgroundRenderer } from '../systems/BackgroundRenderer';
+import { FileIO } from '../systems/FileIO';
+import { TilemapRenderer } from '../systems/TilemapRenderer';
+import { LevelDraft, DraftSetting, MAX_DRAFT_SEGMENTS } from '../systems/LevelDraft';
+
+/** Tiles offered by the palette, in hotkey order (1-5). */
+const PALETTE: { tile: TileType; label: string }[] = [
+  { tile: TileType.Ground, label: 'Ground' },
+  { tile: TileType.Path, label: 'Path' },
+  { tile: TileType.BuildSlot, label: 'Build Slot' },
+  { tile: TileType.Spawn, label: 'Spawn' },
+  { tile: TileType.Base, label: 'Base' },
+];
+
+/** Level settings shown in the side panel. */
+const SETTINGS: { key: DraftSetting; label: string; format: (v: number) => string }[] = [
+  { key: 'startingCredits', label: 'Credits', format: (v) => String(v) },
+  { key: 'lives', label: 'Lives', format: (v) => String(v) },
+  { key: 'hpScale', label: 'HP scale', format: (v) => v.toFixed(1) },
+];
+
+/**
+ * EditorScene -- paint a map on the 16x12 grid and tune a level's settings
+ * and spawn segments, then validate the draft, test-play it in GameScene
+ * or export it as a one-level level pack.
+ *
+ * The map is drawn at reduced scale on the left with the same tile textures
+ * the game uses. Left-drag paints the selected tile, right-drag paints
+ * Ground. Keys 1-5 pick a palette tile.
+ *
+ * Scene data:
+ *   { draft?: LevelDraft; message?: string } -- the draft to keep editing
+ *   (GameScene passes it back after a test play) and a status line to show.
+ */
+export class EditorScene extends Phaser.Scene {
+  // ---- Draft ----
+  private draft!: LevelDraft;
+  private selectedTile: TileType = TileType.Path;
+  private initialMessage: string = '';
+
+  // ---- Map view ----
+  private tileObjects: (Phaser.GameObjects.Image | Phaser.GameObjects.Rectangle)[][] = [];
+  private pathOverlay!: Phaser.GameObjects.Graphics;
+  private hoverFrame!: Phaser.GameObjects.Rectangle;
+  private pathStatusText!: Phaser.GameObjects.Text;
+
+  // ---- Palette and panels ----
+  private paletteFrames: Phaser.GameObjects.Rectangle[] = [];
+  private panelObjects: Phaser.GameObjects.GameObject[] = [];
+  private statusText!: Phaser.GameObjects.Text;
+  private backgroundRenderer: BackgroundRenderer | null = null;
+
+  // ---- Layout constants ----
+  private static readonly TILE = 42;
+  private static readonly MAP_X = 16;
+  private static readonly MAP_Y = 64;
+  private static readonly PANEL_X = 708;
+  private static readonly ROW_HEIGHT = 26;
+
+  // ---- Style constants ----
+  private static readonly FONT_FAMILY = 'monospace';
+  private static readonly LABEL_COLOR = '#00ffcc';
+  private static readonly VALUE_COLOR = '#ffffff';
+  private static readonly BUTTON_COLOR = '#888888';
+  private static readonly ERROR_COLOR = '#ff4444';
+
+  constructor() {
+    super({ key: 'EditorScene' });
+  }
+
+  // -------------------------------------------------------------------
+  //  Phaser lifecycle
+  // -------------------------------------------------------------------
+
+  init(data: { draft?: LevelDraft; message?: string }): void {
+    this.draft = data?.draft ?? LevelDraft.fromLevel(LEVELS[0], getMapByLevel(LEVELS[0].level));
+    this.initialMessage = data?.message ?? '';
+    this.tileObjects = [];
+    this.paletteFrames = [];
+    this.panelObjects = [];
+  }
+
+  create(): void {
+    this.backgroundRenderer = new BackgroundRenderer(this);
+    this.backgroundRenderer.createStarfield();
+
+    this.add.text(16, 18, 'LEVEL EDITOR', {
+      fontSize: '20px',
+      color: EditorScene.LABEL_COLOR,
+      fontFamily: EditorScene.FONT_FAMILY,
+      fontStyle: 'bold',
+    });
+
+    this.createPalette();
+    this.createMapView();
+    this.createActionButtons();
+
+    this.statusText = this.add.text(16, 676, '', {
+      fontSize: '12px',
+      color: EditorScene.VALUE_COLOR,
+      fontFamily: EditorScene.FONT_FAMILY,
+      lineSpacing: 4,
+      wordWrap: { width: 992 },
+    });
+
+    this.redrawMap();
+    this.refreshPanel();
+    this.setStatus(this.initialMessage);
+
+    this.events.on('update', this.onUpdate, this);
+    this.events.once('shutdown', () => {
+      this.events.off('update', this.onUpdate, this);
+      this.backgroundRenderer?.destroy();
+      this.backgroundRenderer = null;
+    });
+  }
+
+  private onUpdate = (_time: number, delta: number): void => {
+    this.backgroundRenderer?.updateStarfield(delta);
+  };
+
+  // -------------------------------------------------------------------
+  //  Tile palette
+  // -------------------------------------------------------------------
+
+  private createPalette(): void {
+    PALETTE.forEach((entry, i) => {
+      const x = 240 + i * 150;
+      const y = 30;
+
+      TilemapRenderer.createTile(this, entry.tile, x, y, 30);
+      const frame = this.add.rectangle(x, y, 34, 34).setStrokeStyle(2, 0x00ffcc, 1);
+      this.paletteFrames.push(frame);
+
+      const label = this.add
+        .text(x + 22, y, `${i + 1} ${entry.label}`, {
+          fontSize: '13px',
+          color: EditorScene.VALUE_COLOR,
+          fontFamily: EditorScene.FONT_FAMILY,
+        })
+        .setOrigin(0, 0.5);
+
+      const hit = this.add.zone(x - 17, y - 17, 140, 34).setOrigin(0).setInteractive({ useHandCursor: true });
+      hit.on('pointerdown', () => this.selectTile(entry.tile));
+      hit.on('pointerover', () => label.setColor(EditorScene.LABEL_COLOR));
+      hit.on('pointerout', () => label.setColor(EditorScene.VALUE_COLOR));
+
+      this.input.keyboard?.on(`keydown-${['ONE', 'TWO', 'THREE', 'FOUR', 'FIVE'][i]}`, () =>
+        this.selectTile(entry.tile),
+      );
+    });
+    this.selectTile(this.selectedTile);
+  }
+
+  private selectTile(tile: TileType): void {
+    this.selectedTile = tile;
+    PALETTE.forEach((entry, i) => this.paletteFrames[i].setVisible(entry.tile === tile));
+  }
+
+  // -------------------------------------------------------------------
+  //  Map view and painting
+  // -------------------------------------------------------------------
+
+  private createMapView(): void {
+    const size = EditorScene.TILE;
+    const width = MAP_COLS * size;
+    const height = MAP_ROWS * size;
+
+    this.add
+      .rectangle(EditorScene.MAP_X - 2, EditorScene.MAP_Y - 2, width + 4, height + 4)
+      .setOrigin(0)
+      .setStrokeStyle(1, 0x00ffcc, 0.4);
+
+    this.pathOverlay = this.add.graphics().setDepth(2);
+    this.hoverFrame = this.add.rectangle(0, 0, size, size).setStrokeStyle(2, 0xffffff, 0.8).setDepth(3);
+    this.hoverFrame.setVisible(false);
+
+    this.pathStatusText = this.add.text(EditorScene.MAP_X, EditorScene.MAP_Y + height + 8, '', {
+      fontSize: '12px',
+      color: EditorScene.BUTTON_COLOR,
+      fontFamily: EditorScene.FONT_FAMILY,
+    });
+
+    // Right-drag erases, so keep the browser menu out of the way.
+    this.input.mouse?.disableContextMenu();
+
+    const area = this.add
+      .zone(EditorScene.MAP_X, EditorScene.MAP_Y, width, height)
+      .setOrigin(0)
+      .setInteractive({ useHandCursor: true });
+
+    const paintAt = (pointer: Phaser.Input.Pointer) => {
+      const tileX = Math.floor((pointer.x - EditorScene.MAP_X) / size);
+      const tileY = Math.floor((pointer.y - EditorScene.MAP_Y) / size);
+      this.hoverFrame.setPosition(this.tileCenterX(tileX), this.tileCenterY(tileY)).setVisible(true);
+      if (!pointer.isDown) return;
+
+      const tile = pointer.rightButtonDown() ? TileType.Ground : this.selectedTile;
+      if (this.draft.paintTile(tileX, tileY, tile)) {
+        this.redrawMap();
+      }
+    };
+
+    area.on('pointerdown', paintAt);
+    area.on('pointermove', paintAt);
+    area.on('pointerout', () => this.hoverFrame.setVisible(false));
+  }
+
+  /**
+   * Redraw every tile plus the traced path. Spawn and Base painting can
+   * change a distant tile, so the whole grid is refreshed.
+   */
+  private redrawMap(): void {
+    for (let y = 0; y < MAP_ROWS; y++) {
+      this.tileObjects[y] ??= [];
+      for (let x = 0; x < MAP_COLS; x++) {
+        const tile = this.draft.getTile(x, y);
+        const existing = this.tileObjects[y][x];
+        if (existing?.getData('tile') === tile) continue;
+
+        existing?.destroy();
+        const obj = TilemapRenderer.createTile(this, tile, this.tileCenterX(x), this.tileCenterY(y), EditorScene.TILE);
+        obj.setData('tile', tile);
+        this.tileObjects[y][x] = obj;
+      }
+    }
+    this.redrawPath();
+  }
+
+  /** Trace the path from Spawn to Base, or explain why it cannot be traced. */
+  private redrawPath(): void {
+    this.pathOverlay.clear();
+    try {
+      const points = this.draft.toMapConfig().pathPoints;
+      this.pathOverlay.lineStyle(3, 0x00ffcc, 0.7);
+      this.pathOverlay.strokePoints(
+        points.map((p) => ({ x: this.tileCenterX(p.x), y: this.tileCenterY(p.y) })),
+        false,
+      );
+      this.pathStatusText.setText(`Path OK: ${points.length} waypoints`).setColor(EditorScene.BUTTON_COLOR);
+    } catch (err) {
+      this.pathStatusText.setText((err as Error).message).setColor(EditorScene.ERROR_COLOR);
+    }
+  }
+
+  private tileCenterX(tileX: number): number {
+    return EditorScene.MAP_X + tileX * EditorScene.TILE + EditorScene.TILE / 2;
+  }
+
+  private tileCenterY(tileY: number): number {
+    return EditorScene.MAP_Y + tileY * EditorScene.TILE + EditorScene.TILE / 2;
+  }
+
+  // -------------------------------------------------------------------
+  //  Level settings and segments panel
+  // -------------------------------------------------------------------
+
+  /** Rebuild the side panel from the draft after any change. */
+  private refreshPanel(): void {
+    this.panelObjects.forEach((obj) => obj.destroy());
+    this.panelObjects = [];
+
+    const x = EditorScene.PANEL_X;
+    const rowH = EditorScene.ROW_HEIGHT;
+    let y = EditorScene.MAP_Y;
+
+    this.panelLabel(x, y, `${this.draft.level}. ${this.draft.name}`, EditorScene.LABEL_COLOR);
+    y += rowH + 6;
+
+    for (const setting of SETTINGS) {
+      this.panelLabel(x, y, setting.label);
+      this.panelStepper(x + 150, y, setting.format(this.draft[setting.key]), (dir) =>
+        this.draft.stepSetting(setting.key, dir),
+      );
+      y += rowH;
+    }
+
+    y += 12;
+    this.panelLabel(x, y, `Segments (${this.draft.segments.length}/${MAX_DRAFT_SEGMENTS})`, EditorScene.LABEL_COLOR);
+    y += rowH;
+
+    this.draft.segments.forEach((segment, i) => {
+      const enemyName = segment.mix ? 'Mix' : (ENEMIES[segment.enemyKey ?? '']?.name ?? segment.enemyKey ?? '?');
+      const interval = `${segment.spawnInterval.toFixed(1)}s`;
+      this.panelLabel(x, y, `${i + 1}.`);
+      this.panelStepper(x + 92, y, enemyName, (dir) => this.draft.cycleSegmentEnemy(i, dir), 104, '<', '>');
+      this.panelStepper(x + 186, y, `x${segment.count}`, (dir) => this.draft.stepSegment(i, 'count', dir), 30);
+      this.panelStepper(x + 250, y, interval, (dir) => this.draft.stepSegment(i, 'spawnInterval', dir), 40);
+      this.panelButton(x + 290, y, 'x', () => this.draft.removeSegment(i), EditorScene.ERROR_COLOR);
+      y += rowH;
+    });
+
+    if (this.draft.segments.length < MAX_DRAFT_SEGMENTS) {
+      this.panelButton(x, y, '+ Add segment', () => this.draft.addSegment());
+    }
+  }
+
+  private panelLabel(x: number, y: number, text: string, color: string = EditorScene.VALUE_COLOR): void {
+    const label = this.add.text(x, y, text, {
+      fontSize: '13px',
+      color,
+      fontFamily: EditorScene.FONT_FAMILY,
+    });
+    this.panelObjects.push(label);
+  }
+
+  /**
+   * A centred value with decrement / increment buttons either side.
+   * `width` is the space reserved for the value.
+   */
+  private panelStepper(
+    centerX: number,
+    y: number,
+    value: string,
+    onStep: (direction: 1 | -1) => void,
+    width: number = 50,
+    less: string = '-',
+    more: string = '+',
+  ): void {
+    const valueText = this.add
+      .text(centerX, y, value, {
+        fontSize: '12px',
+        color: EditorScene.VALUE_COLOR,
+        fontFamily: EditorScene.FONT_FAMILY,
+      })
+      .setOrigin(0.5, 0);
+    this.panelObjects.push(valueText);
+
+    this.panelButton(centerX - width / 2 - 10, y, less, () => onStep(-1));
+    this.panelButton(centerX + width / 2 + 2, y, more, () => onStep(1));
+  }
+
+  /** A small text button that refreshes the panel after running `onClick`. */
+  private panelButton(
+    x: number,
+    y: number,
+    label: string,
+    onClick: () => void,
+    color: string = EditorScene.BUTTON_COLOR,
+  ): void {
+    const button = this.createButton(x, y, label, () => {
+      onClick();
+      this.refreshPanel();
+    }, color);
+    this.panelObjects.push(button);
+  }
+
+  // -------------------------------------------------------------------
+  //  Actions
+  // -------------------------------------------------------------------
+
+  private createActionButtons(): void {
+    const y = 606;
+
+    this.add.text(16, y, 'Load level:', {
+      fontSize: '14px',
+      color: EditorScene.VALUE_COLOR,
+      fontFamily: EditorScene.FONT_FAMILY,
+    });
+    LEVELS.forEach((level, i) => {
+      this.createButton(126 + i * 40, y, `[${level.level}]`, () => {
+        this.draft = LevelDraft.fromLevel(level, getMapByLevel(level.level));
+        this.onDraftReplaced(`Loaded level ${level.level}: ${level.name}`);
+      }, EditorScene.BUTTON_COLOR, '14px');
+    });
+    this.createButton(126 + LEVELS.length * 40 + 12, y, '[ NEW ]', () => {
+      this.draft = LevelDraft.blank(LEVELS.length + 1);
+      this.onDraftReplaced('Started a blank map');
+    }, EditorScene.BUTTON_COLOR, '14px');
+
+    const actionsY = y + 36;
+    this.createButton(16, actionsY, '[ VALIDATE ]', () => this.validateDraft(), EditorScene.BUTTON_COLOR, '16px');
+    this.createButton(176, actionsY, '[ TEST PLAY ]', () => this.testPlay(), EditorScene.BUTTON_COLOR, '16px');
+    this.createButton(348, actionsY, '[ EXPORT ]', () => this.exportDraft(), EditorScene.BUTTON_COLOR, '16px');
+    this.createButton(488, actionsY, '[ MENU ]', () => this.scene.start('MenuScene'), EditorScene.BUTTON_COLOR, '16px');
+  }
+
+  private onDraftReplaced(message: string): void {
+    this.redrawMap();
+    this.refreshPanel();
+    this.setStatus(message);
+  }
+
+  /** Validate the draft and list any problems. Returns true if it is valid. */
+  private validateDraft(): boolean {
+    const issues = this.draft.validate();
+    if (issues.length === 0) {
+      this.setStatus('Draft is valid');
+      return true;
+    }
+
+    const maxLines = 4;
+    const lines = issues.slice(0, maxLines).map((issue) => `${issue.field}: ${issue.message}`);
+    if (issues.length > maxLines) {
+      lines.push(`...and ${issues.length - maxLines} more`);
+    }
+    this.setStatus(lines.join('\n'), EditorScene.ERROR_COLOR);
+    return false;
+  }
+
+  private testPlay(): void {
+    if (!this.validateDraft()) return;
+    this.scene.start('GameScene', { draft: this.draft });
+  }
+
+  /** Download the draft as a level pack that the menu can import. */
+  private exportDraft(): void {
+    if (!this.validateDraft()) return;
+    const pack = createLevelPack(this.draft.name, [this.draft.toMapConfig()], [this.draft.toLevelConfig()]);
+    const slug = this.draft.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    FileIO.downloadText(`earth-defense-${slug || 'level'}.pack.json`, serializeLevelPack(pack));
+    this.setStatus('Exported the draft as a level pack');
+  }
+
+  private setStatus(message: string, color: string = EditorScene.VALUE_COLOR): void {
+    this.statusText.setText(message).setColor(color);
+  }
+
+  // -------------------------------------------------------------------
+  //  Widgets
+  // -------------------------------------------------------------------
+
+  private createButton(
+    x: number,
+    y: number,
+    label: string,
+    onClick: () => void,
+    color: string = EditorScene.BUTTON_COLOR,
+    fontSize: string = '13px',
+  ): Phaser.GameObjects.Text {
+    const button = this.add
+      .text(x, y, label, {
+        fontSize,
+        color,
+        fontFamily: EditorScene.FONT_FAMILY,
+      })
+      .setInteractive({ useHandCursor: true });
+
+    button.on('pointerover', () => button.setColor(EditorScene.LABEL_COLOR));
+    button.on('pointerout', () => button.setColor(color));
+    button.on('pointerdown', onClick);
+    return button;
+  }
+}
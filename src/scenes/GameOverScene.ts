@@ -1,8 +1,14 @@
 import Phaser from 'phaser';
 import { BackgroundRenderer } from '../systems/BackgroundRenderer';
+import { FileIO } from '../systems/FileIO';
+import { Replay, serializeReplay } from '../sim/Replay';
+import type { LevelPack } from '../config/levelPacks';
 
 interface GameOverData {
   level: number;
+  seed?: number;
+  replay?: Replay;
+  pack?: LevelPack; // level pack the level came from, so Retry replays it
   stats: {
     enemiesKilled: number;
     creditsEarned: number;
@@ -12,8 +18,9 @@ interface GameOverData {
 /**
  * GameOverScene -- shown when the player loses all lives.
  *
- * Displays: level number, enemies killed, credits earned.
- * Actions: Retry (restart the same level), Menu (return to MenuScene).
+ * Displays: level number, run seed, enemies killed, credits earned.
+ * Actions: Retry (restart the same level), Menu (return to MenuScene),
+ *          Save Replay (download the recorded run, when one was passed in).
  *
  * Visual enhancements:
  *   - Animated starfield background
@@ -24,6 +31,9 @@ interface GameOverData {
  */
 export class GameOverScene extends Phaser.Scene {
   private level: number = 1;
+  private seed: number | undefined;
+  private replay: Replay | undefined;
+  private pack: LevelPack | undefined;
   private stats: { enemiesKilled: number; creditsEarned: number } = {
     enemiesKilled: 0,
     creditsEarned: 0,
@@ -36,6 +46,9 @@ export class GameOverScene extends Phaser.Scene {
 
   init(data: GameOverData): void {
     this.level = data?.level ?? 1;
+    this.seed = data?.seed;
+    this.replay = data?.replay;
+    this.pack = data?.pack;
     this.stats = data?.stats ?? { enemiesKilled: 0, creditsEarned: 0 };
   }
 
@@ -141,6 +154,20 @@ export class GameOverScene extends Phaser.Scene {
       ease: 'Quad.easeOut',
     });
 
+    // ---- Seed (for reproducing the run) ----
+    if (this.seed !== undefined) {
+      const seedText = this.add
+        .text(width / 2, height * 0.32 + 26, `Seed: ${this.seed}`, {
+          fontSize: '12px',
+          color: '#666666',
+          fontFamily: 'monospace',
+        })
+        .setOrigin(0.5)
+        .setAlpha(0);
+
+      this.tweens.add({ targets: seedText, alpha: 1, duration: 400, delay: 550, ease: 'Quad.easeOut' });
+    }
+
     // ---- Stats ----
     const statsY = height * 0.44;
     const statsStyle: Phaser.Types.GameObjects.Text.TextStyle = {
@@ -207,7 +234,7 @@ export class GameOverScene extends Phaser.Scene {
       });
     });
     retryButton.on('pointerdown', () => {
-      this.scene.start('GameScene', { level: this.level });
+      this.scene.start('GameScene', { level: this.level, pack: this.pack });
     });
 
     // Menu button -- return to main menu
@@ -249,6 +276,31 @@ export class GameOverScene extends Phaser.Scene {
       this.scene.start('MenuScene');
     });
 
+    // Save Replay link -- download the run that was just lost
+    if (this.replay) {
+      const replay = this.replay;
+      const saveButton = this.add
+        .text(width / 2, height * 0.76, '[ SAVE REPLAY ]', {
+          fontSize: '16px',
+          color: '#888888',
+          fontFamily: 'monospace',
+        })
+        .setOrigin(0.5)
+        .setInteractive({ useHandCursor: true })
+        .setAlpha(0);
+
+      this.tweens.add({ targets: saveButton, alpha: 1, duration: 300, delay: 1000, ease: 'Quad.easeOut' });
+
+      saveButton.on('pointerover', () => saveButton.setColor('#00ffcc'));
+      saveButton.on('pointerout', () => saveButton.setColor('#888888'));
+      saveButton.on('pointerdown', () => {
+        FileIO.downloadText(
+          `earth-defense-level${replay.level}-seed${replay.seed}.replay.json`,
+          serializeReplay(replay),
+        );
+      });
+    }
+
     // ---- Register update for background animation ----
     this.events.on('update', this.onUpdate, this);
     this.events.once('shutdown', () => {
@@ -1,23 +1,50 @@
 import Phaser from 'phaser';
-import { getMapByLevel, TileType, TILE_SIZE, MAP_COLS, MAP_ROWS } from '../config/maps';
+import { getMapByLevel, findTiles, MapConfig, TileType, TILE_SIZE } from '../config/maps';
 import { LEVELS, LevelConfig } from '../config/levels';
-import { TOWERS } from '../config/towers';
-import { TilemapRenderer } from '../systems/TilemapRenderer';
-import { TowerManager } from '../systems/TowerManager';
-import { EnemySpawner } from '../systems/EnemySpawner';
-import { EconomyManager } from '../systems/EconomyManager';
+import { LevelPack, applyLevelPackOverrides } from '../config/levelPacks';
+import { BuildSlotInfo, TilemapRenderer } from '../systems/TilemapRenderer';
 import { BackgroundRenderer } from '../systems/BackgroundRenderer';
 import { ParticleEffects } from '../systems/ParticleEffects';
+import { Simulation, SIM_SPEEDS } from '../sim/Simulation';
+import { Replay, ReplayRecorder, ReplayPlayer, serializeReplay } from '../sim/Replay';
+import { SimEnemy } from '../sim/SimEnemy';
+import { SimTower, TargetingMode } from '../sim/SimTower';
 import { Tower } from '../entities/Tower';
 import { Enemy } from '../entities/Enemy';
-import { HUD } from '../ui/HUD';
+import { HUD, LevelStats } from '../ui/HUD';
 import { TowerPicker } from '../ui/TowerPicker';
 import { TowerInfoPanel } from '../ui/TowerInfoPanel';
+import { PlacementPreview } from '../ui/PlacementPreview';
 import { SoundManager } from '../systems/SoundManager';
+import { FileIO } from '../systems/FileIO';
+import { CampaignProgress } from '../systems/CampaignProgress';
+import { LevelDraft } from '../systems/LevelDraft';
+import { SavedRun, SavedRunStore } from '../systems/SavedRunStore';
+import { BRANCH_HOTKEYS, HotkeyAction, KeyBindings, resolveUpgradeHotkey, TOWER_HOTKEYS } from '../systems/KeyBindings';
+
+/** Simulated time (ms) between mid-level saves. */
+const AUTOSAVE_INTERVAL_MS = 5000;
 
 /**
- * GameScene -- the main gameplay scene that wires all systems together:
- * tilemap rendering, tower placement, enemy spawning, economy, and UI.
+ * GameScene -- the main gameplay scene. It owns a headless `Simulation`
+ * (economy, spawner, towers, projectiles, lives), feeds it frame deltas, and
+ * renders what it reports: tilemap, entity views, effects and UI.
+ *
+ * Every run is recorded as a `Replay`. Starting the scene with
+ * `{ replay }` plays a recorded run back instead of taking player input.
+ * Starting it with `{ draft }` test-plays a level editor draft and returns
+ * to the editor when the run ends or Esc is pressed. Starting it with
+ * `{ level, pack }` plays a level from an imported level pack, with the
+ * pack's enemy and tower overrides in effect until the scene shuts down.
+ *
+ * Player-controlled runs of built-in and pack levels are saved every few
+ * seconds to the `SavedRunStore`, and the save is cleared when the level
+ * ends. Starting the scene with `{ resume }` continues a saved run.
+ *
+ * The player can run the game at 1x, 2x or 3x speed (F or the HUD button)
+ * and pause it (Space or the HUD button). The simulation simply gets
+ * scaled frame deltas, or none while paused. Keyboard shortcuts go
+ * through the rebindable KeyBindings kept in the registry.
  *
  * Lifecycle:
  *   init(data) -> create() -> update(time, delta) per frame -> shutdown()
@@ -26,28 +53,48 @@ export class GameScene extends Phaser.Scene {
   // ---- Level ----
   private level: number = 1;
   private levelConfig!: LevelConfig;
-
-  // ---- Core systems ----
+  /** Gameplay seed; undefined lets the simulation roll a fresh one. */
+  private seed: number | undefined;
+  /** Level editor draft being test-played; undefined for built-in levels. */
+  private draft: LevelDraft | undefined;
+  /** Level pack the level comes from; undefined for built-in levels. */
+  private pack: LevelPack | undefined;
+  /** Saved run to continue; undefined when the level starts fresh. */
+  private resume: SavedRun | undefined;
+
+  // ---- Simulation ----
+  private simulation!: Simulation;
+
+  // ---- Replay ----
+  /** Run to play back; undefined for a normal, player-controlled game. */
+  private replay: Replay | undefined;
+  private replayRecorder!: ReplayRecorder;
+  private replayPlayer: ReplayPlayer | null = null;
+
+  // ---- Mid-level save ----
+  private savedRuns: SavedRunStore | undefined;
+  /** Simulated time (ms) of the last save. */
+  private lastSaveMs: number = 0;
+
+  // ---- Rendering ----
   private tilemapRenderer!: TilemapRenderer;
-  private towerManager!: TowerManager;
-  private enemySpawner!: EnemySpawner;
-  private economyManager!: EconomyManager;
-
-  // ---- Visual systems ----
   private backgroundRenderer: BackgroundRenderer | null = null;
+  private towerViews: Map<SimTower, Tower> = new Map();
 
   // ---- UI ----
   private hud!: HUD;
   private towerPicker!: TowerPicker;
   private towerInfoPanel!: TowerInfoPanel;
+  private placementPreview!: PlacementPreview;
+  /** Build slot under the pointer, for the placement preview. */
+  private hoveredSlot: BuildSlotInfo | null = null;
+  /** Boss shown in the HUD's boss health bar. */
+  private boss: SimEnemy | null = null;
 
-  // ---- Game state ----
-  private lives: number = 10;
-  private maxLives: number = 10;
-  private totalEnemies: number = 0;
-  private enemiesKilled: number = 0;
+  // ---- Scene state ----
   private levelComplete: boolean = false;
   private gameOver: boolean = false;
+  private paused: boolean = false;
 
   constructor() {
     super({ key: 'GameScene' });
@@ -57,96 +104,132 @@ export class GameScene extends Phaser.Scene {
   //  Phaser lifecycle
   // -------------------------------------------------------------------
 
-  init(data: { level: number }): void {
-    this.level = data.level || 1;
+  init(data: {
+    level: number;
+    seed?: number;
+    replay?: Replay;
+    draft?: LevelDraft;
+    pack?: LevelPack;
+    resume?: SavedRun;
+  }): void {
+    this.replay = data.replay;
+    this.draft = data.draft;
+    this.pack = data.pack;
+    this.resume = data.resume;
+    this.level = data.resume?.snapshot.level ?? data.replay?.level ?? data.draft?.level ?? (data.level || 1);
+    this.seed = data.resume?.snapshot.seed ?? data.replay?.seed ?? data.seed;
 
     // Reset transient state for scene restart
-    this.enemiesKilled = 0;
     this.levelComplete = false;
     this.gameOver = false;
+    this.paused = false;
+    this.towerViews = new Map();
   }
 
   create(): void {
     // ---- Level config lookup ----
-    const foundConfig = LEVELS.find((l) => l.level === this.level);
+    const levels = this.pack?.levels ?? LEVELS;
+    const foundConfig = this.draft ? this.draft.toLevelConfig() : levels.find((l) => l.level === this.level);
     if (!foundConfig) {
       console.error(`GameScene: no level config for level ${this.level}, falling back to level 1`);
-      this.levelConfig = LEVELS[0];
+      this.levelConfig = levels[0];
     } else {
       this.levelConfig = foundConfig;
     }
 
-    this.lives = this.levelConfig.lives;
-    this.maxLives = this.levelConfig.lives;
-    this.totalEnemies = this.levelConfig.segments.reduce((sum, seg) => sum + seg.count, 0);
+    // ---- Level pack stat overrides (reset to built-in stats otherwise) ----
+    applyLevelPackOverrides(this.pack);
+    this.events.once('shutdown', () => applyLevelPackOverrides());
 
     // ---- Background (depth -10, behind everything) ----
     this.backgroundRenderer = new BackgroundRenderer(this);
     this.backgroundRenderer.createStarfield();
 
     // ---- Tilemap ----
-    const mapConfig = getMapByLevel(this.level);
+    const mapConfig = this.getMapConfig();
     this.tilemapRenderer = new TilemapRenderer(this, mapConfig);
     this.tilemapRenderer.render();
 
     // ---- Ambient glows at spawn and base ----
     this.setupAmbientGlows(mapConfig);
 
-    // ---- Economy ----
-    this.economyManager = new EconomyManager(this.levelConfig);
+    // ---- Simulation ----
+    this.simulation = new Simulation(this.levelConfig, mapConfig, { seed: this.seed });
 
-    // ---- Tower Manager ----
-    this.towerManager = new TowerManager(this);
+    // ---- Replay: always record; play back when a replay was supplied ----
+    this.replayRecorder = new ReplayRecorder(this.simulation, this.pack?.name, this.resume?.replay);
+    this.replayPlayer = this.replay ? new ReplayPlayer(this.simulation, this.replay) : null;
 
-    // ---- Path waypoints & Enemy Spawner ----
-    const waypoints = this.tilemapRenderer.getPathPoints();
-    this.enemySpawner = new EnemySpawner(this, waypoints, this.levelConfig);
+    // ---- Mid-level save (player-controlled built-in and pack levels only) ----
+    this.savedRuns = this.draft || this.replayPlayer
+      ? undefined
+      : (this.registry.get('savedRuns') as SavedRunStore | undefined);
 
     // ---- UI Components ----
     this.hud = new HUD(this);
     this.towerPicker = new TowerPicker(this);
     this.towerInfoPanel = new TowerInfoPanel(this);
-
-    // Push initial state to HUD
-    this.hud.updateCredits(this.economyManager.getCredits());
-    this.hud.updateLives(this.lives, this.maxLives);
-    this.hud.updateEnemiesRemaining(this.totalEnemies);
-    this.hud.updateLevelName(this.levelConfig.level, this.levelConfig.name);
-    this.towerPicker.updateAffordability(this.economyManager.getCredits());
+    this.placementPreview = new PlacementPreview(this, mapConfig.grid);
+    this.hoveredSlot = null;
+    this.boss = null;
 
     // ---- Build slot click handling ----
     this.setupBuildSlots();
 
     // ---- Event wiring ----
     this.wireEvents();
+
+    // ---- Continue a saved run (views attach through the events above) ----
+    if (this.resume && !this.resumeSavedRun(this.resume)) return;
+    this.lastSaveMs = this.simulation.getElapsedMs();
+
+    // Push initial state to HUD
+    const credits = this.simulation.economy.getCredits();
+    this.hud.updateCredits(credits);
+    this.hud.updateLives(this.simulation.getLives(), this.simulation.getMaxLives());
+    this.hud.updateEnemiesRemaining(this.simulation.getEnemiesRemaining());
+    this.hud.updateLevelName(this.levelConfig.level, this.levelConfig.name);
+    this.towerPicker.updateAffordability(credits);
+    this.updateWaveHud();
+    if (this.replayPlayer) {
+      this.hud.showReplayBadge();
+    }
+    if (this.draft) {
+      this.hud.showTestPlayBadge();
+    }
+
+    // ---- Keyboard shortcuts ----
+    this.setupHotkeys();
   }
 
-  update(time: number, delta: number): void {
-    if (this.gameOver || this.levelComplete) return;
+  update(_time: number, delta: number): void {
+    this.updatePlacementPreview();
+    if (this.gameOver || this.levelComplete || this.paused) return;
 
     // ---- Background animation ----
     this.backgroundRenderer?.update(delta);
 
-    // ---- System updates ----
-    this.economyManager.update(delta);
-    this.enemySpawner.update(time, delta);
+    // ---- Simulation ----
+    // Entity views mirror their models on the scene's 'postupdate' event.
+    this.simulation.advance(delta);
 
-    const activeEnemies = this.enemySpawner.getActiveEnemies();
-    this.towerManager.updateAll(time, delta, activeEnemies);
+    // ---- HUD: enemies remaining, wave and build phase countdown ----
+    this.hud.updateEnemiesRemaining(this.simulation.getEnemiesRemaining());
+    this.updateWaveHud();
+    this.updateBossHud();
 
-    // ---- HUD: enemies remaining ----
-    // "Remaining" = total minus killed minus reached-base, showing how many are
-    // still a threat (including not-yet-spawned).
-    const enemiesRemaining = this.totalEnemies - this.enemiesKilled - this.enemySpawner.getEnemiesReachedBase();
-    this.hud.updateEnemiesRemaining(Math.max(0, enemiesRemaining));
+    // ---- Periodic mid-level save ----
+    if (this.simulation.getElapsedMs() - this.lastSaveMs >= AUTOSAVE_INTERVAL_MS) {
+      this.saveRun();
+    }
 
     // ---- Level completion check ----
-    if (this.enemySpawner.isComplete() && this.lives > 0) {
+    if (this.simulation.isLevelComplete()) {
       this.handleLevelComplete();
     }
 
     // ---- Game over check ----
-    if (this.lives <= 0) {
+    if (this.simulation.isGameOver()) {
       this.handleGameOver();
     }
   }
@@ -159,17 +242,23 @@ export class GameScene extends Phaser.Scene {
     const buildSlots = this.tilemapRenderer.getBuildSlots();
 
     for (const slot of buildSlots) {
+      slot.rect.on('pointerover', () => {
+        this.hoveredSlot = slot;
+      });
+      slot.rect.on('pointerout', () => {
+        if (this.hoveredSlot === slot) this.hoveredSlot = null;
+      });
+
       slot.rect.on('pointerdown', () => {
+        // Replays are watch-only
+        if (this.replayPlayer) return;
+
         // Check if a tower already exists at this slot
-        const existingTower = this.towerManager.getTowerAt(slot.tileX, slot.tileY);
+        const existingTower = this.simulation.towerManager.getTowerAt(slot.tileX, slot.tileY);
 
         if (existingTower) {
           // Show the tower info panel for the existing tower
-          const canAfford = this.economyManager.canUpgradeTower(
-            existingTower.towerKey,
-            existingTower.currentTier,
-          );
-          this.towerInfoPanel.show(existingTower, canAfford);
+          this.showTowerInfo(existingTower);
           return;
         }
 
@@ -177,135 +266,171 @@ export class GameScene extends Phaser.Scene {
         const selectedKey = this.towerPicker.getSelectedTower();
         if (!selectedKey) return;
 
-        // Check if the economy can afford it
-        if (!this.economyManager.canBuyTower(selectedKey)) return;
-
-        // Purchase and place
-        const purchased = this.economyManager.buyTower(selectedKey);
-        if (!purchased) return;
-
-        const tower = this.towerManager.placeTower(slot.tileX, slot.tileY, selectedKey);
-
-        if (!tower) {
-          // Placement failed -- refund the cost. baseCost was already deducted
-          // by buyTower, so we add it back.
-          const towerCfg = TOWERS[selectedKey];
-          if (towerCfg) {
-            this.economyManager.addCredits(towerCfg.baseCost);
-          }
-          return;
-        }
+        // Purchase and place (the simulation validates cost and occupancy)
+        const tower = this.simulation.placeTower(slot.tileX, slot.tileY, selectedKey);
+        if (!tower) return;
 
         // Play tower placement sound
         const sm = this.registry.get('soundManager') as SoundManager | undefined;
         sm?.play('tower-place');
 
         // Update UI
-        this.hud.updateCredits(this.economyManager.getCredits());
+        this.hud.updateCredits(this.simulation.economy.getCredits());
         this.towerPicker.clearSelection();
-        this.towerPicker.updateAffordability(this.economyManager.getCredits());
+        this.towerPicker.updateAffordability(this.simulation.economy.getCredits());
       });
     }
   }
 
+  /**
+   * Preview the selected tower on the hovered build slot: a ghost, its
+   * tier-1 range and the path tiles it would cover. Hidden over occupied
+   * slots, while paused and once the level has ended.
+   */
+  private updatePlacementPreview(): void {
+    const slot = this.hoveredSlot;
+    const towerKey = this.towerPicker.getSelectedTower();
+    const visible =
+      slot !== null &&
+      towerKey !== null &&
+      !this.paused &&
+      !this.gameOver &&
+      !this.levelComplete &&
+      !this.simulation.towerManager.getTowerAt(slot.tileX, slot.tileY);
+
+    if (!visible) {
+      this.placementPreview.hide();
+    } else {
+      this.placementPreview.show(towerKey, slot.tileX, slot.tileY);
+    }
+  }
+
   // -------------------------------------------------------------------
   //  Event wiring
   // -------------------------------------------------------------------
 
   private wireEvents(): void {
-    // ---- Enemy killed: award credits + visual effect ----
-    this.enemySpawner.on('enemy-killed', (data: { reward: number; enemy: Enemy }) => {
-      this.economyManager.addCredits(data.reward);
-      this.enemiesKilled++;
-      this.hud.updateCredits(this.economyManager.getCredits());
-
-      // Visual: death burst at enemy position
-      if (data.enemy) {
-        ParticleEffects.enemyDeathEffect(
-          this,
-          data.enemy.x,
-          data.enemy.y,
-          data.enemy.config.color,
-        );
-      }
+    const { spawner, towerManager, economy } = this.simulation;
+
+    // ---- Enemy spawned: attach a view ----
+    spawner.on('enemy-spawned', (data: { enemy: SimEnemy }) => {
+      new Enemy(this, data.enemy);
+      if (data.enemy.isBoss) this.trackBoss(data.enemy);
     });
 
-    // ---- Swarm split: adjust total enemy count for spawned children ----
-    this.enemySpawner.on('enemies-spawned-from-split', (data: { count: number }) => {
-      this.totalEnemies += data.count;
+    // ---- Enemy killed: sound + visual effect (reward applied by the simulation) ----
+    spawner.on('enemy-killed', (data: { reward: number; enemy: SimEnemy }) => {
+      const sm = this.registry.get('soundManager') as SoundManager | undefined;
+      sm?.play('enemy-death');
+
+      ParticleEffects.enemyDeathEffect(
+        this,
+        data.enemy.x,
+        data.enemy.y,
+        data.enemy.config.color,
+      );
+    });
+
+    // ---- Mender heal pulse: visual only (healing applied by the simulation) ----
+    spawner.on('enemies-healed', (data: { x: number; y: number; radius: number }) => {
+      ParticleEffects.healPulseEffect(this, data.x, data.y, data.radius);
     });
 
-    // ---- Enemy reached base: lose a life + visual effects ----
-    this.enemySpawner.on('enemy-reached-base', (data: { enemy: Enemy }) => {
-      this.lives--;
-      this.hud.updateLives(this.lives, this.maxLives);
+    // ---- Enemy reached base: lives display + visual effects ----
+    spawner.on('enemy-reached-base', (data: { enemy: SimEnemy }) => {
+      this.hud.updateLives(this.simulation.getLives(), this.simulation.getMaxLives());
 
       // Play warning buzz
       const sm = this.registry.get('soundManager') as SoundManager | undefined;
       sm?.play('enemy-reached-base');
 
       // Visual: red pulse at base + camera shake
-      if (data?.enemy) {
-        ParticleEffects.enemyReachedBaseEffect(this, data.enemy.x, data.enemy.y);
-      }
+      ParticleEffects.enemyReachedBaseEffect(this, data.enemy.x, data.enemy.y);
       this.cameras.main.shake(200, 0.005);
-
-      if (this.lives <= 0) {
-        this.handleGameOver();
-      }
     });
 
-    // ---- Tower placed: visual effect + click-to-inspect wiring ----
-    this.towerManager.events.on('tower-placed', (data: { tower: Tower }) => {
-      ParticleEffects.towerPlaceEffect(this, data.tower.x, data.tower.y);
+    // ---- Tower placed: view + visual effect + click-to-inspect wiring ----
+    towerManager.events.on('tower-placed', (data: { tower: SimTower }) => {
+      const view = new Tower(this, data.tower);
+      this.towerViews.set(data.tower, view);
+
+      ParticleEffects.towerPlaceEffect(this, view.x, view.y);
 
       // When the player clicks a placed tower, show its info panel
-      data.tower.on('tower-clicked', (tower: Tower) => {
-        const canAfford = this.economyManager.canUpgradeTower(
-          tower.towerKey,
-          tower.currentTier,
-        );
-        this.towerInfoPanel.show(tower, canAfford);
+      view.on('tower-clicked', (tower: SimTower) => {
+        this.showTowerInfo(tower);
       });
     });
 
-    // ---- Tower upgraded: visual effect ----
-    this.towerManager.events.on('tower-upgraded', (data: { tower: Tower; newTier: number; cost: number }) => {
+    // ---- Tower upgraded: refresh view + visual effect ----
+    towerManager.events.on('tower-upgraded', (data: { tower: SimTower }) => {
+      const view = this.towerViews.get(data.tower);
+      view?.refresh();
       ParticleEffects.towerUpgradeEffect(this, data.tower.x, data.tower.y);
     });
 
+    // ---- Support auras changed: buffed ranges and the open panel may differ ----
+    towerManager.events.on('auras-changed', () => {
+      for (const view of this.towerViews.values()) {
+        view.refresh();
+      }
+      const shown = this.towerInfoPanel.getTower();
+      if (shown) this.showTowerInfo(shown);
+    });
+
+    // ---- Tower sold: drop its view ----
+    towerManager.events.on('tower-sold', (data: { tower: SimTower }) => {
+      this.towerViews.get(data.tower)?.destroy();
+      this.towerViews.delete(data.tower);
+    });
+
     // ---- Credits changed: update tower picker affordability ----
-    this.economyManager.on('credits-changed', (credits: number) => {
+    economy.on('credits-changed', (credits: number) => {
       this.hud.updateCredits(credits);
       this.towerPicker.updateAffordability(credits);
     });
 
-    // ---- Tower info panel: upgrade requested ----
-    this.towerInfoPanel.on('upgrade-requested', (tower: Tower) => {
-      if (!tower.hasEnoughKills()) return;
-      if (!this.economyManager.canUpgradeTower(tower.towerKey, tower.currentTier)) return;
+    // ---- HUD: call the next wave early (bonus paid by the simulation) ----
+    this.hud.on('call-next-wave', () => {
+      if (this.replayPlayer) return;
+      this.simulation.callNextWave();
+    });
+
+    // ---- HUD: game speed and pause menu ----
+    this.hud.on('cycle-speed', () => this.cycleSpeed());
+    this.hud.on('pause', () => this.togglePause());
+    this.hud.on('resume', () => this.togglePause());
+    this.hud.on('restart', () => this.restartLevel());
+    this.hud.on('quit', () => this.quitLevel());
 
-      const spent = this.economyManager.upgradeTower(tower.towerKey, tower.currentTier);
-      if (!spent) return;
+    // ---- HUD: export the recorded run ----
+    this.hud.on('save-replay', () => {
+      this.saveReplay();
+    });
 
-      this.towerManager.upgradeTower(tower);
-      this.hud.updateCredits(this.economyManager.getCredits());
+    // ---- Tower info panel: upgrade requested ----
+    this.towerInfoPanel.on('upgrade-requested', (tower: SimTower, specialization?: string) => {
+      if (!this.simulation.upgradeTower(tower, specialization)) return;
 
       // Play upgrade sound
       const sm = this.registry.get('soundManager') as SoundManager | undefined;
       sm?.play('tower-upgrade');
 
       // Refresh the info panel to reflect the new tier stats
-      const canAfford = this.economyManager.canUpgradeTower(tower.towerKey, tower.currentTier);
       this.towerInfoPanel.hide();
-      this.towerInfoPanel.show(tower, canAfford);
+      this.showTowerInfo(tower);
+    });
+
+    // ---- Tower info panel: targeting mode changed ----
+    this.towerInfoPanel.on('targeting-requested', (tower: SimTower, mode: TargetingMode) => {
+      if (!this.simulation.setTargeting(tower, mode)) return;
+      this.towerInfoPanel.hide();
+      this.showTowerInfo(tower);
     });
 
     // ---- Tower info panel: sell requested ----
-    this.towerInfoPanel.on('sell-requested', (tower: Tower) => {
-      const refund = this.towerManager.removeTower(tower);
-      this.economyManager.addCredits(refund);
-      this.hud.updateCredits(this.economyManager.getCredits());
+    this.towerInfoPanel.on('sell-requested', (tower: SimTower) => {
+      this.simulation.sellTower(tower);
       this.towerInfoPanel.hide();
 
       // Play sell sound
@@ -314,6 +439,264 @@ export class GameScene extends Phaser.Scene {
     });
   }
 
+  /**
+   * Show the boss health bar for a boss that entered the field, and shake
+   * the camera whenever it changes phase.
+   */
+  private trackBoss(boss: SimEnemy): void {
+    this.boss = boss;
+    const phases = boss.config.boss?.phases ?? [];
+    this.hud.showBossBar(boss.config.name, phases.map((phase) => phase.hpThreshold));
+    this.hud.updateBossBar(boss.hp, boss.maxHp, boss.shieldHp);
+    boss.on('boss-phase', () => this.cameras.main.shake(300, 0.004));
+  }
+
+  /** Refresh the boss health bar; hide it once the boss is gone. */
+  private updateBossHud(): void {
+    if (!this.boss) return;
+    if (this.boss.active) {
+      this.hud.updateBossBar(this.boss.hp, this.boss.maxHp, this.boss.shieldHp);
+    } else {
+      this.hud.hideBossBar();
+      this.boss = null;
+    }
+  }
+
+  /**
+   * Wave mode: refresh the wave counter and the build phase button.
+   */
+  private updateWaveHud(): void {
+    const { spawner } = this.simulation;
+    if (!spawner.isWaveMode()) return;
+
+    this.hud.updateWave(spawner.getWaveNumber(), spawner.getWaveCount());
+    if (spawner.isBuildPhase() && !this.replayPlayer) {
+      this.hud.showCallWaveButton(
+        spawner.getWaveNumber() + 1,
+        spawner.getBuildTimeRemaining(),
+        this.simulation.getEarlyCallBonus(),
+      );
+    } else {
+      this.hud.hideCallWaveButton();
+    }
+  }
+
+  /**
+   * Open the info panel for a tower, with the upgrade button enabled only
+   * when the next tier is affordable.
+   */
+  private showTowerInfo(tower: SimTower): void {
+    if (this.replayPlayer) return;
+    const canAfford = this.simulation.economy.canUpgradeTower(tower.towerKey, tower.currentTier);
+    this.towerInfoPanel.show(tower, canAfford);
+  }
+
+  // -------------------------------------------------------------------
+  //  Replay export
+  // -------------------------------------------------------------------
+
+  /** Download the run recorded so far as a JSON file. */
+  private saveReplay(): void {
+    const replay = this.replayRecorder.toReplay();
+    FileIO.downloadText(
+      `earth-defense-level${replay.level}-seed${replay.seed}.replay.json`,
+      serializeReplay(replay),
+    );
+  }
+
+  /** Warn if a played-back run did not end the way it was recorded. */
+  private checkReplayResult(): void {
+    if (!this.replayPlayer) return;
+    if (this.replayPlayer.matchesRecordedResult() === false) {
+      console.warn(
+        `GameScene: replay diverged from its recorded result ` +
+          `(${this.replayPlayer.getFailedActionCount()} actions rejected)`,
+      );
+    }
+  }
+
+  // -------------------------------------------------------------------
+  //  Keyboard shortcuts
+  // -------------------------------------------------------------------
+
+  /**
+   * Route key presses through the player's key bindings. Phaser drops the
+   * listener when the scene shuts down.
+   */
+  private setupHotkeys(): void {
+    const bindings = this.registry.get('keyBindings') as KeyBindings | undefined;
+    if (!bindings) return;
+
+    if (!this.replayPlayer) {
+      this.towerPicker.setKeyHints(
+        TOWER_HOTKEYS.map((action) => KeyBindings.describeKey(bindings.getKey(action))),
+      );
+      this.towerInfoPanel.setBranchKeyHints(
+        BRANCH_HOTKEYS.map((action) => KeyBindings.describeKey(bindings.getKey(action))),
+      );
+    }
+
+    this.input.keyboard?.on('keydown', (event: KeyboardEvent) => {
+      const action = bindings.getAction(event.code);
+      if (!action) return;
+      event.preventDefault(); // keep Tab and Space from moving browser focus
+      this.handleHotkey(action);
+    });
+  }
+
+  private handleHotkey(action: HotkeyAction): void {
+    if (this.gameOver || this.levelComplete) return;
+
+    if (action === 'pause') {
+      this.togglePause();
+      return;
+    }
+    if (action === 'cancel') {
+      this.cancel();
+      return;
+    }
+    if (this.paused) return;
+
+    if (action === 'cycle-speed') {
+      this.cycleSpeed();
+      return;
+    }
+    // Everything below changes the game, which a replay does on its own
+    if (this.replayPlayer) return;
+
+    const towerIndex = TOWER_HOTKEYS.indexOf(action);
+    if (towerIndex >= 0) {
+      this.towerInfoPanel.hide();
+      this.towerPicker.toggleAt(towerIndex);
+    } else if (action === 'upgrade' || BRANCH_HOTKEYS.includes(action)) {
+      this.upgradeByHotkey(action);
+    } else if (action === 'sell') {
+      this.towerInfoPanel.requestSell();
+    } else if (action === 'next-tower') {
+      this.showNextTowerInfo();
+    }
+  }
+
+  /**
+   * Upgrade the tower in the info panel from the keyboard. A tower about to
+   * branch needs a branch key; the plain upgrade key flashes its branch
+   * buttons instead of doing nothing.
+   */
+  private upgradeByHotkey(action: HotkeyAction): void {
+    const tower = this.towerInfoPanel.getTower();
+    if (!tower) return;
+    const upgrade = resolveUpgradeHotkey(action, tower);
+    if (upgrade?.type === 'choose-branch') {
+      const bindings = this.registry.get('keyBindings') as KeyBindings | undefined;
+      const keys = bindings ? BRANCH_HOTKEYS.map((a) => KeyBindings.describeKey(bindings.getKey(a))) : [];
+      this.towerInfoPanel.promptBranch(
+        keys.length > 0 ? `Choose a branch: ${keys.join(' or ')}` : 'Choose a specialization',
+      );
+    } else if (upgrade) {
+      this.towerInfoPanel.requestUpgrade(upgrade.specialization);
+    }
+  }
+
+  /**
+   * Back out of whatever is open: the pause menu, then the tower info
+   * panel, then the tower selection. With nothing open a draft test play
+   * returns to the editor.
+   */
+  private cancel(): void {
+    if (this.paused) {
+      this.togglePause();
+    } else if (this.towerInfoPanel.isVisible()) {
+      this.towerInfoPanel.hide();
+    } else if (this.towerPicker.getSelectedTower() !== null) {
+      this.towerPicker.clearSelection();
+    } else if (this.draft) {
+      this.returnToEditor('Test play stopped');
+    }
+  }
+
+  /** Open the info panel for the placed tower after the one shown, in build order. */
+  private showNextTowerInfo(): void {
+    const towers = this.simulation.towerManager.getAllTowers();
+    if (towers.length === 0) return;
+    const current = this.towerInfoPanel.getTower();
+    const index = current ? towers.indexOf(current) : -1;
+    this.towerPicker.clearSelection();
+    this.showTowerInfo(towers[(index + 1) % towers.length]);
+  }
+
+  // -------------------------------------------------------------------
+  //  Game speed and pause
+  // -------------------------------------------------------------------
+
+  /** Step to the next game speed (1x -> 2x -> 3x -> 1x). */
+  private cycleSpeed(): void {
+    if (this.paused) return;
+    const index = SIM_SPEEDS.indexOf(this.simulation.getSpeed());
+    const speed = SIM_SPEEDS[(index + 1) % SIM_SPEEDS.length];
+    this.simulation.setSpeed(speed);
+    this.hud.updateSpeed(speed);
+  }
+
+  /** Open or close the pause menu. Has no effect once the level has ended. */
+  private togglePause(): void {
+    if (this.gameOver || this.levelComplete) return;
+    this.paused = !this.paused;
+    if (this.paused) {
+      this.towerInfoPanel.hide();
+      this.hud.showPauseMenu(this.draft ? 'Back to Editor' : 'Quit to Menu');
+    } else {
+      this.hud.hidePauseMenu();
+    }
+  }
+
+  /** Start the level over: a fresh run, or the same replay from the start. */
+  private restartLevel(): void {
+    this.savedRuns?.clear();
+    this.scene.restart({ level: this.level, seed: this.seed, replay: this.replay, draft: this.draft, pack: this.pack });
+  }
+
+  /**
+   * Leave the level. A player-controlled run is saved first so the menu can
+   * continue it; a draft test play returns to the editor.
+   */
+  private quitLevel(): void {
+    if (this.draft) {
+      this.returnToEditor('Test play stopped');
+      return;
+    }
+    this.saveRun();
+    this.scene.start('MenuScene');
+  }
+
+  // -------------------------------------------------------------------
+  //  Mid-level save
+  // -------------------------------------------------------------------
+
+  /** Store the run so far, unless the level has already ended. */
+  private saveRun(): void {
+    this.lastSaveMs = this.simulation.getElapsedMs();
+    if (!this.savedRuns || this.simulation.getOutcome() !== 'running') return;
+    this.savedRuns.save(this.simulation.serialize(), this.replayRecorder.toReplay());
+  }
+
+  /**
+   * Restore a saved run into the fresh simulation. A save that does not fit
+   * the level is discarded and the level restarts from scratch; returns
+   * false in that case.
+   */
+  private resumeSavedRun(run: SavedRun): boolean {
+    try {
+      this.simulation.restore(run.snapshot);
+      return true;
+    } catch (err) {
+      console.warn('GameScene: discarding a saved run that no longer loads', err);
+      this.savedRuns?.clear();
+      this.gameOver = true; // keep update() off the half-restored simulation
+      this.scene.restart({ level: this.level, pack: this.pack });
+      return false;
+    }
+  }
+
   // -------------------------------------------------------------------
   //  Level completion / game over
   // -------------------------------------------------------------------
@@ -321,23 +704,41 @@ export class GameScene extends Phaser.Scene {
   private handleLevelComplete(): void {
     if (this.levelComplete) return;
     this.levelComplete = true;
+    this.savedRuns?.clear();
+    this.checkReplayResult();
+
+    if (this.draft) {
+      const lives = `${this.simulation.getLives()}/${this.simulation.getMaxLives()}`;
+      this.time.delayedCall(1000, () => this.returnToEditor(`Test play won with ${lives} lives left`));
+      return;
+    }
 
     // Play level-complete jingle
     const sm = this.registry.get('soundManager') as SoundManager | undefined;
     sm?.play('level-complete');
 
-    const stats = this.economyManager.getStats();
-    const maxLevel = LEVELS.length;
+    const stats = this.simulation.economy.getStats();
+    const levels = this.pack?.levels ?? LEVELS;
+    const hasNextLevel = levels.some((l) => l.level === this.level + 1);
 
-    const levelStats = {
-      enemiesKilled: this.enemiesKilled,
+    const levelStats: LevelStats = {
+      enemiesKilled: this.simulation.getEnemiesKilled(),
       creditsEarned: stats.totalEarned,
-      livesRemaining: this.lives,
-      livesMax: this.maxLives,
+      livesRemaining: this.simulation.getLives(),
+      livesMax: this.simulation.getMaxLives(),
       level: this.level,
+      seed: this.simulation.getSeed(),
     };
 
-    if (this.level >= maxLevel) {
+    // Campaign progress: only played (not replayed) built-in levels count
+    const progress = this.registry.get('campaignProgress') as CampaignProgress | undefined;
+    if (progress && !this.pack && !this.replayPlayer) {
+      const { stars, newBest } = progress.recordCompletion(levelStats);
+      levelStats.stars = stars;
+      levelStats.newBest = newBest;
+    }
+
+    if (!hasNextLevel) {
       // Victory -- all levels completed. Show level complete overlay,
       // then after a delay return to the menu.
       this.hud.showLevelComplete(levelStats);
@@ -351,7 +752,7 @@ export class GameScene extends Phaser.Scene {
 
       // HUD emits 'next-level' when the player clicks the button
       this.hud.once('next-level', () => {
-        this.scene.start('GameScene', { level: this.level + 1 });
+        this.scene.start('GameScene', { level: this.level + 1, pack: this.pack });
       });
     }
   }
@@ -359,53 +760,65 @@ export class GameScene extends Phaser.Scene {
   private handleGameOver(): void {
     if (this.gameOver) return;
     this.gameOver = true;
+    this.savedRuns?.clear();
+    this.checkReplayResult();
+
+    if (this.draft) {
+      const killed = this.simulation.getEnemiesKilled();
+      this.time.delayedCall(1000, () => this.returnToEditor(`Test play lost after ${killed} kills`));
+      return;
+    }
 
     // Play game-over descending tones
     const sm = this.registry.get('soundManager') as SoundManager | undefined;
     sm?.play('game-over');
 
-    const stats = this.economyManager.getStats();
+    const stats = this.simulation.economy.getStats();
 
     // Brief delay so the player sees the final life lost
     this.time.delayedCall(1000, () => {
       this.scene.start('GameOverScene', {
         level: this.level,
+        seed: this.simulation.getSeed(),
+        replay: this.replayRecorder.toReplay(),
+        pack: this.pack,
         stats: {
-          enemiesKilled: this.enemiesKilled,
+          enemiesKilled: this.simulation.getEnemiesKilled(),
           creditsEarned: stats.totalEarned,
         },
       });
     });
   }
 
+  /** Map for the current level: from the draft, the level pack or MAPS. */
+  private getMapConfig(): MapConfig {
+    if (this.draft) return this.draft.toMapConfig();
+    const packMap = this.pack?.maps.find((m) => m.level === this.levelConfig.level);
+    return packMap ?? getMapByLevel(this.level);
+  }
+
+  /** Leave a draft test play and reopen the editor on the same draft. */
+  private returnToEditor(message: string): void {
+    this.scene.start('EditorScene', { draft: this.draft, message });
+  }
+
   // -------------------------------------------------------------------
   //  Visual setup helpers
   // -------------------------------------------------------------------
 
   /**
-   * Scan the map grid for spawn (3) and base (4) tile types, then
-   * add pulsing ambient glows at those positions via BackgroundRenderer.
+   * Find every spawn (3) and base (4) tile in the map grid, then add
+   * pulsing ambient glows at those positions via BackgroundRenderer.
    */
-  private setupAmbientGlows(mapConfig: { grid: number[][] }): void {
-    let spawnX = TILE_SIZE / 2;
-    let spawnY = TILE_SIZE / 2;
-    let baseX = TILE_SIZE / 2;
-    let baseY = TILE_SIZE / 2;
-
-    for (let row = 0; row < MAP_ROWS; row++) {
-      for (let col = 0; col < MAP_COLS; col++) {
-        const tile = mapConfig.grid[row][col];
-        if (tile === TileType.Spawn) {
-          spawnX = col * TILE_SIZE + TILE_SIZE / 2;
-          spawnY = row * TILE_SIZE + TILE_SIZE / 2;
-        } else if (tile === TileType.Base) {
-          baseX = col * TILE_SIZE + TILE_SIZE / 2;
-          baseY = row * TILE_SIZE + TILE_SIZE / 2;
-        }
-      }
-    }
+  private setupAmbientGlows(mapConfig: MapConfig): void {
+    const toWorld = (p: { x: number; y: number }) => ({
+      x: p.x * TILE_SIZE + TILE_SIZE / 2,
+      y: p.y * TILE_SIZE + TILE_SIZE / 2,
+    });
+    const spawns = findTiles(mapConfig.grid, TileType.Spawn).map(toWorld);
+    const bases = findTiles(mapConfig.grid, TileType.Base).map(toWorld);
 
-    this.backgroundRenderer?.createAmbientGlows(spawnX, spawnY, baseX, baseY);
+    this.backgroundRenderer?.createAmbientGlows(spawns, bases);
   }
 
   // -------------------------------------------------------------------
@@ -413,12 +826,15 @@ export class GameScene extends Phaser.Scene {
   // -------------------------------------------------------------------
 
   shutdown(): void {
-    this.towerManager?.destroy();
-    this.enemySpawner?.destroy();
-    this.economyManager?.removeAllListeners();
+    this.replayRecorder?.destroy();
+    this.replayPlayer?.destroy();
+    this.replayPlayer = null;
+    this.simulation?.destroy();
+    this.towerViews.clear();
     this.hud?.destroy();
     this.towerPicker?.destroy();
     this.towerInfoPanel?.destroy();
+    this.placementPreview?.destroy();
     this.backgroundRenderer?.destroy();
     this.backgroundRenderer = null;
   }
@@ -1,12 +1,28 @@
 import Phaser from 'phaser';
 import { LEVELS } from '../config/levels';
 import { BackgroundRenderer } from '../systems/BackgroundRenderer';
+import { FileIO } from '../systems/FileIO';
+import { parseReplay } from '../sim/Replay';
+import { LevelPack } from '../config/levelPacks';
+import { LevelPackLibrary } from '../systems/LevelPackLibrary';
+import { CampaignProgress } from '../systems/CampaignProgress';
+import { SavedRunStore } from '../systems/SavedRunStore';
+import { ENEMIES } from '../config/enemies';
+import { describeDamageMultipliers } from '../config/damage';
+import { HOTKEY_ACTIONS, HOTKEY_LABELS, HotkeyAction, KeyBindings } from '../systems/KeyBindings';
 
 /**
  * MenuScene -- main menu with title, subtitle, and level select buttons.
  *
- * Provides a "Start Game" button (level 1) plus individual level buttons
- * so the player can jump to any level for testing or replay.
+ * Provides a "Start Game" button (level 1), a "Continue" button when a
+ * level was left mid-way, plus individual level buttons
+ * showing the stars earned on each level. Levels stay locked until the
+ * one before them has been cleared. There is also a
+ * "Load Replay" link that plays back a saved replay file, a "Level Packs"
+ * panel listing imported packs (from a file or pasted JSON), a
+ * "Level Editor" link, an "Enemy Codex" panel describing each enemy and
+ * its damage resistances, and a "Controls" panel for rebinding the
+ * keyboard shortcuts.
  *
  * Visual enhancements:
  *   - Animated starfield background
@@ -18,6 +34,12 @@ import { BackgroundRenderer } from '../systems/BackgroundRenderer';
  */
 export class MenuScene extends Phaser.Scene {
   private backgroundRenderer: BackgroundRenderer | null = null;
+  private packLibrary!: LevelPackLibrary;
+  private packPanel: Phaser.GameObjects.Container | null = null;
+  private controlsPanel: Phaser.GameObjects.Container | null = null;
+  private codexPanel: Phaser.GameObjects.Container | null = null;
+  /** Action waiting for its new key in the controls panel. */
+  private rebinding: HotkeyAction | null = null;
 
   constructor() {
     super({ key: 'MenuScene' });
@@ -25,6 +47,11 @@ export class MenuScene extends Phaser.Scene {
 
   create(): void {
     const { width, height } = this.scale;
+    this.packLibrary = new LevelPackLibrary();
+    this.packPanel = null;
+    this.controlsPanel = null;
+    this.codexPanel = null;
+    this.rebinding = null;
 
     // ---- Fade-in transition ----
     this.cameras.main.setAlpha(0);
@@ -136,9 +163,15 @@ export class MenuScene extends Phaser.Scene {
       this.scene.start('GameScene', { level: 1 });
     });
 
+    // ---- Continue a level left mid-way ----
+    this.createContinueButton(width, height);
+
     // ---- Level select ----
+    const progress = this.registry.get('campaignProgress') as CampaignProgress | undefined;
+    const maxStars = LEVELS.length * 3;
+    const header = progress ? `Level Select  \u2605 ${progress.getTotalStars()}/${maxStars}` : 'Level Select';
     this.add
-      .text(width / 2, height * 0.55, 'Level Select', {
+      .text(width / 2, height * 0.55, header, {
         fontSize: '18px',
         color: '#888888',
         fontFamily: 'monospace',
@@ -156,23 +189,40 @@ export class MenuScene extends Phaser.Scene {
       const by = height * 0.64;
 
       const buttonHeight = 48;
+      const unlocked = progress?.isUnlocked(lvl.level) ?? true;
 
       // Background rectangle (interactive hit area)
-      const btnBg = this.add
-        .rectangle(bx, by, buttonWidth, buttonHeight, 0x222244)
-        .setInteractive({ useHandCursor: true });
+      const btnBg = this.add.rectangle(bx, by, buttonWidth, buttonHeight, unlocked ? 0x222244 : 0x151525);
 
       // Centered label text (no background -- the rectangle handles that)
       const btnLabel = this.add
         .text(bx, by, `${lvl.level}. ${lvl.name}`, {
           fontSize: '13px',
-          color: '#cccccc',
+          color: unlocked ? '#cccccc' : '#555555',
           fontFamily: 'monospace',
           align: 'center',
           wordWrap: { width: buttonWidth - 16 },
         })
         .setOrigin(0.5);
 
+      // Stars earned (or a lock marker) under the button
+      const record = progress?.getRecord(lvl.level);
+      const starsLabel = record
+        ? '\u2605'.repeat(record.stars) + '\u2606'.repeat(3 - record.stars)
+        : unlocked
+          ? '\u2606\u2606\u2606'
+          : 'LOCKED';
+      this.add
+        .text(bx, by + buttonHeight / 2 + 10, starsLabel, {
+          fontSize: '12px',
+          color: record ? '#ffcc00' : '#555555',
+          fontFamily: 'monospace',
+        })
+        .setOrigin(0.5);
+
+      if (!unlocked) continue;
+      btnBg.setInteractive({ useHandCursor: true });
+
       btnBg.on('pointerover', () => {
         btnLabel.setColor('#00ffcc');
         this.tweens.add({
@@ -198,6 +248,71 @@ export class MenuScene extends Phaser.Scene {
       });
     }
 
+    // ---- Load Replay ----
+    this.createLoadReplayButton(width, height);
+
+    // ---- Level Packs ----
+    const packsButton = this.add
+      .text(width / 2, height * 0.71, '[ LEVEL PACKS ]', {
+        fontSize: '14px',
+        color: '#888888',
+        fontFamily: 'monospace',
+      })
+      .setOrigin(0.5)
+      .setInteractive({ useHandCursor: true });
+
+    packsButton.on('pointerover', () => packsButton.setColor('#00ffcc'));
+    packsButton.on('pointerout', () => packsButton.setColor('#888888'));
+    packsButton.on('pointerdown', () => this.openPackPanel());
+
+    // ---- Level Editor ----
+    const editorButton = this.add
+      .text(width / 2 + 200, height * 0.71, '[ LEVEL EDITOR ]', {
+        fontSize: '14px',
+        color: '#888888',
+        fontFamily: 'monospace',
+      })
+      .setOrigin(0.5)
+      .setInteractive({ useHandCursor: true });
+
+    editorButton.on('pointerover', () => editorButton.setColor('#00ffcc'));
+    editorButton.on('pointerout', () => editorButton.setColor('#888888'));
+    editorButton.on('pointerdown', () => {
+      this.scene.start('EditorScene');
+    });
+
+    // ---- Enemy Codex ----
+    const codexButton = this.add
+      .text(width / 2 - 100, height * 0.76, '[ ENEMY CODEX ]', {
+        fontSize: '14px',
+        color: '#888888',
+        fontFamily: 'monospace',
+      })
+      .setOrigin(0.5)
+      .setInteractive({ useHandCursor: true });
+
+    codexButton.on('pointerover', () => codexButton.setColor('#00ffcc'));
+    codexButton.on('pointerout', () => codexButton.setColor('#888888'));
+    codexButton.on('pointerdown', () => this.openCodexPanel());
+
+    // ---- Controls (keyboard shortcuts) ----
+    const keyBindings = this.registry.get('keyBindings') as KeyBindings | undefined;
+    if (keyBindings) {
+      const controlsButton = this.add
+        .text(width / 2 + 100, height * 0.76, '[ CONTROLS ]', {
+          fontSize: '14px',
+          color: '#888888',
+          fontFamily: 'monospace',
+        })
+        .setOrigin(0.5)
+        .setInteractive({ useHandCursor: true });
+
+      controlsButton.on('pointerover', () => controlsButton.setColor('#00ffcc'));
+      controlsButton.on('pointerout', () => controlsButton.setColor('#888888'));
+      controlsButton.on('pointerdown', () => this.openControlsPanel(keyBindings));
+      this.input.keyboard?.on('keydown', (event: KeyboardEvent) => this.rebindKey(keyBindings, event));
+    }
+
     // ---- Footer (version links to changelog) ----
     const versionText = this.add
       .text(width / 2, height * 0.9, 'v1.0.1 -- Earth Defense', {
@@ -231,6 +346,359 @@ export class MenuScene extends Phaser.Scene {
     this.backgroundRenderer?.updateStarfield(delta);
   };
 
+  // -------------------------------------------------------------------
+  //  Continue
+  // -------------------------------------------------------------------
+
+  /**
+   * "Continue" link under the start button, shown while the save slot
+   * holds a run whose level (and level pack) can still be found.
+   */
+  private createContinueButton(width: number, height: number): void {
+    const savedRuns = this.registry.get('savedRuns') as SavedRunStore | undefined;
+    const run = savedRuns?.load();
+    if (!run) return;
+
+    const packName = run.replay.pack;
+    const pack = packName !== undefined ? this.packLibrary.find(packName) : undefined;
+    if (packName !== undefined && !pack) return;
+    const levelConfig = (pack?.levels ?? LEVELS).find((l) => l.level === run.snapshot.level);
+    if (!levelConfig) return;
+
+    const label = `[ CONTINUE: ${levelConfig.level}. ${levelConfig.name} ]`;
+    const continueButton = this.add
+      .text(width / 2, height * 0.485, label, {
+        fontSize: '16px',
+        color: '#cccccc',
+        fontFamily: 'monospace',
+      })
+      .setOrigin(0.5)
+      .setInteractive({ useHandCursor: true });
+
+    continueButton.on('pointerover', () => continueButton.setColor('#00ffcc'));
+    continueButton.on('pointerout', () => continueButton.setColor('#cccccc'));
+    continueButton.on('pointerdown', () => {
+      this.scene.start('GameScene', { level: run.snapshot.level, pack, resume: run });
+    });
+  }
+
+  // -------------------------------------------------------------------
+  //  Replay import
+  // -------------------------------------------------------------------
+
+  /**
+   * "Load Replay" link: pick a replay JSON file, validate it and start
+   * GameScene in playback mode. Problems are shown under the link.
+   */
+  private createLoadReplayButton(width: number, height: number): void {
+    const loadButton = this.add
+      .text(width / 2 - 200, height * 0.71, '[ LOAD REPLAY ]', {
+        fontSize: '14px',
+        color: '#888888',
+        fontFamily: 'monospace',
+      })
+      .setOrigin(0.5)
+      .setInteractive({ useHandCursor: true });
+
+    const errorText = this.add
+      .text(width / 2, height * 0.71 + 20, '', {
+        fontSize: '12px',
+        color: '#ff4444',
+        fontFamily: 'monospace',
+      })
+      .setOrigin(0.5);
+
+    loadButton.on('pointerover', () => loadButton.setColor('#00ffcc'));
+    loadButton.on('pointerout', () => loadButton.setColor('#888888'));
+    loadButton.on('pointerdown', () => {
+      FileIO.openTextFile('.json,application/json', (text) => {
+        try {
+          const replay = parseReplay(text);
+          const pack = replay.pack !== undefined ? this.packLibrary.find(replay.pack) : undefined;
+          if (replay.pack !== undefined && !pack) {
+            throw new Error(`Replay needs level pack "${replay.pack}"; import it first`);
+          }
+          if (!(pack?.levels ?? LEVELS).some((l) => l.level === replay.level)) {
+            throw new Error(`Replay is for unknown level ${replay.level}`);
+          }
+          this.scene.start('GameScene', { level: replay.level, replay, pack });
+        } catch (err) {
+          errorText.setText((err as Error).message);
+        }
+      });
+    });
+  }
+
+  // -------------------------------------------------------------------
+  //  Level packs
+  // -------------------------------------------------------------------
+
+  /**
+   * Open the level pack panel: one row per imported pack with a button for
+   * each of its levels, plus links to import a pack from a file or from
+   * pasted JSON. Import problems are shown at the bottom of the panel.
+   */
+  private openPackPanel(message: string = '', messageColor: string = '#ff4444'): void {
+    this.packPanel?.destroy(true);
+
+    const { width, height } = this.scale;
+    const panel = this.add.container(0, 0).setDepth(100);
+    this.packPanel = panel;
+
+    // Dim backdrop swallows clicks meant for the menu underneath
+    const dim = this.add.rectangle(width / 2, height / 2, width, height, 0x000000, 0.7).setInteractive();
+    const bg = this.add.rectangle(width / 2, height / 2, 680, 460, 0x1a1a2e, 0.95).setStrokeStyle(2, 0x00ffcc, 1);
+    const title = this.add
+      .text(width / 2, height / 2 - 200, 'LEVEL PACKS', {
+        fontSize: '22px',
+        color: '#00ffcc',
+        fontFamily: 'monospace',
+      })
+      .setOrigin(0.5);
+    panel.add([dim, bg, title]);
+
+    const left = width / 2 - 320;
+    let y = height / 2 - 160;
+    const packs = this.packLibrary.getPacks();
+    if (packs.length === 0) {
+      panel.add(
+        this.add.text(left, y, 'No level packs imported yet.', {
+          fontSize: '14px',
+          color: '#888888',
+          fontFamily: 'monospace',
+        }),
+      );
+    }
+
+    for (const pack of packs.slice(0, 6)) {
+      const byline = pack.author ? ` by ${pack.author}` : '';
+      panel.add(
+        this.add.text(left, y, `${pack.name}${byline}`, {
+          fontSize: '14px',
+          color: '#ffffff',
+          fontFamily: 'monospace',
+        }),
+      );
+      const levels = [...pack.levels].sort((a, b) => a.level - b.level);
+      levels.forEach((lvl, i) => {
+        panel.add(
+          this.createPanelLink(left + i * 44, y + 20, `[${lvl.level}]`, () => {
+            this.scene.start('GameScene', { level: lvl.level, pack });
+          }),
+        );
+      });
+      panel.add(
+        this.createPanelLink(left + 610, y, '[x]', () => {
+          this.packLibrary.remove(pack.name);
+          this.openPackPanel(`Removed "${pack.name}"`, '#888888');
+        }),
+      );
+      y += 52;
+    }
+
+    const bottom = height / 2 + 170;
+    panel.add([
+      this.createPanelLink(left, bottom, '[ LOAD FILE ]', () => {
+        FileIO.openTextFile('.json,application/json', (text) => this.importPack(text));
+      }),
+      this.createPanelLink(left + 170, bottom, '[ PASTE JSON ]', () => {
+        FileIO.promptText('Paste level pack JSON', (text) => this.importPack(text));
+      }),
+      this.createPanelLink(left + 560, bottom, '[ CLOSE ]', () => {
+        this.packPanel?.destroy(true);
+        this.packPanel = null;
+      }),
+      this.add.text(left, bottom + 28, message, {
+        fontSize: '12px',
+        color: messageColor,
+        fontFamily: 'monospace',
+        wordWrap: { width: 640 },
+      }),
+    ]);
+  }
+
+  /** Validate and store a pack, then reopen the panel with the outcome. */
+  private importPack(text: string): void {
+    let pack: LevelPack;
+    try {
+      pack = this.packLibrary.import(text);
+    } catch (err) {
+      // Only the first lines of a long validation report fit the panel
+      const lines = (err as Error).message.split('\n');
+      const shown = lines.slice(0, 3).join('\n') + (lines.length > 3 ? '\n...' : '');
+      this.openPackPanel(shown);
+      return;
+    }
+    this.openPackPanel(`Imported "${pack.name}" (${pack.levels.length} levels)`, '#00ffcc');
+  }
+
+  // -------------------------------------------------------------------
+  //  Enemy codex
+  // -------------------------------------------------------------------
+
+  /**
+   * Open the enemy codex: one row per enemy with its stats (including
+   * armor), description and the damage types it resists or is weak to.
+   */
+  private openCodexPanel(): void {
+    this.codexPanel?.destroy(true);
+
+    const { width, height } = this.scale;
+    const panel = this.add.container(0, 0).setDepth(100);
+    this.codexPanel = panel;
+
+    const dim = this.add.rectangle(width / 2, height / 2, width, height, 0x000000, 0.7).setInteractive();
+    const bg = this.add.rectangle(width / 2, height / 2, 680, 720, 0x1a1a2e, 0.95).setStrokeStyle(2, 0x00ffcc, 1);
+    const title = this.add
+      .text(width / 2, height / 2 - 330, 'ENEMY CODEX', {
+        fontSize: '22px',
+        color: '#00ffcc',
+        fontFamily: 'monospace',
+      })
+      .setOrigin(0.5);
+    panel.add([dim, bg, title]);
+
+    const left = width / 2 - 320;
+    let y = height / 2 - 300;
+    for (const enemy of Object.values(ENEMIES)) {
+      const resistances = [
+        describeDamageMultipliers(enemy.resistances),
+        enemy.shieldResistances && `Shield: ${describeDamageMultipliers(enemy.shieldResistances)}`,
+      ]
+        .filter(Boolean)
+        .join('  ');
+      const stats = `HP ${enemy.baseHp}  ARM ${enemy.armor ?? 0}  SPD ${enemy.speed}  $${enemy.reward}`;
+      panel.add([
+        this.add.text(left, y, enemy.boss ? `${enemy.name} (BOSS)` : enemy.name, {
+          fontSize: '14px',
+          color: enemy.color,
+          fontFamily: 'monospace',
+        }),
+        this.add.text(left + 200, y, stats, {
+          fontSize: '12px',
+          color: '#ffffff',
+          fontFamily: 'monospace',
+        }),
+        this.add.text(left, y + 18, enemy.description, {
+          fontSize: '11px',
+          color: '#888888',
+          fontFamily: 'monospace',
+        }),
+        this.add.text(left, y + 32, resistances || 'No resistances', {
+          fontSize: '11px',
+          color: resistances ? '#ffcc00' : '#555555',
+          fontFamily: 'monospace',
+        }),
+      ]);
+      y += 50;
+    }
+
+    panel.add(
+      this.createPanelLink(left + 560, height / 2 + 325, '[ CLOSE ]', () => {
+        this.codexPanel?.destroy(true);
+        this.codexPanel = null;
+      }),
+    );
+  }
+
+  // -------------------------------------------------------------------
+  //  Controls panel
+  // -------------------------------------------------------------------
+
+  /**
+   * Open the controls panel: every hotkey action with its key. Clicking a
+   * key waits for the next key press and binds it to that action; a key
+   * already in use swaps with it.
+   */
+  private openControlsPanel(bindings: KeyBindings, message: string = '', messageColor: string = '#888888'): void {
+    this.controlsPanel?.destroy(true);
+
+    const { width, height } = this.scale;
+    const panel = this.add.container(0, 0).setDepth(100);
+    this.controlsPanel = panel;
+
+    const dim = this.add.rectangle(width / 2, height / 2, width, height, 0x000000, 0.7).setInteractive();
+    const bg = this.add.rectangle(width / 2, height / 2, 680, 460, 0x1a1a2e, 0.95).setStrokeStyle(2, 0x00ffcc, 1);
+    const title = this.add
+      .text(width / 2, height / 2 - 200, 'CONTROLS', {
+        fontSize: '22px',
+        color: '#00ffcc',
+        fontFamily: 'monospace',
+      })
+      .setOrigin(0.5);
+    panel.add([dim, bg, title]);
+
+    const left = width / 2 - 320;
+    const top = height / 2 - 160;
+    const rowsPerColumn = Math.ceil(HOTKEY_ACTIONS.length / 2);
+    HOTKEY_ACTIONS.forEach((action, i) => {
+      const x = left + Math.floor(i / rowsPerColumn) * 330;
+      const y = top + (i % rowsPerColumn) * 30;
+      const key = this.rebinding === action ? '...' : KeyBindings.describeKey(bindings.getKey(action));
+      panel.add([
+        this.add.text(x, y, HOTKEY_LABELS[action], {
+          fontSize: '14px',
+          color: '#ffffff',
+          fontFamily: 'monospace',
+        }),
+        this.createPanelLink(x + 230, y, `[ ${key} ]`, () => {
+          this.rebinding = action;
+          this.openControlsPanel(bindings, `Press a key for "${HOTKEY_LABELS[action]}"`);
+        }),
+      ]);
+    });
+
+    const bottom = height / 2 + 170;
+    panel.add([
+      this.createPanelLink(left, bottom, '[ RESET DEFAULTS ]', () => {
+        bindings.reset();
+        this.rebinding = null;
+        this.openControlsPanel(bindings, 'Default controls restored');
+      }),
+      this.createPanelLink(left + 560, bottom, '[ CLOSE ]', () => {
+        this.rebinding = null;
+        this.controlsPanel?.destroy(true);
+        this.controlsPanel = null;
+      }),
+      this.add.text(left, bottom + 28, message, {
+        fontSize: '12px',
+        color: messageColor,
+        fontFamily: 'monospace',
+      }),
+    ]);
+  }
+
+  /** Bind a pressed key to the action picked in the controls panel. */
+  private rebindKey(bindings: KeyBindings, event: KeyboardEvent): void {
+    const action = this.rebinding;
+    if (!action || !this.controlsPanel) return;
+    event.preventDefault();
+
+    this.rebinding = null;
+    const swapped = bindings.rebind(action, event.code);
+    const key = KeyBindings.describeKey(event.code);
+    const message = swapped
+      ? `${key} bound to "${HOTKEY_LABELS[action]}"; "${HOTKEY_LABELS[swapped]}" moved to ` +
+        KeyBindings.describeKey(bindings.getKey(swapped))
+      : `${key} bound to "${HOTKEY_LABELS[action]}"`;
+    this.openControlsPanel(bindings, message, '#00ffcc');
+  }
+
+  private createPanelLink(x: number, y: number, label: string, onClick: () => void): Phaser.GameObjects.Text {
+    const link = this.add
+      .text(x, y, label, {
+        fontSize: '14px',
+        color: '#888888',
+        fontFamily: 'monospace',
+      })
+      .setInteractive({ useHandCursor: true });
+
+    link.on('pointerover', () => link.setColor('#00ffcc'));
+    link.on('pointerout', () => link.setColor('#888888'));
+    link.on('pointerdown', onClick);
+    return link;
+  }
+
   // -------------------------------------------------------------------
   //  Visual helpers
   // -------------------------------------------------------------------
@@ -0,0 +1,108 @@
+type Listener = (...args: any[]) => void;
+
+interface ListenerEntry {
+  fn: Listener;
+  context: unknown;
+  once: boolean;
+}
+
+/**
+ * Emitter -- minimal event emitter for the headless simulation layer.
+ *
+ * Mirrors the subset of Phaser.Events.EventEmitter the game relies on
+ * (on / once / off / emit / removeAllListeners / destroy) so simulation
+ * classes can be constructed and tested without importing Phaser.
+ */
+export class Emitter {
+  private listeners: Map<string, ListenerEntry[]> = new Map();
+
+  /**
+   * Register a listener for the given event.
+   */
+  on(event: string, fn: Listener, context?: unknown): this {
+    return this.addListener(event, fn, context, false);
+  }
+
+  /**
+   * Register a listener that is removed after its first invocation.
+   */
+  once(event: string, fn: Listener, context?: unknown): this {
+    return this.addListener(event, fn, context, true);
+  }
+
+  /**
+   * Remove listeners for the given event. When `fn` is omitted every
+   * listener for that event is removed.
+   */
+  off(event: string, fn?: Listener, context?: unknown): this {
+    const entries = this.listeners.get(event);
+    if (!entries) return this;
+
+    if (!fn) {
+      this.listeners.delete(event);
+      return this;
+    }
+
+    const kept = entries.filter(
+      (e) => e.fn !== fn || (context !== undefined && e.context !== context),
+    );
+    if (kept.length > 0) {
+      this.listeners.set(event, kept);
+    } else {
+      this.listeners.delete(event);
+    }
+    return this;
+  }
+
+  /**
+   * Invoke every listener registered for the event, in registration order.
+   * Returns true if the event had listeners.
+   */
+  emit(event: string, ...args: any[]): boolean {
+    const entries = this.listeners.get(event);
+    if (!entries || entries.length === 0) return false;
+
+    // Snapshot so listeners added or removed during dispatch do not affect
+    // this round.
+    for (const entry of [...entries]) {
+      if (entry.once) {
+        this.off(event, entry.fn, entry.context);
+      }
+      entry.fn.apply(entry.context, args);
+    }
+    return true;
+  }
+
+  /**
+   * Returns the number of listeners registered for the event.
+   */
+  listenerCount(event: string): number {
+    return this.listeners.get(event)?.length ?? 0;
+  }
+
+  /**
+   * Remove all listeners, or only those for the given event.
+   */
+  removeAllListeners(event?: string): this {
+    if (event === undefined) {
+      this.listeners.clear();
+    } else {
+      this.listeners.delete(event);
+    }
+    return this;
+  }
+
+  /**
+   * Remove every listener. Subclasses override this to release resources.
+   */
+  destroy(): void {
+    this.removeAllListeners();
+  }
+
+  private addListener(event: string, fn: Listener, context: unknown, once: boolean): this {
+    const entries = this.listeners.get(event) ?? [];
+    entries.push({ fn, context, once });
+    this.listeners.set(event, entries);
+    return this;
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * SeededRandom -- small deterministic PRNG (mulberry32) for the simulation.
+ *
+ * Every gameplay roll (spawn jitter, split offsets) goes through an instance
+ * of this class instead of Math.random(), so a level played with the same
+ * seed and the same inputs produces the same result.
+ */
+export class SeededRandom {
+  public readonly seed: number;
+  private state: number;
+
+  constructor(seed: number) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /**
+   * Create a generator with a fresh non-deterministic seed. Used when the
+   * caller does not care about reproducing the run.
+   */
+  static fromRandomSeed(): SeededRandom {
+    return new SeededRandom(randomSeed());
+  }
+
+  /** Internal generator state, for saving a run mid-level. */
+  getState(): number {
+    return this.state;
+  }
+
+  /** Continue the sequence from a state returned by `getState()`. */
+  setState(state: number): void {
+    this.state = state >>> 0;
+  }
+
+  /** Returns a float in [0, 1). */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /** Returns a float in [min, max). */
+  float(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /** Returns an integer in [min, max] (inclusive). */
+  int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  /** Returns a random element of a non-empty array. */
+  pick<T>(items: readonly T[]): T {
+    return items[Math.floor(this.next() * items.length)];
+  }
+}
+
+/**
+ * Produce a new 32-bit seed from Math.random(). Kept in one place so the
+ * only source of non-determinism in the simulation is explicit.
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
@@ -0,0 +1,272 @@
+import type { Simulation, PlayerAction, SimulationOutcome } from './Simulation';
+import { TARGETING_MODES, TargetingMode } from './SimTower';
+
+/** Bumped whenever the replay file layout changes incompatibly. */
+export const REPLAY_VERSION = 1;
+
+/** A player action stamped with the number of steps completed before it. */
+export type ReplayAction = PlayerAction & { tick: number };
+
+/** Final state of the recorded run, used to check that playback matches. */
+export interface ReplayResult {
+  outcome: Exclude<SimulationOutcome, 'running'>;
+  tick: number;
+  lives: number;
+  enemiesKilled: number;
+}
+
+export interface Replay {
+  version: number;
+  /** Name of the level pack the level comes from; absent for built-in levels. */
+  pack?: string;
+  level: number;
+  seed: number;
+  actions: ReplayAction[];
+  /**
+   * Set when the run was continued from a mid-level save. The save drops
+   * projectiles in flight and the towers behind status effects, so playing
+   * the actions back from the start need not end the same way; such a
+   * replay carries no result to check against.
+   */
+  resumed?: boolean;
+  result?: ReplayResult;
+}
+
+// ---------------------------------------------------------------------------
+// Recording
+// ---------------------------------------------------------------------------
+
+/**
+ * ReplayRecorder -- captures every successful player action on a simulation
+ * together with its tick, plus the seed and the final outcome.
+ *
+ * Actions taken after the level has ended are ignored; they can never be
+ * reached during playback. A run resumed from a mid-level save passes the
+ * replay recorded before the save, so its replay still covers the whole run,
+ * but it is marked `resumed` and records no result (see `Replay.resumed`).
+ */
+export class ReplayRecorder {
+  private simulation: Simulation;
+  private pack?: string;
+  private actions: ReplayAction[] = [];
+  private resumed: boolean;
+  private result?: ReplayResult;
+
+  /**
+   * @param simulation - The run to record.
+   * @param pack       - Level pack name, when the level is not a built-in one.
+   * @param previous   - Replay recorded before the run was saved and resumed.
+   */
+  constructor(simulation: Simulation, pack?: string, previous?: Replay) {
+    this.simulation = simulation;
+    this.pack = pack;
+    this.actions = previous ? previous.actions.map((a) => ({ ...a })) : [];
+    this.resumed = previous !== undefined;
+    simulation.on('player-action', this.onAction, this);
+    simulation.on('level-complete', this.onFinished, this);
+    simulation.on('game-over', this.onFinished, this);
+  }
+
+  /** Snapshot of the run recorded so far. */
+  toReplay(): Replay {
+    return {
+      version: REPLAY_VERSION,
+      ...(this.pack !== undefined ? { pack: this.pack } : {}),
+      level: this.simulation.levelConfig.level,
+      seed: this.simulation.getSeed(),
+      actions: this.actions.map((a) => ({ ...a })),
+      ...(this.resumed ? { resumed: true } : {}),
+      ...(this.result && !this.resumed ? { result: { ...this.result } } : {}),
+    };
+  }
+
+  destroy(): void {
+    this.simulation.off('player-action', this.onAction, this);
+    this.simulation.off('level-complete', this.onFinished, this);
+    this.simulation.off('game-over', this.onFinished, this);
+  }
+
+  private onAction(data: { tick: number; action: PlayerAction }): void {
+    if (this.simulation.getOutcome() !== 'running') return;
+    this.actions.push({ ...data.action, tick: data.tick });
+  }
+
+  private onFinished(): void {
+    const outcome = this.simulation.getOutcome();
+    if (outcome === 'running') return;
+    this.result = {
+      outcome,
+      tick: this.simulation.getTick(),
+      lives: this.simulation.getLives(),
+      enemiesKilled: this.simulation.getEnemiesKilled(),
+    };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Playback
+// ---------------------------------------------------------------------------
+
+/**
+ * ReplayPlayer -- feeds a recorded action list into a simulation created
+ * with the replay's seed. Each action is applied at the start of the step
+ * matching its tick, which is exactly where live input landed.
+ */
+export class ReplayPlayer {
+  public readonly replay: Replay;
+
+  private simulation: Simulation;
+  private actions: ReplayAction[];
+  private cursor: number = 0;
+  private failedActions: number = 0;
+
+  constructor(simulation: Simulation, replay: Replay) {
+    if (simulation.getSeed() !== replay.seed) {
+      throw new Error(`Replay seed ${replay.seed} does not match simulation seed ${simulation.getSeed()}`);
+    }
+    this.simulation = simulation;
+    this.replay = replay;
+    // Stable sort keeps same-tick actions in recorded order.
+    this.actions = [...replay.actions].sort((a, b) => a.tick - b.tick);
+    simulation.on('step-start', this.onStepStart, this);
+  }
+
+  /** True once every recorded action has been applied. */
+  isFinished(): boolean {
+    return this.cursor >= this.actions.length;
+  }
+
+  /** Number of actions the simulation rejected (a sign of a desync). */
+  getFailedActionCount(): number {
+    return this.failedActions;
+  }
+
+  /**
+   * Compare the simulation's final state against the recorded result.
+   * Returns null when the replay carries no result, comes from a resumed run,
+   * or the run is unfinished.
+   */
+  matchesRecordedResult(): boolean | null {
+    const expected = this.replay.result;
+    if (!expected || this.replay.resumed || this.simulation.getOutcome() === 'running') return null;
+    return (
+      this.failedActions === 0 &&
+      expected.outcome === this.simulation.getOutcome() &&
+      expected.tick === this.simulation.getTick() &&
+      expected.lives === this.simulation.getLives() &&
+      expected.enemiesKilled === this.simulation.getEnemiesKilled()
+    );
+  }
+
+  destroy(): void {
+    this.simulation.off('step-start', this.onStepStart, this);
+  }
+
+  private onStepStart(tick: number): void {
+    while (this.cursor < this.actions.length && this.actions[this.cursor].tick <= tick) {
+      const { tick: _tick, ...action } = this.actions[this.cursor];
+      if (!this.simulation.applyAction(action as PlayerAction)) {
+        this.failedActions++;
+      }
+      this.cursor++;
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// JSON import / export
+// ---------------------------------------------------------------------------
+
+/** Serialize a replay to a JSON string suitable for saving to a file. */
+export function serializeReplay(replay: Replay): string {
+  return JSON.stringify(replay, null, 2);
+}
+
+/**
+ * Parse and validate a replay JSON string.
+ * Throws an Error describing the first problem found.
+ */
+export function parseReplay(json: string): Replay {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Invalid replay: not valid JSON');
+  }
+
+  if (!isObject(data)) throw new Error('Invalid replay: expected an object');
+  if (data.version !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version: ${String(data.version)} (expected ${REPLAY_VERSION})`);
+  }
+  if (!isInt(data.level) || data.level < 1) throw new Error('Invalid replay: "level" must be a positive integer');
+  if (!isInt(data.seed) || data.seed < 0) throw new Error('Invalid replay: "seed" must be a non-negative integer');
+  if (!Array.isArray(data.actions)) throw new Error('Invalid replay: "actions" must be an array');
+
+  const actions = data.actions.map((a, i) => parseAction(a, i));
+
+  if (data.pack !== undefined && typeof data.pack !== 'string') {
+    throw new Error('Invalid replay: "pack" must be a string');
+  }
+  if (data.resumed !== undefined && typeof data.resumed !== 'boolean') {
+    throw new Error('Invalid replay: "resumed" must be a boolean');
+  }
+
+  const replay: Replay = { version: REPLAY_VERSION, level: data.level, seed: data.seed, actions };
+  if (data.pack !== undefined) {
+    replay.pack = data.pack;
+  }
+  if (data.resumed === true) {
+    replay.resumed = true;
+  }
+  if (data.result !== undefined) {
+    replay.result = parseResult(data.result);
+  }
+  return replay;
+}
+
+function parseAction(raw: unknown, index: number): ReplayAction {
+  const where = `Invalid replay: action ${index}`;
+  if (!isObject(raw)) throw new Error(`${where} must be an object`);
+  if (!isInt(raw.tick) || raw.tick < 0) throw new Error(`${where} has an invalid "tick"`);
+  if (raw.type === 'call-wave') return { tick: raw.tick, type: 'call-wave' };
+  if (!isInt(raw.tileX) || !isInt(raw.tileY)) throw new Error(`${where} has invalid tile coordinates`);
+
+  const base = { tick: raw.tick, tileX: raw.tileX, tileY: raw.tileY };
+  switch (raw.type) {
+    case 'place':
+      if (typeof raw.towerKey !== 'string') throw new Error(`${where} is missing "towerKey"`);
+      return { ...base, type: 'place', towerKey: raw.towerKey };
+    case 'upgrade':
+      if (raw.specialization === undefined) return { ...base, type: 'upgrade' };
+      if (typeof raw.specialization !== 'string') throw new Error(`${where} has an invalid "specialization"`);
+      return { ...base, type: 'upgrade', specialization: raw.specialization };
+    case 'sell':
+      return { ...base, type: 'sell' };
+    case 'set-targeting':
+      if (!TARGETING_MODES.includes(raw.mode as TargetingMode)) {
+        throw new Error(`${where} has unknown targeting mode "${String(raw.mode)}"`);
+      }
+      return { ...base, type: 'set-targeting', mode: raw.mode as TargetingMode };
+    default:
+      throw new Error(`${where} has unknown type "${String(raw.type)}"`);
+  }
+}
+
+function parseResult(raw: unknown): ReplayResult {
+  if (!isObject(raw)) throw new Error('Invalid replay: "result" must be an object');
+  if (raw.outcome !== 'won' && raw.outcome !== 'lost') {
+    throw new Error('Invalid replay: "result.outcome" must be "won" or "lost"');
+  }
+  if (!isInt(raw.tick) || !isInt(raw.lives) || !isInt(raw.enemiesKilled)) {
+    throw new Error('Invalid replay: "result" fields must be integers');
+  }
+  return { outcome: raw.outcome, tick: raw.tick, lives: raw.lives, enemiesKilled: raw.enemiesKilled };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isInt(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value);
+}
@@ -0,0 +1,534 @@
+import { BossPhase, ENEMIES, EnemyConfig } from '../config/enemies';
+import { DamageType, getDamageMultiplier } from '../config/damage';
+import type { StatusEffectConfig } from '../config/statusEffects';
+import { PathFollower, PathFollowerState, Waypoint } from '../systems/PathFollower';
+import { Emitter } from './Emitter';
+import { StatusEffects, StatusEffectState } from './StatusEffects';
+import type { SimTower } from './SimTower';
+
+/** Smallest share of a hit's HP damage that armor lets through. */
+export const ARMOR_DAMAGE_FLOOR = 0.25;
+
+/** Seconds a cloaked enemy stays targetable after a hit when its config sets no revealDuration. */
+export const DEFAULT_REVEAL_DURATION = 2;
+
+/** Serializable state of an enemy on the field (see `SimEnemy.serialize()`). */
+export interface SimEnemyState {
+  enemyKey: string;
+  x: number;
+  y: number;
+  hpScale: number;
+  speedScale: number;
+  hp: number;
+  shieldHp: number;
+  timeSinceLastHit: number;
+  effects: StatusEffectState[];
+  bossPhase?: number;
+  healTimer?: number;
+  revealTimer?: number;
+  route: Waypoint[];
+  path: PathFollowerState;
+}
+
+/**
+ * SimEnemy is the headless model of a single enemy unit.
+ *
+ * It reads its stats from the ENEMIES config, follows a waypoint path, and
+ * supports shield and split special behaviors. Status effects (slow, burn,
+ * poison, stun, armor shred) are kept in a `StatusEffects` list. It has no visuals -- the
+ * Phaser `Enemy` view mirrors its state each frame.
+ *
+ * Other special behaviors:
+ *   heal    -- every `healInterval` seconds, asks the spawner to heal the
+ *              enemies around it ('enemy-heal')
+ *   stealth -- cloaked: towers cannot target it until a hit or a `reveal()`
+ *              makes it visible for a while, or while a detector tower
+ *              has it in its detection radius
+ *   flying  -- ignores the path's turns and flies straight to the base
+ *   tunnel  -- underground between `tunnelStart` and `tunnelEnd` of its
+ *              route, where it cannot be targeted or damaged
+ *
+ * Bosses (enemies with `boss` phases) change behavior as their HP drops:
+ * each phase can speed them up, raise a shield, or release minions through
+ * the same 'enemy-split' event a Swarm Cluster uses on death.
+ *
+ * Events emitted:
+ *   'enemy-killed'       { reward: number, enemy: SimEnemy }
+ *   'enemy-reached-base' SimEnemy
+ *   'enemy-split'        { x, y, splitCount, splitEnemyKey, waypointIndex }
+ *   'enemy-heal'         { x, y, radius, amount }
+ *   'boss-phase'         { enemy: SimEnemy, phase: number } (1-based phase just entered)
+ */
+export class SimEnemy extends Emitter {
+  // ---- Config & identity ----
+  public readonly enemyKey: string;
+  public readonly config: EnemyConfig;
+  public readonly reward: number;
+  /** HP multiplier this enemy was created with (inherited by split children). */
+  public readonly hpScale: number;
+  /** Speed multiplier this enemy was created with (inherited by split children). */
+  public readonly speedScale: number;
+
+  // ---- Position (world pixels) ----
+  public x: number;
+  public y: number;
+
+  // ---- Health ----
+  private _maxHp: number;
+  private currentHp: number;
+
+  // ---- Shield (optional) ----
+  private maxShieldHp: number = 0;
+  private currentShieldHp: number = 0;
+  private shieldRegenDelay: number = 0; // seconds
+  private timeSinceLastHit: number = 0; // seconds
+  private _hasShield: boolean = false;
+
+  // ---- Movement ----
+  private baseSpeed: number;
+  private currentSpeed: number;
+  private pathFollower: PathFollower;
+
+  // ---- Status effects ----
+  private statusEffects: StatusEffects = new StatusEffects();
+
+  // ---- Boss phases ----
+  /** Number of boss phases entered so far. */
+  private phasesEntered: number = 0;
+
+  // ---- Heal / stealth (optional) ----
+  private healTimer: number = 0; // seconds since the last heal pulse
+  private revealTimer: number = 0; // seconds left visible while cloaked
+  /** Set each step while a detector tower has this enemy in its detection radius. */
+  private detected: boolean = false;
+
+  // ---- State ----
+  private _reachedEnd: boolean = false;
+  private _alive: boolean = true;
+
+  /**
+   * @param startX           - Starting world X position (first waypoint center).
+   * @param startY           - Starting world Y position (first waypoint center).
+   * @param enemyKey         - Key into the ENEMIES config record.
+   * @param waypoints        - World-coordinate route to follow (spawn to base).
+   * @param hpScale          - Multiplier applied to base HP (from level config).
+   * @param startWaypointIdx - Optional waypoint index to start from (for split spawns).
+   * @param speedScale       - Multiplier applied to base speed (from the spawn segment).
+   */
+  constructor(
+    startX: number,
+    startY: number,
+    enemyKey: string,
+    waypoints: Waypoint[],
+    hpScale: number = 1.0,
+    startWaypointIdx: number = 0,
+    speedScale: number = 1.0,
+  ) {
+    super();
+
+    this.x = startX;
+    this.y = startY;
+    this.enemyKey = enemyKey;
+    this.hpScale = hpScale;
+    this.speedScale = speedScale;
+    this.config = ENEMIES[enemyKey];
+
+    if (!this.config) {
+      throw new Error(`Unknown enemy key: "${enemyKey}"`);
+    }
+
+    // ---- Stats ----
+    this._maxHp = Math.round(this.config.baseHp * hpScale);
+    this.currentHp = this._maxHp;
+    this.reward = this.config.reward;
+    this.baseSpeed = this.config.speed * speedScale;
+    this.currentSpeed = this.baseSpeed;
+
+    // ---- Shield setup ----
+    if (this.config.special?.type === 'shield') {
+      this._hasShield = true;
+      const shieldPercent = this.config.special.shieldPercent ?? 0.5;
+      this.maxShieldHp = Math.round(this._maxHp * shieldPercent);
+      this.currentShieldHp = this.maxShieldHp;
+      this.shieldRegenDelay = this.config.special.shieldRegenDelay ?? 3;
+      this.timeSinceLastHit = this.shieldRegenDelay; // start with shield up
+    }
+
+    // ---- Path following ----
+    // Flyers cut straight from their starting waypoint to the base.
+    if (this.isFlying && waypoints.length > 2) {
+      const start = waypoints[startWaypointIdx] ?? waypoints[0];
+      this.pathFollower = new PathFollower([start, waypoints[waypoints.length - 1]], 0);
+    } else {
+      this.pathFollower = new PathFollower(waypoints, startWaypointIdx);
+    }
+  }
+
+  // -------------------------------------------------------------------
+  // Save / restore
+  // -------------------------------------------------------------------
+
+  /** Capture this enemy's health, shield, status effects and path progress. */
+  serialize(): SimEnemyState {
+    return {
+      enemyKey: this.enemyKey,
+      x: this.x,
+      y: this.y,
+      hpScale: this.hpScale,
+      speedScale: this.speedScale,
+      hp: this.currentHp,
+      shieldHp: this.currentShieldHp,
+      timeSinceLastHit: this.timeSinceLastHit,
+      effects: this.statusEffects.serialize(),
+      bossPhase: this.phasesEntered,
+      healTimer: this.healTimer,
+      revealTimer: this.revealTimer,
+      route: this.route.map((p) => ({ x: p.x, y: p.y })),
+      path: this.pathFollower.serialize(),
+    };
+  }
+
+  /**
+   * Recreate an enemy from `serialize()` output. Max HP and shield size
+   * come from the current ENEMIES config; saved values are clamped to them.
+   * Boss phases already entered are re-applied without releasing minions.
+   */
+  static deserialize(state: SimEnemyState): SimEnemy {
+    const route = state.route.map((p) => ({ x: p.x, y: p.y }));
+    const enemy = new SimEnemy(state.x, state.y, state.enemyKey, route, state.hpScale, 0, state.speedScale);
+
+    const phases = enemy.config.boss?.phases ?? [];
+    enemy.phasesEntered = Math.min(phases.length, state.bossPhase ?? 0);
+    for (const phase of phases.slice(0, enemy.phasesEntered)) {
+      enemy.applyPhase(phase);
+    }
+    enemy.currentHp = Math.min(enemy._maxHp, state.hp);
+    enemy.currentShieldHp = Math.min(enemy.maxShieldHp, state.shieldHp);
+    enemy.timeSinceLastHit = state.timeSinceLastHit;
+    enemy.healTimer = state.healTimer ?? 0;
+    enemy.revealTimer = state.revealTimer ?? 0;
+    enemy.statusEffects = StatusEffects.deserialize(state.effects ?? []);
+    enemy.pathFollower = PathFollower.deserialize(route, state.path);
+    return enemy;
+  }
+
+  // -------------------------------------------------------------------
+  // Public getters
+  // -------------------------------------------------------------------
+
+  /** True while the enemy is alive and still on the path. */
+  get active(): boolean {
+    return this._alive && !this._reachedEnd;
+  }
+
+  get isAlive(): boolean {
+    return this._alive;
+  }
+
+  get reachedEnd(): boolean {
+    return this._reachedEnd;
+  }
+
+  get pathProgress(): number {
+    return this.pathFollower.pathProgress;
+  }
+
+  /** Distance (pixels) left along this enemy's route to the base. */
+  get distanceToBase(): number {
+    return this.pathFollower.distanceRemaining;
+  }
+
+  /** The waypoint chain this enemy follows (inherited by split children). */
+  get route(): Waypoint[] {
+    return this.pathFollower.route as Waypoint[];
+  }
+
+  get hp(): number {
+    return this.currentHp;
+  }
+
+  get maxHp(): number {
+    return this._maxHp;
+  }
+
+  get hasShield(): boolean {
+    return this._hasShield;
+  }
+
+  get shieldHp(): number {
+    return this.currentShieldHp;
+  }
+
+  get isBoss(): boolean {
+    return this.config.boss !== undefined;
+  }
+
+  /** Number of boss phases entered so far (0 for regular enemies). */
+  get bossPhase(): number {
+    return this.phasesEntered;
+  }
+
+  /** True while a stealth enemy is hidden from towers. */
+  get isCloaked(): boolean {
+    return this.config.special?.type === 'stealth' && this.revealTimer <= 0 && !this.detected;
+  }
+
+  /** True while a tunneler is underground, out of reach of every attack. */
+  get isUnderground(): boolean {
+    const special = this.config.special;
+    if (special?.type !== 'tunnel') return false;
+    const progress = this.pathFollower.pathProgress;
+    return progress >= (special.tunnelStart ?? 0) && progress < (special.tunnelEnd ?? 0);
+  }
+
+  get isFlying(): boolean {
+    return this.config.special?.type === 'flying';
+  }
+
+  /** True when towers may pick this enemy as a target. */
+  get isTargetable(): boolean {
+    return this.active && !this.isCloaked && !this.isUnderground;
+  }
+
+  /** Active status effects, for the view's markers. */
+  get effects(): readonly StatusEffectState[] {
+    return this.statusEffects.getActive();
+  }
+
+  // -------------------------------------------------------------------
+  // Damage / status effects
+  // -------------------------------------------------------------------
+
+  /**
+   * Deal damage to this enemy. Damage hits the shield first (if active),
+   * then HP. A damage type scales the damage by the enemy's shield and HP
+   * resistances; untyped damage is applied as is. Armor then takes a flat
+   * amount off the HP damage, less armor shred and `armorPiercing`, but
+   * never more than ARMOR_DAMAGE_FLOOR lets it. Continuous damage passes
+   * the step length in seconds as `armorScale`, so armor is taken off per
+   * second rather than per step. A boss that survives the hit enters every
+   * phase whose HP threshold it crossed.
+   *
+   * A hit also reveals a cloaked enemy and holds off shield regeneration.
+   * Damage over time does neither and skips the shield (see `applyTickDamage()`).
+   */
+  takeDamage(amount: number, type?: DamageType, armorPiercing: number = 0, armorScale: number = 1): void {
+    if (!this._alive || this.isUnderground) return;
+
+    // A hit gives a cloaked enemy away for a while
+    if (this.config.special?.type === 'stealth') {
+      this.reveal(this.config.special.revealDuration ?? DEFAULT_REVEAL_DURATION);
+    }
+
+    // Reset the shield regen timer on any hit
+    if (this._hasShield) {
+      this.timeSinceLastHit = 0;
+    }
+
+    this.damageHp(this.damageShield(amount, type), type, armorPiercing, armorScale);
+  }
+
+  /**
+   * Deal one tick of burn or poison damage. It burns underneath the shield
+   * and ignores armor, and, not being a hit, leaves a cloaked enemy hidden
+   * and the shield regen timer running.
+   */
+  private applyTickDamage(amount: number): void {
+    if (!this._alive || this.isUnderground) return;
+    this.damageHp(amount, undefined, Infinity);
+  }
+
+  /** Let the shield absorb what it can of `amount`; returns the part that gets through. */
+  private damageShield(amount: number, type?: DamageType): number {
+    let remaining = amount;
+
+    // Shield absorbs damage first; overflow carries on at full strength
+    if (this.currentShieldHp > 0) {
+      const shieldDamage = remaining * getDamageMultiplier(this.config.shieldResistances, type);
+      if (shieldDamage <= this.currentShieldHp) {
+        this.currentShieldHp -= shieldDamage;
+        remaining = 0;
+      } else {
+        remaining -= remaining * (this.currentShieldHp / shieldDamage);
+        this.currentShieldHp = 0;
+      }
+    }
+    return remaining;
+  }
+
+  /** Take damage off HP, less armor, then handle death and boss phases. */
+  private damageHp(amount: number, type: DamageType | undefined, armorPiercing: number, armorScale = 1): void {
+    if (amount > 0) {
+      const damage = amount * getDamageMultiplier(this.config.resistances, type);
+      const armor =
+        Math.max(0, (this.config.armor ?? 0) - this.statusEffects.armorShred - armorPiercing) * armorScale;
+      this.currentHp -= Math.max(damage - armor, damage * ARMOR_DAMAGE_FLOOR);
+    }
+
+    // Check death
+    if (this.currentHp <= 0) {
+      this.currentHp = 0;
+      this.die();
+      return;
+    }
+
+    this.enterBossPhases();
+  }
+
+  /** Restore HP, up to the maximum. */
+  heal(amount: number): void {
+    if (!this._alive) return;
+    this.currentHp = Math.min(this._maxHp, this.currentHp + amount);
+  }
+
+  /** Make a cloaked enemy targetable for at least `seconds`. */
+  reveal(seconds: number): void {
+    this.revealTimer = Math.max(this.revealTimer, seconds);
+  }
+
+  /**
+   * Mark whether a detector currently sees this enemy. Recomputed every
+   * step (see `TowerManager.updateAll()`), so it is not saved.
+   */
+  setDetected(detected: boolean): void {
+    this.detected = detected;
+  }
+
+  /**
+   * Put a status effect on this enemy. `source` is credited with kills
+   * from burn and poison damage.
+   */
+  applyEffect(effect: StatusEffectConfig, source?: SimTower): void {
+    if (!this._alive || this.isUnderground) return;
+    this.statusEffects.apply(effect, source);
+  }
+
+  // -------------------------------------------------------------------
+  // Update loop (called by the spawner)
+  // -------------------------------------------------------------------
+
+  /**
+   * Advance the enemy by one simulation step. Handles status effects
+   * (damage over time, then slow and stun), shield regeneration, heal
+   * pulses, the stealth reveal timer and movement along the path.
+   *
+   * @param delta - Step duration in milliseconds.
+   */
+  update(delta: number): void {
+    if (!this._alive || this._reachedEnd) return;
+
+    const deltaSec = delta / 1000;
+
+    // ---- Status effects: damage over time ----
+    for (const tick of this.statusEffects.update(deltaSec)) {
+      this.applyTickDamage(tick.damage);
+      if (!this._alive) {
+        tick.source?.addKill();
+        return;
+      }
+    }
+    this.currentSpeed = this.baseSpeed * this.statusEffects.speedMultiplier;
+
+    // ---- Shield regeneration ----
+    if (this._hasShield && this.currentShieldHp < this.maxShieldHp) {
+      this.timeSinceLastHit += deltaSec;
+      if (this.timeSinceLastHit >= this.shieldRegenDelay) {
+        // Fully regenerate shield
+        this.currentShieldHp = this.maxShieldHp;
+      }
+    }
+
+    // ---- Heal pulses ----
+    const special = this.config.special;
+    if (special?.type === 'heal' && (special.healInterval ?? 0) > 0) {
+      const interval = special.healInterval!;
+      this.healTimer += deltaSec;
+      while (this.healTimer >= interval) {
+        this.healTimer -= interval;
+        this.emit('enemy-heal', {
+          x: this.x,
+          y: this.y,
+          radius: special.healRadius ?? 0,
+          amount: special.healAmount ?? 0,
+        });
+      }
+    }
+
+    // ---- Stealth: count down the reveal ----
+    this.revealTimer = Math.max(0, this.revealTimer - deltaSec);
+
+    // ---- Path following ----
+    const newPos = this.pathFollower.update(this.x, this.y, this.currentSpeed, deltaSec);
+    this.x = newPos.x;
+    this.y = newPos.y;
+
+    // ---- Check if reached end ----
+    if (this.pathFollower.finished) {
+      this._reachedEnd = true;
+      this.emit('enemy-reached-base', this);
+    }
+  }
+
+  // -------------------------------------------------------------------
+  // Internal helpers
+  // -------------------------------------------------------------------
+
+  private die(): void {
+    this._alive = false;
+
+    // Emit split event for Swarm Cluster before the kill event.
+    if (this.config.special?.type === 'split') {
+      this.emitSplit(this.config.special.splitCount ?? 0, this.config.special.splitEnemyKey ?? '');
+    }
+
+    this.emit('enemy-killed', { reward: this.reward, enemy: this });
+  }
+
+  /**
+   * Ask the spawner for `count` enemies at this enemy's position.
+   * waypointIndex here is the TARGET waypoint (the one the enemy was heading
+   * toward). We subtract 1 to get the last waypoint already reached, because
+   * PathFollower's constructor expects "I am AT this waypoint" semantics and
+   * will set the next target to index + 1.
+   */
+  private emitSplit(count: number, enemyKey: string): void {
+    const lastReachedIdx = Math.max(0, this.pathFollower.waypointIndex - 1);
+    this.emit('enemy-split', {
+      x: this.x,
+      y: this.y,
+      splitCount: count,
+      splitEnemyKey: enemyKey,
+      waypointIndex: lastReachedIdx,
+    });
+  }
+
+  /** Enter every boss phase whose HP threshold has been crossed, in order. */
+  private enterBossPhases(): void {
+    const phases = this.config.boss?.phases ?? [];
+    while (
+      this.phasesEntered < phases.length &&
+      this.currentHp <= this._maxHp * phases[this.phasesEntered].hpThreshold
+    ) {
+      const phase = phases[this.phasesEntered];
+      this.phasesEntered++;
+      this.applyPhase(phase);
+      if (phase.spawnMinions) {
+        this.emitSplit(phase.spawnMinions.count, phase.spawnMinions.enemyKey);
+      }
+      this.emit('boss-phase', { enemy: this, phase: this.phasesEntered });
+    }
+  }
+
+  /** Apply a phase's speed change and shield. */
+  private applyPhase(phase: BossPhase): void {
+    if (phase.speedScale !== undefined) {
+      this.baseSpeed = this.config.speed * this.speedScale * phase.speedScale;
+    }
+    if (phase.shieldPercent !== undefined) {
+      this._hasShield = true;
+      this.maxShieldHp = Math.round(this._maxHp * phase.shieldPercent);
+      this.currentShieldHp = this.maxShieldHp;
+      this.shieldRegenDelay = Infinity; // a phase shield is raised once
+    }
+  }
+}
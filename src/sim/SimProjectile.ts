@@ -0,0 +1,136 @@
+import type { DamageType } from '../config/damage';
+import type { StatusEffectConfig } from '../config/statusEffects';
+import { Emitter } from './Emitter';
+import type { SimEnemy } from './SimEnemy';
+import type { SimTower } from './SimTower';
+
+export interface SimProjectileConfig {
+  startX: number;
+  startY: number;
+  target: SimEnemy;
+  speed: number; // pixels per second
+  damage: number;
+  damageType?: DamageType; // untyped damage ignores resistances
+  armorPiercing?: number; // armor ignored on each hit
+  effects?: readonly StatusEffectConfig[]; // status effects put on each enemy hit
+  splashRadius: number; // 0 = no splash
+  sourceTower?: SimTower; // the tower that fired this projectile (for kill attribution)
+}
+
+const HIT_THRESHOLD = 5; // pixels; projectile considered "arrived" at target
+const STALE_THRESHOLD = 10000; // ms; expire projectile if it has been alive too long
+
+/**
+ * SimProjectile -- headless homing projectile.
+ *
+ * Moves toward its target each simulation step and resolves single-target
+ * or splash damage on arrival. The Phaser `Projectile` view renders it.
+ *
+ * Events emitted:
+ *   'projectile-hit' { x: number, y: number, splashRadius: number }
+ */
+export class SimProjectile extends Emitter {
+  public readonly config: SimProjectileConfig;
+  public x: number;
+  public y: number;
+
+  private elapsed: number = 0;
+  private _done: boolean = false;
+
+  constructor(config: SimProjectileConfig) {
+    super();
+    this.config = config;
+    this.x = config.startX;
+    this.y = config.startY;
+  }
+
+  /** True once the projectile has hit, lost its target, or gone stale. */
+  get done(): boolean {
+    return this._done;
+  }
+
+  /**
+   * Advance the projectile by one simulation step.
+   *
+   * @param delta   - Step duration in milliseconds.
+   * @param enemies - Active enemies, used for splash damage resolution.
+   */
+  update(delta: number, enemies: readonly SimEnemy[]): void {
+    if (this._done) return;
+
+    this.elapsed += delta;
+
+    // Safety net: expire if the projectile has been alive far too long.
+    if (this.elapsed > STALE_THRESHOLD) {
+      this._done = true;
+      return;
+    }
+
+    const target = this.config.target;
+
+    // If the target is gone (or has burrowed out of reach), just remove the projectile.
+    if (!target.active || target.isUnderground) {
+      this._done = true;
+      return;
+    }
+
+    // Move toward the target
+    const dx = target.x - this.x;
+    const dy = target.y - this.y;
+    const dist = Math.sqrt(dx * dx + dy * dy);
+
+    if (dist <= HIT_THRESHOLD) {
+      this.onHitTarget(enemies);
+      return;
+    }
+
+    const step = (this.config.speed * delta) / 1000;
+    const ratio = Math.min(step / dist, 1);
+    this.x += dx * ratio;
+    this.y += dy * ratio;
+  }
+
+  /** Impact logic when reaching the target. */
+  private onHitTarget(enemies: readonly SimEnemy[]): void {
+    if (this.config.splashRadius > 0) {
+      this.applySplashDamage(enemies);
+    } else {
+      this.damageEnemy(this.config.target);
+    }
+
+    this._done = true;
+    this.emit('projectile-hit', {
+      x: this.x,
+      y: this.y,
+      splashRadius: this.config.splashRadius,
+    });
+  }
+
+  /** Deal splash damage to all enemies within the splash radius centered on impact point. */
+  private applySplashDamage(enemies: readonly SimEnemy[]): void {
+    const radius = this.config.splashRadius;
+
+    for (const enemy of enemies) {
+      if (!enemy.active) continue;
+      const dist = Math.hypot(enemy.x - this.x, enemy.y - this.y);
+      if (dist <= radius) {
+        this.damageEnemy(enemy);
+      }
+    }
+  }
+
+  /**
+   * Damage a single enemy, put the projectile's status effects on it and
+   * credit the source tower with the kill.
+   */
+  private damageEnemy(enemy: SimEnemy): void {
+    const wasAlive = enemy.isAlive;
+    enemy.takeDamage(this.config.damage, this.config.damageType, this.config.armorPiercing);
+    if (wasAlive && !enemy.isAlive && this.config.sourceTower) {
+      this.config.sourceTower.addKill();
+    }
+    for (const effect of this.config.effects ?? []) {
+      enemy.applyEffect(effect, this.config.sourceTower);
+    }
+  }
+}
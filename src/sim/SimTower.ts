@@ -0,0 +1,525 @@
+import {
+  AURA_STATS,
+  getSpecializedTier,
+  TOWERS,
+  TowerAura,
+  TowerConfig,
+  TowerSpecialization,
+  TowerTier,
+} from '../config/towers';
+import { TILE_SIZE } from '../config/maps';
+import { Emitter } from './Emitter';
+import { SimProjectile } from './SimProjectile';
+import type { SimEnemy } from './SimEnemy';
+
+/** Extra beam damage a tier ramps up to when its beam sets no `maxRamp`. */
+export const DEFAULT_MAX_BEAM_RAMP = 1;
+
+/** Kills required before a tower can upgrade to the next tier. */
+export const UPGRADE_KILLS_REQUIRED: [number, number] = [3, 5]; // tier 1→2, tier 2→3
+
+/**
+ * Which enemy in range a projectile tower fires at:
+ *   first     -- least distance left to the base (the default)
+ *   last      -- most distance left to the base
+ *   strongest -- highest HP
+ *   weakest   -- lowest HP
+ *   closest   -- nearest to the tower
+ *   shielded  -- enemies with their shield up, then first
+ * Ties go to the enemy nearer the base. Area towers hit everything in range.
+ */
+export type TargetingMode = 'first' | 'last' | 'strongest' | 'weakest' | 'closest' | 'shielded';
+
+/** Every targeting mode, in the order the tower info panel cycles through them. */
+export const TARGETING_MODES: readonly TargetingMode[] = [
+  'first',
+  'last',
+  'strongest',
+  'weakest',
+  'closest',
+  'shielded',
+];
+
+/** An aura buff a tower currently receives, and the support tower giving it. */
+export interface TowerBuff {
+  source: SimTower;
+  aura: TowerAura;
+}
+
+/** Serializable state of a placed tower (see `SimTower.serialize()`). */
+export interface SimTowerState {
+  towerKey: string;
+  tileX: number;
+  tileY: number;
+  currentTier: number;
+  creditsSpent: number;
+  kills: number;
+  fireCooldownRemaining: number;
+  targetingMode: TargetingMode;
+  specialization?: string; // tier-3 branch key, if chosen
+  beam?: SimTowerBeamState; // held beam, if locked on
+}
+
+/** A held beam: its target by index among the saved enemies, and how long it has been held. */
+export interface SimTowerBeamState {
+  target: number;
+  time: number; // seconds
+}
+
+/**
+ * SimTower -- headless model of a placed tower: tier, kills, cooldown,
+ * targeting and firing. The Phaser `Tower` view renders it.
+ *
+ * Towers with specializations branch at tier 3: the upgrade from tier 2
+ * names the branch, whose stats then replace the plain third tier.
+ *
+ * Beam tiers lock onto one enemy and damage it every step instead of
+ * firing projectiles. The lock and its ramp-up are saved with the tower,
+ * the target by its place in the list of saved enemies.
+ *
+ * Support towers never attack. Their aura buffs the towers around them;
+ * the `TowerManager` works out which buffs each tower receives whenever a
+ * tower is placed, upgraded or sold.
+ *
+ * Events emitted:
+ *   'projectile-fired' SimProjectile
+ *   'area-pulse'       { range: number }
+ *   'beam-pulse'       { target: SimEnemy } (on locking on and once per second of beam)
+ */
+export class SimTower extends Emitter {
+  public readonly towerKey: string;
+  public readonly config: TowerConfig;
+  public readonly x: number;
+  public readonly y: number;
+  public currentTier: number = 1;
+  public creditsSpent: number = 0;
+  public kills: number = 0;
+  public targetingMode: TargetingMode = 'first';
+  /** Key of the chosen tier-3 branch, or null before (or without) one. */
+  public specialization: string | null = null;
+
+  private fireCooldownRemaining: number = 0;
+  private buffs: TowerBuff[] = [];
+  private _beamTarget: SimEnemy | null = null;
+  private beamTime: number = 0; // seconds the beam has held its target
+  private tilePos: { x: number; y: number };
+
+  constructor(tileX: number, tileY: number, towerKey: string) {
+    super();
+
+    this.towerKey = towerKey;
+    this.config = TOWERS[towerKey];
+
+    if (!this.config) {
+      throw new Error(`Tower config not found for key: "${towerKey}"`);
+    }
+
+    this.tilePos = { x: tileX, y: tileY };
+    this.x = tileX * TILE_SIZE + TILE_SIZE / 2;
+    this.y = tileY * TILE_SIZE + TILE_SIZE / 2;
+    this.creditsSpent = this.config.baseCost;
+  }
+
+  /**
+   * Capture this tower's tier, kills, cooldown and beam.
+   *
+   * @param enemies - The enemies saved alongside, in order; a beam target
+   *                  outside this list is not saved.
+   */
+  public serialize(enemies: readonly SimEnemy[] = []): SimTowerState {
+    const state: SimTowerState = {
+      towerKey: this.towerKey,
+      tileX: this.tilePos.x,
+      tileY: this.tilePos.y,
+      currentTier: this.currentTier,
+      creditsSpent: this.creditsSpent,
+      kills: this.kills,
+      fireCooldownRemaining: this.fireCooldownRemaining,
+      targetingMode: this.targetingMode,
+    };
+    if (this.specialization !== null) {
+      state.specialization = this.specialization;
+    }
+    const target = this._beamTarget ? enemies.indexOf(this._beamTarget) : -1;
+    if (target >= 0) {
+      state.beam = { target, time: this.beamTime };
+    }
+    return state;
+  }
+
+  /**
+   * Recreate a tower from `serialize()` output, given the enemies restored
+   * from the same save. Throws on an unknown key, tier or beam target.
+   */
+  public static deserialize(state: SimTowerState, enemies: readonly SimEnemy[] = []): SimTower {
+    const tower = new SimTower(state.tileX, state.tileY, state.towerKey);
+    if (!Number.isInteger(state.currentTier) || !tower.config.tiers[state.currentTier - 1]) {
+      throw new Error(`Tower "${state.towerKey}" has no tier ${state.currentTier}`);
+    }
+    tower.currentTier = state.currentTier;
+    tower.creditsSpent = state.creditsSpent;
+    tower.kills = state.kills;
+    tower.fireCooldownRemaining = state.fireCooldownRemaining;
+    // Saves from before targeting modes existed fall back to the default
+    tower.targetingMode = TARGETING_MODES.includes(state.targetingMode) ? state.targetingMode : 'first';
+    if (state.specialization !== undefined) {
+      if (state.currentTier < 3) {
+        throw new Error(`Tower "${state.towerKey}" cannot specialize below tier 3`);
+      }
+      getSpecializedTier(tower.config, state.specialization); // throws on an unknown key
+      tower.specialization = state.specialization;
+    }
+    if (state.beam !== undefined) {
+      const target = enemies[state.beam.target];
+      if (!target) throw new Error(`Tower "${state.towerKey}" has no enemy ${state.beam.target} to hold its beam on`);
+      tower._beamTarget = target;
+      tower.beamTime = state.beam.time;
+    }
+    return tower;
+  }
+
+  /**
+   * Returns the effective stat block for the current tier: the tier's own
+   * stats (see `getBaseTierStats()`) raised by the strongest aura bonus to
+   * each stat. Overlapping auras do not stack.
+   */
+  public getCurrentTierStats(): TowerTier {
+    const base = this.getBaseTierStats();
+    if (this.buffs.length === 0) return base;
+
+    const tier = { ...base };
+    for (const [stat] of AURA_STATS) {
+      const bonus = this.buffs.reduce((best, buff) => Math.max(best, buff.aura[stat] ?? 0), 0);
+      tier[stat] = base[stat] * (1 + bonus);
+    }
+    return tier;
+  }
+
+  /**
+   * Returns the stat block for the current tier without buffs (tiers are
+   * 1-indexed, array is 0-indexed), including the chosen specialization at
+   * tier 3.
+   */
+  public getBaseTierStats(): TowerTier {
+    if (this.specialization !== null) {
+      return getSpecializedTier(this.config, this.specialization);
+    }
+    return this.config.tiers[this.currentTier - 1];
+  }
+
+  /** Name shown to the player: the specialization's once chosen. */
+  public get displayName(): string {
+    return this.getSpecialization()?.name ?? this.config.name;
+  }
+
+  /** Aura buffs this tower currently receives. */
+  public getBuffs(): readonly TowerBuff[] {
+    return this.buffs;
+  }
+
+  /** Replace the aura buffs this tower receives (see `TowerManager`). */
+  public setBuffs(buffs: TowerBuff[]): void {
+    this.buffs = buffs;
+  }
+
+  /** Whether this tower's aura covers `other`. Support towers are never buffed. */
+  public auraReaches(other: SimTower): boolean {
+    const aura = this.getBaseTierStats().aura;
+    if (!aura || other === this || other.config.support) return false;
+    return Math.hypot(other.x - this.x, other.y - this.y) <= aura.radius * TILE_SIZE;
+  }
+
+  /** Credits per second this tower adds to passive income. */
+  public get incomeBonus(): number {
+    return this.getBaseTierStats().incomeBonus ?? 0;
+  }
+
+  /** The chosen tier-3 branch, or null. */
+  public getSpecialization(): TowerSpecialization | null {
+    return this.config.specializations?.find((s) => s.key === this.specialization) ?? null;
+  }
+
+  /** Whether the next upgrade is the tier-3 branch and must name a specialization. */
+  public needsSpecialization(): boolean {
+    return this.currentTier === 2 && this.config.specializations !== undefined;
+  }
+
+  /**
+   * Whether `upgrade(specialization)` would succeed: the tower is below max
+   * tier, and names one of its branches exactly when it needs to.
+   */
+  public canUpgrade(specialization?: string): boolean {
+    if (this.currentTier >= 3) return false;
+    if (!this.needsSpecialization()) return specialization === undefined;
+    return this.config.specializations!.some((s) => s.key === specialization);
+  }
+
+  /** Returns the tile grid position of this tower. */
+  public getTilePos(): { x: number; y: number } {
+    return { ...this.tilePos };
+  }
+
+  /**
+   * Advance the tower to the next tier, taking the named branch at tier 3.
+   * Returns false if already at max tier or the specialization does not fit
+   * (see `canUpgrade()`).
+   */
+  public upgrade(specialization?: string): boolean {
+    if (!this.canUpgrade(specialization)) {
+      return false;
+    }
+
+    const upgradeCost = this.config.upgradeCosts[this.currentTier - 1];
+    this.creditsSpent += upgradeCost;
+    this.currentTier++;
+    this.specialization = specialization ?? null;
+    return true;
+  }
+
+  /** Total credits invested in this tower (base cost + all upgrade costs). */
+  public getTotalInvestment(): number {
+    return this.creditsSpent;
+  }
+
+  /** Credits returned when selling this tower. */
+  public getSellValue(): number {
+    return Math.floor(this.getTotalInvestment() * this.config.sellRefundRate);
+  }
+
+  /** Increment this tower's kill counter. */
+  public addKill(): void {
+    this.kills++;
+  }
+
+  /**
+   * Returns the number of kills still needed before the next upgrade is
+   * unlocked. Support towers cannot kill, so they are never held back.
+   */
+  public killsUntilUpgrade(): number {
+    if (this.currentTier >= 3 || this.config.support) return 0;
+    const required = UPGRADE_KILLS_REQUIRED[this.currentTier - 1];
+    return Math.max(0, required - this.kills);
+  }
+
+  /** Whether this tower has enough kills to unlock the next tier. */
+  public hasEnoughKills(): boolean {
+    return this.killsUntilUpgrade() === 0;
+  }
+
+  /** Detection radius of the current tier (0 when the tower cannot see cloaked enemies). */
+  public get detectionRadius(): number {
+    return this.getCurrentTierStats().detectionRadius ?? 0;
+  }
+
+  /** Whether the enemy is inside this tower's detection radius (and so uncloaked for towers in range of it). */
+  public detects(enemy: SimEnemy): boolean {
+    const radius = this.detectionRadius;
+    return radius > 0 && Math.hypot(enemy.x - this.x, enemy.y - this.y) <= radius;
+  }
+
+  /**
+   * Whether the targeting mode matters: area towers hit everything in range
+   * and support towers do not attack.
+   */
+  public usesTargeting(): boolean {
+    if (this.config.support) return false;
+    return this.config.projectileSpeed > 0 || this.getBaseTierStats().beam !== undefined;
+  }
+
+  /** Enemy the beam is locked onto, or null when the tower has no beam or nothing in range. */
+  public get beamTarget(): SimEnemy | null {
+    return this._beamTarget;
+  }
+
+  /** Current beam damage multiplier from ramp-up (1 = no ramp yet). */
+  public get beamMultiplier(): number {
+    const beam = this.getCurrentTierStats().beam;
+    if (!beam || !this._beamTarget) return 1;
+    return 1 + Math.min((beam.rampRate ?? 0) * this.beamTime, beam.maxRamp ?? DEFAULT_MAX_BEAM_RAMP);
+  }
+
+  /**
+   * Advance the tower by one simulation step.
+   * @param delta - step duration (ms)
+   * @param enemies - active enemies on the field
+   */
+  public update(delta: number, enemies: readonly SimEnemy[]): void {
+    if (this.config.support) return;
+
+    const tier = this.getCurrentTierStats();
+
+    // ---- Beam towers ----
+    if (tier.beam) {
+      this.updateBeam(delta, this.findInRange(enemies, tier.range), tier);
+      return;
+    }
+
+    const cooldownPeriod = 1000 / tier.fireRate; // ms between shots
+
+    this.fireCooldownRemaining -= delta;
+    if (this.fireCooldownRemaining > 0) {
+      return;
+    }
+
+    const inRange = this.findInRange(enemies, tier.range);
+    if (inRange.length === 0) {
+      return;
+    }
+
+    // ---- Area-effect towers (cryo / pulse) ----
+    if (this.config.projectileSpeed === 0) {
+      this.fireCooldownRemaining = cooldownPeriod;
+      this.applyAreaEffect(inRange, tier);
+      return;
+    }
+
+    // ---- Projectile towers ----
+    const targets = this.selectTargets(inRange, tier.targets ?? 1);
+    if (targets.length === 0) return;
+
+    this.fireCooldownRemaining = cooldownPeriod;
+    for (const target of targets) {
+      this.fireProjectile(target, tier);
+    }
+  }
+
+  // ----------------------------------------------------------------
+  //  Private helpers
+  // ----------------------------------------------------------------
+
+  /**
+   * Enemies within `range`. Cloaked and underground enemies cannot be
+   * targeted, and ground-only towers cannot reach flyers.
+   */
+  private findInRange(enemies: readonly SimEnemy[], range: number): SimEnemy[] {
+    return enemies.filter((enemy) => {
+      if (!enemy.isTargetable) return false;
+      if (enemy.isFlying && this.config.groundOnly) return false;
+      const dist = Math.hypot(enemy.x - this.x, enemy.y - this.y);
+      return dist <= range;
+    });
+  }
+
+  /**
+   * Hold the beam on its target while it stays in range, otherwise lock
+   * onto the best enemy in range, then deal this step's share of the
+   * damage. Status effects are applied, and 'beam-pulse' is emitted, on
+   * locking on and once per second of beam after that.
+   */
+  private updateBeam(delta: number, enemiesInRange: readonly SimEnemy[], tier: TowerTier): void {
+    if (!this._beamTarget || !enemiesInRange.includes(this._beamTarget)) {
+      this._beamTarget = this.selectTarget(enemiesInRange);
+      this.beamTime = 0;
+    }
+    const target = this._beamTarget;
+    if (!target) return;
+
+    const deltaSec = delta / 1000;
+    const multiplier = this.beamMultiplier;
+    const appliesEffects = this.beamTime === 0 || Math.floor(this.beamTime + deltaSec) > Math.floor(this.beamTime);
+    this.beamTime += deltaSec;
+    if (appliesEffects) this.emit('beam-pulse', { target });
+
+    target.takeDamage(tier.damage * multiplier * deltaSec, this.config.damageType, tier.armorPiercing, deltaSec);
+    if (!target.isAlive) {
+      this.addKill();
+      this._beamTarget = null;
+      return;
+    }
+    if (appliesEffects) {
+      for (const effect of tier.effects ?? []) {
+        target.applyEffect(effect, this);
+      }
+    }
+  }
+
+  /**
+   * Selects the best enemy for the tower's targeting mode. Progress is
+   * measured as distance left to the base rather than path progress, which
+   * keeps "first" and "last" fair across branches of different lengths.
+   */
+  private selectTarget(enemiesInRange: readonly SimEnemy[]): SimEnemy | null {
+    let best: SimEnemy | null = null;
+    let bestScore = -Infinity;
+
+    for (const enemy of enemiesInRange) {
+      const score = this.targetScore(enemy);
+      if (score > bestScore || (score === bestScore && best && enemy.distanceToBase < best.distanceToBase)) {
+        bestScore = score;
+        best = enemy;
+      }
+    }
+
+    return best;
+  }
+
+  /** The `count` best enemies for the targeting mode, best first. */
+  private selectTargets(enemiesInRange: readonly SimEnemy[], count: number): SimEnemy[] {
+    const remaining = [...enemiesInRange];
+    const targets: SimEnemy[] = [];
+    while (targets.length < count) {
+      const best = this.selectTarget(remaining);
+      if (!best) break;
+      targets.push(best);
+      remaining.splice(remaining.indexOf(best), 1);
+    }
+    return targets;
+  }
+
+  /** How much the targeting mode prefers an enemy; higher wins. */
+  private targetScore(enemy: SimEnemy): number {
+    switch (this.targetingMode) {
+      case 'first':
+        return -enemy.distanceToBase;
+      case 'last':
+        return enemy.distanceToBase;
+      case 'strongest':
+        return enemy.hp;
+      case 'weakest':
+        return -enemy.hp;
+      case 'closest':
+        return -Math.hypot(enemy.x - this.x, enemy.y - this.y);
+      case 'shielded':
+        return enemy.shieldHp > 0 ? 1 : 0;
+    }
+  }
+
+  /** Fire a projectile toward the target enemy. */
+  private fireProjectile(target: SimEnemy, tier: TowerTier): void {
+    const hasSplash = (tier.splashRadius ?? 0) > 0;
+
+    const projectile = new SimProjectile({
+      startX: this.x,
+      startY: this.y,
+      target,
+      speed: this.config.projectileSpeed,
+      damage: tier.damage,
+      damageType: this.config.damageType,
+      armorPiercing: tier.armorPiercing,
+      effects: tier.effects,
+      splashRadius: hasSplash ? tier.splashRadius! : 0,
+      sourceTower: this,
+    });
+
+    this.emit('projectile-fired', projectile);
+  }
+
+  /** Apply area-of-effect damage and status effects to all enemies in range. */
+  private applyAreaEffect(enemiesInRange: readonly SimEnemy[], tier: TowerTier): void {
+    this.emit('area-pulse', { range: tier.range });
+
+    for (const enemy of enemiesInRange) {
+      // Damage
+      const wasAlive = enemy.isAlive;
+      enemy.takeDamage(tier.damage, this.config.damageType, tier.armorPiercing);
+      if (wasAlive && !enemy.isAlive) {
+        this.addKill();
+      }
+
+      // Status effects (e.g. cryo slow)
+      for (const effect of tier.effects ?? []) {
+        enemy.applyEffect(effect, this);
+      }
+    }
+  }
+}
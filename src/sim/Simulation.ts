@@ -0,0 +1,488 @@
+import { LevelConfig, getLevelEnemyCount, EARLY_WAVE_BONUS_PER_SECOND } from '../config/levels';
+import { getPathGraph, MapConfig } from '../config/maps';
+import { TOWERS } from '../config/towers';
+import { EconomyManager, EconomyState } from '../systems/EconomyManager';
+import { EnemySpawner, EnemySpawnerState } from '../systems/EnemySpawner';
+import { TowerManager } from '../systems/TowerManager';
+import { Emitter } from './Emitter';
+import { SeededRandom } from './Random';
+import type { SimEnemy } from './SimEnemy';
+import type { SimProjectile } from './SimProjectile';
+import type { SimTower, SimTowerState, TargetingMode } from './SimTower';
+
+/** Fixed simulation step (ms). Every system advances by exactly this much per step. */
+export const SIM_STEP_MS = 1000 / 60;
+
+/**
+ * Largest frame delta (ms) fed into the accumulator. Longer frames (tab in
+ * the background, debugger pause) are clamped so the simulation does not
+ * try to catch up with hundreds of steps at once.
+ */
+const MAX_FRAME_MS = 250;
+
+/** Tolerance so float drift in the accumulator never swallows a whole step. */
+const STEP_EPSILON = 1e-6;
+
+/** Game speeds the player can pick, as multipliers of real time. */
+export const SIM_SPEEDS: readonly number[] = [1, 2, 3];
+
+export type SimulationOutcome = 'running' | 'won' | 'lost';
+
+/**
+ * A player input, expressed in tile coordinates so it can be recorded,
+ * serialized and re-applied to a fresh simulation.
+ */
+export type PlayerAction =
+  | { type: 'place'; tileX: number; tileY: number; towerKey: string }
+  | { type: 'upgrade'; tileX: number; tileY: number; specialization?: string }
+  | { type: 'sell'; tileX: number; tileY: number }
+  | { type: 'set-targeting'; tileX: number; tileY: number; mode: TargetingMode }
+  | { type: 'call-wave' };
+
+/**
+ * Everything needed to continue a run mid-level. Projectiles in flight and
+ * the towers behind status effects are not included; a restored run simply
+ * starts without them, which is why its replay is marked `resumed`.
+ */
+export interface SimulationSnapshot {
+  level: number;
+  seed: number;
+  rngState: number;
+  tick: number;
+  lives: number;
+  totalEnemies: number;
+  enemiesKilled: number;
+  economy: EconomyState;
+  spawner: EnemySpawnerState;
+  towers: SimTowerState[];
+}
+
+export interface SimulationOptions {
+  /** Seed for all gameplay randomness. A fresh random seed is used when omitted. */
+  seed?: number;
+}
+
+/**
+ * Simulation -- headless, fixed-timestep model of a single level.
+ *
+ * Holds the economy, enemy spawner, towers, in-flight projectiles and lives.
+ * Nothing here touches Phaser: GameScene feeds frame deltas into `advance()`
+ * and renders whatever the simulation reports, while tests and tools can
+ * drive `step()` directly to play whole levels without a canvas. Given the
+ * same seed and the same player actions, a run is fully reproducible.
+ *
+ * Sub-systems are exposed so listeners can subscribe to their events
+ * ('enemy-spawned', 'tower-placed', 'credits-changed', ...). The simulation
+ * registers its own bookkeeping listeners first, so by the time a renderer
+ * hears about a kill the reward and counters are already applied.
+ *
+ * Events emitted:
+ *   'step-start'       tick (steps completed so far; fired before each step)
+ *   'player-action'    { tick: number, action: PlayerAction } (successful actions only)
+ *   'projectile-fired' { tower: SimTower, projectile: SimProjectile }
+ *   'level-complete'
+ *   'game-over'
+ */
+export class Simulation extends Emitter {
+  public readonly levelConfig: LevelConfig;
+  public readonly rng: SeededRandom;
+  public readonly economy: EconomyManager;
+  public readonly spawner: EnemySpawner;
+  public readonly towerManager: TowerManager;
+
+  private projectiles: SimProjectile[] = [];
+
+  // ---- Game state ----
+  private lives: number;
+  private maxLives: number;
+  private totalEnemies: number;
+  private enemiesKilled: number = 0;
+  private outcome: SimulationOutcome = 'running';
+
+  // ---- Clock ----
+  private tick: number = 0;
+  private accumulator: number = 0;
+  private speed: number = 1;
+
+  constructor(levelConfig: LevelConfig, mapConfig: MapConfig, options: SimulationOptions = {}) {
+    super();
+    this.levelConfig = levelConfig;
+    this.rng = options.seed !== undefined
+      ? new SeededRandom(options.seed)
+      : SeededRandom.fromRandomSeed();
+    this.lives = levelConfig.lives;
+    this.maxLives = levelConfig.lives;
+    this.totalEnemies = getLevelEnemyCount(levelConfig);
+
+    this.economy = new EconomyManager(levelConfig);
+    this.spawner = new EnemySpawner(getPathGraph(mapConfig), levelConfig, this.rng);
+    this.towerManager = new TowerManager();
+
+    this.wireEvents();
+  }
+
+  // -------------------------------------------------------------------
+  //  Clock
+  // -------------------------------------------------------------------
+
+  /**
+   * Feed a variable frame delta (ms) into the fixed-step accumulator and run
+   * as many whole steps as fit. The delta is scaled by the game speed, so
+   * at 2x twice as many fixed steps run; every system still advances by
+   * exactly SIM_STEP_MS per step. Returns the number of steps executed.
+   */
+  advance(delta: number): number {
+    this.accumulator += Math.min(delta, MAX_FRAME_MS) * this.speed;
+
+    let steps = 0;
+    while (this.accumulator + STEP_EPSILON >= SIM_STEP_MS && this.outcome === 'running') {
+      this.accumulator -= SIM_STEP_MS;
+      this.step();
+      steps++;
+    }
+    return steps;
+  }
+
+  /** Current game speed multiplier (1 = real time). */
+  getSpeed(): number {
+    return this.speed;
+  }
+
+  /**
+   * Set the game speed multiplier used by `advance()`. Speed does not
+   * change the outcome of a run, so it is not a recorded player action.
+   */
+  setSpeed(speed: number): void {
+    if (!(speed > 0)) {
+      throw new Error(`Simulation speed must be positive, got ${speed}`);
+    }
+    this.speed = speed;
+  }
+
+  /**
+   * Run exactly one fixed simulation step.
+   */
+  step(): void {
+    if (this.outcome !== 'running') return;
+
+    // Scheduled inputs (e.g. replay playback) are applied here, at the same
+    // point in the step sequence where live input lands between frames.
+    this.emit('step-start', this.tick);
+
+    this.tick++;
+
+    this.economy.update(SIM_STEP_MS, this.towerManager.getIncomeBonus());
+    this.spawner.update(SIM_STEP_MS);
+
+    const enemies = this.spawner.getActiveEnemies();
+
+    // Projectiles fired during this step start moving on the next one.
+    for (const projectile of this.projectiles) {
+      projectile.update(SIM_STEP_MS, enemies);
+    }
+    this.projectiles = this.projectiles.filter((p) => !p.done);
+
+    this.towerManager.updateAll(SIM_STEP_MS, enemies);
+
+    this.checkOutcome();
+  }
+
+  /**
+   * Step until the level is won or lost, or `maxSteps` have run.
+   * Returns the outcome at that point.
+   */
+  runToCompletion(maxSteps: number = Number.MAX_SAFE_INTEGER): SimulationOutcome {
+    for (let i = 0; i < maxSteps && this.outcome === 'running'; i++) {
+      this.step();
+    }
+    return this.outcome;
+  }
+
+  // -------------------------------------------------------------------
+  //  Player actions
+  // -------------------------------------------------------------------
+
+  /**
+   * Apply a player action addressed by tile coordinates.
+   * Returns true if the action took effect.
+   */
+  applyAction(action: PlayerAction): boolean {
+    if (action.type === 'call-wave') {
+      return this.callNextWave();
+    }
+    if (action.type === 'place') {
+      return this.placeTower(action.tileX, action.tileY, action.towerKey) !== null;
+    }
+
+    const tower = this.towerManager.getTowerAt(action.tileX, action.tileY);
+    if (!tower) return false;
+
+    if (action.type === 'upgrade') {
+      return this.upgradeTower(tower, action.specialization);
+    }
+    if (action.type === 'set-targeting') {
+      return this.setTargeting(tower, action.mode);
+    }
+    this.sellTower(tower);
+    return true;
+  }
+
+  /**
+   * Buy and place a tower on a build slot.
+   * Returns the new tower, or null if it cannot be afforded or placed.
+   */
+  placeTower(tileX: number, tileY: number, towerKey: string): SimTower | null {
+    if (!this.economy.canBuyTower(towerKey)) return null;
+    if (this.towerManager.getTowerAt(tileX, tileY)) return null;
+
+    if (!this.economy.buyTower(towerKey)) return null;
+
+    const tower = this.towerManager.placeTower(tileX, tileY, towerKey);
+    if (!tower) {
+      // Placement failed -- refund the cost. baseCost was already deducted
+      // by buyTower, so we add it back.
+      const towerCfg = TOWERS[towerKey];
+      if (towerCfg) {
+        this.economy.addCredits(towerCfg.baseCost);
+      }
+      return null;
+    }
+
+    this.recordAction({ type: 'place', tileX, tileY, towerKey });
+    return tower;
+  }
+
+  /**
+   * Upgrade a tower to its next tier if it has enough kills and the player
+   * can afford it. The upgrade to tier 3 names the specialization for towers
+   * that branch. Returns true on success.
+   */
+  upgradeTower(tower: SimTower, specialization?: string): boolean {
+    if (!tower.canUpgrade(specialization)) return false;
+    if (!tower.hasEnoughKills()) return false;
+    if (!this.economy.canUpgradeTower(tower.towerKey, tower.currentTier)) return false;
+
+    const spent = this.economy.upgradeTower(tower.towerKey, tower.currentTier);
+    if (!spent) return false;
+
+    this.towerManager.upgradeTower(tower, specialization);
+
+    const { x, y } = tower.getTilePos();
+    const action: PlayerAction = { type: 'upgrade', tileX: x, tileY: y };
+    if (specialization !== undefined) {
+      action.specialization = specialization;
+    }
+    this.recordAction(action);
+    return true;
+  }
+
+  /**
+   * Sell a tower and credit its refund. Returns the refund amount.
+   */
+  sellTower(tower: SimTower): number {
+    const { x, y } = tower.getTilePos();
+    const refund = this.towerManager.removeTower(tower);
+    this.economy.addCredits(refund);
+
+    this.recordAction({ type: 'sell', tileX: x, tileY: y });
+    return refund;
+  }
+
+  /**
+   * Change which enemy a projectile tower fires at. Returns false for area
+   * towers and when the tower already uses that mode.
+   */
+  setTargeting(tower: SimTower, mode: TargetingMode): boolean {
+    if (!tower.usesTargeting() || tower.targetingMode === mode) return false;
+    tower.targetingMode = mode;
+
+    const { x, y } = tower.getTilePos();
+    this.recordAction({ type: 'set-targeting', tileX: x, tileY: y, mode });
+    return true;
+  }
+
+  /**
+   * Wave mode: skip the rest of the build phase and start the next wave,
+   * paying EARLY_WAVE_BONUS_PER_SECOND for every second skipped.
+   * Returns false outside a build phase.
+   */
+  callNextWave(): boolean {
+    const bonus = this.getEarlyCallBonus();
+    if (!this.spawner.callNextWave()) return false;
+
+    this.economy.addBonus(bonus);
+    this.recordAction({ type: 'call-wave' });
+    return true;
+  }
+
+  // -------------------------------------------------------------------
+  //  Save / restore
+  // -------------------------------------------------------------------
+
+  /**
+   * Capture the run so far. The result is plain JSON-safe data.
+   */
+  serialize(): SimulationSnapshot {
+    return {
+      level: this.levelConfig.level,
+      seed: this.rng.seed,
+      rngState: this.rng.getState(),
+      tick: this.tick,
+      lives: this.lives,
+      totalEnemies: this.totalEnemies,
+      enemiesKilled: this.enemiesKilled,
+      economy: this.economy.serialize(),
+      spawner: this.spawner.serialize(),
+      towers: this.towerManager.serialize(this.spawner.getActiveEnemies()),
+    };
+  }
+
+  /**
+   * Continue a saved run. Must be called on a fresh simulation of the same
+   * level and seed, after listeners are attached: restored enemies and
+   * towers are announced with 'enemy-spawned' and 'tower-placed'.
+   * Throws if the snapshot does not belong to this simulation.
+   */
+  restore(snapshot: SimulationSnapshot): void {
+    if (this.tick !== 0) {
+      throw new Error('Simulation.restore: the simulation has already started');
+    }
+    if (snapshot.level !== this.levelConfig.level || snapshot.seed !== this.rng.seed) {
+      throw new Error(
+        `Simulation.restore: snapshot is for level ${snapshot.level} seed ${snapshot.seed}, ` +
+          `not level ${this.levelConfig.level} seed ${this.rng.seed}`,
+      );
+    }
+
+    this.spawner.restore(snapshot.spawner);
+    this.towerManager.restore(snapshot.towers, this.spawner.getActiveEnemies());
+    this.economy.restore(snapshot.economy);
+    this.rng.setState(snapshot.rngState);
+    this.tick = snapshot.tick;
+    this.lives = snapshot.lives;
+    this.totalEnemies = snapshot.totalEnemies;
+    this.enemiesKilled = snapshot.enemiesKilled;
+  }
+
+  // -------------------------------------------------------------------
+  //  State queries
+  // -------------------------------------------------------------------
+
+  /** The seed this run was created with. */
+  getSeed(): number {
+    return this.rng.seed;
+  }
+
+  getOutcome(): SimulationOutcome {
+    return this.outcome;
+  }
+
+  isLevelComplete(): boolean {
+    return this.outcome === 'won';
+  }
+
+  isGameOver(): boolean {
+    return this.outcome === 'lost';
+  }
+
+  getLives(): number {
+    return this.lives;
+  }
+
+  getMaxLives(): number {
+    return this.maxLives;
+  }
+
+  /** Credits `callNextWave()` would pay right now (0 outside a build phase). */
+  getEarlyCallBonus(): number {
+    return Math.floor(this.spawner.getBuildTimeRemaining() * EARLY_WAVE_BONUS_PER_SECOND);
+  }
+
+  getEnemiesKilled(): number {
+    return this.enemiesKilled;
+  }
+
+  /**
+   * Enemies still a threat: total (including not-yet-spawned and split
+   * children) minus killed minus those that reached the base.
+   */
+  getEnemiesRemaining(): number {
+    const remaining = this.totalEnemies - this.enemiesKilled - this.spawner.getEnemiesReachedBase();
+    return Math.max(0, remaining);
+  }
+
+  getActiveEnemies(): SimEnemy[] {
+    return this.spawner.getActiveEnemies();
+  }
+
+  getProjectiles(): readonly SimProjectile[] {
+    return this.projectiles;
+  }
+
+  /** Number of fixed steps executed so far. */
+  getTick(): number {
+    return this.tick;
+  }
+
+  /** Simulated time elapsed (ms). */
+  getElapsedMs(): number {
+    return this.tick * SIM_STEP_MS;
+  }
+
+  /**
+   * Tear down all sub-systems and listeners.
+   */
+  destroy(): void {
+    this.towerManager.destroy();
+    this.spawner.destroy();
+    this.economy.removeAllListeners();
+    this.projectiles = [];
+    super.destroy();
+  }
+
+  // -------------------------------------------------------------------
+  //  Internal helpers
+  // -------------------------------------------------------------------
+
+  private wireEvents(): void {
+    // ---- Enemy killed: award credits ----
+    this.spawner.on('enemy-killed', (data: { reward: number; enemy: SimEnemy }) => {
+      this.economy.addCredits(data.reward);
+      this.enemiesKilled++;
+    });
+
+    // ---- Swarm split: adjust total enemy count for spawned children ----
+    this.spawner.on('enemies-spawned-from-split', (data: { count: number }) => {
+      this.totalEnemies += data.count;
+    });
+
+    // ---- Enemy reached base: lose a life ----
+    this.spawner.on('enemy-reached-base', () => {
+      this.lives = Math.max(0, this.lives - 1);
+    });
+
+    // ---- Track projectiles fired by any tower ----
+    this.towerManager.events.on(
+      'projectile-fired',
+      (data: { tower: SimTower; projectile: SimProjectile }) => {
+        this.projectiles.push(data.projectile);
+        this.emit('projectile-fired', data);
+      },
+    );
+  }
+
+  /** Announce a successful player action, stamped with the current tick. */
+  private recordAction(action: PlayerAction): void {
+    this.emit('player-action', { tick: this.tick, action });
+  }
+
+  private checkOutcome(): void {
+    if (this.lives <= 0) {
+      this.outcome = 'lost';
+      this.emit('game-over');
+    } else if (this.spawner.isComplete()) {
+      this.outcome = 'won';
+      this.emit('level-complete');
+    }
+  }
+}
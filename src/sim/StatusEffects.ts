@@ -0,0 +1,137 @@
+import {
+  DEFAULT_MAX_STACKS,
+  STATUS_EFFECT_KINDS,
+  STATUS_EFFECT_RULES,
+  StatusEffectConfig,
+  StatusEffectKind,
+} from '../config/statusEffects';
+import type { SimTower } from './SimTower';
+
+/** Serializable state of one active effect (see `StatusEffects.serialize()`). */
+export interface StatusEffectState {
+  kind: StatusEffectKind;
+  magnitude: number; // per stack for stacking kinds
+  remaining: number; // seconds
+  stacks: number;
+  maxStacks: number;
+}
+
+/** Damage an effect dealt during one `update()`, and who to credit for it. */
+export interface StatusEffectTick {
+  damage: number;
+  source?: SimTower;
+}
+
+interface ActiveEffect extends StatusEffectState {
+  /** Tower that last applied the effect; damage-over-time kills go to it. */
+  source?: SimTower;
+}
+
+/**
+ * StatusEffects -- the timed conditions on one enemy: slow, burn, poison,
+ * stun and armor shred. There is at most one entry per kind; a repeated
+ * application follows the kind's stacking rule (see STATUS_EFFECT_RULES).
+ *
+ * The owner asks for the combined result each step: the speed multiplier,
+ * the armor removed, and the burn/poison damage dealt.
+ */
+export class StatusEffects {
+  private effects: ActiveEffect[] = [];
+
+  /** Apply an effect, combining it with an active one of the same kind. */
+  apply(config: StatusEffectConfig, source?: SimTower): void {
+    if (!(config.duration > 0)) return;
+
+    const existing = this.effects.find((e) => e.kind === config.kind);
+    if (!existing) {
+      this.effects.push({
+        kind: config.kind,
+        magnitude: config.magnitude,
+        remaining: config.duration,
+        stacks: 1,
+        maxStacks: config.maxStacks ?? DEFAULT_MAX_STACKS,
+        source,
+      });
+      return;
+    }
+
+    if (STATUS_EFFECT_RULES[config.kind].stacking === 'stack') {
+      existing.stacks = Math.min(existing.stacks + 1, existing.maxStacks);
+      existing.magnitude = Math.max(existing.magnitude, config.magnitude);
+      existing.remaining = config.duration;
+    } else {
+      existing.magnitude = Math.max(existing.magnitude, config.magnitude);
+      existing.remaining = Math.max(existing.remaining, config.duration);
+    }
+    existing.source = source ?? existing.source;
+  }
+
+  /**
+   * Count down every effect, dropping the ones that ran out. Returns the
+   * burn and poison damage dealt over the step.
+   *
+   * @param deltaSec - Step duration in seconds.
+   */
+  update(deltaSec: number): StatusEffectTick[] {
+    const ticks: StatusEffectTick[] = [];
+    for (const effect of this.effects) {
+      const elapsed = Math.min(deltaSec, effect.remaining);
+      if (effect.kind === 'burn' || effect.kind === 'poison') {
+        ticks.push({ damage: effect.magnitude * effect.stacks * elapsed, source: effect.source });
+      }
+      effect.remaining -= deltaSec;
+    }
+    this.effects = this.effects.filter((e) => e.remaining > 0);
+    return ticks;
+  }
+
+  /** Speed multiplier from slow and stun (1 = full speed, 0 = stopped). */
+  get speedMultiplier(): number {
+    if (this.has('stun')) return 0;
+    const slow = this.get('slow');
+    return slow ? Math.min(1, Math.max(0, 1 - slow.magnitude)) : 1;
+  }
+
+  /** Armor currently removed by armor shred. */
+  get armorShred(): number {
+    const shred = this.get('armor-shred');
+    return shred ? shred.magnitude * shred.stacks : 0;
+  }
+
+  has(kind: StatusEffectKind): boolean {
+    return this.get(kind) !== undefined;
+  }
+
+  /** Active effects, for the enemy view's markers. */
+  getActive(): readonly StatusEffectState[] {
+    return this.effects;
+  }
+
+  /**
+   * Capture the active effects. Sources are not saved, so after a restore
+   * damage-over-time kills are credited to no tower.
+   */
+  serialize(): StatusEffectState[] {
+    return this.effects.map(({ kind, magnitude, remaining, stacks, maxStacks }) => ({
+      kind,
+      magnitude,
+      remaining,
+      stacks,
+      maxStacks,
+    }));
+  }
+
+  /** Recreate effects from `serialize()` output, skipping unknown kinds. */
+  static deserialize(states: readonly StatusEffectState[]): StatusEffects {
+    const effects = new StatusEffects();
+    for (const state of states) {
+      if (!STATUS_EFFECT_KINDS.includes(state.kind) || effects.has(state.kind)) continue;
+      effects.effects.push({ ...state });
+    }
+    return effects;
+  }
+
+  private get(kind: StatusEffectKind): ActiveEffect | undefined {
+    return this.effects.find((e) => e.kind === kind);
+  }
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { SeededRandom } from '../Random';
+
+/**
+ * Test suite for SeededRandom.
+ *
+ * Verifies that sequences are reproducible per seed and that the helper
+ * ranges stay within their documented bounds.
+ */
+
+function take(rng: SeededRandom, n: number): number[] {
+  return Array.from({ length: n }, () => rng.next());
+}
+
+describe('SeededRandom', () => {
+  it('should produce the same sequence for the same seed', () => {
+    expect(take(new SeededRandom(42), 20)).toEqual(take(new SeededRandom(42), 20));
+  });
+
+  it('should produce different sequences for different seeds', () => {
+    expect(take(new SeededRandom(1), 20)).not.toEqual(take(new SeededRandom(2), 20));
+  });
+
+  it('should normalise the seed to an unsigned 32-bit integer', () => {
+    expect(new SeededRandom(-1).seed).toBe(4294967295);
+  });
+
+  it('should keep next() within [0, 1)', () => {
+    const rng = new SeededRandom(7);
+    for (const value of take(rng, 1000)) {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+
+  it('should keep float() and int() within their ranges', () => {
+    const rng = new SeededRandom(99);
+    for (let i = 0; i < 500; i++) {
+      const f = rng.float(-0.5, 0.5);
+      expect(f).toBeGreaterThanOrEqual(-0.5);
+      expect(f).toBeLessThan(0.5);
+
+      const n = rng.int(1, 3);
+      expect([1, 2, 3]).toContain(n);
+    }
+  });
+
+  it('should pick elements from the given array', () => {
+    const rng = new SeededRandom(5);
+    const items = ['a', 'b', 'c'];
+    for (let i = 0; i < 50; i++) {
+      expect(items).toContain(rng.pick(items));
+    }
+  });
+});
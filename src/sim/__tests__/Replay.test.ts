@@ -0,0 +1,240 @@
+import { describe, it, expect } from 'vitest';
+import { Simulation } from '../Simulation';
+import { ReplayRecorder, ReplayPlayer, serializeReplay, parseReplay, Replay, REPLAY_VERSION } from '../Replay';
+import { LEVELS } from '../../config/levels';
+import { getMapByLevel, MapConfig, TileType } from '../../config/maps';
+
+/**
+ * Test suite for replay recording, JSON round-tripping and playback.
+ */
+
+/** Tile coordinates of every build slot in a map. */
+function getBuildSlots(map: MapConfig): { x: number; y: number }[] {
+  const slots: { x: number; y: number }[] = [];
+  map.grid.forEach((row, y) =>
+    row.forEach((tile, x) => {
+      if (tile === TileType.BuildSlot) slots.push({ x, y });
+    }),
+  );
+  return slots;
+}
+
+/**
+ * Scripted player that mixes all three action types: places alternating
+ * tower types, upgrades when possible (taking the second branch at tier 3)
+ * and sells one tower partway through.
+ */
+function playScripted(sim: Simulation, map: MapConfig, maxSteps: number): void {
+  const slots = getBuildSlots(map);
+  const keys = ['laser', 'missile', 'laser', 'railgun'];
+  let sold = false;
+  for (let i = 0; i < maxSteps && sim.getOutcome() === 'running'; i++) {
+    if (i % 30 === 0) {
+      for (let s = 0; s < slots.length; s++) {
+        if (sim.towerManager.getTowerAt(slots[s].x, slots[s].y)) continue;
+        if (!sim.placeTower(slots[s].x, slots[s].y, keys[s % keys.length])) break;
+      }
+      for (const tower of sim.towerManager.getAllTowers()) {
+        sim.upgradeTower(tower, tower.needsSpecialization() ? tower.config.specializations![1].key : undefined);
+      }
+    }
+    if (!sold && i === 600) {
+      const [first] = sim.towerManager.getAllTowers();
+      if (first) sim.sellTower(first);
+      sold = true;
+    }
+    sim.step();
+  }
+}
+
+/** Record one scripted run of the given level. */
+function recordRun(levelIndex: number, seed: number): { replay: Replay; sim: Simulation } {
+  const levelConfig = LEVELS[levelIndex];
+  const map = getMapByLevel(levelConfig.level);
+  const sim = new Simulation(levelConfig, map, { seed });
+  const recorder = new ReplayRecorder(sim);
+  playScripted(sim, map, 60 * 60 * 20);
+  return { replay: recorder.toReplay(), sim };
+}
+
+/** Play a replay back in a fresh simulation until the level ends. */
+function playBack(replay: Replay): { sim: Simulation; player: ReplayPlayer } {
+  const levelConfig = LEVELS[replay.level - 1];
+  const sim = new Simulation(levelConfig, getMapByLevel(replay.level), { seed: replay.seed });
+  const player = new ReplayPlayer(sim, replay);
+  sim.runToCompletion(60 * 60 * 20);
+  return { sim, player };
+}
+
+describe('Replay', () => {
+  // ──────────────────────────────────────────────
+  // Recording
+  // ──────────────────────────────────────────────
+
+  describe('ReplayRecorder', () => {
+    it('should capture level, seed and tick-stamped actions of every type', () => {
+      const { replay } = recordRun(1, 42);
+      expect(replay.version).toBe(REPLAY_VERSION);
+      expect(replay.level).toBe(2);
+      expect(replay.seed).toBe(42);
+      const types = new Set(replay.actions.map((a) => a.type));
+      expect(types).toEqual(new Set(['place', 'upgrade', 'sell']));
+      expect(replay.actions[0].tick).toBe(0);
+    });
+
+    it('should not record actions the simulation rejected', () => {
+      const sim = new Simulation(LEVELS[0], getMapByLevel(1), { seed: 1 });
+      const recorder = new ReplayRecorder(sim);
+      sim.placeTower(2, 2, 'laser');
+      sim.placeTower(2, 2, 'laser'); // occupied
+      expect(recorder.toReplay().actions).toHaveLength(1);
+    });
+
+    it('should record the final result once the level ends', () => {
+      const { replay, sim } = recordRun(0, 7);
+      expect(replay.result).toEqual({
+        outcome: sim.getOutcome(),
+        tick: sim.getTick(),
+        lives: sim.getLives(),
+        enemiesKilled: sim.getEnemiesKilled(),
+      });
+    });
+
+    it('should keep one replay across a mid-level save and resume', () => {
+      const levelConfig = LEVELS[1];
+      const map = getMapByLevel(levelConfig.level);
+      const first = new Simulation(levelConfig, map, { seed: 9 });
+      const firstRecorder = new ReplayRecorder(first);
+      playScripted(first, map, 60 * 20);
+      while (first.getProjectiles().length > 0) first.step();
+
+      const resumed = new Simulation(levelConfig, map, { seed: 9 });
+      resumed.restore(first.serialize());
+      const before = firstRecorder.toReplay();
+      const recorder = new ReplayRecorder(resumed, undefined, before);
+      playScripted(resumed, map, 60 * 60 * 20);
+
+      const replay = recorder.toReplay();
+      expect(replay.actions.slice(0, before.actions.length)).toEqual(before.actions);
+      const { player } = playBack(replay);
+      expect(player.getFailedActionCount()).toBe(0);
+    });
+
+    it('should mark a resumed run and leave out its result', () => {
+      const levelConfig = LEVELS[0];
+      const map = getMapByLevel(levelConfig.level);
+      const first = new Simulation(levelConfig, map, { seed: 4 });
+      const firstRecorder = new ReplayRecorder(first);
+      playScripted(first, map, 60 * 20);
+
+      const resumed = new Simulation(levelConfig, map, { seed: 4 });
+      resumed.restore(first.serialize());
+      const recorder = new ReplayRecorder(resumed, undefined, firstRecorder.toReplay());
+      playScripted(resumed, map, 60 * 60 * 20);
+
+      expect(resumed.getOutcome()).not.toBe('running');
+      const replay = recorder.toReplay();
+      expect(replay.resumed).toBe(true);
+      expect(replay.result).toBeUndefined();
+      expect(firstRecorder.toReplay().resumed).toBeUndefined();
+    });
+  });
+
+  // ──────────────────────────────────────────────
+  // Playback
+  // ──────────────────────────────────────────────
+
+  describe('ReplayPlayer', () => {
+    it.each([
+      [0, 3],
+      [2, 99],
+      [4, 12345],
+    ])('should reproduce a recorded run of level index %i (seed %i)', (levelIndex, seed) => {
+      const { replay, sim: original } = recordRun(levelIndex, seed);
+      const { sim, player } = playBack(parseReplay(serializeReplay(replay)));
+
+      expect(player.isFinished()).toBe(true);
+      expect(player.getFailedActionCount()).toBe(0);
+      expect(player.matchesRecordedResult()).toBe(true);
+      expect(sim.economy.getCredits()).toBe(original.economy.getCredits());
+    });
+
+    it('should detect a replay that diverges from its recorded result', () => {
+      const { replay } = recordRun(0, 5);
+      const tampered: Replay = { ...replay, actions: replay.actions.slice(0, 1) };
+      const { player } = playBack(tampered);
+      expect(player.matchesRecordedResult()).toBe(false);
+    });
+
+    it('should not check the result of a resumed run', () => {
+      const { replay } = recordRun(0, 5);
+      const tampered: Replay = { ...replay, resumed: true, actions: replay.actions.slice(0, 1) };
+      const { player } = playBack(tampered);
+      expect(player.matchesRecordedResult()).toBeNull();
+    });
+
+    it('should refuse a simulation created with a different seed', () => {
+      const sim = new Simulation(LEVELS[0], getMapByLevel(1), { seed: 1 });
+      const replay: Replay = { version: REPLAY_VERSION, level: 1, seed: 2, actions: [] };
+      expect(() => new ReplayPlayer(sim, replay)).toThrow(/seed/);
+    });
+  });
+
+  // ──────────────────────────────────────────────
+  // JSON import
+  // ──────────────────────────────────────────────
+
+  describe('parseReplay', () => {
+    const valid = {
+      version: REPLAY_VERSION,
+      level: 1,
+      seed: 10,
+      actions: [{ tick: 0, type: 'place', tileX: 2, tileY: 2, towerKey: 'laser' }],
+    };
+
+    it('should accept a well-formed replay', () => {
+      expect(parseReplay(JSON.stringify(valid))).toEqual(valid);
+    });
+
+    it('should reject malformed JSON', () => {
+      expect(() => parseReplay('{nope')).toThrow(/not valid JSON/);
+    });
+
+    it('should reject an unsupported version', () => {
+      expect(() => parseReplay(JSON.stringify({ ...valid, version: 99 }))).toThrow(/version/);
+    });
+
+    it('should accept a call-wave action without tile coordinates', () => {
+      const withCall = { ...valid, actions: [{ tick: 5, type: 'call-wave' }] };
+      expect(parseReplay(JSON.stringify(withCall)).actions).toEqual([{ tick: 5, type: 'call-wave' }]);
+    });
+
+    it('should keep the level pack a replay was recorded in', () => {
+      expect(parseReplay(JSON.stringify({ ...valid, pack: 'Community' })).pack).toBe('Community');
+      expect(() => parseReplay(JSON.stringify({ ...valid, pack: 7 }))).toThrow(/"pack"/);
+    });
+
+    it('should keep the resumed flag', () => {
+      expect(parseReplay(JSON.stringify({ ...valid, resumed: true })).resumed).toBe(true);
+      expect(() => parseReplay(JSON.stringify({ ...valid, resumed: 'yes' }))).toThrow(/"resumed"/);
+    });
+
+    it('should reject unknown action types', () => {
+      const bad = { ...valid, actions: [{ tick: 0, type: 'nuke', tileX: 0, tileY: 0 }] };
+      expect(() => parseReplay(JSON.stringify(bad))).toThrow(/unknown type "nuke"/);
+    });
+
+    it('should reject a place action without a tower key', () => {
+      const bad = { ...valid, actions: [{ tick: 0, type: 'place', tileX: 0, tileY: 0 }] };
+      expect(() => parseReplay(JSON.stringify(bad))).toThrow(/towerKey/);
+    });
+
+    it('should check the mode of a set-targeting action', () => {
+      const action = { tick: 0, type: 'set-targeting', tileX: 2, tileY: 2, mode: 'weakest' };
+      expect(parseReplay(JSON.stringify({ ...valid, actions: [action] })).actions).toEqual([action]);
+
+      const bad = { ...valid, actions: [{ ...action, mode: 'random' }] };
+      expect(() => parseReplay(JSON.stringify(bad))).toThrow(/targeting mode "random"/);
+    });
+  });
+});
@@ -0,0 +1,286 @@
+import { describe, it, expect } from 'vitest';
+import { ARMOR_DAMAGE_FLOOR, SimEnemy } from '../SimEnemy';
+import { SimTower } from '../SimTower';
+
+/**
+ * Test suite for SimEnemy damage types, resistances, armor, status effects,
+ * special behaviors and boss phases.
+ */
+
+function createEnemy(enemyKey: string): SimEnemy {
+  return new SimEnemy(0, 0, enemyKey, [{ x: 0, y: 0 }, { x: 400, y: 0 }]);
+}
+
+describe('SimEnemy', () => {
+  // ──────────────────────────────────────────────
+  // Resistances
+  // ──────────────────────────────────────────────
+
+  describe('damage types', () => {
+    it('should apply untyped damage as is', () => {
+      const drone = createEnemy('drone');
+      drone.takeDamage(20);
+      expect(drone.hp).toBe(drone.maxHp - 20);
+    });
+
+    it('should reduce damage of a resisted type', () => {
+      const brute = createEnemy('brute'); // resists kinetic (0.5x)
+      brute.takeDamage(60, 'kinetic', 100); // armor fully pierced
+      expect(brute.hp).toBe(brute.maxHp - 30);
+    });
+
+    it('should apply normal damage for types that are not listed', () => {
+      const brute = createEnemy('brute');
+      brute.takeDamage(60, 'energy', 100); // armor fully pierced
+      expect(brute.hp).toBe(brute.maxHp - 60);
+    });
+
+    it('should use the shield resistances while the shield holds', () => {
+      const shielded = createEnemy('shielded'); // shield takes 1.5x energy
+      const shield = shielded.shieldHp;
+      shielded.takeDamage(20, 'energy');
+      expect(shielded.shieldHp).toBe(shield - 30);
+      expect(shielded.hp).toBe(shielded.maxHp);
+    });
+
+    it('should carry the unabsorbed part of a hit through to HP', () => {
+      const shielded = createEnemy('shielded');
+      const shield = shielded.shieldHp; // 65
+      shielded.takeDamage(100, 'energy'); // 150 against the shield
+      expect(shielded.shieldHp).toBe(0);
+      // The shield soaks shield / 1.5 of the raw damage; the rest hits HP at 1x
+      expect(shielded.hp).toBeCloseTo(shielded.maxHp - (100 - shield / 1.5));
+    });
+  });
+
+  // ──────────────────────────────────────────────
+  // Armor
+  // ──────────────────────────────────────────────
+
+  describe('armor', () => {
+    // Brutes have 5 armor
+
+    it('should take a flat amount off each hit', () => {
+      const brute = createEnemy('brute');
+      brute.takeDamage(20, 'energy');
+      expect(brute.hp).toBe(brute.maxHp - 15);
+    });
+
+    it('should apply armor after resistances', () => {
+      const brute = createEnemy('brute');
+      brute.takeDamage(60, 'kinetic'); // 30 after resistance, 25 after armor
+      expect(brute.hp).toBe(brute.maxHp - 25);
+    });
+
+    it('should always let the damage floor through', () => {
+      const brute = createEnemy('brute');
+      brute.takeDamage(4, 'energy');
+      expect(brute.hp).toBe(brute.maxHp - 4 * ARMOR_DAMAGE_FLOOR);
+    });
+
+    it('should let armor piercing ignore armor', () => {
+      const partly = createEnemy('brute');
+      partly.takeDamage(20, 'energy', 3);
+      expect(partly.hp).toBe(partly.maxHp - 18);
+
+      const fully = createEnemy('brute');
+      fully.takeDamage(20, 'energy', 12);
+      expect(fully.hp).toBe(fully.maxHp - 20);
+    });
+
+    it('should not let armor protect the shield', () => {
+      const shielded = createEnemy('shielded');
+      const shield = shielded.shieldHp;
+      shielded.takeDamage(4, 'explosive');
+      expect(shielded.shieldHp).toBe(shield - 4);
+    });
+  });
+
+  // ──────────────────────────────────────────────
+  // Status effects
+  // ──────────────────────────────────────────────
+
+  describe('status effects', () => {
+    it('should move slower while slowed and recover afterwards', () => {
+      const drone = createEnemy('drone'); // 60 px/s
+      drone.applyEffect({ kind: 'slow', magnitude: 0.5, duration: 1.5 });
+      drone.update(1000);
+      expect(drone.x).toBeCloseTo(30);
+      drone.update(1000);
+      expect(drone.x).toBeCloseTo(90);
+    });
+
+    it('should not move while stunned', () => {
+      const drone = createEnemy('drone');
+      drone.applyEffect({ kind: 'stun', magnitude: 0, duration: 2 });
+      drone.update(1000);
+      expect(drone.x).toBe(0);
+    });
+
+    it('should let burn damage ignore armor', () => {
+      const brute = createEnemy('brute');
+      brute.applyEffect({ kind: 'burn', magnitude: 4, duration: 5 });
+      brute.update(1000);
+      expect(brute.hp).toBeCloseTo(brute.maxHp - 4);
+    });
+
+    it('should credit the applying tower with a damage-over-time kill', () => {
+      const tower = new SimTower(2, 2, 'cryo');
+      const drone = createEnemy('drone');
+      drone.applyEffect({ kind: 'poison', magnitude: 100, duration: 2 }, tower);
+      drone.update(1000);
+      expect(drone.isAlive).toBe(false);
+      expect(tower.kills).toBe(1);
+    });
+
+    it('should keep a cloaked enemy hidden while it burns', () => {
+      const phantom = createEnemy('phantom');
+      phantom.applyEffect({ kind: 'burn', magnitude: 4, duration: 5 });
+      phantom.update(1000);
+      expect(phantom.hp).toBeCloseTo(phantom.maxHp - 4);
+      expect(phantom.isCloaked).toBe(true);
+    });
+
+    it('should burn underneath the shield without holding off its regeneration', () => {
+      const shielded = createEnemy('shielded'); // shield regenerates 3s after the last hit
+      const shield = shielded.shieldHp;
+      shielded.takeDamage(10);
+      shielded.applyEffect({ kind: 'burn', magnitude: 4, duration: 5 });
+      shielded.update(1000);
+      expect(shielded.hp).toBeCloseTo(shielded.maxHp - 4);
+      expect(shielded.shieldHp).toBe(shield - 10);
+
+      shielded.update(2100);
+      expect(shielded.shieldHp).toBe(shield);
+    });
+
+    it('should let armor shred weaken armor', () => {
+      const brute = createEnemy('brute');
+      brute.applyEffect({ kind: 'armor-shred', magnitude: 3, duration: 5 });
+      brute.takeDamage(20, 'energy');
+      expect(brute.hp).toBe(brute.maxHp - 18);
+    });
+
+    it('should keep its effects through serialize and deserialize', () => {
+      const drone = createEnemy('drone');
+      drone.applyEffect({ kind: 'slow', magnitude: 0.5, duration: 2 });
+      const restored = SimEnemy.deserialize(drone.serialize());
+      expect(restored.effects).toEqual(drone.serialize().effects);
+    });
+  });
+
+  // ──────────────────────────────────────────────
+  // Special behaviors
+  // ──────────────────────────────────────────────
+
+  describe('special behaviors', () => {
+    it('should send a heal pulse every heal interval', () => {
+      const mender = createEnemy('mender'); // 15 HP within 96 px every 2s
+      const pulses: Array<{ radius: number; amount: number }> = [];
+      mender.on('enemy-heal', (data: { radius: number; amount: number }) => pulses.push(data));
+      mender.update(1500);
+      expect(pulses).toHaveLength(0);
+      mender.update(1000);
+      expect(pulses).toEqual([expect.objectContaining({ radius: 96, amount: 15 })]);
+    });
+
+    it('should not heal above max HP', () => {
+      const drone = createEnemy('drone');
+      drone.takeDamage(10);
+      drone.heal(50);
+      expect(drone.hp).toBe(drone.maxHp);
+    });
+
+    it('should stay revealed for a while after being hit', () => {
+      const phantom = createEnemy('phantom'); // revealed for 2s
+      expect(phantom.isCloaked).toBe(true);
+      phantom.takeDamage(5);
+      expect(phantom.isTargetable).toBe(true);
+      phantom.update(2100);
+      expect(phantom.isCloaked).toBe(true);
+    });
+
+    it('should fly straight from its start to the base', () => {
+      const skyray = new SimEnemy(0, 0, 'skyray', [{ x: 0, y: 0 }, { x: 300, y: 0 }, { x: 300, y: 400 }]);
+      expect(skyray.route).toEqual([{ x: 0, y: 0 }, { x: 300, y: 400 }]);
+      expect(skyray.distanceToBase).toBeCloseTo(500);
+    });
+
+    it('should ignore damage and effects while underground', () => {
+      const burrower = createEnemy('burrower'); // underground from 120 to 240 px of 400
+      burrower.update(4000); // 40 px/s -> x = 160
+      burrower.takeDamage(50, undefined, Infinity);
+      burrower.applyEffect({ kind: 'stun', magnitude: 0, duration: 5 });
+      expect(burrower.hp).toBe(burrower.maxHp);
+      expect(burrower.effects).toHaveLength(0);
+
+      burrower.update(3000); // surfaced at x = 280
+      expect(burrower.isUnderground).toBe(false);
+      burrower.takeDamage(50, undefined, Infinity);
+      expect(burrower.hp).toBe(burrower.maxHp - 50);
+    });
+  });
+
+  // ──────────────────────────────────────────────
+  // Boss phases
+  // ──────────────────────────────────────────────
+
+  describe('boss phases', () => {
+    // Mothership: 2400 HP; drones at 70%, shield (25%) and skitters at 40%, 2x speed at 15%
+
+    it('should release minions when a phase threshold is crossed', () => {
+      const boss = createEnemy('mothership');
+      const splits: Array<{ splitCount: number; splitEnemyKey: string }> = [];
+      boss.on('enemy-split', (data: { splitCount: number; splitEnemyKey: string }) => splits.push(data));
+
+      boss.takeDamage(600, undefined, Infinity);
+      expect(splits).toHaveLength(0);
+      boss.takeDamage(200, undefined, Infinity);
+      expect(boss.bossPhase).toBe(1);
+      expect(splits).toEqual([expect.objectContaining({ splitCount: 6, splitEnemyKey: 'drone' })]);
+    });
+
+    it('should enter each phase once, in order, even from a single hit', () => {
+      const boss = createEnemy('mothership');
+      const phases: number[] = [];
+      boss.on('boss-phase', (data: { phase: number }) => phases.push(data.phase));
+
+      boss.takeDamage(1500, undefined, Infinity);
+      boss.takeDamage(10, undefined, Infinity);
+      expect(phases).toEqual([1, 2]);
+    });
+
+    it('should raise a shield that does not regenerate', () => {
+      const boss = createEnemy('mothership');
+      boss.takeDamage(1500, undefined, Infinity);
+      expect(boss.hasShield).toBe(true);
+      expect(boss.shieldHp).toBe(600);
+
+      boss.takeDamage(600, undefined, Infinity);
+      boss.update(10_000);
+      expect(boss.shieldHp).toBe(0);
+    });
+
+    it('should speed up in its final phase', () => {
+      const boss = createEnemy('mothership'); // 18 px/s
+      boss.takeDamage(2100, undefined, Infinity);
+      expect(boss.bossPhase).toBe(3);
+      boss.update(1000);
+      expect(boss.x).toBeCloseTo(36);
+    });
+
+    it('should keep its phase through serialize and deserialize without new minions', () => {
+      const boss = createEnemy('mothership');
+      boss.takeDamage(1500, undefined, Infinity);
+      boss.takeDamage(100, undefined, Infinity);
+
+      const restored = SimEnemy.deserialize(boss.serialize());
+      let minions = 0;
+      restored.on('enemy-split', () => minions++);
+      restored.takeDamage(10, undefined, Infinity);
+      expect(restored.bossPhase).toBe(2);
+      expect(restored.shieldHp).toBe(490);
+      expect(minions).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,347 @@
+import { describe, it, expect } from 'vitest';
+import { SimTower, TargetingMode } from '../SimTower';
+import { SimEnemy } from '../SimEnemy';
+import type { SimProjectile } from '../SimProjectile';
+import { TowerManager } from '../../systems/TowerManager';
+
+/**
+ * Test suite for SimTower target selection under each targeting mode, and
+ * for enemies towers cannot reach (cloaked, underground, flying) and the
+ * detectors that reveal cloaked ones, for tier-3 specializations, for beams,
+ * and for the buffs and income of support towers.
+ */
+
+// Tower on tile (2, 2) sits at (160, 160); laser tier 1 has range 120.
+const ROW_Y = 160;
+
+/** An enemy at `x` on the tower's row whose route ends at x = 400. */
+function enemyAt(enemyKey: string, x: number): SimEnemy {
+  return new SimEnemy(x, ROW_Y, enemyKey, [{ x, y: ROW_Y }, { x: 400, y: ROW_Y }]);
+}
+
+/** Fire one shot and return the enemy it was aimed at. */
+function shootOnce(tower: SimTower, enemies: SimEnemy[]): SimEnemy | undefined {
+  let target: SimEnemy | undefined;
+  tower.on('projectile-fired', (projectile: SimProjectile) => {
+    target = projectile.config.target;
+  });
+  tower.update(16, enemies);
+  return target;
+}
+
+describe('SimTower', () => {
+  // ──────────────────────────────────────────────
+  // Targeting modes
+  // ──────────────────────────────────────────────
+
+  describe('targeting', () => {
+    function createField() {
+      const brute = enemyAt('brute', 60); // furthest from the base, most HP
+      const shielded = enemyAt('shielded', 100);
+      const wounded = enemyAt('drone', 150); // nearest the tower
+      wounded.takeDamage(40);
+      const leader = enemyAt('drone', 260); // nearest the base
+      return { brute, shielded, wounded, leader, all: [brute, shielded, wounded, leader] };
+    }
+
+    it.each<[TargetingMode, 'brute' | 'shielded' | 'wounded' | 'leader']>([
+      ['first', 'leader'],
+      ['last', 'brute'],
+      ['strongest', 'brute'],
+      ['weakest', 'wounded'],
+      ['closest', 'wounded'],
+      ['shielded', 'shielded'],
+    ])('should aim at the right enemy in %s mode', (mode, expected) => {
+      const field = createField();
+      const tower = new SimTower(2, 2, 'laser');
+      tower.targetingMode = mode;
+      expect(shootOnce(tower, field.all)).toBe(field[expected]);
+    });
+
+    it('should fall back to the enemy nearest the base on a tie', () => {
+      const { wounded, leader } = createField();
+      const tower = new SimTower(2, 2, 'laser');
+      tower.targetingMode = 'shielded'; // nobody in this pair has a shield
+      expect(shootOnce(tower, [wounded, leader])).toBe(leader);
+    });
+
+    it('should only use targeting modes on projectile towers', () => {
+      expect(new SimTower(2, 2, 'railgun').usesTargeting()).toBe(true);
+      expect(new SimTower(2, 2, 'cryo').usesTargeting()).toBe(false);
+    });
+
+    it('should keep its targeting mode through serialize / deserialize', () => {
+      const tower = new SimTower(2, 2, 'missile');
+      tower.targetingMode = 'strongest';
+      expect(SimTower.deserialize(tower.serialize()).targetingMode).toBe('strongest');
+    });
+  });
+
+  // ──────────────────────────────────────────────
+  // Reach
+  // ──────────────────────────────────────────────
+
+  describe('reach', () => {
+    it('should not target a cloaked enemy until it is revealed', () => {
+      const phantom = enemyAt('phantom', 200);
+      const tower = new SimTower(2, 2, 'laser');
+      expect(shootOnce(tower, [phantom])).toBeUndefined();
+
+      phantom.reveal(1);
+      expect(shootOnce(tower, [phantom])).toBe(phantom);
+    });
+
+    it('should let towers target a cloaked enemy only inside a detector radius', () => {
+      // Sensor on (4, 2) at (288, 160) detects within 160 px; the laser cannot reach it
+      const manager = new TowerManager();
+      const laser = manager.placeTower(2, 2, 'laser')!;
+      manager.placeTower(4, 2, 'sensor');
+      const near = enemyAt('phantom', 200);
+      const far = enemyAt('phantom', 40); // in laser range, 248 px from the sensor
+
+      const targets: SimEnemy[] = [];
+      laser.on('projectile-fired', (projectile: SimProjectile) => targets.push(projectile.config.target));
+
+      manager.updateAll(16, [near, far]);
+      expect(near.isCloaked).toBe(false);
+      expect(far.isCloaked).toBe(true);
+      expect(targets).toEqual([near]);
+    });
+
+    it('should cloak an enemy again once it leaves the detection radius', () => {
+      const manager = new TowerManager();
+      manager.placeTower(4, 2, 'sensor');
+      const phantom = enemyAt('phantom', 200);
+      manager.updateAll(16, [phantom]);
+      expect(phantom.isCloaked).toBe(false);
+
+      manager.removeTower(manager.getTowerAt(4, 2)!);
+      manager.updateAll(16, [phantom]);
+      expect(phantom.isCloaked).toBe(true);
+    });
+
+    it('should not target an enemy while it is underground', () => {
+      // Route from x = 0 to 400: the burrower is underground from 120 to 240
+      const burrower = new SimEnemy(0, ROW_Y, 'burrower', [{ x: 0, y: ROW_Y }, { x: 400, y: ROW_Y }]);
+      burrower.update(4000); // 40 px/s -> x = 160
+      expect(burrower.isUnderground).toBe(true);
+      expect(shootOnce(new SimTower(2, 2, 'laser'), [burrower])).toBeUndefined();
+    });
+
+    it('should keep ground-only area towers from hitting flyers', () => {
+      const skyray = enemyAt('skyray', 200);
+      const pulse = new SimTower(2, 2, 'pulse');
+      pulse.update(16, [skyray]);
+      expect(skyray.hp).toBe(skyray.maxHp);
+
+      const cryo = new SimTower(2, 2, 'cryo');
+      cryo.update(16, [skyray]);
+      expect(skyray.hp).toBeLessThan(skyray.maxHp);
+    });
+  });
+
+  // ──────────────────────────────────────────────
+  // Specializations
+  // ──────────────────────────────────────────────
+
+  describe('specializations', () => {
+    function towerAtTier2(towerKey: string): SimTower {
+      const tower = new SimTower(2, 2, towerKey);
+      tower.upgrade();
+      return tower;
+    }
+
+    it('should apply the branch stats on top of the third tier', () => {
+      const tower = towerAtTier2('missile');
+      expect(tower.upgrade('nuke')).toBe(true);
+      // Tier 3 is 65 damage, 180 range, 1.2/s, 75 splash; the nuke replaces every one
+      expect(tower.getCurrentTierStats()).toEqual({ damage: 160, range: 200, fireRate: 0.5, splashRadius: 130 });
+    });
+
+    it('should refuse the tier-3 upgrade without a valid branch', () => {
+      const tower = towerAtTier2('laser');
+      expect(tower.canUpgrade()).toBe(false);
+      expect(tower.upgrade('cluster')).toBe(false);
+      expect(tower.currentTier).toBe(2);
+      expect(new SimTower(2, 2, 'laser').canUpgrade('beam')).toBe(false); // only at tier 2
+    });
+
+    it('should fire at several enemies per shot with a multi-target branch', () => {
+      const tower = towerAtTier2('laser');
+      tower.upgrade('scatter'); // up to 3 targets
+      const enemies = [enemyAt('drone', 120), enemyAt('drone', 160), enemyAt('drone', 200), enemyAt('drone', 240)];
+      const targets: SimEnemy[] = [];
+      tower.on('projectile-fired', (projectile: SimProjectile) => targets.push(projectile.config.target));
+      tower.update(16, enemies);
+      expect(targets).toEqual([enemies[3], enemies[2], enemies[1]]);
+    });
+
+    it('should keep its branch through serialize and deserialize', () => {
+      const tower = towerAtTier2('laser');
+      tower.upgrade('beam');
+      const restored = SimTower.deserialize(tower.serialize());
+      expect(restored.specialization).toBe('beam');
+      expect(restored.getCurrentTierStats()).toEqual(tower.getCurrentTierStats());
+
+      expect(() => SimTower.deserialize({ ...tower.serialize(), specialization: 'nuke' })).toThrow(/nuke/);
+    });
+  });
+
+  // ──────────────────────────────────────────────
+  // Beams
+  // ──────────────────────────────────────────────
+
+  describe('beams', () => {
+    // Beam Laser: 80 damage per second, +50% per second on one target up to +100%, 2 armor piercing
+
+    function beamLaser(): SimTower {
+      const tower = new SimTower(2, 2, 'laser');
+      tower.upgrade();
+      tower.upgrade('beam');
+      return tower;
+    }
+
+    /** Run the tower for `ms` in 100 ms steps. */
+    function runFor(tower: SimTower, enemies: SimEnemy[], ms: number): void {
+      for (let t = 0; t < ms; t += 100) tower.update(100, enemies);
+    }
+
+    it('should lock onto a target and damage it every step without projectiles', () => {
+      const tower = beamLaser();
+      const brute = enemyAt('brute', 200);
+      let fired = false;
+      tower.on('projectile-fired', () => (fired = true));
+
+      tower.update(100, [brute]);
+      expect(tower.beamTarget).toBe(brute);
+      expect(brute.hp).toBeCloseTo(brute.maxHp - 8 + 0.3); // armor 5 - 2 pierced, per second
+      expect(fired).toBe(false);
+    });
+
+    it('should ramp up while it holds the same target', () => {
+      const tower = beamLaser();
+      const boss = enemyAt('mothership', 200);
+      runFor(tower, [boss], 1000);
+      expect(tower.beamMultiplier).toBeCloseTo(1.5);
+      runFor(tower, [boss], 2000);
+      expect(tower.beamMultiplier).toBe(2);
+    });
+
+    it('should pulse on locking on and once per second of beam', () => {
+      const tower = beamLaser();
+      let pulses = 0;
+      tower.on('beam-pulse', () => pulses++);
+      runFor(tower, [enemyAt('mothership', 200)], 1500);
+      expect(pulses).toBe(2);
+    });
+
+    it('should keep its target until it leaves range, then start the ramp over', () => {
+      const tower = beamLaser(); // 160 range
+      const first = enemyAt('brute', 200);
+      runFor(tower, [first], 1000);
+
+      const ahead = enemyAt('brute', 300); // nearer the base, but the beam holds on
+      runFor(tower, [first, ahead], 500);
+      expect(tower.beamTarget).toBe(first);
+
+      tower.update(100, [ahead]); // the first one left the field
+      expect(tower.beamTarget).toBe(ahead);
+      expect(tower.beamMultiplier).toBeCloseTo(1.05);
+    });
+
+    it('should credit the kill and release the target', () => {
+      const tower = beamLaser();
+      const drone = enemyAt('drone', 200);
+      runFor(tower, [drone], 2000);
+      expect(drone.isAlive).toBe(false);
+      expect(tower.kills).toBe(1);
+      expect(tower.beamTarget).toBeNull();
+    });
+
+    it('should keep its target and ramp-up through serialize and deserialize', () => {
+      const tower = beamLaser();
+      const boss = enemyAt('mothership', 200);
+      const other = enemyAt('brute', 150);
+      runFor(tower, [boss], 1000);
+
+      const state = tower.serialize([other, boss]);
+      expect(state.beam).toEqual({ target: 1, time: expect.closeTo(1) });
+      const restored = SimTower.deserialize(state, [other, boss]);
+      expect(restored.beamTarget).toBe(boss);
+      expect(restored.beamMultiplier).toBeCloseTo(1.5);
+
+      expect(tower.serialize([other]).beam).toBeUndefined();
+      expect(() => SimTower.deserialize(state, [other])).toThrow(/no enemy 1/);
+    });
+  });
+
+  // ──────────────────────────────────────────────
+  // Support towers
+  // ──────────────────────────────────────────────
+
+  describe('support towers', () => {
+    // Amplifier tier 1: +10% damage and fire rate within 1.5 tiles
+
+    it('should buff the towers its aura reaches', () => {
+      const manager = new TowerManager();
+      const laser = manager.placeTower(2, 2, 'laser')!;
+      const far = manager.placeTower(5, 2, 'laser')!;
+      const amplifier = manager.placeTower(3, 3, 'amplifier')!; // diagonal neighbour of (2, 2)
+
+      expect(laser.getCurrentTierStats()).toMatchObject({ damage: 8.8, range: 120, fireRate: 4.4 });
+      expect(laser.getBaseTierStats().damage).toBe(8);
+      expect(laser.getBuffs()).toEqual([{ source: amplifier, aura: amplifier.getBaseTierStats().aura }]);
+      expect(far.getBuffs()).toHaveLength(0);
+      expect(amplifier.getBuffs()).toHaveLength(0); // support towers are never buffed
+    });
+
+    it('should take the strongest of two overlapping auras and fall back when it is sold', () => {
+      const manager = new TowerManager();
+      const laser = manager.placeTower(2, 2, 'laser')!;
+      manager.placeTower(1, 2, 'amplifier');
+      const second = manager.placeTower(3, 2, 'amplifier')!;
+      expect(laser.getBuffs()).toHaveLength(2);
+      expect(laser.getCurrentTierStats().fireRate).toBeCloseTo(4.4);
+
+      manager.upgradeTower(second); // +15%
+      expect(laser.getCurrentTierStats()).toMatchObject({ damage: 9.2, fireRate: 4.6 });
+
+      manager.removeTower(second);
+      expect(laser.getCurrentTierStats().fireRate).toBeCloseTo(4.4);
+    });
+
+    it('should take each stat from whichever aura is strongest for it', () => {
+      const manager = new TowerManager();
+      const laser = manager.placeTower(2, 2, 'laser')!;
+      const overclock = manager.placeTower(1, 2, 'amplifier')!;
+      const focus = manager.placeTower(3, 2, 'amplifier')!;
+      for (const [amplifier, branch] of [[overclock, 'overclock'], [focus, 'focus']] as const) {
+        manager.upgradeTower(amplifier);
+        manager.upgradeTower(amplifier, branch);
+      }
+
+      // Overclock +35% fire rate; Focus +20% damage and range
+      expect(laser.getCurrentTierStats().fireRate).toBeCloseTo(5.4);
+      expect(laser.getCurrentTierStats().damage).toBeCloseTo(9.6);
+      expect(laser.getCurrentTierStats().range).toBeCloseTo(144);
+    });
+
+    it('should never fire and upgrade without kills', () => {
+      const amplifier = new SimTower(2, 2, 'amplifier');
+      let fired = false;
+      amplifier.on('projectile-fired', () => (fired = true));
+      amplifier.update(1000, [enemyAt('drone', 160)]);
+      expect(fired).toBe(false);
+      expect(amplifier.usesTargeting()).toBe(false);
+      expect(amplifier.hasEnoughKills()).toBe(true);
+    });
+
+    it('should add relay income to the passive income', () => {
+      const manager = new TowerManager();
+      manager.placeTower(2, 2, 'relay'); // +1 credit/s
+      const relay = manager.placeTower(3, 2, 'relay')!;
+      relay.upgrade(); // +2 credits/s
+      expect(manager.getIncomeBonus()).toBe(3);
+    });
+  });
+});
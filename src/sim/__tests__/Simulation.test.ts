@@ -0,0 +1,466 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Simulation, SIM_STEP_MS } from '../Simulation';
+import { LEVELS, LevelConfig, DEFAULT_BUILD_TIME, EARLY_WAVE_BONUS_PER_SECOND } from '../../config/levels';
+import { getMapByLevel, MapConfig, TileType } from '../../config/maps';
+import { TOWERS } from '../../config/towers';
+
+/**
+ * Test suite for the headless Simulation.
+ *
+ * These tests play levels without Phaser: fixed-step clock behaviour,
+ * player actions (place / upgrade / sell), lives and outcome tracking,
+ * and full runs of every level in LEVELS.
+ */
+
+// Minimal LevelConfig fixture for testing.
+function createTestLevel(overrides: Partial<LevelConfig> = {}): LevelConfig {
+  return {
+    level: 1,
+    name: 'Test Level',
+    theme: 'test',
+    startingCredits: 200,
+    passiveIncomeRate: 5,
+    lives: 10,
+    buildSlots: 8,
+    hpScale: 1.0,
+    segments: [{ enemyKey: 'drone', count: 5, spawnInterval: 1.0 }],
+    ...overrides,
+  };
+}
+
+/** Tile coordinates of every build slot in a map. */
+function getBuildSlots(map: MapConfig): { x: number; y: number }[] {
+  const slots: { x: number; y: number }[] = [];
+  map.grid.forEach((row, y) =>
+    row.forEach((tile, x) => {
+      if (tile === TileType.BuildSlot) slots.push({ x, y });
+    }),
+  );
+  return slots;
+}
+
+/**
+ * Simple scripted player: fill empty build slots with lasers whenever
+ * affordable and upgrade anything that has unlocked its next tier.
+ */
+function playGreedyLasers(sim: Simulation, map: MapConfig, maxSteps: number): void {
+  const slots = getBuildSlots(map);
+  for (let i = 0; i < maxSteps && sim.getOutcome() === 'running'; i++) {
+    for (const slot of slots) {
+      if (sim.towerManager.getTowerAt(slot.x, slot.y)) continue;
+      if (!sim.placeTower(slot.x, slot.y, 'laser')) break;
+    }
+    for (const tower of sim.towerManager.getAllTowers()) {
+      sim.upgradeTower(tower, tower.needsSpecialization() ? tower.config.specializations![0].key : undefined);
+    }
+    sim.step();
+  }
+}
+
+describe('Simulation', () => {
+  let map: MapConfig;
+  let sim: Simulation;
+
+  beforeEach(() => {
+    map = getMapByLevel(1);
+    sim = new Simulation(createTestLevel(), map, { seed: 1234 });
+  });
+
+  // ──────────────────────────────────────────────
+  // Fixed-step clock
+  // ──────────────────────────────────────────────
+
+  describe('clock', () => {
+    it('should run one step per SIM_STEP_MS of accumulated time', () => {
+      expect(sim.advance(SIM_STEP_MS * 3)).toBe(3);
+      expect(sim.getTick()).toBe(3);
+    });
+
+    it('should carry leftover time across advance calls', () => {
+      expect(sim.advance(SIM_STEP_MS / 2)).toBe(0);
+      expect(sim.advance(SIM_STEP_MS / 2)).toBe(1);
+    });
+
+    it('should clamp very long frames', () => {
+      const steps = sim.advance(10_000);
+      expect(steps).toBeLessThan(20);
+    });
+
+    it('should report simulated elapsed time', () => {
+      sim.advance(1000);
+      expect(sim.getElapsedMs()).toBeCloseTo(sim.getTick() * SIM_STEP_MS);
+    });
+
+    it('should run more fixed steps per frame at higher speeds', () => {
+      sim.setSpeed(3);
+      expect(sim.advance(SIM_STEP_MS * 2)).toBe(6);
+      sim.setSpeed(1);
+      expect(sim.advance(SIM_STEP_MS * 2)).toBe(2);
+    });
+
+    it('should play out the same run at any speed', () => {
+      const fast = new Simulation(createTestLevel(), map, { seed: 1234 });
+      fast.setSpeed(3);
+      while (sim.getOutcome() === 'running') sim.advance(SIM_STEP_MS);
+      while (fast.getOutcome() === 'running') fast.advance(SIM_STEP_MS);
+      expect(fast.serialize()).toEqual(sim.serialize());
+    });
+
+    it('should reject a speed that is not positive', () => {
+      expect(() => sim.setSpeed(0)).toThrow(/positive/);
+    });
+  });
+
+  // ──────────────────────────────────────────────
+  // Player actions
+  // ──────────────────────────────────────────────
+
+  describe('placeTower', () => {
+    it('should deduct the tower cost and register the tower', () => {
+      const tower = sim.placeTower(2, 2, 'laser');
+      expect(tower).not.toBeNull();
+      expect(sim.economy.getCredits()).toBe(200 - TOWERS.laser.baseCost);
+      expect(sim.towerManager.getTowerAt(2, 2)).toBe(tower);
+    });
+
+    it('should reject an occupied tile without charging', () => {
+      sim.placeTower(2, 2, 'laser');
+      const credits = sim.economy.getCredits();
+      expect(sim.placeTower(2, 2, 'missile')).toBeNull();
+      expect(sim.economy.getCredits()).toBe(credits);
+    });
+
+    it('should reject an unaffordable tower', () => {
+      const poor = new Simulation(createTestLevel({ startingCredits: 10 }), map, { seed: 1 });
+      expect(poor.placeTower(2, 2, 'laser')).toBeNull();
+      expect(poor.economy.getCredits()).toBe(10);
+    });
+  });
+
+  describe('upgradeTower / sellTower', () => {
+    it('should refuse to upgrade before the kill requirement is met', () => {
+      const tower = sim.placeTower(2, 2, 'laser')!;
+      expect(sim.upgradeTower(tower)).toBe(false);
+      expect(tower.currentTier).toBe(1);
+    });
+
+    it('should upgrade once enough kills are recorded', () => {
+      const tower = sim.placeTower(2, 2, 'laser')!;
+      for (let i = 0; i < 3; i++) tower.addKill();
+      expect(sim.upgradeTower(tower)).toBe(true);
+      expect(tower.currentTier).toBe(2);
+      expect(sim.economy.getCredits()).toBe(200 - 50 - 75);
+    });
+
+    it('should only take the tier-3 upgrade with a specialization', () => {
+      const tower = sim.placeTower(2, 2, 'laser')!;
+      sim.economy.addCredits(100);
+      for (let i = 0; i < 5; i++) tower.addKill();
+      sim.upgradeTower(tower);
+
+      expect(sim.upgradeTower(tower)).toBe(false);
+      expect(sim.upgradeTower(tower, 'nuke')).toBe(false);
+      expect(sim.economy.getCredits()).toBe(300 - 50 - 75);
+
+      expect(sim.upgradeTower(tower, 'scatter')).toBe(true);
+      expect(tower.currentTier).toBe(3);
+      expect(tower.getSpecialization()?.name).toBe('Scatter Laser');
+    });
+
+    it('should refund the sell value and free the tile', () => {
+      const tower = sim.placeTower(2, 2, 'laser')!;
+      const refund = sim.sellTower(tower);
+      expect(refund).toBe(25);
+      expect(sim.economy.getCredits()).toBe(175);
+      expect(sim.towerManager.getTowerAt(2, 2)).toBeNull();
+    });
+  });
+
+  // ──────────────────────────────────────────────
+  // Combat and outcome
+  // ──────────────────────────────────────────────
+
+  describe('combat', () => {
+    it('should spawn enemies and announce them', () => {
+      const spawned = vi.fn();
+      sim.spawner.on('enemy-spawned', spawned);
+      sim.step();
+      expect(spawned).toHaveBeenCalledTimes(1);
+      expect(sim.getActiveEnemies()).toHaveLength(1);
+    });
+
+    it('should fire projectiles at enemies in range and award kill credits', () => {
+      const fired = vi.fn();
+      sim.on('projectile-fired', fired);
+      // (2,2) sits beside the first stretch of the level 1 path
+      sim.placeTower(2, 2, 'railgun');
+      sim.runToCompletion(60 * 60);
+      expect(fired).toHaveBeenCalled();
+      expect(sim.getEnemiesKilled()).toBeGreaterThan(0);
+      expect(sim.economy.getStats().totalFromKills).toBeGreaterThan(0);
+    });
+
+    it('should lose a life for every enemy that reaches the base', () => {
+      const outcome = sim.runToCompletion();
+      expect(outcome).toBe('won');
+      expect(sim.getLives()).toBe(5);
+      expect(sim.getEnemiesRemaining()).toBe(0);
+    });
+
+    it('should end in a loss once lives run out', () => {
+      const fragile = new Simulation(createTestLevel({ lives: 2 }), map, { seed: 1 });
+      const gameOver = vi.fn();
+      fragile.on('game-over', gameOver);
+      expect(fragile.runToCompletion()).toBe('lost');
+      expect(gameOver).toHaveBeenCalledTimes(1);
+      expect(fragile.getLives()).toBe(0);
+    });
+
+    it('should stop stepping after the level ends', () => {
+      sim.runToCompletion();
+      const tick = sim.getTick();
+      sim.step();
+      expect(sim.advance(1000)).toBe(0);
+      expect(sim.getTick()).toBe(tick);
+    });
+  });
+
+  // ──────────────────────────────────────────────
+  // Wave mode
+  // ──────────────────────────────────────────────
+
+  describe('wave mode', () => {
+    let waveSim: Simulation;
+
+    beforeEach(() => {
+      waveSim = new Simulation(
+        createTestLevel({
+          lives: 50,
+          waves: [
+            {
+              name: 'Scouts',
+              buildTime: 10,
+              segments: [
+                { enemyKey: 'drone', count: 2, spawnInterval: 1.0 },
+                { enemyKey: 'skitter', count: 2, spawnInterval: 1.0 },
+              ],
+            },
+            { name: 'Main Force', segments: [{ enemyKey: 'drone', count: 3, spawnInterval: 0.5 }] },
+          ],
+        }),
+        map,
+        { seed: 5 },
+      );
+    });
+
+    it('should count enemies across all waves and ignore trickle segments', () => {
+      expect(waveSim.getEnemiesRemaining()).toBe(7);
+    });
+
+    it('should start in a build phase with no enemies', () => {
+      waveSim.advance(1000);
+      expect(waveSim.spawner.isBuildPhase()).toBe(true);
+      expect(waveSim.spawner.getWaveNumber()).toBe(0);
+      expect(waveSim.getActiveEnemies()).toHaveLength(0);
+    });
+
+    it('should start the wave when the build phase runs out', () => {
+      const started = vi.fn();
+      waveSim.spawner.on('wave-started', started);
+      for (let i = 0; i < 60 * 10 + 2; i++) waveSim.step();
+      expect(started).toHaveBeenCalledWith({ wave: 1, name: 'Scouts', early: false });
+      expect(waveSim.spawner.getWaveNumber()).toBe(1);
+    });
+
+    it('should spawn the segments of a wave in parallel', () => {
+      waveSim.callNextWave();
+      waveSim.step();
+      const keys = waveSim.getActiveEnemies().map((e) => e.enemyKey).sort();
+      expect(keys).toEqual(['drone', 'skitter']);
+    });
+
+    it('should pay a bonus for the build time skipped when calling early', () => {
+      waveSim.advance(4000); // ~6s of the 10s build phase left
+      const credits = waveSim.economy.getCredits();
+      const bonus = waveSim.getEarlyCallBonus();
+      expect(bonus).toBe(Math.floor(waveSim.spawner.getBuildTimeRemaining() * EARLY_WAVE_BONUS_PER_SECOND));
+      expect(bonus).toBeGreaterThan(0);
+
+      expect(waveSim.callNextWave()).toBe(true);
+      expect(waveSim.economy.getCredits()).toBe(credits + bonus);
+      expect(waveSim.economy.getStats().totalFromBonus).toBe(bonus);
+    });
+
+    it('should refuse to call a wave outside a build phase', () => {
+      waveSim.callNextWave();
+      expect(waveSim.callNextWave()).toBe(false);
+    });
+
+    it('should return to a build phase once a wave is cleared', () => {
+      const buildPhases = vi.fn();
+      waveSim.spawner.on('build-phase-started', buildPhases);
+      waveSim.callNextWave();
+      while (waveSim.spawner.getWaveNumber() === 1 && !waveSim.spawner.isBuildPhase()) {
+        waveSim.step();
+      }
+      expect(buildPhases).toHaveBeenCalledWith({ wave: 2, duration: DEFAULT_BUILD_TIME });
+      expect(waveSim.getActiveEnemies()).toHaveLength(0);
+    });
+
+    it('should complete the level after the last wave', () => {
+      expect(waveSim.runToCompletion()).toBe('won');
+      expect(waveSim.spawner.getWaveNumber()).toBe(2);
+      expect(waveSim.getEnemiesRemaining()).toBe(0);
+    });
+  });
+
+  // ──────────────────────────────────────────────
+  // Determinism
+  // ──────────────────────────────────────────────
+
+  describe('seeding', () => {
+    /** Play level 3 with scripted lasers and summarise the run. */
+    function summarise(seed: number) {
+      const levelConfig = LEVELS[2];
+      const levelMap = getMapByLevel(levelConfig.level);
+      const run = new Simulation(levelConfig, levelMap, { seed });
+      playGreedyLasers(run, levelMap, 60 * 60 * 20);
+      return {
+        tick: run.getTick(),
+        lives: run.getLives(),
+        kills: run.getEnemiesKilled(),
+        credits: run.economy.getCredits(),
+      };
+    }
+
+    it('should expose the seed it was created with', () => {
+      expect(sim.getSeed()).toBe(1234);
+    });
+
+    it('should roll a seed when none is given', () => {
+      const unseeded = new Simulation(createTestLevel(), map);
+      expect(Number.isInteger(unseeded.getSeed())).toBe(true);
+    });
+
+    it('should reproduce a run exactly from the same seed', () => {
+      expect(summarise(77)).toEqual(summarise(77));
+    });
+
+    it('should vary spawn timing between seeds', () => {
+      expect(summarise(77).tick).not.toBe(summarise(78).tick);
+    });
+  });
+
+  describe('setTargeting', () => {
+    it('should change a projectile tower mode and report the action', () => {
+      const tower = sim.placeTower(2, 2, 'laser')!;
+      const listener = vi.fn();
+      sim.on('player-action', listener);
+
+      expect(sim.applyAction({ type: 'set-targeting', tileX: 2, tileY: 2, mode: 'weakest' })).toBe(true);
+      expect(tower.targetingMode).toBe('weakest');
+      expect(listener).toHaveBeenCalledWith({
+        tick: 0,
+        action: { type: 'set-targeting', tileX: 2, tileY: 2, mode: 'weakest' },
+      });
+    });
+
+    it('should refuse area towers and unchanged modes', () => {
+      const cryo = sim.placeTower(2, 2, 'cryo')!;
+      const laser = sim.placeTower(5, 2, 'laser')!;
+      expect(sim.setTargeting(cryo, 'last')).toBe(false);
+      expect(sim.setTargeting(laser, 'first')).toBe(false);
+    });
+  });
+
+  // ──────────────────────────────────────────────
+  // Mid-level save
+  // ──────────────────────────────────────────────
+
+  describe('serialize / restore', () => {
+    const levelConfig = LEVELS[2];
+    const levelMap = getMapByLevel(levelConfig.level);
+
+    /** Play a while, then stop at a step with no projectiles in flight (they are not saved). */
+    function playUntilSavePoint(run: Simulation): void {
+      playGreedyLasers(run, levelMap, 60 * 40);
+      while (run.getProjectiles().length > 0) run.step();
+    }
+
+    it('should restore a JSON round-tripped snapshot exactly', () => {
+      const original = new Simulation(levelConfig, levelMap, { seed: 5 });
+      playUntilSavePoint(original);
+      const snapshot = JSON.parse(JSON.stringify(original.serialize()));
+      expect(snapshot.towers.length).toBeGreaterThan(0);
+      expect(snapshot.spawner.enemies.length).toBeGreaterThan(0);
+
+      const restored = new Simulation(levelConfig, levelMap, { seed: 5 });
+      restored.restore(snapshot);
+      expect(restored.serialize()).toEqual(snapshot);
+    });
+
+    it('should continue a restored run exactly like the original', () => {
+      const original = new Simulation(levelConfig, levelMap, { seed: 5 });
+      playUntilSavePoint(original);
+      const restored = new Simulation(levelConfig, levelMap, { seed: 5 });
+      restored.restore(JSON.parse(JSON.stringify(original.serialize())));
+
+      playGreedyLasers(original, levelMap, 60 * 60 * 20);
+      playGreedyLasers(restored, levelMap, 60 * 60 * 20);
+      expect(restored.getOutcome()).not.toBe('running');
+      expect(restored.serialize()).toEqual(original.serialize());
+    });
+
+    it('should announce restored enemies and towers', () => {
+      const original = new Simulation(levelConfig, levelMap, { seed: 5 });
+      playUntilSavePoint(original);
+      const snapshot = original.serialize();
+
+      const restored = new Simulation(levelConfig, levelMap, { seed: 5 });
+      const spawned = vi.fn();
+      const placed = vi.fn();
+      restored.spawner.on('enemy-spawned', spawned);
+      restored.towerManager.events.on('tower-placed', placed);
+      restored.restore(snapshot);
+
+      expect(spawned).toHaveBeenCalledTimes(snapshot.spawner.enemies.length);
+      expect(placed).toHaveBeenCalledTimes(snapshot.towers.length);
+    });
+
+    it('should reject a snapshot from another seed', () => {
+      const other = new Simulation(createTestLevel(), map, { seed: 99 });
+      expect(() => sim.restore(other.serialize())).toThrow(/seed 99/);
+    });
+
+    it('should reject a restore once the run has started', () => {
+      const snapshot = sim.serialize();
+      sim.step();
+      expect(() => sim.restore(snapshot)).toThrow(/already started/);
+    });
+  });
+
+  // ──────────────────────────────────────────────
+  // Full levels
+  // ──────────────────────────────────────────────
+
+  describe('full level runs', () => {
+    it.each(LEVELS.map((l) => [l.level, l] as const))(
+      'level %i should be lost with no defences',
+      (_level, levelConfig) => {
+        const levelSim = new Simulation(levelConfig, getMapByLevel(levelConfig.level), { seed: 1 });
+        expect(levelSim.runToCompletion(60 * 60 * 20)).toBe('lost');
+      },
+    );
+
+    it.each(LEVELS.map((l) => [l.level, l] as const))(
+      'level %i should be winnable by filling slots with lasers',
+      (_level, levelConfig) => {
+        const levelMap = getMapByLevel(levelConfig.level);
+        const levelSim = new Simulation(levelConfig, levelMap, { seed: 1 });
+        playGreedyLasers(levelSim, levelMap, 60 * 60 * 20);
+        expect(levelSim.getOutcome()).toBe('won');
+        expect(levelSim.getLives()).toBeGreaterThan(0);
+      },
+    );
+  });
+});
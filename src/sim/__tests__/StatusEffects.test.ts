@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { StatusEffects } from '../StatusEffects';
+
+/**
+ * Test suite for status effect stacking, timing and combined results.
+ */
+
+describe('StatusEffects', () => {
+  // ──────────────────────────────────────────────
+  // Stacking rules
+  // ──────────────────────────────────────────────
+
+  describe('stacking', () => {
+    it('should keep the stronger slow and the longer duration', () => {
+      const effects = new StatusEffects();
+      effects.apply({ kind: 'slow', magnitude: 0.5, duration: 1 });
+      effects.apply({ kind: 'slow', magnitude: 0.3, duration: 3 });
+      expect(effects.speedMultiplier).toBe(0.5);
+      expect(effects.getActive()).toEqual([
+        { kind: 'slow', magnitude: 0.5, remaining: 3, stacks: 1, maxStacks: 5, source: undefined },
+      ]);
+    });
+
+    it('should add poison stacks up to the cap and restart the timer', () => {
+      const effects = new StatusEffects();
+      for (let i = 0; i < 4; i++) {
+        effects.apply({ kind: 'poison', magnitude: 2, duration: 3, maxStacks: 3 });
+        effects.update(1);
+      }
+      const [poison] = effects.getActive();
+      expect(poison.stacks).toBe(3);
+      expect(poison.remaining).toBe(2);
+    });
+
+    it('should ignore effects without a duration', () => {
+      const effects = new StatusEffects();
+      effects.apply({ kind: 'stun', magnitude: 0, duration: 0 });
+      expect(effects.getActive()).toHaveLength(0);
+    });
+  });
+
+  // ──────────────────────────────────────────────
+  // Results
+  // ──────────────────────────────────────────────
+
+  describe('results', () => {
+    it('should deal burn and poison damage over time', () => {
+      const effects = new StatusEffects();
+      effects.apply({ kind: 'burn', magnitude: 10, duration: 2 });
+      effects.apply({ kind: 'poison', magnitude: 3, duration: 2 });
+      effects.apply({ kind: 'poison', magnitude: 3, duration: 2 });
+      const ticks = effects.update(0.5);
+      expect(ticks.map((t) => t.damage)).toEqual([5, 3]);
+    });
+
+    it('should stop dealing damage when the effect runs out mid-step', () => {
+      const effects = new StatusEffects();
+      effects.apply({ kind: 'burn', magnitude: 10, duration: 0.25 });
+      expect(effects.update(1)[0].damage).toBe(2.5);
+      expect(effects.getActive()).toHaveLength(0);
+      expect(effects.update(1)).toEqual([]);
+    });
+
+    it('should stop the enemy while stunned', () => {
+      const effects = new StatusEffects();
+      effects.apply({ kind: 'slow', magnitude: 0.5, duration: 5 });
+      effects.apply({ kind: 'stun', magnitude: 0, duration: 1 });
+      expect(effects.speedMultiplier).toBe(0);
+      effects.update(1);
+      expect(effects.speedMultiplier).toBe(0.5);
+    });
+
+    it('should shred armor per stack', () => {
+      const effects = new StatusEffects();
+      effects.apply({ kind: 'armor-shred', magnitude: 2, duration: 4 });
+      effects.apply({ kind: 'armor-shred', magnitude: 2, duration: 4 });
+      expect(effects.armorShred).toBe(4);
+    });
+  });
+
+  // ──────────────────────────────────────────────
+  // Save / restore
+  // ──────────────────────────────────────────────
+
+  it('should round-trip through serialize and deserialize', () => {
+    const effects = new StatusEffects();
+    effects.apply({ kind: 'slow', magnitude: 0.4, duration: 2 });
+    effects.apply({ kind: 'poison', magnitude: 1, duration: 3 });
+    effects.apply({ kind: 'poison', magnitude: 1, duration: 3 });
+
+    const restored = StatusEffects.deserialize(effects.serialize());
+    expect(restored.serialize()).toEqual(effects.serialize());
+    expect(restored.speedMultiplier).toBe(effects.speedMultiplier);
+  });
+});
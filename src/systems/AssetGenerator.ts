@@ -313,6 +313,119 @@ export class AssetGenerator {
       g.generateTexture('tower-pulse', SIZE, SIZE);
       g.destroy();
     }
+
+    // ---- tower-sensor: Cyan dish with scan rings ----
+    {
+      const g = scene.make.graphics({} as any);
+      const cx = SIZE / 2;
+      const cy = SIZE / 2;
+
+      // Outer glow
+      g.fillStyle(0x66ddff, 0.12);
+      g.fillCircle(cx, cy, 19);
+
+      // Square base
+      g.fillStyle(0x1d5566, 1);
+      g.fillRect(cx - 14, cy - 14, 28, 28);
+      g.lineStyle(2, 0x66ddff, 0.9);
+      g.strokeRect(cx - 14, cy - 14, 28, 28);
+
+      // Scan rings
+      g.lineStyle(1, 0x88eeff, 0.6);
+      g.strokeCircle(cx, cy, 10);
+      g.lineStyle(1, 0x88eeff, 0.35);
+      g.strokeCircle(cx, cy, 6);
+
+      // Sweep line
+      g.lineStyle(2, 0xaaf4ff, 0.9);
+      g.beginPath();
+      g.moveTo(cx, cy);
+      g.lineTo(cx + 9, cy - 9);
+      g.strokePath();
+
+      // Center emitter
+      g.fillStyle(0xccf8ff, 0.9);
+      g.fillCircle(cx, cy, 3);
+
+      g.generateTexture('tower-sensor', SIZE, SIZE);
+      g.destroy();
+    }
+
+    // ---- tower-amplifier: Orange octagon with a glowing core ----
+    {
+      const g = scene.make.graphics({} as any);
+      const cx = SIZE / 2;
+      const cy = SIZE / 2;
+
+      // Outer glow
+      g.fillStyle(0xffaa33, 0.12);
+      g.fillCircle(cx, cy, 19);
+
+      // Octagon body
+      const points: Phaser.Math.Vector2[] = [];
+      for (let i = 0; i < 8; i++) {
+        const angle = (Math.PI / 4) * i + Math.PI / 8;
+        points.push(new Phaser.Math.Vector2(cx + 16 * Math.cos(angle), cy + 16 * Math.sin(angle)));
+      }
+      g.fillStyle(0x664411, 1);
+      g.fillPoints(points, true);
+      g.lineStyle(2, 0xffaa33, 0.9);
+      g.strokePoints(points, true);
+
+      // Boost chevrons
+      g.lineStyle(2, 0xffcc66, 0.8);
+      for (const dy of [-3, 3]) {
+        g.beginPath();
+        g.moveTo(cx - 7, cy + dy + 3);
+        g.lineTo(cx, cy + dy - 4);
+        g.lineTo(cx + 7, cy + dy + 3);
+        g.strokePath();
+      }
+
+      // Core
+      g.fillStyle(0xffdd99, 0.9);
+      g.fillCircle(cx, cy - 10, 2);
+
+      g.generateTexture('tower-amplifier', SIZE, SIZE);
+      g.destroy();
+    }
+
+    // ---- tower-relay: Yellow mast with signal arcs ----
+    {
+      const g = scene.make.graphics({} as any);
+      const cx = SIZE / 2;
+      const cy = SIZE / 2;
+
+      // Base plate
+      g.fillStyle(0x554411, 1);
+      g.fillCircle(cx, cy, 16);
+      g.lineStyle(2, 0xffdd66, 0.9);
+      g.strokeCircle(cx, cy, 16);
+
+      // Mast
+      g.lineStyle(3, 0xffdd66, 1);
+      g.beginPath();
+      g.moveTo(cx, cy + 10);
+      g.lineTo(cx, cy - 6);
+      g.strokePath();
+
+      // Signal arcs
+      g.lineStyle(2, 0xffee99, 0.7);
+      g.beginPath();
+      g.arc(cx, cy - 6, 6, Math.PI * 1.15, Math.PI * 1.85);
+      g.strokePath();
+      g.lineStyle(1, 0xffee99, 0.5);
+      g.beginPath();
+      g.arc(cx, cy - 6, 10, Math.PI * 1.15, Math.PI * 1.85);
+      g.strokePath();
+
+      // Beacon
+      g.fillStyle(0xffffcc, 0.9);
+      g.fillCircle(cx, cy - 6, 2);
+
+      g.generateTexture('tower-relay', SIZE, SIZE);
+      g.destroy();
+    }
   }
 
   // -------------------------------------------------------------------
@@ -489,10 +602,80 @@ export class AssetGenerator {
       g.generateTexture('icon-tower-pulse', SIZE, SIZE);
       g.destroy();
     }
+
+    // ---- icon-tower-sensor: simplified cyan dish ----
+    {
+      const g = scene.make.graphics({} as any);
+      const cx = SIZE / 2;
+      const cy = SIZE / 2;
+
+      g.fillStyle(0x1d5566, 1);
+      g.fillRect(cx - 12, cy - 12, 24, 24);
+
+      g.lineStyle(1, 0x66ddff, 0.9);
+      g.strokeRect(cx - 12, cy - 12, 24, 24);
+
+      g.lineStyle(1, 0x88eeff, 0.6);
+      g.strokeCircle(cx, cy, 8);
+
+      g.fillStyle(0xccf8ff, 0.8);
+      g.fillCircle(cx, cy, 3);
+
+      g.generateTexture('icon-tower-sensor', SIZE, SIZE);
+      g.destroy();
+    }
+
+    // ---- icon-tower-amplifier: simplified orange disc with chevron ----
+    {
+      const g = scene.make.graphics({} as any);
+      const cx = SIZE / 2;
+      const cy = SIZE / 2;
+
+      g.fillStyle(0x664411, 1);
+      g.fillCircle(cx, cy, 13);
+
+      g.lineStyle(1, 0xffaa33, 0.9);
+      g.strokeCircle(cx, cy, 13);
+
+      g.lineStyle(2, 0xffcc66, 0.8);
+      g.beginPath();
+      g.moveTo(cx - 6, cy + 4);
+      g.lineTo(cx, cy - 3);
+      g.lineTo(cx + 6, cy + 4);
+      g.strokePath();
+
+      g.generateTexture('icon-tower-amplifier', SIZE, SIZE);
+      g.destroy();
+    }
+
+    // ---- icon-tower-relay: simplified yellow mast ----
+    {
+      const g = scene.make.graphics({} as any);
+      const cx = SIZE / 2;
+      const cy = SIZE / 2;
+
+      g.fillStyle(0x554411, 1);
+      g.fillCircle(cx, cy, 13);
+
+      g.lineStyle(1, 0xffdd66, 0.9);
+      g.strokeCircle(cx, cy, 13);
+
+      g.lineStyle(2, 0xffdd66, 1);
+      g.beginPath();
+      g.moveTo(cx, cy + 8);
+      g.lineTo(cx, cy - 5);
+      g.strokePath();
+
+      g.fillStyle(0xffffcc, 0.9);
+      g.fillCircle(cx, cy - 5, 2);
+
+      g.generateTexture('icon-tower-relay', SIZE, SIZE);
+      g.destroy();
+    }
   }
 
   // -------------------------------------------------------------------
-  //  Enemy textures (24x24)
+  //  Enemy textures (24x24, bosses 48x48)
   // -------------------------------------------------------------------
 
   private static generateEnemyTextures(scene: Phaser.Scene): void {
@@ -728,6 +911,151 @@ export class AssetGenerator {
       g.generateTexture('enemy-mini-drone', SIZE, SIZE);
       g.destroy();
     }
+
+    // ---- enemy-mender: Teal orb with a medical cross ----
+    {
+      const g = scene.make.graphics({} as any);
+      const cx = SIZE / 2;
+      const cy = SIZE / 2;
+
+      // Soft healing aura
+      g.fillStyle(0x44ffaa, 0.15);
+      g.fillCircle(cx, cy, 11);
+
+      g.fillStyle(0x22aa77, 1);
+      g.fillCircle(cx, cy, 8);
+      g.lineStyle(1, 0x88ffcc, 0.9);
+      g.strokeCircle(cx, cy, 8);
+
+      // Cross
+      g.fillStyle(0xeeffee, 0.95);
+      g.fillRect(cx - 1.5, cy - 5, 3, 10);
+      g.fillRect(cx - 5, cy - 1.5, 10, 3);
+
+      g.generateTexture('enemy-mender', SIZE, SIZE);
+      g.destroy();
+    }
+
+    // ---- enemy-phantom: Pale lavender wisp with hollow eyes ----
+    {
+      const g = scene.make.graphics({} as any);
+      const cx = SIZE / 2;
+      const cy = SIZE / 2;
+
+      // Wavy ghost body: round top, ragged hem
+      g.fillStyle(0x9999cc, 0.85);
+      g.fillCircle(cx, cy - 2, 7);
+      g.fillRect(cx - 7, cy - 2, 14, 7);
+      for (const dx of [-5, 0, 5]) {
+        g.fillTriangle(cx + dx - 2.5, cy + 5, cx + dx + 2.5, cy + 5, cx + dx, cy + 9);
+      }
+
+      g.lineStyle(1, 0xddddff, 0.6);
+      g.strokeCircle(cx, cy - 2, 7);
+
+      // Eyes
+      g.fillStyle(0x222244, 1);
+      g.fillCircle(cx - 3, cy - 3, 1.5);
+      g.fillCircle(cx + 3, cy - 3, 1.5);
+
+      g.generateTexture('enemy-phantom', SIZE, SIZE);
+      g.destroy();
+    }
+
+    // ---- enemy-skyray: Orange manta with swept wings ----
+    {
+      const g = scene.make.graphics({} as any);
+      const cx = SIZE / 2;
+      const cy = SIZE / 2;
+
+      g.fillStyle(0xcc7722, 1);
+      g.beginPath();
+      g.moveTo(cx, cy - 7);
+      g.lineTo(cx + 10, cy + 4);
+      g.lineTo(cx + 3, cy + 2);
+      g.lineTo(cx, cy + 8);
+      g.lineTo(cx - 3, cy + 2);
+      g.lineTo(cx - 10, cy + 4);
+      g.closePath();
+      g.fillPath();
+
+      g.lineStyle(1, 0xffcc88, 0.9);
+      g.beginPath();
+      g.moveTo(cx, cy - 7);
+      g.lineTo(cx + 10, cy + 4);
+      g.lineTo(cx + 3, cy + 2);
+      g.lineTo(cx, cy + 8);
+      g.lineTo(cx - 3, cy + 2);
+      g.lineTo(cx - 10, cy + 4);
+      g.closePath();
+      g.strokePath();
+
+      // Glowing spine
+      g.fillStyle(0xffee99, 0.8);
+      g.fillCircle(cx, cy - 1, 2);
+
+      g.generateTexture('enemy-skyray', SIZE, SIZE);
+      g.destroy();
+    }
+
+    // ---- enemy-burrower: Brown segmented digger with drill teeth ----
+    {
+      const g = scene.make.graphics({} as any);
+      const cx = SIZE / 2;
+      const cy = SIZE / 2;
+
+      // Body segments, tail to head
+      g.fillStyle(0x775533, 1);
+      g.fillCircle(cx - 5, cy, 5);
+      g.fillStyle(0x886644, 1);
+      g.fillCircle(cx, cy, 6);
+      g.fillStyle(0xaa7744, 1);
+      g.fillCircle(cx + 5, cy, 6);
+
+      g.lineStyle(1, 0xddaa77, 0.7);
+      g.strokeCircle(cx + 5, cy, 6);
+
+      // Drill teeth
+      g.fillStyle(0xdddddd, 0.9);
+      g.fillTriangle(cx + 9, cy - 4, cx + 12, cy - 2, cx + 9, cy);
+      g.fillTriangle(cx + 9, cy, cx + 12, cy + 2, cx + 9, cy + 4);
+
+      g.generateTexture('enemy-burrower', SIZE, SIZE);
+      g.destroy();
+    }
+
+    // ---- enemy-mothership: Crimson saucer with a glowing dome (48x48 boss) ----
+    {
+      const BOSS_SIZE = SIZE * 2;
+      const g = scene.make.graphics({} as any);
+      const cx = BOSS_SIZE / 2;
+      const cy = BOSS_SIZE / 2;
+
+      // Soft glow behind the hull
+      g.fillStyle(0xff2266, 0.12);
+      g.fillCircle(cx, cy, 23);
+
+      // Saucer hull
+      g.fillStyle(0x991133, 1);
+      g.fillEllipse(cx, cy + 4, 44, 20);
+      g.lineStyle(1, 0xff6688, 0.9);
+      g.strokeEllipse(cx, cy + 4, 44, 20);
+
+      // Dome
+      g.fillStyle(0xff2266, 1);
+      g.fillEllipse(cx, cy - 3, 20, 16);
+      g.fillStyle(0xffaacc, 0.6);
+      g.fillCircle(cx - 3, cy - 6, 3);
+
+      // Running lights along the rim
+      g.fillStyle(0xffee88, 0.9);
+      for (const dx of [-15, -8, 0, 8, 15]) {
+        g.fillCircle(cx + dx, cy + 8, 1.5);
+      }
+
+      g.generateTexture('enemy-mothership', BOSS_SIZE, BOSS_SIZE);
+      g.destroy();
+    }
   }
 
   // -------------------------------------------------------------------
@@ -6,8 +6,8 @@ import Phaser from 'phaser';
  * Features:
  *   - Two-layer parallax starfield (slow + fast layer)
  *   - Occasional horizontal "scan line" sweeping down the screen
- *   - Pulsing ambient glow around the spawn point (green)
- *   - Pulsing ambient glow around the base (red)
+ *   - Pulsing ambient glow around each spawn point (green)
+ *   - Pulsing ambient glow around each base (red)
  *
  * All elements are rendered at depth -10 or below so they sit behind everything.
  * The renderer needs an update() call each frame to animate the stars and scan line.
@@ -32,8 +32,7 @@ export class BackgroundRenderer {
   private scanLineCooldown: number = 0; // seconds until next scan line
 
   // ---- Ambient glows ----
-  private spawnGlow: Phaser.GameObjects.Arc | null = null;
-  private baseGlow: Phaser.GameObjects.Arc | null = null;
+  private glows: Phaser.GameObjects.Arc[] = [];
 
   constructor(scene: Phaser.Scene) {
     this.scene = scene;
@@ -69,41 +68,21 @@ export class BackgroundRenderer {
   }
 
   /**
-   * Add pulsing glow indicators at the spawn and base positions.
+   * Add pulsing glow indicators at every spawn and base position.
    *
-   * @param spawnX  World X of the spawn tile centre
-   * @param spawnY  World Y of the spawn tile centre
-   * @param baseX   World X of the base tile centre
-   * @param baseY   World Y of the base tile centre
+   * @param spawns  World positions of the spawn tile centres
+   * @param bases   World positions of the base tile centres
    */
-  createAmbientGlows(spawnX: number, spawnY: number, baseX: number, baseY: number): void {
-    // Spawn glow -- pulsing green
-    this.spawnGlow = this.scene.add.arc(spawnX, spawnY, 28, 0, 360, false, 0x44ff44, 0.12);
-    this.spawnGlow.setDepth(-9);
-
-    this.scene.tweens.add({
-      targets: this.spawnGlow,
-      alpha: 0.25,
-      radius: 36,
-      duration: 1200,
-      ease: 'Sine.easeInOut',
-      yoyo: true,
-      repeat: -1,
-    });
-
-    // Base glow -- pulsing red
-    this.baseGlow = this.scene.add.arc(baseX, baseY, 28, 0, 360, false, 0xff4444, 0.12);
-    this.baseGlow.setDepth(-9);
+  createAmbientGlows(spawns: { x: number; y: number }[], bases: { x: number; y: number }[]): void {
+    // Spawn glows -- pulsing green
+    for (const spawn of spawns) {
+      this.addGlow(spawn.x, spawn.y, 0x44ff44);
+    }
 
-    this.scene.tweens.add({
-      targets: this.baseGlow,
-      alpha: 0.25,
-      radius: 36,
-      duration: 1200,
-      ease: 'Sine.easeInOut',
-      yoyo: true,
-      repeat: -1,
-    });
+    // Base glows -- pulsing red
+    for (const base of bases) {
+      this.addGlow(base.x, base.y, 0xff4444);
+    }
   }
 
   /**
@@ -148,16 +127,33 @@ export class BackgroundRenderer {
     this.starLayers = [[], []];
     this.scanLine?.destroy();
     this.scanLine = null;
-    this.spawnGlow?.destroy();
-    this.spawnGlow = null;
-    this.baseGlow?.destroy();
-    this.baseGlow = null;
+    for (const glow of this.glows) {
+      glow.destroy();
+    }
+    this.glows = [];
   }
 
   // -------------------------------------------------------------------
   //  Internals
   // -------------------------------------------------------------------
 
+  /** One pulsing ambient glow. */
+  private addGlow(x: number, y: number, color: number): void {
+    const glow = this.scene.add.arc(x, y, 28, 0, 360, false, color, 0.12);
+    glow.setDepth(-9);
+    this.glows.push(glow);
+
+    this.scene.tweens.add({
+      targets: glow,
+      alpha: 0.25,
+      radius: 36,
+      duration: 1200,
+      ease: 'Sine.easeInOut',
+      yoyo: true,
+      repeat: -1,
+    });
+  }
+
   private updateScanLine(delta: number): void {
     const dtSec = delta / 1000;
 
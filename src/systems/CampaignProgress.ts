@@ -0,0 +1,130 @@
+import { LEVELS } from '../config/levels';
+import type { LevelStats } from '../ui/HUD';
+
+/** Best result recorded for one campaign level. */
+export interface LevelRecord {
+  stars: number; // 1-3
+  bestLives: number;
+}
+
+/** Result of recording a completed level. */
+export interface CompletionResult {
+  stars: number; // stars earned by this run
+  newBest: boolean; // true if the run beat the stored stars or lives
+}
+
+/** Bumped whenever the stored progress layout changes incompatibly. */
+const PROGRESS_VERSION = 1;
+
+/**
+ * CampaignProgress -- remembers which built-in levels the player has
+ * cleared, with the best star rating and lives left for each, in browser
+ * storage. A level is unlocked once the level before it has been cleared;
+ * the first level is always unlocked.
+ *
+ * Stars are awarded from the lives kept:
+ *   3 -- no lives lost
+ *   2 -- at least half of the lives kept
+ *   1 -- level cleared
+ *
+ * Level pack and editor levels are not part of the campaign.
+ */
+export class CampaignProgress {
+  /** Storage key holding the JSON progress record. */
+  static readonly STORAGE_KEY = 'earth-defense.progress';
+
+  private storage: Storage;
+  private levels: Record<number, LevelRecord>;
+
+  constructor(storage: Storage = window.localStorage) {
+    this.storage = storage;
+    this.levels = this.read();
+  }
+
+  /** Star rating (1-3) for a completed level. */
+  static calculateStars(stats: LevelStats): number {
+    const { livesRemaining, livesMax } = stats;
+    if (livesRemaining === undefined || livesMax === undefined || livesMax <= 0) return 1;
+    if (livesRemaining >= livesMax) return 3;
+    if (livesRemaining * 2 >= livesMax) return 2;
+    return 1;
+  }
+
+  /**
+   * Record a cleared level. Stored stars and lives only ever improve.
+   * `stats.level` must be set.
+   */
+  recordCompletion(stats: LevelStats): CompletionResult {
+    if (stats.level === undefined) {
+      throw new Error('CampaignProgress: cannot record a completion without a level number');
+    }
+    const stars = CampaignProgress.calculateStars(stats);
+    const lives = stats.livesRemaining ?? 0;
+    const previous = this.levels[stats.level];
+
+    const newBest = !previous || stars > previous.stars || lives > previous.bestLives;
+    if (newBest) {
+      this.levels[stats.level] = {
+        stars: Math.max(stars, previous?.stars ?? 0),
+        bestLives: Math.max(lives, previous?.bestLives ?? 0),
+      };
+      this.write();
+    }
+    return { stars, newBest };
+  }
+
+  /** Best record for a level, or undefined if it has not been cleared. */
+  getRecord(level: number): LevelRecord | undefined {
+    return this.levels[level];
+  }
+
+  isCompleted(level: number): boolean {
+    return this.levels[level] !== undefined;
+  }
+
+  /** True for the first campaign level and any level whose predecessor is cleared. */
+  isUnlocked(level: number): boolean {
+    const index = LEVELS.findIndex((l) => l.level === level);
+    if (index <= 0) return index === 0;
+    return this.isCompleted(LEVELS[index - 1].level);
+  }
+
+  /** Total stars earned across the campaign. */
+  getTotalStars(): number {
+    return Object.values(this.levels).reduce((sum, record) => sum + record.stars, 0);
+  }
+
+  /** Forget all progress. */
+  reset(): void {
+    this.levels = {};
+    this.storage.removeItem(CampaignProgress.STORAGE_KEY);
+  }
+
+  private read(): Record<number, LevelRecord> {
+    const stored = this.storage.getItem(CampaignProgress.STORAGE_KEY);
+    if (!stored) return {};
+    try {
+      const data = JSON.parse(stored);
+      if (data?.version !== PROGRESS_VERSION || typeof data.levels !== 'object' || data.levels === null) return {};
+
+      const levels: Record<number, LevelRecord> = {};
+      for (const [key, record] of Object.entries(data.levels as Record<string, Partial<LevelRecord>>)) {
+        const level = Number(key);
+        if (!Number.isInteger(level) || typeof record?.stars !== 'number' || typeof record.bestLives !== 'number') {
+          continue;
+        }
+        levels[level] = { stars: Math.min(3, Math.max(1, record.stars)), bestLives: record.bestLives };
+      }
+      return levels;
+    } catch {
+      return {};
+    }
+  }
+
+  private write(): void {
+    this.storage.setItem(
+      CampaignProgress.STORAGE_KEY,
+      JSON.stringify({ version: PROGRESS_VERSION, levels: this.levels }),
+    );
+  }
+}
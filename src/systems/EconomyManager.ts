@@ -1,12 +1,19 @@
-import Phaser from 'phaser';
 import { TOWERS, TowerConfig } from '../config/towers';
 import { LevelConfig } from '../config/levels';
+import { Emitter } from '../sim/Emitter';
 
 export interface EconomyStats {
   totalEarned: number;
   totalSpent: number;
   totalFromKills: number;
   totalFromPassive: number;
+  totalFromBonus: number;
+}
+
+/** Serializable economy state (see `EconomyManager.serialize()`). */
+export interface EconomyState extends EconomyStats {
+  credits: number;
+  fractionalAccumulator: number;
 }
 
 /**
@@ -24,7 +31,7 @@ export interface EconomyStats {
  *   (rate * delta/1000) into a fractional accumulator. Only whole credits
  *   are transferred to the balance, keeping sub-credit precision intact.
  */
-export class EconomyManager extends Phaser.Events.EventEmitter {
+export class EconomyManager extends Emitter {
   private credits: number;
   private passiveIncomeRate: number;
   private fractionalAccumulator: number = 0;
@@ -34,6 +41,7 @@ export class EconomyManager extends Phaser.Events.EventEmitter {
   private totalSpent: number = 0;
   private totalFromKills: number = 0;
   private totalFromPassive: number = 0;
+  private totalFromBonus: number = 0;
 
   constructor(levelConfig: LevelConfig) {
     super();
@@ -61,6 +69,18 @@ export class EconomyManager extends Phaser.Events.EventEmitter {
     this.emit('credits-changed', this.credits);
   }
 
+  /**
+   * Adds a bonus payout (e.g. for calling a wave early). Tracked separately
+   * from kill rewards in the stats.
+   */
+  addBonus(amount: number): void {
+    if (amount <= 0) return;
+    this.credits += amount;
+    this.totalEarned += amount;
+    this.totalFromBonus += amount;
+    this.emit('credits-changed', this.credits);
+  }
+
   /**
    * Deducts credits from the player's balance.
    * Returns false if the player has insufficient credits (balance unchanged).
@@ -83,15 +103,17 @@ export class EconomyManager extends Phaser.Events.EventEmitter {
 
   /**
    * Applies passive income based on elapsed time.
-   * Call this from the scene's update loop, passing the Phaser delta (ms).
+   * Called once per simulation step with the step duration (ms) and the
+   * extra credits per second from relay towers.
    *
    * Fractional credits are accumulated internally; only whole credits
    * are added to the balance to avoid floating-point display issues.
    */
-  update(delta: number): void {
-    if (this.passiveIncomeRate <= 0) return;
+  update(delta: number, bonusRate: number = 0): void {
+    const rate = this.passiveIncomeRate + bonusRate;
+    if (rate <= 0) return;
 
-    this.fractionalAccumulator += this.passiveIncomeRate * (delta / 1000);
+    this.fractionalAccumulator += rate * (delta / 1000);
 
     if (this.fractionalAccumulator >= 1) {
       const wholeCredits = Math.floor(this.fractionalAccumulator);
@@ -183,6 +205,31 @@ export class EconomyManager extends Phaser.Events.EventEmitter {
     return refund;
   }
 
+  /**
+   * Capture the balance, the passive income carry-over and the stats.
+   */
+  serialize(): EconomyState {
+    return {
+      ...this.getStats(),
+      credits: this.credits,
+      fractionalAccumulator: this.fractionalAccumulator,
+    };
+  }
+
+  /**
+   * Replace the current state with a saved one and announce the balance.
+   */
+  restore(state: EconomyState): void {
+    this.credits = state.credits;
+    this.fractionalAccumulator = state.fractionalAccumulator;
+    this.totalEarned = state.totalEarned;
+    this.totalSpent = state.totalSpent;
+    this.totalFromKills = state.totalFromKills;
+    this.totalFromPassive = state.totalFromPassive;
+    this.totalFromBonus = state.totalFromBonus;
+    this.emit('credits-changed', this.credits);
+  }
+
   /**
    * Returns aggregate statistics for the current level session.
    * Useful for end-of-level summary screens.
@@ -193,6 +240,7 @@ export class EconomyManager extends Phaser.Events.EventEmitter {
       totalSpent: this.totalSpent,
       totalFromKills: this.totalFromKills,
       totalFromPassive: this.totalFromPassive,
+      totalFromBonus: this.totalFromBonus,
     };
   }
 }
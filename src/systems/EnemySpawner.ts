@@ -1,28 +1,107 @@
-import Phaser from 'phaser';
-import { LevelConfig, WaveSegment } from '../config/levels';
-import { Enemy } from '../entities/Enemy';
-import { Waypoint } from './PathFollower';
+import { LevelConfig, WaveConfig, WaveSegment, DEFAULT_BOSS_DELAY, DEFAULT_BUILD_TIME } from '../config/levels';
+import { Emitter } from '../sim/Emitter';
+import { SeededRandom } from '../sim/Random';
+import { SimEnemy, SimEnemyState } from '../sim/SimEnemy';
+import type { PathGraph } from '../config/maps';
+import { PathFollower, Waypoint } from './PathFollower';
+
+/**
+ * Spawn progress of a segment that runs on its own timer: every segment of
+ * a wave, and trickle segments with a `startOffset`.
+ */
+interface SegmentRun {
+  segment: WaveSegment;
+  spawned: number;
+  /** Seconds accumulated towards the next spawn. */
+  timer: number;
+  /** Jittered delay before the next spawn (the start offset for the first). */
+  nextDelay: number;
+}
+
+/** Saved progress of a `SegmentRun`; the segment itself comes from the level. */
+export interface SegmentRunState {
+  spawned: number;
+  timer: number;
+  nextDelay: number;
+}
+
+/** Serializable spawner state (see `EnemySpawner.serialize()`). */
+export interface EnemySpawnerState {
+  currentSegmentIndex: number;
+  spawnedInSegment: number;
+  spawnTimer: number;
+  nextSpawnDelay: number;
+  firstSpawnDone: boolean;
+  chainExhausted: boolean;
+  concurrentRuns: SegmentRunState[];
+  waveIndex: number;
+  inBuildPhase: boolean;
+  buildTimer: number;
+  waveRuns: SegmentRunState[];
+  allSegmentsExhausted: boolean;
+  bossTimer?: number;
+  bossSpawned?: boolean;
+  enemiesReachedBase: number;
+  enemies: SimEnemyState[];
+}
 
 /**
  * EnemySpawner manages the continuous trickle of enemies for a single level.
  *
  * It processes the level's `segments` array in order. For each segment it
- * spawns `count` enemies of `enemyKey` type at `spawnInterval` seconds apart.
- * When a segment is exhausted the next one begins immediately.
+ * spawns `count` enemies at `spawnInterval` seconds apart. When a segment is
+ * exhausted the next one begins immediately. Segments with a `startOffset`
+ * are taken out of that sequence and run concurrently, starting the given
+ * number of seconds into the level.
+ *
+ * Each spawn uses the segment's `enemyKey`, or a weighted pick from its
+ * `mix`. A segment's `hpScale` replaces the level's, and `speedScale`
+ * multiplies the enemy's base speed.
  *
- * The spawner also listens for split events (Swarm Cluster) and creates
- * mini-drones at the parent's death position continuing along the remaining
- * path.
+ * Enemies start on the segment's named `path`, or on a random entry path
+ * of the map when none is given. Each enemy's full route (including the
+ * branch taken at every fork) is resolved when it spawns.
+ *
+ * Wave mode: when the level defines `waves`, `segments` is ignored. Each
+ * wave is preceded by a build phase (`buildTime`, default
+ * DEFAULT_BUILD_TIME seconds) that can be cut short with `callNextWave()`.
+ * All segments of a wave spawn in parallel (each delayed by its
+ * `startOffset` from the wave start); the wave ends once they are
+ * exhausted and the field is clear, which starts the next build phase.
+ *
+ * A level `boss` spawns `delay` seconds (default DEFAULT_BOSS_DELAY) after
+ * the last segment is exhausted -- in wave mode, the final wave's -- and
+ * the level (or final wave) is not over until it has spawned.
+ *
+ * The spawner also listens for split events (Swarm Cluster deaths and boss
+ * minion phases) and creates the children at the parent's position
+ * continuing along the remaining path, and for heal pulses (Mender), which
+ * heal every other enemy within the pulse radius.
+ *
+ * The spawner is part of the headless simulation: it creates `SimEnemy`
+ * models and announces them with 'enemy-spawned' so a renderer can attach
+ * views. All randomness (spawn jitter, split offsets) is drawn from the
+ * `SeededRandom` it is given, so a seed reproduces the same spawn pattern.
+ *
+ * Events emitted:
+ *   'enemy-spawned'              { enemy: SimEnemy }
+ *   'enemy-killed'               { reward: number, enemy: SimEnemy }
+ *   'enemy-reached-base'         { enemy: SimEnemy }
+ *   'enemies-spawned-from-split' { count: number }
+ *   'enemies-healed'             { x, y, radius, healed: SimEnemy[] }
+ *   'build-phase-started'        { wave: number, duration: number } (wave mode; upcoming 1-based wave)
+ *   'wave-started'               { wave: number, name: string, early: boolean } (wave mode)
  */
-export class EnemySpawner extends Phaser.Events.EventEmitter {
-  private scene: Phaser.Scene;
-  private waypoints: Waypoint[];
+export class EnemySpawner extends Emitter {
+  private pathGraph: PathGraph;
   private levelConfig: LevelConfig;
+  private rng: SeededRandom;
 
-  /** All enemies managed by this spawner, including dead/removed ones still in the group. */
-  private enemyGroup: Phaser.GameObjects.Group;
+  /** Enemies still on the field. Dead or finished enemies are pruned each update. */
+  private enemies: SimEnemy[] = [];
 
   // ---- Segment tracking ----
+  /** Sequential trickle segments (those without a startOffset). */
   private segments: WaveSegment[];
   private currentSegmentIndex: number = 0;
   private spawnedInSegment: number = 0;
@@ -34,21 +113,65 @@ export class EnemySpawner extends Phaser.Events.EventEmitter {
   private nextSpawnDelay: number = 0;
   /** True once the very first enemy of the current segment has been spawned. */
   private firstSpawnDone: boolean = false;
+  /** True once every sequential segment has been spawned. */
+  private chainExhausted: boolean = false;
+
+  // ---- Concurrent trickle segments ----
+  private concurrentRuns: SegmentRun[];
+
+  // ---- Wave mode ----
+  /** Null in trickle mode. */
+  private waves: WaveConfig[] | null;
+  /** Index of the wave currently spawning or, during a build phase, the next wave. */
+  private waveIndex: number = 0;
+  private inBuildPhase: boolean = false;
+  /** Seconds left in the current build phase. */
+  private buildTimer: number = 0;
+  /** Per-segment spawn state for the wave in progress. */
+  private waveRuns: SegmentRun[] = [];
+
+  // ---- Boss ----
+  /** Seconds since the last segment was exhausted, counting towards the boss delay. */
+  private bossTimer: number = 0;
+  private bossSpawned: boolean = false;
 
   // ---- Completion tracking ----
   private allSegmentsExhausted: boolean = false;
   private enemiesReachedBase: number = 0;
 
-  constructor(scene: Phaser.Scene, waypoints: Waypoint[], levelConfig: LevelConfig) {
+  constructor(pathGraph: PathGraph, levelConfig: LevelConfig, rng: SeededRandom) {
     super();
-    this.scene = scene;
-    this.waypoints = waypoints;
+    this.pathGraph = pathGraph;
     this.levelConfig = levelConfig;
-    this.segments = [...levelConfig.segments]; // shallow copy, segments are read-only
-    this.enemyGroup = this.scene.add.group();
+    this.rng = rng;
+    this.waves = levelConfig.waves ? [...levelConfig.waves] : null;
+
+    const allSegments = this.waves
+      ? this.waves.flatMap((wave) => wave.segments)
+      : levelConfig.segments;
+    for (const segment of allSegments) {
+      validateSegment(segment, pathGraph);
+    }
+    if (levelConfig.boss?.path !== undefined && !pathGraph.paths[levelConfig.boss.path]) {
+      throw new Error(`Boss names unknown path "${levelConfig.boss.path}"`);
+    }
 
-    if (this.segments.length === 0) {
-      this.allSegmentsExhausted = true;
+    // Trickle mode: offset segments leave the sequence and run on their own.
+    this.segments = levelConfig.segments.filter((seg) => seg.startOffset === undefined);
+    this.concurrentRuns = this.waves
+      ? []
+      : levelConfig.segments.filter((seg) => seg.startOffset !== undefined).map(createRun);
+
+    if (this.waves) {
+      if (this.waves.length === 0) {
+        this.allSegmentsExhausted = true;
+      } else {
+        this.beginBuildPhase();
+      }
+    } else {
+      this.chainExhausted = this.segments.length === 0;
+      this.allSegmentsExhausted =
+        this.chainExhausted && this.concurrentRuns.length === 0 && !this.isBossPending();
     }
   }
 
@@ -57,12 +180,10 @@ export class EnemySpawner extends Phaser.Events.EventEmitter {
   // -------------------------------------------------------------------
 
   /**
-   * Returns an array of all alive, active (not destroyed) enemies.
+   * Returns an array of all alive enemies still on the path.
    */
-  getActiveEnemies(): Enemy[] {
-    return (this.enemyGroup.getChildren() as Enemy[]).filter(
-      (e) => e.active && e.isAlive && !e.reachedEnd,
-    );
+  getActiveEnemies(): SimEnemy[] {
+    return this.enemies.filter((e) => e.active);
   }
 
   /**
@@ -81,35 +202,166 @@ export class EnemySpawner extends Phaser.Events.EventEmitter {
     return this.enemiesReachedBase;
   }
 
+  // ---- Wave queries ----
+
+  /** True when the level is played as discrete waves. */
+  isWaveMode(): boolean {
+    return this.waves !== null;
+  }
+
+  /** Total number of waves (0 in trickle mode). */
+  getWaveCount(): number {
+    return this.waves?.length ?? 0;
+  }
+
+  /**
+   * 1-based number of the wave in progress, or of the wave just cleared
+   * during a build phase (0 before the first wave).
+   */
+  getWaveNumber(): number {
+    if (!this.waves) return 0;
+    if (this.allSegmentsExhausted) return this.waves.length;
+    return this.inBuildPhase ? this.waveIndex : this.waveIndex + 1;
+  }
+
+  /** True while waiting for the next wave. */
+  isBuildPhase(): boolean {
+    return this.inBuildPhase;
+  }
+
+  /** Seconds left before the next wave starts on its own (0 outside a build phase). */
+  getBuildTimeRemaining(): number {
+    return this.inBuildPhase ? this.buildTimer : 0;
+  }
+
   /**
-   * Main update tick. Must be called from the scene's update method.
+   * End the current build phase and start the next wave immediately.
+   * Returns false outside a build phase.
+   */
+  callNextWave(): boolean {
+    if (!this.inBuildPhase) return false;
+    this.startWave(true);
+    return true;
+  }
+
+  /**
+   * Main update tick. Called once per simulation step.
    *
-   * @param time  - Total elapsed game time in ms (from Phaser).
-   * @param delta - Frame delta in milliseconds.
+   * @param delta - Step duration in milliseconds.
    */
-  update(time: number, delta: number): void {
+  update(delta: number): void {
     const deltaSec = delta / 1000;
 
     // ---- Spawn logic ----
-    if (!this.allSegmentsExhausted) {
-      this.updateSpawnTimer(deltaSec);
+    if (this.waves) {
+      this.updateWaves(deltaSec);
+    } else if (!this.allSegmentsExhausted) {
+      if (!this.chainExhausted) {
+        this.updateSpawnTimer(deltaSec);
+      }
+      this.updateRuns(this.concurrentRuns, deltaSec);
+      if (this.chainExhausted && runsExhausted(this.concurrentRuns)) {
+        this.updateBoss(deltaSec);
+        this.allSegmentsExhausted = !this.isBossPending();
+      }
     }
 
     // ---- Update all active enemies ----
-    const children = this.enemyGroup.getChildren() as Enemy[];
-    for (let i = children.length - 1; i >= 0; i--) {
-      const enemy = children[i];
+    // Iterate over a snapshot: split children are appended mid-loop.
+    for (const enemy of [...this.enemies]) {
       if (enemy.active) {
-        enemy.update(time, delta);
+        enemy.update(delta);
       }
     }
+
+    // ---- Drop enemies that died or reached the base ----
+    this.enemies = this.enemies.filter((e) => e.active);
+
+    // ---- Wave cleared: move to the next build phase ----
+    if (this.waves && !this.inBuildPhase && !this.allSegmentsExhausted) {
+      this.checkWaveCleared();
+    }
+  }
+
+  // -------------------------------------------------------------------
+  // Save / restore
+  // -------------------------------------------------------------------
+
+  /**
+   * Capture spawn progress and every enemy still on the field.
+   */
+  serialize(): EnemySpawnerState {
+    return {
+      currentSegmentIndex: this.currentSegmentIndex,
+      spawnedInSegment: this.spawnedInSegment,
+      spawnTimer: this.spawnTimer,
+      nextSpawnDelay: this.nextSpawnDelay,
+      firstSpawnDone: this.firstSpawnDone,
+      chainExhausted: this.chainExhausted,
+      concurrentRuns: this.concurrentRuns.map(serializeRun),
+      waveIndex: this.waveIndex,
+      inBuildPhase: this.inBuildPhase,
+      buildTimer: this.buildTimer,
+      waveRuns: this.waveRuns.map(serializeRun),
+      allSegmentsExhausted: this.allSegmentsExhausted,
+      bossTimer: this.bossTimer,
+      bossSpawned: this.bossSpawned,
+      enemiesReachedBase: this.enemiesReachedBase,
+      enemies: this.enemies.filter((e) => e.active).map((e) => e.serialize()),
+    };
+  }
+
+  /**
+   * Continue from a saved state of the same level. Enemies already on the
+   * field are replaced, and each restored enemy is announced with
+   * 'enemy-spawned'. Throws if the state does not fit the level.
+   */
+  restore(state: EnemySpawnerState): void {
+    if (state.concurrentRuns.length !== this.concurrentRuns.length) {
+      throw new Error('EnemySpawner: saved segment runs do not match the level');
+    }
+    if (this.waves && state.waveIndex > this.waves.length) {
+      throw new Error(`EnemySpawner: saved wave ${state.waveIndex + 1} does not exist`);
+    }
+    const wave = this.waves?.[state.waveIndex];
+    const waveSegments = wave && !state.inBuildPhase ? wave.segments : [];
+    if (state.waveRuns.length !== waveSegments.length) {
+      throw new Error('EnemySpawner: saved wave runs do not match the level');
+    }
+
+    this.currentSegmentIndex = state.currentSegmentIndex;
+    this.spawnedInSegment = state.spawnedInSegment;
+    this.spawnTimer = state.spawnTimer;
+    this.nextSpawnDelay = state.nextSpawnDelay;
+    this.firstSpawnDone = state.firstSpawnDone;
+    this.chainExhausted = state.chainExhausted;
+    this.concurrentRuns = this.concurrentRuns.map((run, i) => ({ ...run, ...state.concurrentRuns[i] }));
+    this.waveIndex = state.waveIndex;
+    this.inBuildPhase = state.inBuildPhase;
+    this.buildTimer = state.buildTimer;
+    this.waveRuns = waveSegments.map((segment, i) => ({ ...createRun(segment), ...state.waveRuns[i] }));
+    this.allSegmentsExhausted = state.allSegmentsExhausted;
+    this.bossTimer = state.bossTimer ?? 0;
+    this.bossSpawned = state.bossSpawned ?? false;
+    this.enemiesReachedBase = state.enemiesReachedBase;
+
+    for (const enemy of this.enemies) {
+      enemy.destroy();
+    }
+    this.enemies = [];
+    for (const enemyState of state.enemies) {
+      this.addEnemy(SimEnemy.deserialize(enemyState));
+    }
   }
 
   /**
    * Clean up resources when the spawner is no longer needed.
    */
   destroy(): void {
-    this.enemyGroup.destroy(true);
+    for (const enemy of this.enemies) {
+      enemy.destroy();
+    }
+    this.enemies = [];
     super.destroy();
   }
 
@@ -123,7 +375,7 @@ export class EnemySpawner extends Phaser.Events.EventEmitter {
    */
   private rollNextDelay(baseInterval: number): number {
     const variance = 0.4;
-    const jitter = 1 + (Math.random() * 2 - 1) * variance; // 0.6 – 1.4
+    const jitter = 1 + this.rng.float(-1, 1) * variance; // 0.6 – 1.4
     return baseInterval * jitter;
   }
 
@@ -139,14 +391,14 @@ export class EnemySpawner extends Phaser.Events.EventEmitter {
 
     const segment = this.segments[this.currentSegmentIndex];
     if (!segment) {
-      this.allSegmentsExhausted = true;
+      this.chainExhausted = true;
       return;
     }
 
     this.spawnTimer += deltaSec;
 
     // Spawn when the jittered delay has elapsed
-    while (this.spawnTimer >= this.nextSpawnDelay && !this.allSegmentsExhausted) {
+    while (this.spawnTimer >= this.nextSpawnDelay && !this.chainExhausted) {
       this.spawnTimer -= this.nextSpawnDelay;
       this.spawnNextEnemy();
 
@@ -160,13 +412,11 @@ export class EnemySpawner extends Phaser.Events.EventEmitter {
   private spawnNextEnemy(): void {
     const segment = this.segments[this.currentSegmentIndex];
     if (!segment) {
-      this.allSegmentsExhausted = true;
+      this.chainExhausted = true;
       return;
     }
 
-    // Spawn the enemy at the first waypoint
-    const startPos = this.waypoints[0];
-    this.createEnemy(segment.enemyKey, startPos.x, startPos.y, 0);
+    this.spawnFromSegment(segment);
 
     this.spawnedInSegment++;
 
@@ -176,7 +426,7 @@ export class EnemySpawner extends Phaser.Events.EventEmitter {
       this.spawnedInSegment = 0;
 
       if (this.currentSegmentIndex >= this.segments.length) {
-        this.allSegmentsExhausted = true;
+        this.chainExhausted = true;
       }
       // When advancing to the next segment, do NOT reset spawnTimer.
       // Any leftover time carries forward, so the next segment starts
@@ -185,37 +435,183 @@ export class EnemySpawner extends Phaser.Events.EventEmitter {
   }
 
   /**
-   * Create an enemy, wire up its events, and add it to the group.
+   * Advance segments that run on their own timers. Each one spawns its
+   * first enemy once its start offset has elapsed.
+   */
+  private updateRuns(runs: SegmentRun[], deltaSec: number): void {
+    for (const run of runs) {
+      if (run.spawned >= run.segment.count) continue;
+      run.timer += deltaSec;
+      while (run.timer >= run.nextDelay && run.spawned < run.segment.count) {
+        run.timer -= run.nextDelay;
+        this.spawnFromSegment(run.segment);
+        run.spawned++;
+        run.nextDelay = this.rollNextDelay(run.segment.spawnInterval);
+      }
+    }
+  }
+
+  /** Spawn one enemy of a segment at the start of its path. */
+  private spawnFromSegment(segment: WaveSegment): void {
+    const enemyKey = this.pickEnemyKey(segment);
+    const startPath = segment.path ?? this.pickEntryPath();
+    const route = PathFollower.resolveRoute(this.pathGraph, startPath, this.rng);
+    this.createEnemy(
+      enemyKey,
+      route[0].x,
+      route[0].y,
+      route,
+      0,
+      segment.hpScale ?? this.levelConfig.hpScale,
+      segment.speedScale ?? 1,
+    );
+  }
+
+  /** A random entry path; no roll is made when the map has only one. */
+  private pickEntryPath(): string {
+    const { entries } = this.pathGraph;
+    return entries.length === 1 ? entries[0] : this.rng.pick(entries);
+  }
+
+  /** The segment's enemy key, or a weighted random pick from its mix. */
+  private pickEnemyKey(segment: WaveSegment): string {
+    if (!segment.mix || segment.mix.length === 0) {
+      return segment.enemyKey!;
+    }
+
+    const totalWeight = segment.mix.reduce((sum, entry) => sum + Math.max(0, entry.weight), 0);
+    let roll = this.rng.next() * totalWeight;
+    for (const entry of segment.mix) {
+      roll -= Math.max(0, entry.weight);
+      if (roll < 0) return entry.enemyKey;
+    }
+    return segment.mix[segment.mix.length - 1].enemyKey;
+  }
+
+  // -------------------------------------------------------------------
+  // Wave mode
+  // -------------------------------------------------------------------
+
+  private updateWaves(deltaSec: number): void {
+    if (this.inBuildPhase) {
+      this.buildTimer -= deltaSec;
+      if (this.buildTimer <= 0) {
+        this.startWave(false);
+      }
+      return;
+    }
+
+    this.updateRuns(this.waveRuns, deltaSec);
+    if (this.isFinalWave() && runsExhausted(this.waveRuns)) {
+      this.updateBoss(deltaSec);
+    }
+  }
+
+  private beginBuildPhase(): void {
+    const wave = this.waves![this.waveIndex];
+    this.inBuildPhase = true;
+    this.buildTimer = wave.buildTime ?? DEFAULT_BUILD_TIME;
+    this.emit('build-phase-started', { wave: this.waveIndex + 1, duration: this.buildTimer });
+  }
+
+  private startWave(early: boolean): void {
+    const wave = this.waves![this.waveIndex];
+    this.inBuildPhase = false;
+    this.buildTimer = 0;
+    this.waveRuns = wave.segments.map(createRun);
+    this.emit('wave-started', { wave: this.waveIndex + 1, name: wave.name, early });
+  }
+
+  private checkWaveCleared(): void {
+    if (!runsExhausted(this.waveRuns) || this.enemies.length > 0) return;
+    if (this.isFinalWave() && this.isBossPending()) return;
+
+    this.waveRuns = [];
+    this.waveIndex++;
+    if (this.waveIndex >= this.waves!.length) {
+      this.allSegmentsExhausted = true;
+    } else {
+      this.beginBuildPhase();
+    }
+  }
+
+  private isFinalWave(): boolean {
+    return this.waveIndex === this.waves!.length - 1;
+  }
+
+  // -------------------------------------------------------------------
+  // Boss
+  // -------------------------------------------------------------------
+
+  /** True while the level has a boss that has not spawned yet. */
+  private isBossPending(): boolean {
+    return this.levelConfig.boss !== undefined && !this.bossSpawned;
+  }
+
+  /**
+   * Count down the boss delay once the last segment is exhausted, then
+   * spawn the boss.
+   */
+  private updateBoss(deltaSec: number): void {
+    const boss = this.levelConfig.boss;
+    if (!boss || this.bossSpawned) return;
+
+    this.bossTimer += deltaSec;
+    if (this.bossTimer < (boss.delay ?? DEFAULT_BOSS_DELAY)) return;
+
+    this.bossSpawned = true;
+    const route = PathFollower.resolveRoute(this.pathGraph, boss.path ?? this.pickEntryPath(), this.rng);
+    this.createEnemy(boss.enemyKey, route[0].x, route[0].y, route, 0, boss.hpScale ?? this.levelConfig.hpScale, 1);
+  }
+
+  // -------------------------------------------------------------------
+  // Enemy creation
+  // -------------------------------------------------------------------
+
+  /**
+   * Create an enemy and add it to the field.
    *
    * @param enemyKey         - Config key of the enemy to create.
    * @param x                - World X spawn position.
    * @param y                - World Y spawn position.
+   * @param route            - World-coordinate waypoints from spawn to base.
    * @param startWaypointIdx - Waypoint index to begin path following from.
+   * @param hpScale          - HP multiplier (the segment's, or the level's).
+   * @param speedScale       - Speed multiplier from the segment.
    */
   private createEnemy(
     enemyKey: string,
     x: number,
     y: number,
+    route: Waypoint[],
     startWaypointIdx: number,
-  ): Enemy {
-    const enemy = new Enemy(
-      this.scene,
+    hpScale: number,
+    speedScale: number,
+  ): SimEnemy {
+    const enemy = new SimEnemy(
       x,
       y,
       enemyKey,
-      this.waypoints,
-      this.levelConfig.hpScale,
+      route,
+      hpScale,
       startWaypointIdx,
+      speedScale,
     );
+    return this.addEnemy(enemy);
+  }
 
+  /**
+   * Wire up an enemy's events, add it to the field and announce it.
+   */
+  private addEnemy(enemy: SimEnemy): SimEnemy {
     // ---- Wire events ----
 
-    enemy.on('enemy-killed', (data: { reward: number; enemy: Enemy }) => {
+    enemy.on('enemy-killed', (data: { reward: number; enemy: SimEnemy }) => {
       // Bubble the event up through the spawner
       this.emit('enemy-killed', data);
     });
 
-    enemy.on('enemy-reached-base', (_reachedEnemy: Enemy) => {
+    enemy.on('enemy-reached-base', (_reachedEnemy: SimEnemy) => {
       this.enemiesReachedBase++;
       this.emit('enemy-reached-base', { enemy: _reachedEnemy });
     });
@@ -227,17 +623,38 @@ export class EnemySpawner extends Phaser.Events.EventEmitter {
       splitEnemyKey: string;
       waypointIndex: number;
     }) => {
-      this.handleSplit(data);
+      this.handleSplit(data, enemy);
       this.emit('enemies-spawned-from-split', { count: data.splitCount });
     });
 
-    this.enemyGroup.add(enemy);
+    enemy.on('enemy-heal', (data: { x: number; y: number; radius: number; amount: number }) => {
+      this.handleHeal(data, enemy);
+    });
+
+    this.enemies.push(enemy);
+    this.emit('enemy-spawned', { enemy });
     return enemy;
   }
 
+  /**
+   * Handle a heal pulse: restore HP to every other enemy on the field
+   * within the pulse radius.
+   */
+  private handleHeal(data: { x: number; y: number; radius: number; amount: number }, healer: SimEnemy): void {
+    const { x, y, radius, amount } = data;
+    const healed = this.enemies.filter(
+      (e) => e !== healer && e.active && Math.hypot(e.x - x, e.y - y) <= radius,
+    );
+    for (const enemy of healed) {
+      enemy.heal(amount);
+    }
+    this.emit('enemies-healed', { x, y, radius, healed });
+  }
+
   /**
    * Handle a split event by spawning mini-drones at the parent's death
-   * position, continuing from the parent's current waypoint index.
+   * position, continuing along the parent's route from its current
+   * waypoint index. The children inherit the parent's HP and speed scaling.
    */
   private handleSplit(data: {
     x: number;
@@ -245,20 +662,61 @@ export class EnemySpawner extends Phaser.Events.EventEmitter {
     splitCount: number;
     splitEnemyKey: string;
     waypointIndex: number;
-  }): void {
+  }, parent: SimEnemy): void {
     const { x, y, splitCount, splitEnemyKey, waypointIndex } = data;
 
     for (let i = 0; i < splitCount; i++) {
       // Offset each mini-drone slightly so they don't stack perfectly
-      const offsetX = (Math.random() - 0.5) * 16;
-      const offsetY = (Math.random() - 0.5) * 16;
+      const offsetX = this.rng.float(-0.5, 0.5) * 16;
+      const offsetY = this.rng.float(-0.5, 0.5) * 16;
 
       this.createEnemy(
         splitEnemyKey,
         x + offsetX,
         y + offsetY,
+        parent.route,
         waypointIndex,
+        parent.hpScale,
+        parent.speedScale,
       );
     }
   }
 }
+
+// ---------------------------------------------------------------------
+// Segment helpers
+// ---------------------------------------------------------------------
+
+/** Fresh run state for a segment; the first spawn waits for its start offset. */
+function createRun(segment: WaveSegment): SegmentRun {
+  return { segment, spawned: 0, timer: 0, nextDelay: segment.startOffset ?? 0 };
+}
+
+function serializeRun(run: SegmentRun): SegmentRunState {
+  return { spawned: run.spawned, timer: run.timer, nextDelay: run.nextDelay };
+}
+
+/** True once every run has spawned its full count. */
+function runsExhausted(runs: SegmentRun[]): boolean {
+  return runs.every((run) => run.spawned >= run.segment.count);
+}
+
+/**
+ * Reject segments the spawner cannot play: an unknown path, no enemy type,
+ * or a mix whose weights do not add up to anything.
+ */
+function validateSegment(segment: WaveSegment, pathGraph: PathGraph): void {
+  if (segment.path !== undefined && !pathGraph.paths[segment.path]) {
+    throw new Error(`Segment names unknown path "${segment.path}"`);
+  }
+  if (segment.mix && segment.mix.length > 0) {
+    const totalWeight = segment.mix.reduce((sum, entry) => sum + Math.max(0, entry.weight), 0);
+    if (totalWeight <= 0) {
+      throw new Error('Segment mix needs at least one entry with a positive weight');
+    }
+    return;
+  }
+  if (!segment.enemyKey) {
+    throw new Error('Segment needs an enemyKey or a non-empty mix');
+  }
+}
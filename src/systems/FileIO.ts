@@ -0,0 +1,53 @@
+/**
+ * FileIO -- small browser helpers for saving and loading text files
+ * (replays, level packs and other JSON exports) without a server round-trip.
+ */
+export class FileIO {
+  /**
+   * Offer `text` to the player as a file download.
+   */
+  static downloadText(filename: string, text: string, mimeType: string = 'application/json'): void {
+    const blob = new Blob([text], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+
+    // Revoke on the next tick so the download has started.
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  }
+
+  /**
+   * Open the browser file picker and read the chosen file as text.
+   * `onLoad` is not called if the player cancels the dialog.
+   */
+  static openTextFile(accept: string, onLoad: (text: string, filename: string) => void): void {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = accept;
+
+    input.addEventListener('change', () => {
+      const file = input.files?.[0];
+      if (!file) return;
+      file.text().then(
+        (text) => onLoad(text, file.name),
+        (err) => console.error(`FileIO: could not read "${file.name}"`, err),
+      );
+    });
+
+    input.click();
+  }
+
+  /**
+   * Ask the player to paste text into a browser prompt.
+   * `onLoad` is not called if the prompt is cancelled or left empty.
+   */
+  static promptText(message: string, onLoad: (text: string) => void): void {
+    const text = window.prompt(message);
+    if (text && text.trim()) onLoad(text);
+  }
+}
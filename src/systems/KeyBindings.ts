@@ -0,0 +1,189 @@
+import type { SimTower } from '../sim/SimTower';
+
+/**
+ * Everything a key can be bound to in GameScene. `tower-N` selects the
+ * N-th button of the tower picker; `branch-N` upgrades a tier-2 tower into
+ * its N-th specialization.
+ */
+export type HotkeyAction =
+  | 'tower-1'
+  | 'tower-2'
+  | 'tower-3'
+  | 'tower-4'
+  | 'tower-5'
+  | 'tower-6'
+  | 'tower-7'
+  | 'tower-8'
+  | 'tower-9'
+  | 'upgrade'
+  | 'branch-1'
+  | 'branch-2'
+  | 'sell'
+  | 'cancel'
+  | 'pause'
+  | 'cycle-speed'
+  | 'next-tower';
+
+/** Default bindings, as `KeyboardEvent.code` values (layout independent). */
+export const DEFAULT_KEY_BINDINGS: Readonly<Record<HotkeyAction, string>> = {
+  'tower-1': 'Digit1',
+  'tower-2': 'Digit2',
+  'tower-3': 'Digit3',
+  'tower-4': 'Digit4',
+  'tower-5': 'Digit5',
+  'tower-6': 'Digit6',
+  'tower-7': 'Digit7',
+  'tower-8': 'Digit8',
+  'tower-9': 'Digit9',
+  upgrade: 'KeyU',
+  'branch-1': 'KeyZ',
+  'branch-2': 'KeyX',
+  sell: 'KeyS',
+  cancel: 'Escape',
+  pause: 'Space',
+  'cycle-speed': 'KeyF',
+  'next-tower': 'Tab',
+};
+
+/** Every action, in the order the controls panel lists them. */
+export const HOTKEY_ACTIONS = Object.keys(DEFAULT_KEY_BINDINGS) as HotkeyAction[];
+
+/** The tower picker actions, in button order. */
+export const TOWER_HOTKEYS: readonly HotkeyAction[] = HOTKEY_ACTIONS.filter((action) => action.startsWith('tower-'));
+
+/** The specialization actions, in branch order. */
+export const BRANCH_HOTKEYS: readonly HotkeyAction[] = HOTKEY_ACTIONS.filter((action) => action.startsWith('branch-'));
+
+/** Short descriptions for the controls panel. */
+export const HOTKEY_LABELS: Record<HotkeyAction, string> = {
+  'tower-1': 'Select tower 1',
+  'tower-2': 'Select tower 2',
+  'tower-3': 'Select tower 3',
+  'tower-4': 'Select tower 4',
+  'tower-5': 'Select tower 5',
+  'tower-6': 'Select tower 6',
+  'tower-7': 'Select tower 7',
+  'tower-8': 'Select tower 8',
+  'tower-9': 'Select tower 9',
+  upgrade: 'Upgrade tower',
+  'branch-1': 'Upgrade to branch 1',
+  'branch-2': 'Upgrade to branch 2',
+  sell: 'Sell tower',
+  cancel: 'Clear selection / close',
+  pause: 'Pause',
+  'cycle-speed': 'Game speed',
+  'next-tower': 'Next placed tower',
+};
+
+/** What an upgrade hotkey asks of a tower (see `resolveUpgradeHotkey()`). */
+export type UpgradeHotkey = { type: 'upgrade'; specialization?: string } | { type: 'choose-branch' };
+
+/**
+ * Work out what an upgrade hotkey does to `tower`. The plain upgrade key
+ * upgrades a tower below its branching point but, at tier 2 of a branching
+ * tower, only asks the player to choose a branch; a branch key picks that
+ * specialization there. Returns null when the key does nothing for this
+ * tower (a branch key elsewhere, or any other action).
+ */
+export function resolveUpgradeHotkey(action: HotkeyAction, tower: SimTower): UpgradeHotkey | null {
+  if (action === 'upgrade') {
+    return tower.needsSpecialization() ? { type: 'choose-branch' } : { type: 'upgrade' };
+  }
+  const index = BRANCH_HOTKEYS.indexOf(action);
+  const branch = index >= 0 && tower.needsSpecialization() ? tower.config.specializations![index] : undefined;
+  return branch ? { type: 'upgrade', specialization: branch.key } : null;
+}
+
+/** Bumped whenever the stored bindings layout changes incompatibly. */
+const KEY_BINDINGS_VERSION = 1;
+
+/**
+ * KeyBindings -- the player's hotkey settings, kept in browser storage.
+ * Each action has exactly one key and each key triggers at most one
+ * action: binding a key that is already in use swaps the two actions'
+ * keys.
+ *
+ * Keys are stored as `KeyboardEvent.code` values, so bindings stay on the
+ * same physical keys across keyboard layouts. Unknown or duplicate stored
+ * entries fall back to the defaults.
+ */
+export class KeyBindings {
+  /** Storage key holding the JSON bindings. */
+  static readonly STORAGE_KEY = 'earth-defense.key-bindings';
+
+  private storage: Storage;
+  private bindings: Record<HotkeyAction, string>;
+
+  constructor(storage: Storage = window.localStorage) {
+    this.storage = storage;
+    this.bindings = this.read();
+  }
+
+  /** Human-readable name of a key code ("Digit1" -> "1", "KeyU" -> "U"). */
+  static describeKey(code: string): string {
+    const match = /^(?:Digit|Key|Numpad)(.+)$/.exec(code);
+    if (match) return match[1];
+    return code === 'Escape' ? 'Esc' : code;
+  }
+
+  /** Key code bound to an action. */
+  getKey(action: HotkeyAction): string {
+    return this.bindings[action];
+  }
+
+  /** Action bound to a key code, if any. */
+  getAction(code: string): HotkeyAction | undefined {
+    return HOTKEY_ACTIONS.find((action) => this.bindings[action] === code);
+  }
+
+  /**
+   * Bind `code` to `action`. An action that already used `code` takes over
+   * `action`'s previous key. Returns the action that was swapped, if any.
+   */
+  rebind(action: HotkeyAction, code: string): HotkeyAction | undefined {
+    const previousKey = this.bindings[action];
+    const displaced = this.getAction(code);
+    if (displaced === action) return undefined;
+
+    if (displaced) {
+      this.bindings[displaced] = previousKey;
+    }
+    this.bindings[action] = code;
+    this.write();
+    return displaced;
+  }
+
+  /** Restore every default binding. */
+  reset(): void {
+    this.bindings = { ...DEFAULT_KEY_BINDINGS };
+    this.storage.removeItem(KeyBindings.STORAGE_KEY);
+  }
+
+  private read(): Record<HotkeyAction, string> {
+    const bindings = { ...DEFAULT_KEY_BINDINGS };
+    const stored = this.storage.getItem(KeyBindings.STORAGE_KEY);
+    if (!stored) return bindings;
+    try {
+      const data = JSON.parse(stored);
+      if (data?.version !== KEY_BINDINGS_VERSION || typeof data.bindings !== 'object' || data.bindings === null) {
+        return bindings;
+      }
+      for (const action of HOTKEY_ACTIONS) {
+        const code: unknown = data.bindings[action];
+        if (typeof code === 'string' && code !== '') bindings[action] = code;
+      }
+      // A key bound twice would make one action unreachable
+      const codes = HOTKEY_ACTIONS.map((action) => bindings[action]);
+      return new Set(codes).size === codes.length ? bindings : { ...DEFAULT_KEY_BINDINGS };
+    } catch {
+      return bindings;
+    }
+  }
+
+  private write(): void {
+    this.storage.setItem(
+      KeyBindings.STORAGE_KEY,
+      JSON.stringify({ version: KEY_BINDINGS_VERSION, bindings: this.bindings }),
+    );
+  }
+}
@@ -0,0 +1,215 @@
+import { ENEMIES } from '../config/enemies';
+import { LevelConfig, WaveSegment } from '../config/levels';
+import { MapConfig, MAP_COLS, MAP_ROWS, TileType, extractPathPoints, findTiles } from '../config/maps';
+import { ValidationIssue, validateLevel, validateMap } from '../config/validation';
+
+/** Level settings the editor can step up and down. */
+export type DraftSetting = 'startingCredits' | 'lives' | 'hpScale';
+
+/** Per-segment values the editor can step up and down. */
+export type DraftSegmentSetting = 'count' | 'spawnInterval';
+
+interface StepLimits {
+  min: number;
+  max: number;
+  step: number;
+}
+
+/** Range and step size of every editable number. */
+export const DRAFT_LIMITS: Record<DraftSetting | DraftSegmentSetting, StepLimits> = {
+  startingCredits: { min: 0, max: 5000, step: 25 },
+  lives: { min: 1, max: 100, step: 1 },
+  hpScale: { min: 0.1, max: 10, step: 0.1 },
+  count: { min: 1, max: 500, step: 1 },
+  spawnInterval: { min: 0.1, max: 30, step: 0.1 },
+};
+
+/** Most segments a draft can hold. */
+export const MAX_DRAFT_SEGMENTS = 8;
+
+/**
+ * LevelDraft -- an editable map grid plus level settings, as worked on by
+ * the level editor. It knows nothing about Phaser; `toMapConfig()` and
+ * `toLevelConfig()` turn it into the configs GameScene plays.
+ *
+ * Drafts always play in trickle mode: wave lists of a source level are not
+ * carried over. The build slot count is derived from the grid.
+ */
+export class LevelDraft {
+  public level: number;
+  public name: string;
+  public theme: string;
+  public passiveIncomeRate: number;
+  public startingCredits: number;
+  public lives: number;
+  public hpScale: number;
+  public readonly segments: WaveSegment[];
+
+  private grid: number[][];
+
+  private constructor(level: LevelConfig, grid: number[][]) {
+    this.level = level.level;
+    this.name = level.name;
+    this.theme = level.theme;
+    this.passiveIncomeRate = level.passiveIncomeRate;
+    this.startingCredits = level.startingCredits;
+    this.lives = level.lives;
+    this.hpScale = level.hpScale;
+    this.segments = level.segments.map(copySegment);
+    this.grid = grid.map((row) => [...row]);
+  }
+
+  /** Start a draft from an existing level and its map. */
+  static fromLevel(level: LevelConfig, map: MapConfig): LevelDraft {
+    return new LevelDraft(level, map.grid);
+  }
+
+  /**
+   * Start an empty draft: ground everywhere except a straight path across
+   * the middle row from a Spawn on the left to a Base on the right.
+   */
+  static blank(level: number, name: string = 'Custom Level'): LevelDraft {
+    const row = Math.floor(MAP_ROWS / 2);
+    const grid: number[][] = Array.from({ length: MAP_ROWS }, (_, y) =>
+      Array.from({ length: MAP_COLS }, () => (y === row ? TileType.Path : TileType.Ground)),
+    );
+    grid[row][0] = TileType.Spawn;
+    grid[row][MAP_COLS - 1] = TileType.Base;
+
+    return new LevelDraft(
+      {
+        level,
+        name,
+        theme: 'custom',
+        startingCredits: 200,
+        passiveIncomeRate: 5,
+        lives: 10,
+        buildSlots: 0,
+        hpScale: 1.0,
+        segments: [{ enemyKey: 'drone', count: 20, spawnInterval: 2.0 }],
+      },
+      grid,
+    );
+  }
+
+  // ---------------------------------------------------------------------------
+  // Tiles
+  // ---------------------------------------------------------------------------
+
+  getTile(x: number, y: number): TileType {
+    return this.grid[y][x] as TileType;
+  }
+
+  /**
+   * Paint one tile. A map has a single Spawn and a single Base, so painting
+   * either one turns the previous one back into Ground.
+   * Returns false if nothing changed.
+   */
+  paintTile(x: number, y: number, tile: TileType): boolean {
+    if (x < 0 || y < 0 || x >= MAP_COLS || y >= MAP_ROWS) return false;
+    if (this.grid[y][x] === tile) return false;
+
+    if (tile === TileType.Spawn || tile === TileType.Base) {
+      for (const old of findTiles(this.grid, tile)) {
+        this.grid[old.y][old.x] = TileType.Ground;
+      }
+    }
+    this.grid[y][x] = tile;
+    return true;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Settings and segments
+  // ---------------------------------------------------------------------------
+
+  /** Step a level setting up (+1) or down (-1) within its limits. */
+  stepSetting(setting: DraftSetting, direction: 1 | -1): void {
+    this[setting] = stepValue(this[setting], setting, direction);
+  }
+
+  /** Step a segment's count or spawn interval up (+1) or down (-1). */
+  stepSegment(index: number, setting: DraftSegmentSetting, direction: 1 | -1): void {
+    const segment = this.segments[index];
+    if (!segment) return;
+    segment[setting] = stepValue(segment[setting], setting, direction);
+  }
+
+  /**
+   * Switch a segment to the next (+1) or previous (-1) enemy type.
+   * A weighted mix is replaced by a single enemy type.
+   */
+  cycleSegmentEnemy(index: number, direction: 1 | -1): void {
+    const segment = this.segments[index];
+    if (!segment) return;
+    const keys = Object.keys(ENEMIES);
+    const current = keys.indexOf(segment.enemyKey ?? '');
+    const next = current === -1 ? 0 : (current + direction + keys.length) % keys.length;
+    segment.enemyKey = keys[next];
+    delete segment.mix;
+  }
+
+  /** Append a copy of the last segment (or a default one). Returns false when full. */
+  addSegment(): boolean {
+    if (this.segments.length >= MAX_DRAFT_SEGMENTS) return false;
+    const last = this.segments[this.segments.length - 1];
+    this.segments.push(last ? copySegment(last) : { enemyKey: 'drone', count: 10, spawnInterval: 2.0 });
+    return true;
+  }
+
+  removeSegment(index: number): void {
+    this.segments.splice(index, 1);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Export and validation
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Build the map config. Throws (via extractPathPoints) if the path
+   * cannot be traced from Spawn to Base.
+   */
+  toMapConfig(): MapConfig {
+    const grid = this.grid.map((row) => [...row]);
+    return { level: this.level, name: this.name, grid, pathPoints: extractPathPoints(grid, this.name) };
+  }
+
+  toLevelConfig(): LevelConfig {
+    return {
+      level: this.level,
+      name: this.name,
+      theme: this.theme,
+      startingCredits: this.startingCredits,
+      passiveIncomeRate: this.passiveIncomeRate,
+      lives: this.lives,
+      buildSlots: findTiles(this.grid, TileType.BuildSlot).length,
+      hpScale: this.hpScale,
+      segments: this.segments.map(copySegment),
+    };
+  }
+
+  /**
+   * Run the content validator over the draft. A path that cannot be
+   * traced is reported as a single map issue.
+   */
+  validate(): ValidationIssue[] {
+    let map: MapConfig;
+    try {
+      map = this.toMapConfig();
+    } catch (err) {
+      return [{ subject: 'map', id: String(this.level), field: 'grid', message: (err as Error).message }];
+    }
+    return [...validateMap(map), ...validateLevel(this.toLevelConfig(), map)];
+  }
+}
+
+/** Step `value` by one increment, clamped and rounded to the step size. */
+function stepValue(value: number, setting: DraftSetting | DraftSegmentSetting, direction: 1 | -1): number {
+  const { min, max, step } = DRAFT_LIMITS[setting];
+  const next = Math.round((value + step * direction) / step) * step;
+  // Round away float noise from fractional steps (0.1 + 0.2 etc.)
+  return Math.min(max, Math.max(min, Math.round(next * 1000) / 1000));
+}
+
+function copySegment(segment: WaveSegment): WaveSegment {
+  return segment.mix ? { ...segment, mix: segment.mix.map((m) => ({ ...m })) } : { ...segment };
+}
@@ -0,0 +1,68 @@
+import { LevelPack, parseLevelPack, serializeLevelPack } from '../config/levelPacks';
+
+/**
+ * LevelPackLibrary -- the level packs the player has imported, kept in
+ * browser storage so they survive a reload. Packs are identified by name;
+ * importing a pack with an existing name replaces it.
+ *
+ * Stored packs are re-validated on load. One that no longer parses (for
+ * example after a format change) is skipped with a warning rather than
+ * breaking the menu.
+ */
+export class LevelPackLibrary {
+  /** Storage key holding a JSON array of serialized packs. */
+  static readonly STORAGE_KEY = 'earth-defense.level-packs';
+
+  private storage: Storage;
+
+  constructor(storage: Storage = window.localStorage) {
+    this.storage = storage;
+  }
+
+  /** Every stored pack, in import order. */
+  getPacks(): LevelPack[] {
+    const packs: LevelPack[] = [];
+    for (const json of this.readRaw()) {
+      try {
+        packs.push(parseLevelPack(json));
+      } catch (err) {
+        console.warn('LevelPackLibrary: skipping a stored pack that no longer loads', err);
+      }
+    }
+    return packs;
+  }
+
+  find(name: string): LevelPack | undefined {
+    return this.getPacks().find((pack) => pack.name === name);
+  }
+
+  /**
+   * Parse `json` as a level pack and store it. Throws the parser's error
+   * if the pack is invalid, leaving the library unchanged.
+   */
+  import(json: string): LevelPack {
+    const pack = parseLevelPack(json);
+    const others = this.getPacks().filter((p) => p.name !== pack.name);
+    this.write([...others, pack]);
+    return pack;
+  }
+
+  remove(name: string): void {
+    this.write(this.getPacks().filter((p) => p.name !== name));
+  }
+
+  private readRaw(): string[] {
+    const stored = this.storage.getItem(LevelPackLibrary.STORAGE_KEY);
+    if (!stored) return [];
+    try {
+      const list: unknown = JSON.parse(stored);
+      return Array.isArray(list) ? list.filter((item): item is string => typeof item === 'string') : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private write(packs: LevelPack[]): void {
+    this.storage.setItem(LevelPackLibrary.STORAGE_KEY, JSON.stringify(packs.map(serializeLevelPack)));
+  }
+}
@@ -185,6 +185,28 @@ export class ParticleEffects {
     });
   }
 
+  // -------------------------------------------------------------------
+  //  Heal pulse
+  // -------------------------------------------------------------------
+
+  /**
+   * Green ring expanding to the heal radius around a Mender.
+   */
+  static healPulseEffect(scene: Phaser.Scene, x: number, y: number, radius: number): void {
+    const ring = scene.add.arc(x, y, 8, 0, 360, false, 0x44ffaa, 0.1);
+    ring.setStrokeStyle(2, 0x44ffaa, 0.7);
+    ring.setDepth(5);
+
+    scene.tweens.add({
+      targets: ring,
+      radius,
+      alpha: 0,
+      duration: 450,
+      ease: 'Quad.easeOut',
+      onComplete: () => ring.destroy(),
+    });
+  }
+
   // -------------------------------------------------------------------
   //  Projectile impact
   // -------------------------------------------------------------------
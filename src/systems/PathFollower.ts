@@ -1,16 +1,31 @@
-import Phaser from 'phaser';
+import type { PathGraph, PathBranch } from '../config/maps';
+import type { SeededRandom } from '../sim/Random';
 
 export interface Waypoint {
   x: number;
   y: number;
 }
 
+/** Serializable progress of a follower along its route. */
+export interface PathFollowerState {
+  /** Index of the waypoint being moved toward. */
+  waypointIndex: number;
+  /** Pixels travelled from the start of the route. */
+  distanceTraveled: number;
+  finished: boolean;
+}
+
 /**
  * PathFollower is a utility that tracks movement along a sequence of waypoints.
  *
  * It computes the next position given a speed and delta time, tracks which
  * waypoint is currently being targeted, and reports progress as a 0.0-1.0
  * fraction of total path length traveled.
+ *
+ * On maps with branching paths, `PathFollower.resolveRoute()` walks the
+ * path graph from a starting path and picks a branch at every fork (by
+ * weight, or evenly when no weights are given), producing the single
+ * waypoint chain a follower then moves along.
  */
 export class PathFollower {
   private waypoints: Waypoint[];
@@ -22,6 +37,51 @@ export class PathFollower {
   /** True once the follower has reached (or passed) the final waypoint. */
   public finished: boolean = false;
 
+  /**
+   * Build the waypoint chain from the start of `startPath` to a base,
+   * choosing a branch at every fork. The rng is only consulted at forks
+   * with more than one branch.
+   *
+   * Where a branch starts on the point its parent ended on, the shared
+   * point appears once.
+   */
+  static resolveRoute(graph: PathGraph, startPath: string, rng: SeededRandom): Waypoint[] {
+    const start = graph.paths[startPath];
+    if (!start) {
+      throw new Error(`Unknown path: "${startPath}"`);
+    }
+
+    const route: Waypoint[] = [];
+    let path: typeof start | undefined = start;
+    while (path) {
+      for (const point of path.points) {
+        const last = route[route.length - 1];
+        if (last && last.x === point.x && last.y === point.y) continue;
+        route.push({ x: point.x, y: point.y });
+      }
+      const branch = PathFollower.chooseBranch(path.next, rng);
+      path = branch ? graph.paths[branch.path] : undefined;
+    }
+    return route;
+  }
+
+  /** Weighted pick among branches; null at the end of the route. */
+  private static chooseBranch(branches: readonly PathBranch[], rng: SeededRandom): PathBranch | null {
+    if (branches.length === 0) return null;
+    if (branches.length === 1) return branches[0];
+
+    const weights = branches.map((b) => Math.max(0, b.weight ?? 1));
+    const total = weights.reduce((sum, w) => sum + w, 0);
+    if (total <= 0) return branches[0];
+
+    let roll = rng.next() * total;
+    for (let i = 0; i < branches.length; i++) {
+      roll -= weights[i];
+      if (roll < 0) return branches[i];
+    }
+    return branches[branches.length - 1];
+  }
+
   /**
    * @param waypoints          - Array of at least 2 waypoints (world coordinates).
    * @param startWaypointIndex - The index of the waypoint the entity is currently AT.
@@ -43,11 +103,9 @@ export class PathFollower {
     this.totalPathLength = 0;
 
     for (let i = 0; i < waypoints.length - 1; i++) {
-      const length = Phaser.Math.Distance.Between(
-        waypoints[i].x,
-        waypoints[i].y,
-        waypoints[i + 1].x,
-        waypoints[i + 1].y,
+      const length = Math.hypot(
+        waypoints[i + 1].x - waypoints[i].x,
+        waypoints[i + 1].y - waypoints[i].y,
       );
       this.segmentLengths.push(length);
       this.totalPathLength += length;
@@ -81,7 +139,23 @@ export class PathFollower {
    */
   get pathProgress(): number {
     if (this.totalPathLength === 0) return 1;
-    return Phaser.Math.Clamp(this.distanceTraveled / this.totalPathLength, 0, 1);
+    return Math.min(1, Math.max(0, this.distanceTraveled / this.totalPathLength));
+  }
+
+  /**
+   * Returns the distance (pixels) still to travel to the end of the route.
+   * Unlike `pathProgress`, this compares fairly between routes of
+   * different lengths.
+   */
+  get distanceRemaining(): number {
+    return Math.max(0, this.totalPathLength - this.distanceTraveled);
+  }
+
+  /**
+   * Returns the full waypoint chain being followed.
+   */
+  get route(): readonly Waypoint[] {
+    return this.waypoints;
   }
 
   /**
@@ -91,6 +165,32 @@ export class PathFollower {
     return this.currentWaypointIndex;
   }
 
+  /**
+   * Returns the follower's progress so it can be saved and restored with
+   * `PathFollower.deserialize()`.
+   */
+  serialize(): PathFollowerState {
+    return {
+      waypointIndex: this.currentWaypointIndex,
+      distanceTraveled: this.distanceTraveled,
+      finished: this.finished,
+    };
+  }
+
+  /**
+   * Rebuild a follower on `waypoints` with previously saved progress.
+   * Throws if the waypoint index does not fit the route.
+   */
+  static deserialize(waypoints: Waypoint[], state: PathFollowerState): PathFollower {
+    if (state.waypointIndex < 1 || state.waypointIndex >= waypoints.length) {
+      throw new Error(`PathFollower: waypoint index ${state.waypointIndex} is outside the route`);
+    }
+    const follower = new PathFollower(waypoints, state.waypointIndex - 1);
+    follower.distanceTraveled = Math.min(follower.totalPathLength, Math.max(0, state.distanceTraveled));
+    follower.finished = state.finished;
+    return follower;
+  }
+
   /**
    * Compute the next position given the current position, speed, and elapsed
    * time. Handles crossing multiple waypoints in a single frame if the
@@ -113,7 +213,7 @@ export class PathFollower {
 
     while (remaining > 0 && !this.finished) {
       const target = this.waypoints[this.currentWaypointIndex];
-      const distToTarget = Phaser.Math.Distance.Between(x, y, target.x, target.y);
+      const distToTarget = Math.hypot(target.x - x, target.y - y);
 
       if (distToTarget <= remaining) {
         // We can reach (or pass) this waypoint
@@ -132,7 +232,7 @@ export class PathFollower {
         }
       } else {
         // Move toward the target but do not reach it
-        const angle = Phaser.Math.Angle.Between(x, y, target.x, target.y);
+        const angle = Math.atan2(target.y - y, target.x - x);
         x += Math.cos(angle) * remaining;
         y += Math.sin(angle) * remaining;
         this.distanceTraveled += remaining;
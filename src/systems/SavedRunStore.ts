@@ -0,0 +1,75 @@
+import { parseReplay, Replay } from '../sim/Replay';
+import type { SimulationSnapshot } from '../sim/Simulation';
+
+/** Bumped whenever the saved run layout changes incompatibly. */
+const SAVED_RUN_VERSION = 1;
+
+/** A level left mid-way: the simulation state plus the replay recorded so far. */
+export interface SavedRun {
+  version: number;
+  /** Date.now() when the run was saved. */
+  savedAt: number;
+  snapshot: SimulationSnapshot;
+  /** Seed, pack and actions up to the save, so the resumed run keeps one replay. */
+  replay: Replay;
+}
+
+/**
+ * SavedRunStore -- a single mid-level save slot in browser storage.
+ * GameScene writes to it every few seconds and clears it when the level
+ * ends; the menu offers "Continue" while it holds a run.
+ *
+ * A stored run that is corrupt or from an older format is ignored. The
+ * snapshot's contents are only checked in outline here; `Simulation.restore()`
+ * rejects anything that does not fit the level.
+ */
+export class SavedRunStore {
+  /** Storage key holding the JSON saved run. */
+  static readonly STORAGE_KEY = 'earth-defense.saved-run';
+
+  private storage: Storage;
+
+  constructor(storage: Storage = window.localStorage) {
+    this.storage = storage;
+  }
+
+  /** Store a run, replacing any earlier one. */
+  save(snapshot: SimulationSnapshot, replay: Replay): void {
+    const run: SavedRun = { version: SAVED_RUN_VERSION, savedAt: Date.now(), snapshot, replay };
+    this.storage.setItem(SavedRunStore.STORAGE_KEY, JSON.stringify(run));
+  }
+
+  /** The stored run, or null if there is none or it cannot be used. */
+  load(): SavedRun | null {
+    const stored = this.storage.getItem(SavedRunStore.STORAGE_KEY);
+    if (!stored) return null;
+    try {
+      const data = JSON.parse(stored);
+      if (data?.version !== SAVED_RUN_VERSION || typeof data.savedAt !== 'number') return null;
+
+      const replay = parseReplay(JSON.stringify(data.replay));
+      const snapshot = data.snapshot as SimulationSnapshot;
+      if (!isSnapshot(snapshot) || snapshot.level !== replay.level || snapshot.seed !== replay.seed) return null;
+
+      return { version: SAVED_RUN_VERSION, savedAt: data.savedAt, snapshot, replay };
+    } catch {
+      return null;
+    }
+  }
+
+  clear(): void {
+    this.storage.removeItem(SavedRunStore.STORAGE_KEY);
+  }
+}
+
+/** Outline check of a stored snapshot: top-level numbers and sections. */
+function isSnapshot(value: unknown): value is SimulationSnapshot {
+  if (typeof value !== 'object' || value === null) return false;
+  const s = value as Record<string, unknown>;
+  const numbers = ['level', 'seed', 'rngState', 'tick', 'lives', 'totalEnemies', 'enemiesKilled'];
+  if (!numbers.every((key) => typeof s[key] === 'number')) return false;
+  if (typeof s.economy !== 'object' || s.economy === null) return false;
+  if (!Array.isArray(s.towers)) return false;
+  const spawner = s.spawner as Record<string, unknown> | null;
+  return typeof spawner === 'object' && spawner !== null && Array.isArray(spawner.enemies);
+}
@@ -135,6 +135,8 @@ export class SoundManager {
     this.bufferCache.set('shoot-cryo', this.genShootCryo());
     this.bufferCache.set('shoot-railgun', this.genShootRailgun());
     this.bufferCache.set('shoot-pulse', this.genShootPulse());
+    this.bufferCache.set('shoot-sensor', this.genShootSensor());
+    this.bufferCache.set('beam-hum', this.genBeamHum());
 
     // Enemy sounds
     this.bufferCache.set('enemy-death', this.genEnemyDeath());
@@ -291,6 +293,40 @@ export class SoundManager {
     });
   }
 
+  /**
+   * shoot-sensor: Short sonar "ping" -- 1400Hz sine with a fast attack
+   * and a ringing decay. 150ms duration.
+   */
+  private genShootSensor(): AudioBuffer {
+    const duration = 0.15;
+    return this.createBuffer(duration, (data, sr) => {
+      for (let i = 0; i < data.length; i++) {
+        const t = i / sr;
+        const env = this.adEnvelope(t, duration, 0.003);
+        data[i] = Math.sin(2 * Math.PI * 1400 * t) * env * 0.35;
+      }
+    });
+  }
+
+  /**
+   * beam-hum: Buzzing electric hum -- 120Hz tone with a 240Hz overtone and
+   * a slight waver, swelling in and fading out. Played once per second
+   * while a beam holds, so the pulses run into each other. 1s duration.
+   */
+  private genBeamHum(): AudioBuffer {
+    const duration = 1;
+    return this.createBuffer(duration, (data, sr) => {
+      let phase = 0;
+      for (let i = 0; i < data.length; i++) {
+        const t = i / sr;
+        const env = this.adEnvelope(t, duration, 0.15);
+        const freq = 120 + 4 * Math.sin(2 * Math.PI * 6 * t);
+        phase += (2 * Math.PI * freq) / sr;
+        data[i] = (Math.sin(phase) * 0.6 + Math.sin(2 * phase) * 0.4) * env * 0.25;
+      }
+    });
+  }
+
   // -------------------------------------------------------------------
   // Enemy sounds
   // -------------------------------------------------------------------
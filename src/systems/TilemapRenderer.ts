@@ -1,5 +1,6 @@
 import Phaser from 'phaser';
 import {
+  getWorldPathPoints,
   MapConfig,
   TileType,
   TILE_SIZE,
@@ -114,16 +115,34 @@ export class TilemapRenderer {
     return this.buildSlots;
   }
 
+  /**
+   * Draw a single tile centred at (x, y) and `size` pixels wide, using the
+   * generated tile texture when available and the placeholder colour
+   * otherwise. Used by the level editor, which repaints tiles one by one.
+   */
+  static createTile(
+    scene: Phaser.Scene,
+    tile: TileType,
+    x: number,
+    y: number,
+    size: number = TILE_SIZE,
+  ): Phaser.GameObjects.Image | Phaser.GameObjects.Rectangle {
+    const textureKey = TILE_TEXTURE_KEYS[tile];
+    if (textureKey && scene.textures.exists(textureKey)) {
+      return scene.add.image(x, y, textureKey).setDisplaySize(size, size);
+    }
+    const color = TILE_COLORS[tile] ?? TILE_COLORS[TileType.Ground];
+    return scene.add.rectangle(x, y, size, size, color);
+  }
+
   /**
    * Converts the map's tile-coordinate path points into world-coordinate
    * waypoints (centre of each tile).  Enemy movement systems should follow
-   * these points in order.
+   * these points in order.  Maps with named `paths` are described by
+   * `getPathGraph()` instead.
    */
   getPathPoints(): { x: number; y: number }[] {
-    return this.map.pathPoints.map((p) => ({
-      x: p.x * TILE_SIZE + TILE_SIZE / 2,
-      y: p.y * TILE_SIZE + TILE_SIZE / 2,
-    }));
+    return getWorldPathPoints(this.map);
   }
 
   // -----------------------------------------------------------------------
@@ -1,27 +1,30 @@
-import Phaser from 'phaser';
-import { Tower } from '../entities/Tower';
 import { TOWERS } from '../config/towers';
+import { Emitter } from '../sim/Emitter';
+import { SimTower, SimTowerState } from '../sim/SimTower';
+import type { SimEnemy } from '../sim/SimEnemy';
+import type { SimProjectile } from '../sim/SimProjectile';
 
 /**
  * TowerManager
  *
- * Central manager for tower lifecycle: placement, upgrades, selling, and per-frame updates.
- * Emits Phaser events so that UI and other systems can react to tower actions.
+ * Central manager for tower lifecycle: placement, upgrades, selling, and per-step updates.
+ * Part of the headless simulation -- it owns `SimTower` models and emits events so that
+ * renderers, UI and other systems can react to tower actions.
  *
  * Events emitted (via this.events):
- *   'tower-placed'   { tower: Tower }
- *   'tower-sold'     { tower: Tower, refund: number }
- *   'tower-upgraded' { tower: Tower, newTier: number, cost: number }
+ *   'tower-placed'     { tower: SimTower }
+ *   'tower-sold'       { tower: SimTower, refund: number }
+ *   'tower-upgraded'   { tower: SimTower, newTier: number, specialization: string | null, cost: number }
+ *   'projectile-fired' { tower: SimTower, projectile: SimProjectile }
+ *   'auras-changed'    (support auras were recomputed; buffed stats may differ)
  */
 export class TowerManager {
-  public readonly events: Phaser.Events.EventEmitter;
+  public readonly events: Emitter;
 
-  private towers: Tower[] = [];
-  private scene: Phaser.Scene;
+  private towers: SimTower[] = [];
 
-  constructor(scene: Phaser.Scene) {
-    this.scene = scene;
-    this.events = new Phaser.Events.EventEmitter();
+  constructor() {
+    this.events = new Emitter();
   }
 
   // ----------------------------------------------------------------
@@ -33,9 +36,9 @@ export class TowerManager {
    * @param tileX - tile grid X coordinate
    * @param tileY - tile grid Y coordinate
    * @param towerKey - key into TOWERS config (e.g. 'laser')
-   * @returns the newly created Tower, or null if placement is invalid
+   * @returns the newly created SimTower, or null if placement is invalid
    */
-  public placeTower(tileX: number, tileY: number, towerKey: string): Tower | null {
+  public placeTower(tileX: number, tileY: number, towerKey: string): SimTower | null {
     // Validate tower key
     if (!TOWERS[towerKey]) {
       console.warn(`TowerManager.placeTower: unknown tower key "${towerKey}"`);
@@ -48,18 +51,14 @@ export class TowerManager {
       return null;
     }
 
-    const tower = new Tower(this.scene, tileX, tileY, towerKey);
-    this.towers.push(tower);
-
-    this.events.emit('tower-placed', { tower });
-    return tower;
+    return this.addTower(new SimTower(tileX, tileY, towerKey));
   }
 
   /**
-   * Remove and destroy a tower, returning its sell value.
+   * Remove a tower, returning its sell value.
    * @returns the credit refund amount, or 0 if the tower was not found
    */
-  public removeTower(tower: Tower): number {
+  public removeTower(tower: SimTower): number {
     const idx = this.towers.indexOf(tower);
     if (idx === -1) {
       console.warn('TowerManager.removeTower: tower not found in managed list');
@@ -70,23 +69,25 @@ export class TowerManager {
     this.towers.splice(idx, 1);
 
     this.events.emit('tower-sold', { tower, refund });
+    this.refreshAuras();
 
     tower.destroy();
     return refund;
   }
 
   /**
-   * Upgrade a tower to the next tier.
-   * @returns the cost paid for the upgrade, or 0 if already at max tier
+   * Upgrade a tower to the next tier, taking the named specialization at
+   * tier 3 (see `SimTower.upgrade()`).
+   * @returns the cost paid for the upgrade, or 0 if the upgrade is not possible
    */
-  public upgradeTower(tower: Tower): number {
+  public upgradeTower(tower: SimTower, specialization?: string): number {
     if (tower.currentTier >= 3) {
       console.warn('TowerManager.upgradeTower: tower is already at max tier');
       return 0;
     }
 
     const cost = tower.config.upgradeCosts[tower.currentTier - 1];
-    const success = tower.upgrade();
+    const success = tower.upgrade(specialization);
 
     if (!success) {
       return 0;
@@ -95,8 +96,10 @@ export class TowerManager {
     this.events.emit('tower-upgraded', {
       tower,
       newTier: tower.currentTier,
+      specialization: tower.specialization,
       cost,
     });
+    this.refreshAuras();
 
     return cost;
   }
@@ -105,7 +108,7 @@ export class TowerManager {
    * Get the upgrade cost for a tower's next tier.
    * @returns the cost, or -1 if already at max tier
    */
-  public getUpgradeCost(tower: Tower): number {
+  public getUpgradeCost(tower: SimTower): number {
     if (tower.currentTier >= 3) return -1;
     return tower.config.upgradeCosts[tower.currentTier - 1];
   }
@@ -113,11 +116,10 @@ export class TowerManager {
   /**
    * Returns the tower occupying the given tile, or null.
    */
-  public getTowerAt(tileX: number, tileY: number): Tower | null {
-    const pos = { x: tileX, y: tileY };
+  public getTowerAt(tileX: number, tileY: number): SimTower | null {
     for (const tower of this.towers) {
       const tp = tower.getTilePos();
-      if (tp.x === pos.x && tp.y === pos.y) {
+      if (tp.x === tileX && tp.y === tileY) {
         return tower;
       }
     }
@@ -127,7 +129,7 @@ export class TowerManager {
   /**
    * Returns a read-only snapshot of all currently placed towers.
    */
-  public getAllTowers(): readonly Tower[] {
+  public getAllTowers(): readonly SimTower[] {
     return this.towers;
   }
 
@@ -139,24 +141,84 @@ export class TowerManager {
   }
 
   /**
-   * Called every frame by the game scene's update loop.
-   * Forwards the update call to each tower with the current enemy list.
-   *
-   * Also writes the enemy array into the scene data store so that
-   * projectiles can discover enemies for splash damage resolution.
+   * Capture every placed tower, in placement order. Beam targets are saved
+   * by their index in `enemies`, the enemy list saved alongside.
+   */
+  public serialize(enemies: readonly SimEnemy[] = []): SimTowerState[] {
+    return this.towers.map((tower) => tower.serialize(enemies));
+  }
+
+  /**
+   * Place the towers of a saved run. Each one is announced with
+   * 'tower-placed' like a freshly built tower. Throws if a saved tower
+   * cannot be recreated or two share a tile.
+   */
+  public restore(states: readonly SimTowerState[], enemies: readonly SimEnemy[] = []): void {
+    for (const state of states) {
+      if (this.getTowerAt(state.tileX, state.tileY)) {
+        throw new Error(`TowerManager.restore: tile (${state.tileX}, ${state.tileY}) already occupied`);
+      }
+      this.addTower(SimTower.deserialize(state, enemies));
+    }
+  }
+
+  /**
+   * Credits per second all placed towers add to passive income.
+   */
+  public getIncomeBonus(): number {
+    return this.towers.reduce((sum, tower) => sum + tower.incomeBonus, 0);
+  }
+
+  /**
+   * Called once per simulation step.
+   * Marks the enemies inside any detector's radius, then forwards the update
+   * call to each tower with the current enemy list. A marked enemy is only
+   * targetable while it stays in that radius, so detection helps the towers
+   * whose range overlaps it, not every tower on the map.
    */
-  public updateAll(time: number, delta: number, enemies: any[]): void {
-    // Publish enemies to scene data so Projectile can access them for splash.
-    this.scene.data.set('enemies', enemies);
+  public updateAll(delta: number, enemies: readonly SimEnemy[]): void {
+    const detectors = this.towers.filter((tower) => tower.detectionRadius > 0);
+    for (const enemy of enemies) {
+      enemy.setDetected(detectors.some((tower) => tower.detects(enemy)));
+    }
 
     for (const tower of this.towers) {
-      tower.update(time, delta, enemies);
+      tower.update(delta, enemies);
+    }
+  }
+
+  /**
+   * Take ownership of a tower: forward its projectiles and announce it.
+   */
+  private addTower(tower: SimTower): SimTower {
+    tower.on('projectile-fired', (projectile: SimProjectile) => {
+      this.events.emit('projectile-fired', { tower, projectile });
+    });
+    this.towers.push(tower);
+
+    this.events.emit('tower-placed', { tower });
+    this.refreshAuras();
+    return tower;
+  }
+
+  /**
+   * Work out which support auras reach each tower. Towers never move, so
+   * this only runs when a tower is placed, upgraded or sold.
+   */
+  private refreshAuras(): void {
+    const supports = this.towers.filter((tower) => tower.getBaseTierStats().aura);
+    for (const tower of this.towers) {
+      const buffs = supports
+        .filter((support) => support.auraReaches(tower))
+        .map((support) => ({ source: support, aura: support.getBaseTierStats().aura! }));
+      tower.setBuffs(buffs);
     }
+    this.events.emit('auras-changed');
   }
 
   /**
    * Destroy all towers and clean up event listeners.
-   * Call this when the scene shuts down.
+   * Call this when the simulation is torn down.
    */
   public destroy(): void {
     for (const tower of this.towers) {
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { CampaignProgress } from '../CampaignProgress';
+import { LEVELS } from '../../config/levels';
+import type { LevelStats } from '../../ui/HUD';
+
+/**
+ * Test suite for CampaignProgress star ratings, best results and unlocking.
+ */
+
+function stats(level: number, livesRemaining: number, livesMax: number = 20): LevelStats {
+  return { enemiesKilled: 50, creditsEarned: 500, level, livesRemaining, livesMax, isVictory: true };
+}
+
+describe('CampaignProgress', () => {
+  let progress: CampaignProgress;
+
+  beforeEach(() => {
+    localStorage.clear();
+    progress = new CampaignProgress(localStorage);
+  });
+
+  // ──────────────────────────────────────────────
+  // Stars
+  // ──────────────────────────────────────────────
+
+  it('should award stars from the lives kept', () => {
+    expect(CampaignProgress.calculateStars(stats(1, 20))).toBe(3);
+    expect(CampaignProgress.calculateStars(stats(1, 19))).toBe(2);
+    expect(CampaignProgress.calculateStars(stats(1, 10))).toBe(2);
+    expect(CampaignProgress.calculateStars(stats(1, 9))).toBe(1);
+  });
+
+  it('should award one star when lives are unknown', () => {
+    expect(CampaignProgress.calculateStars({ enemiesKilled: 0, creditsEarned: 0, level: 1 })).toBe(1);
+  });
+
+  // ──────────────────────────────────────────────
+  // Recording
+  // ──────────────────────────────────────────────
+
+  it('should only ever improve the stored result', () => {
+    expect(progress.recordCompletion(stats(1, 12))).toEqual({ stars: 2, newBest: true });
+    expect(progress.recordCompletion(stats(1, 5))).toEqual({ stars: 1, newBest: false });
+    expect(progress.getRecord(1)).toEqual({ stars: 2, bestLives: 12 });
+
+    expect(progress.recordCompletion(stats(1, 20))).toEqual({ stars: 3, newBest: true });
+    expect(progress.getRecord(1)).toEqual({ stars: 3, bestLives: 20 });
+  });
+
+  it('should throw when the level number is missing', () => {
+    expect(() => progress.recordCompletion({ enemiesKilled: 0, creditsEarned: 0 })).toThrow(/level number/);
+  });
+
+  it('should keep progress across instances', () => {
+    progress.recordCompletion(stats(1, 20));
+    progress.recordCompletion(stats(2, 3));
+    const reloaded = new CampaignProgress(localStorage);
+    expect(reloaded.getRecord(1)?.stars).toBe(3);
+    expect(reloaded.getTotalStars()).toBe(4);
+  });
+
+  it('should ignore corrupt stored progress', () => {
+    localStorage.setItem(CampaignProgress.STORAGE_KEY, '{not json');
+    expect(new CampaignProgress(localStorage).getTotalStars()).toBe(0);
+
+    localStorage.setItem(CampaignProgress.STORAGE_KEY, JSON.stringify({ version: 99, levels: { 1: {} } }));
+    expect(new CampaignProgress(localStorage).isCompleted(1)).toBe(false);
+  });
+
+  it('should forget everything on reset', () => {
+    progress.recordCompletion(stats(1, 20));
+    progress.reset();
+    expect(new CampaignProgress(localStorage).isCompleted(1)).toBe(false);
+  });
+
+  // ──────────────────────────────────────────────
+  // Unlocking
+  // ──────────────────────────────────────────────
+
+  it('should unlock each level once the previous one is cleared', () => {
+    const [first, second, third] = LEVELS;
+    expect(progress.isUnlocked(first.level)).toBe(true);
+    expect(progress.isUnlocked(second.level)).toBe(false);
+
+    progress.recordCompletion(stats(first.level, 1));
+    expect(progress.isUnlocked(second.level)).toBe(true);
+    expect(progress.isUnlocked(third.level)).toBe(false);
+  });
+
+  it('should treat unknown levels as locked', () => {
+    expect(progress.isUnlocked(999)).toBe(false);
+  });
+});
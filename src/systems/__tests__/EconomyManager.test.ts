@@ -86,6 +86,27 @@ describe('EconomyManager', () => {
     });
   });
 
+  describe('addBonus', () => {
+    it('should add the bonus to the balance and totalEarned', () => {
+      economy.addBonus(24);
+      expect(economy.getCredits()).toBe(224);
+      expect(economy.getStats().totalEarned).toBe(224);
+    });
+
+    it('should track bonuses separately from kill rewards', () => {
+      economy.addBonus(10);
+      const stats = economy.getStats();
+      expect(stats.totalFromBonus).toBe(10);
+      expect(stats.totalFromKills).toBe(0);
+    });
+
+    it('should ignore zero or negative amounts', () => {
+      economy.addBonus(0);
+      economy.addBonus(-5);
+      expect(economy.getCredits()).toBe(200);
+    });
+  });
+
   describe('spendCredits', () => {
     it('should deduct credits and return true on success', () => {
       const result = economy.spendCredits(50);
@@ -180,6 +201,15 @@ describe('EconomyManager', () => {
       expect(noIncomeEconomy.getCredits()).toBe(200);
     });
 
+    it('should add the relay bonus rate to the passive income', () => {
+      economy.update(1000, 3); // 5 + 3 credits/sec
+      expect(economy.getCredits()).toBe(208);
+
+      const noIncomeEconomy = new EconomyManager(createTestLevel({ passiveIncomeRate: 0 }));
+      noIncomeEconomy.update(1000, 2);
+      expect(noIncomeEconomy.getStats().totalFromPassive).toBe(2);
+    });
+
     it('should track passive income in stats separately from kill credits', () => {
       economy.update(1000); // +5 from passive
       economy.addCredits(10); // +10 from kills
@@ -414,6 +444,27 @@ describe('EconomyManager', () => {
     });
   });
 
+  describe('serialize / restore', () => {
+    it('should carry balance, stats and fractional income over to a new manager', () => {
+      economy.addCredits(50);
+      economy.update(300); // 1.5 credits: 1 paid, 0.5 carried
+      economy.buyTower('laser');
+
+      const restored = new EconomyManager(level);
+      const listener = vi.fn();
+      restored.on('credits-changed', listener);
+      restored.restore(JSON.parse(JSON.stringify(economy.serialize())));
+
+      expect(restored.getCredits()).toBe(economy.getCredits());
+      expect(restored.getStats()).toEqual(economy.getStats());
+      expect(listener).toHaveBeenCalledWith(economy.getCredits());
+
+      // The carried half credit pays out together with the next half
+      restored.update(100);
+      expect(restored.getCredits()).toBe(economy.getCredits() + 1);
+    });
+  });
+
   // ──────────────────────────────────────────────
   // Event emission
   // ──────────────────────────────────────────────
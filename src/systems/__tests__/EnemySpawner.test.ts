@@ -0,0 +1,439 @@
+import { describe, it, expect } from 'vitest';
+import { EnemySpawner } from '../EnemySpawner';
+import { LevelConfig, WaveSegment } from '../../config/levels';
+import { ENEMIES } from '../../config/enemies';
+import { SeededRandom } from '../../sim/Random';
+import { SimEnemy } from '../../sim/SimEnemy';
+import type { PathGraph } from '../../config/maps';
+
+/**
+ * Test suite for EnemySpawner segment handling: sequential trickle,
+ * concurrent offset segments, weighted enemy mixes, per-segment
+ * HP / speed scaling, spawn path selection, heal pulses and level bosses.
+ */
+
+const STEP_MS = 1000 / 60;
+
+// Long straight path so nothing reaches the base during a test.
+const STRAIGHT_PATH: PathGraph = {
+  paths: {
+    main: {
+      name: 'main',
+      points: [
+        { x: 0, y: 0 },
+        { x: 100_000, y: 0 },
+      ],
+      next: [],
+    },
+  },
+  entries: ['main'],
+};
+
+// Two spawns: 'north' runs straight to the base, 'south' forks into two
+// branches that both end at the base.
+const TWO_SPAWNS: PathGraph = {
+  paths: {
+    north: { name: 'north', points: [{ x: 0, y: 0 }, { x: 1000, y: 0 }], next: [] },
+    south: {
+      name: 'south',
+      points: [{ x: 0, y: 500 }, { x: 200, y: 500 }],
+      next: [{ path: 'low', weight: 1 }, { path: 'high', weight: 1 }],
+    },
+    low: { name: 'low', points: [{ x: 200, y: 500 }, { x: 1000, y: 600 }], next: [] },
+    high: { name: 'high', points: [{ x: 200, y: 500 }, { x: 1000, y: 400 }], next: [] },
+  },
+  entries: ['north', 'south'],
+};
+
+// Minimal LevelConfig fixture for testing.
+function createTestLevel(segments: WaveSegment[], overrides: Partial<LevelConfig> = {}): LevelConfig {
+  return {
+    level: 1,
+    name: 'Test Level',
+    theme: 'test',
+    startingCredits: 200,
+    passiveIncomeRate: 5,
+    lives: 10,
+    buildSlots: 8,
+    hpScale: 1.0,
+    segments,
+    ...overrides,
+  };
+}
+
+/** Run the spawner for `seconds` and collect every enemy it spawned. */
+function runFor(spawner: EnemySpawner, seconds: number): SimEnemy[] {
+  const spawned: SimEnemy[] = [];
+  spawner.on('enemy-spawned', (data: { enemy: SimEnemy }) => spawned.push(data.enemy));
+  const steps = Math.round((seconds * 1000) / STEP_MS);
+  for (let i = 0; i < steps; i++) spawner.update(STEP_MS);
+  return spawned;
+}
+
+function countByKey(enemies: SimEnemy[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const e of enemies) counts[e.enemyKey] = (counts[e.enemyKey] ?? 0) + 1;
+  return counts;
+}
+
+describe('EnemySpawner', () => {
+  // ──────────────────────────────────────────────
+  // Sequential and concurrent segments
+  // ──────────────────────────────────────────────
+
+  describe('segment scheduling', () => {
+    it('should play segments without a start offset one after another', () => {
+      const spawner = new EnemySpawner(
+        STRAIGHT_PATH,
+        createTestLevel([
+          { enemyKey: 'drone', count: 3, spawnInterval: 1 },
+          { enemyKey: 'brute', count: 2, spawnInterval: 1 },
+        ]),
+        new SeededRandom(1),
+      );
+      const spawned = runFor(spawner, 10);
+      expect(spawned.map((e) => e.enemyKey)).toEqual(['drone', 'drone', 'drone', 'brute', 'brute']);
+    });
+
+    it('should run offset segments alongside the sequence', () => {
+      const spawner = new EnemySpawner(
+        STRAIGHT_PATH,
+        createTestLevel([
+          { enemyKey: 'brute', count: 4, spawnInterval: 2 },
+          { enemyKey: 'skitter', count: 6, spawnInterval: 0.5, startOffset: 1 },
+        ]),
+        new SeededRandom(1),
+      );
+      const spawned = runFor(spawner, 4);
+      const keys = spawned.map((e) => e.enemyKey);
+      // Escorts start while brutes are still spawning
+      expect(keys[0]).toBe('brute');
+      expect(keys).toContain('skitter');
+      expect(keys.lastIndexOf('brute')).toBeGreaterThan(keys.indexOf('skitter'));
+    });
+
+    it('should hold an offset segment back until its start offset has elapsed', () => {
+      const spawner = new EnemySpawner(
+        STRAIGHT_PATH,
+        createTestLevel([{ enemyKey: 'drone', count: 1, spawnInterval: 1, startOffset: 3 }]),
+        new SeededRandom(1),
+      );
+      expect(runFor(spawner, 2.9)).toHaveLength(0);
+      expect(runFor(spawner, 0.2)).toHaveLength(1);
+    });
+
+    it('should not complete until offset segments have spawned', () => {
+      const spawner = new EnemySpawner(
+        STRAIGHT_PATH,
+        createTestLevel([
+          { enemyKey: 'drone', count: 1, spawnInterval: 1 },
+          { enemyKey: 'drone', count: 1, spawnInterval: 1, startOffset: 5 },
+        ]),
+        new SeededRandom(1),
+      );
+      const spawned = runFor(spawner, 1);
+      spawned.forEach((e) => e.takeDamage(10_000));
+      spawner.update(STEP_MS);
+      expect(spawner.isComplete()).toBe(false);
+    });
+
+    it('should delay wave segments by their start offset from the wave start', () => {
+      const spawner = new EnemySpawner(
+        STRAIGHT_PATH,
+        createTestLevel([], {
+          waves: [
+            {
+              name: 'Escort',
+              buildTime: 0,
+              segments: [
+                { enemyKey: 'brute', count: 1, spawnInterval: 1 },
+                { enemyKey: 'skitter', count: 1, spawnInterval: 1, startOffset: 2 },
+              ],
+            },
+          ],
+        }),
+        new SeededRandom(1),
+      );
+      expect(countByKey(runFor(spawner, 1))).toEqual({ brute: 1 });
+      expect(countByKey(runFor(spawner, 2))).toEqual({ skitter: 1 });
+    });
+  });
+
+  // ──────────────────────────────────────────────
+  // Weighted mixes
+  // ──────────────────────────────────────────────
+
+  describe('enemy mix', () => {
+    it('should pick enemy types according to their weights', () => {
+      const spawner = new EnemySpawner(
+        STRAIGHT_PATH,
+        createTestLevel([
+          {
+            mix: [
+              { enemyKey: 'drone', weight: 3 },
+              { enemyKey: 'brute', weight: 1 },
+            ],
+            count: 400,
+            spawnInterval: 0.01,
+          },
+        ]),
+        new SeededRandom(42),
+      );
+      const counts = countByKey(runFor(spawner, 10));
+      expect(counts.drone + counts.brute).toBe(400);
+      expect(counts.drone / 400).toBeGreaterThan(0.65);
+      expect(counts.drone / 400).toBeLessThan(0.85);
+    });
+
+    it('should never pick a zero-weight entry', () => {
+      const spawner = new EnemySpawner(
+        STRAIGHT_PATH,
+        createTestLevel([
+          {
+            mix: [
+              { enemyKey: 'drone', weight: 1 },
+              { enemyKey: 'brute', weight: 0 },
+            ],
+            count: 50,
+            spawnInterval: 0.01,
+          },
+        ]),
+        new SeededRandom(3),
+      );
+      expect(countByKey(runFor(spawner, 5))).toEqual({ drone: 50 });
+    });
+
+    it('should reject a segment with no enemy type', () => {
+      const level = createTestLevel([{ count: 5, spawnInterval: 1 }]);
+      expect(() => new EnemySpawner(STRAIGHT_PATH, level, new SeededRandom(1))).toThrow(/enemyKey or a non-empty mix/);
+    });
+
+    it('should reject a mix without any positive weight', () => {
+      const level = createTestLevel([{ mix: [{ enemyKey: 'drone', weight: 0 }], count: 5, spawnInterval: 1 }]);
+      expect(() => new EnemySpawner(STRAIGHT_PATH, level, new SeededRandom(1))).toThrow(/positive weight/);
+    });
+  });
+
+  // ──────────────────────────────────────────────
+  // Spawn paths
+  // ──────────────────────────────────────────────
+
+  describe('spawn paths', () => {
+    it('should start enemies on the path a segment names', () => {
+      const spawner = new EnemySpawner(
+        TWO_SPAWNS,
+        createTestLevel([{ enemyKey: 'drone', count: 5, spawnInterval: 0.1, path: 'south' }]),
+        new SeededRandom(1),
+      );
+      const spawned = runFor(spawner, 1);
+      expect(spawned).toHaveLength(5);
+      expect(spawned.every((e) => e.route[0].y === 500)).toBe(true);
+    });
+
+    it('should spread unnamed segments across every entry path', () => {
+      const spawner = new EnemySpawner(
+        TWO_SPAWNS,
+        createTestLevel([{ enemyKey: 'drone', count: 40, spawnInterval: 0.05 }]),
+        new SeededRandom(9),
+      );
+      const startYs = new Set(runFor(spawner, 3).map((e) => e.route[0].y));
+      expect(startYs).toEqual(new Set([0, 500]));
+    });
+
+    it('should send enemies down both branches of a fork', () => {
+      const spawner = new EnemySpawner(
+        TWO_SPAWNS,
+        createTestLevel([{ enemyKey: 'drone', count: 40, spawnInterval: 0.05, path: 'south' }]),
+        new SeededRandom(9),
+      );
+      const endYs = new Set(runFor(spawner, 3).map((e) => e.route[e.route.length - 1].y));
+      expect(endYs).toEqual(new Set([400, 600]));
+    });
+
+    it('should reject a segment naming an unknown path', () => {
+      const level = createTestLevel([{ enemyKey: 'drone', count: 1, spawnInterval: 1, path: 'west' }]);
+      expect(() => new EnemySpawner(TWO_SPAWNS, level, new SeededRandom(1))).toThrow(/unknown path "west"/);
+    });
+  });
+
+  // ──────────────────────────────────────────────
+  // Per-segment scaling
+  // ──────────────────────────────────────────────
+
+  describe('segment overrides', () => {
+    it('should use the level hpScale by default', () => {
+      const spawner = new EnemySpawner(
+        STRAIGHT_PATH,
+        createTestLevel([{ enemyKey: 'brute', count: 1, spawnInterval: 1 }], { hpScale: 2 }),
+        new SeededRandom(1),
+      );
+      const [brute] = runFor(spawner, 0.1);
+      expect(brute.maxHp).toBe(Math.round(ENEMIES.brute.baseHp * 2));
+    });
+
+    it('should replace the level hpScale with the segment hpScale', () => {
+      const spawner = new EnemySpawner(
+        STRAIGHT_PATH,
+        createTestLevel([{ enemyKey: 'brute', count: 1, spawnInterval: 1, hpScale: 0.5 }], { hpScale: 2 }),
+        new SeededRandom(1),
+      );
+      const [brute] = runFor(spawner, 0.1);
+      expect(brute.maxHp).toBe(Math.round(ENEMIES.brute.baseHp * 0.5));
+    });
+
+    it('should scale movement speed by the segment speedScale', () => {
+      const spawner = new EnemySpawner(
+        STRAIGHT_PATH,
+        createTestLevel([
+          { enemyKey: 'drone', count: 1, spawnInterval: 1 },
+          { enemyKey: 'drone', count: 1, spawnInterval: 1, startOffset: 0, speedScale: 2 },
+        ]),
+        new SeededRandom(1),
+      );
+      const [normal, fast] = runFor(spawner, 1);
+      expect(fast.speedScale).toBe(2);
+      expect(fast.x).toBeCloseTo(normal.x * 2, 0);
+    });
+  });
+
+  // ──────────────────────────────────────────────
+  // Heal pulses
+  // ──────────────────────────────────────────────
+
+  describe('heal pulses', () => {
+    it('should heal other enemies within the radius, but not the healer', () => {
+      const spawner = new EnemySpawner(
+        STRAIGHT_PATH,
+        createTestLevel([{ enemyKey: 'brute', count: 1, spawnInterval: 1 }]),
+        new SeededRandom(1),
+      );
+      const [brute] = runFor(spawner, 0.1);
+      brute.takeDamage(100, undefined, Infinity);
+
+      let healed: SimEnemy[] = [];
+      spawner.on('enemies-healed', (data: { healed: SimEnemy[] }) => (healed = data.healed));
+      const mender = new SimEnemy(brute.x, 0, 'mender', [{ x: brute.x, y: 0 }, { x: 100_000, y: 0 }]);
+      mender.takeDamage(20);
+      spawner.restore({ ...spawner.serialize(), enemies: [brute.serialize(), mender.serialize()] });
+      runFor(spawner, 2.05);
+
+      expect(healed.map((e) => e.enemyKey)).toEqual(['brute']);
+      const [restoredBrute, restoredMender] = spawner.getActiveEnemies();
+      expect(restoredBrute.hp).toBe(restoredBrute.maxHp - 100 + 15);
+      expect(restoredMender.hp).toBe(restoredMender.maxHp - 20);
+    });
+  });
+
+  // ──────────────────────────────────────────────
+  // Boss
+  // ──────────────────────────────────────────────
+
+  describe('boss', () => {
+    const segments: WaveSegment[] = [{ enemyKey: 'drone', count: 1, spawnInterval: 1 }];
+
+    it('should spawn the boss once the last segment is exhausted and its delay has passed', () => {
+      const spawner = new EnemySpawner(
+        STRAIGHT_PATH,
+        createTestLevel(segments, { boss: { enemyKey: 'mothership', delay: 3 } }),
+        new SeededRandom(1),
+      );
+      expect(runFor(spawner, 2.9).map((e) => e.enemyKey)).toEqual(['drone']);
+      expect(runFor(spawner, 0.2).map((e) => e.enemyKey)).toEqual(['mothership']);
+    });
+
+    it('should not complete until the boss has spawned and been defeated', () => {
+      const spawner = new EnemySpawner(
+        STRAIGHT_PATH,
+        createTestLevel(segments, { boss: { enemyKey: 'mothership', delay: 3 } }),
+        new SeededRandom(1),
+      );
+      const [drone] = runFor(spawner, 1);
+      drone.takeDamage(1000);
+      runFor(spawner, 0.1);
+      expect(spawner.isComplete()).toBe(false);
+
+      const [boss] = runFor(spawner, 3);
+      expect(spawner.isComplete()).toBe(false);
+      boss.takeDamage(100_000);
+      runFor(spawner, 0.1);
+      expect(spawner.isComplete()).toBe(true);
+    });
+
+    it('should bring the boss in with the final wave', () => {
+      const spawner = new EnemySpawner(
+        STRAIGHT_PATH,
+        createTestLevel([], {
+          waves: [{ name: 'Last Stand', buildTime: 1, segments }],
+          boss: { enemyKey: 'mothership', delay: 2 },
+        }),
+        new SeededRandom(1),
+      );
+      const [drone] = runFor(spawner, 1.5);
+      drone.takeDamage(1000);
+      expect(runFor(spawner, 1)).toHaveLength(0);
+      expect(spawner.isComplete()).toBe(false);
+
+      const [boss] = runFor(spawner, 1);
+      expect(boss.enemyKey).toBe('mothership');
+      boss.takeDamage(100_000);
+      runFor(spawner, 0.1);
+      expect(spawner.isComplete()).toBe(true);
+    });
+
+    it('should release boss minions along the boss route', () => {
+      const spawner = new EnemySpawner(
+        TWO_SPAWNS,
+        createTestLevel(segments, { boss: { enemyKey: 'mothership', delay: 0, hpScale: 1, path: 'south' } }),
+        new SeededRandom(1),
+      );
+      let splitCount = 0;
+      spawner.on('enemies-spawned-from-split', (data: { count: number }) => (splitCount += data.count));
+      const boss = runFor(spawner, 0.1).find((e) => e.isBoss)!;
+
+      const minions: SimEnemy[] = [];
+      spawner.on('enemy-spawned', (data: { enemy: SimEnemy }) => minions.push(data.enemy));
+      boss.takeDamage(800, undefined, Infinity);
+      expect(splitCount).toBe(6);
+      expect(minions.map((e) => e.enemyKey)).toEqual(Array(6).fill('drone'));
+      for (const minion of minions) expect(minion.route).toEqual(boss.route);
+    });
+
+    it('should reject a boss on an unknown path', () => {
+      const level = createTestLevel(segments, { boss: { enemyKey: 'mothership', path: 'nowhere' } });
+      expect(() => new EnemySpawner(STRAIGHT_PATH, level, new SeededRandom(1))).toThrow(/unknown path/);
+    });
+  });
+
+  // ──────────────────────────────────────────────
+  // Save / restore
+  // ──────────────────────────────────────────────
+
+  describe('serialize / restore', () => {
+    const segments: WaveSegment[] = [
+      { enemyKey: 'drone', count: 4, spawnInterval: 1 },
+      { enemyKey: 'brute', count: 2, spawnInterval: 1, startOffset: 2 },
+    ];
+
+    it('should continue spawning where the saved spawner left off', () => {
+      const original = new EnemySpawner(STRAIGHT_PATH, createTestLevel(segments), new SeededRandom(3));
+      runFor(original, 2.5);
+      const state = JSON.parse(JSON.stringify(original.serialize()));
+
+      const restored = new EnemySpawner(STRAIGHT_PATH, createTestLevel(segments), new SeededRandom(3));
+      const announced = runFor(restored, 0);
+      restored.restore(state);
+      expect(announced).toHaveLength(state.enemies.length);
+      expect(restored.serialize()).toEqual(state);
+    });
+
+    it('should reject a state saved for a different level', () => {
+      const original = new EnemySpawner(STRAIGHT_PATH, createTestLevel(segments), new SeededRandom(3));
+      const other = new EnemySpawner(
+        STRAIGHT_PATH,
+        createTestLevel([{ enemyKey: 'drone', count: 4, spawnInterval: 1 }]),
+        new SeededRandom(3),
+      );
+      expect(() => other.restore(original.serialize())).toThrow(/do not match/);
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { DEFAULT_KEY_BINDINGS, HOTKEY_ACTIONS, KeyBindings, resolveUpgradeHotkey } from '../KeyBindings';
+import { SimTower } from '../../sim/SimTower';
+
+/**
+ * Test suite for KeyBindings lookups, rebinding and persistence.
+ */
+
+describe('KeyBindings', () => {
+  let bindings: KeyBindings;
+
+  beforeEach(() => {
+    localStorage.clear();
+    bindings = new KeyBindings(localStorage);
+  });
+
+  // ──────────────────────────────────────────────
+  // Defaults
+  // ──────────────────────────────────────────────
+
+  it('should start with the default bindings', () => {
+    for (const action of HOTKEY_ACTIONS) {
+      expect(bindings.getKey(action)).toBe(DEFAULT_KEY_BINDINGS[action]);
+    }
+    expect(bindings.getAction('Digit1')).toBe('tower-1');
+    expect(bindings.getAction('KeyU')).toBe('upgrade');
+    expect(bindings.getAction('KeyQ')).toBeUndefined();
+  });
+
+  it('should give every default action its own key', () => {
+    const keys = HOTKEY_ACTIONS.map((action) => DEFAULT_KEY_BINDINGS[action]);
+    expect(new Set(keys).size).toBe(keys.length);
+  });
+
+  it('should describe key codes briefly', () => {
+    expect(KeyBindings.describeKey('Digit3')).toBe('3');
+    expect(KeyBindings.describeKey('KeyU')).toBe('U');
+    expect(KeyBindings.describeKey('Escape')).toBe('Esc');
+    expect(KeyBindings.describeKey('Tab')).toBe('Tab');
+  });
+
+  // ──────────────────────────────────────────────
+  // Rebinding
+  // ──────────────────────────────────────────────
+
+  it('should rebind an action to a free key', () => {
+    expect(bindings.rebind('upgrade', 'KeyQ')).toBeUndefined();
+    expect(bindings.getKey('upgrade')).toBe('KeyQ');
+    expect(bindings.getAction('KeyQ')).toBe('upgrade');
+    expect(bindings.getAction('KeyU')).toBeUndefined();
+  });
+
+  it('should swap keys when the new key is already bound', () => {
+    expect(bindings.rebind('upgrade', 'KeyS')).toBe('sell');
+    expect(bindings.getKey('upgrade')).toBe('KeyS');
+    expect(bindings.getKey('sell')).toBe('KeyU');
+  });
+
+  it('should keep bindings across instances', () => {
+    bindings.rebind('pause', 'KeyP');
+    const reloaded = new KeyBindings(localStorage);
+    expect(reloaded.getKey('pause')).toBe('KeyP');
+  });
+
+  it('should restore the defaults on reset', () => {
+    bindings.rebind('pause', 'KeyP');
+    bindings.reset();
+    expect(bindings.getKey('pause')).toBe('Space');
+    expect(localStorage.getItem(KeyBindings.STORAGE_KEY)).toBeNull();
+  });
+
+  // ──────────────────────────────────────────────
+  // Stored data
+  // ──────────────────────────────────────────────
+
+  it('should ignore corrupt stored data', () => {
+    localStorage.setItem(KeyBindings.STORAGE_KEY, '{not json');
+    expect(new KeyBindings(localStorage).getKey('sell')).toBe('KeyS');
+  });
+
+  it('should fall back to the defaults when a stored key is bound twice', () => {
+    localStorage.setItem(
+      KeyBindings.STORAGE_KEY,
+      JSON.stringify({ version: 1, bindings: { upgrade: 'KeyS', sell: 'KeyS' } }),
+    );
+    const loaded = new KeyBindings(localStorage);
+    expect(loaded.getKey('upgrade')).toBe('KeyU');
+    expect(loaded.getKey('sell')).toBe('KeyS');
+  });
+
+  it('should fill in actions missing from stored data', () => {
+    localStorage.setItem(KeyBindings.STORAGE_KEY, JSON.stringify({ version: 1, bindings: { pause: 'KeyP' } }));
+    const loaded = new KeyBindings(localStorage);
+    expect(loaded.getKey('pause')).toBe('KeyP');
+    expect(loaded.getKey('cancel')).toBe('Escape');
+  });
+
+  // ──────────────────────────────────────────────
+  // Upgrade hotkeys
+  // ──────────────────────────────────────────────
+
+  describe('resolveUpgradeHotkey', () => {
+    it('should upgrade a tower below its branching point with the upgrade key only', () => {
+      const laser = new SimTower(2, 2, 'laser');
+      expect(resolveUpgradeHotkey('upgrade', laser)).toEqual({ type: 'upgrade' });
+      expect(resolveUpgradeHotkey('branch-1', laser)).toBeNull();
+    });
+
+    it('should ask for a branch when the upgrade key is pressed at tier 2', () => {
+      const laser = new SimTower(2, 2, 'laser');
+      laser.upgrade();
+      expect(resolveUpgradeHotkey('upgrade', laser)).toEqual({ type: 'choose-branch' });
+
+      const [first, second] = laser.config.specializations!;
+      expect(resolveUpgradeHotkey('branch-1', laser)).toEqual({ type: 'upgrade', specialization: first.key });
+      expect(resolveUpgradeHotkey('branch-2', laser)).toEqual({ type: 'upgrade', specialization: second.key });
+      expect(laser.canUpgrade(second.key)).toBe(true);
+    });
+
+    it('should ignore other actions', () => {
+      expect(resolveUpgradeHotkey('sell', new SimTower(2, 2, 'laser'))).toBeNull();
+    });
+  });
+});
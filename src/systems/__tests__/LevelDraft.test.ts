@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { LevelDraft, MAX_DRAFT_SEGMENTS } from '../LevelDraft';
+import { LEVELS } from '../../config/levels';
+import { MAP_COLS, MAP_ROWS, TileType, getMapByLevel } from '../../config/maps';
+
+/**
+ * Test suite for LevelDraft: tile painting, setting and segment edits,
+ * and conversion to playable configs.
+ */
+
+function createDraft(): LevelDraft {
+  return LevelDraft.fromLevel(LEVELS[0], getMapByLevel(1));
+}
+
+describe('LevelDraft', () => {
+  // ──────────────────────────────────────────────
+  // Tiles
+  // ──────────────────────────────────────────────
+
+  describe('tiles', () => {
+    it('should start a blank draft with a playable straight path', () => {
+      const draft = LevelDraft.blank(6);
+      expect(draft.validate()).toEqual([]);
+      expect(draft.toMapConfig().pathPoints).toEqual([
+        { x: 0, y: MAP_ROWS / 2 },
+        { x: MAP_COLS - 1, y: MAP_ROWS / 2 },
+      ]);
+    });
+
+    it('should not change the source map when painting', () => {
+      const draft = createDraft();
+      draft.paintTile(0, 0, TileType.Path);
+      expect(getMapByLevel(1).grid[0][0]).toBe(TileType.Ground);
+    });
+
+    it('should keep a single spawn when a new one is painted', () => {
+      const draft = LevelDraft.blank(6);
+      draft.paintTile(3, 0, TileType.Spawn);
+      expect(draft.getTile(3, 0)).toBe(TileType.Spawn);
+      expect(draft.getTile(0, MAP_ROWS / 2)).toBe(TileType.Ground);
+    });
+
+    it('should ignore tiles outside the grid', () => {
+      expect(LevelDraft.blank(6).paintTile(MAP_COLS, 0, TileType.Path)).toBe(false);
+    });
+
+    it('should count build slots from the grid', () => {
+      const draft = LevelDraft.blank(6);
+      draft.paintTile(2, 2, TileType.BuildSlot);
+      draft.paintTile(3, 2, TileType.BuildSlot);
+      expect(draft.toLevelConfig().buildSlots).toBe(2);
+    });
+  });
+
+  // ──────────────────────────────────────────────
+  // Settings and segments
+  // ──────────────────────────────────────────────
+
+  describe('settings and segments', () => {
+    it('should step settings within their limits', () => {
+      const draft = createDraft();
+      draft.lives = 1;
+      draft.stepSetting('lives', -1);
+      expect(draft.lives).toBe(1);
+      draft.stepSetting('hpScale', 1);
+      draft.stepSetting('hpScale', 1);
+      expect(draft.hpScale).toBe(1.2);
+    });
+
+    it('should cycle a segment through every enemy type', () => {
+      const draft = createDraft();
+      const seen = new Set<string>();
+      for (let i = 0; i < 20; i++) {
+        draft.cycleSegmentEnemy(0, 1);
+        seen.add(draft.segments[0].enemyKey!);
+      }
+      expect(seen.size).toBeGreaterThan(1);
+      expect(draft.validate()).toEqual([]);
+    });
+
+    it('should stop adding segments at the limit', () => {
+      const draft = createDraft();
+      while (draft.addSegment());
+      expect(draft.segments).toHaveLength(MAX_DRAFT_SEGMENTS);
+    });
+  });
+
+  // ──────────────────────────────────────────────
+  // Validation
+  // ──────────────────────────────────────────────
+
+  describe('validate', () => {
+    it('should accept an unchanged built-in level', () => {
+      expect(createDraft().validate()).toEqual([]);
+    });
+
+    it('should report a broken path as a single grid issue', () => {
+      const draft = LevelDraft.blank(6);
+      draft.paintTile(5, MAP_ROWS / 2, TileType.Ground);
+      const issues = draft.validate();
+      expect(issues).toHaveLength(1);
+      expect(issues[0].field).toBe('grid');
+      expect(issues[0].message).toMatch(/path is broken/);
+    });
+
+    it('should report a level without segments', () => {
+      const draft = createDraft();
+      while (draft.segments.length > 0) draft.removeSegment(0);
+      expect(draft.validate().map((i) => i.field)).toEqual(['segments']);
+    });
+  });
+});
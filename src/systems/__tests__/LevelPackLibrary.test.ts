@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { LevelPackLibrary } from '../LevelPackLibrary';
+import { createLevelPack, serializeLevelPack } from '../../config/levelPacks';
+import { MAPS } from '../../config/maps';
+import { LEVELS } from '../../config/levels';
+
+/**
+ * Test suite for LevelPackLibrary storage of imported level packs.
+ */
+
+function packJson(name: string, levelCount: number = 1): string {
+  return serializeLevelPack(createLevelPack(name, MAPS.slice(0, levelCount), LEVELS.slice(0, levelCount)));
+}
+
+describe('LevelPackLibrary', () => {
+  let library: LevelPackLibrary;
+
+  beforeEach(() => {
+    localStorage.clear();
+    library = new LevelPackLibrary(localStorage);
+  });
+
+  it('should start empty', () => {
+    expect(library.getPacks()).toEqual([]);
+  });
+
+  it('should keep imported packs across instances', () => {
+    library.import(packJson('Alpha'));
+    library.import(packJson('Beta'));
+    const names = new LevelPackLibrary(localStorage).getPacks().map((p) => p.name);
+    expect(names).toEqual(['Alpha', 'Beta']);
+  });
+
+  it('should replace a pack imported again under the same name', () => {
+    library.import(packJson('Alpha', 1));
+    library.import(packJson('Alpha', 3));
+    expect(library.getPacks()).toHaveLength(1);
+    expect(library.find('Alpha')?.levels).toHaveLength(3);
+  });
+
+  it('should remove a pack by name', () => {
+    library.import(packJson('Alpha'));
+    library.remove('Alpha');
+    expect(library.find('Alpha')).toBeUndefined();
+  });
+
+  it('should leave the library unchanged when an import is invalid', () => {
+    library.import(packJson('Alpha'));
+    expect(() => library.import('{"format":"nope"}')).toThrow(/format/);
+    expect(library.getPacks().map((p) => p.name)).toEqual(['Alpha']);
+  });
+
+  it('should skip stored packs that no longer load', () => {
+    localStorage.setItem(LevelPackLibrary.STORAGE_KEY, JSON.stringify(['{"format":"old"}', packJson('Alpha')]));
+    expect(library.getPacks().map((p) => p.name)).toEqual(['Alpha']);
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect } from 'vitest';
+import { PathFollower } from '../PathFollower';
+import { getPathGraph, MapConfig, MAIN_PATH, MAPS, TILE_SIZE } from '../../config/maps';
+import { SeededRandom } from '../../sim/Random';
+
+/**
+ * Test suite for PathFollower movement, route resolution across forks,
+ * and the map path graph it walks.
+ */
+
+// Minimal MapConfig fixture; only the path fields matter here.
+function createTestMap(overrides: Partial<MapConfig> = {}): MapConfig {
+  return {
+    level: 1,
+    name: 'Test Map',
+    grid: [],
+    pathPoints: [],
+    ...overrides,
+  };
+}
+
+// A trunk that forks into two branches which merge back into a final stretch.
+const FORKED_MAP = createTestMap({
+  paths: [
+    { name: 'trunk', points: [{ x: 0, y: 5 }, { x: 3, y: 5 }], next: [{ path: 'north' }, { path: 'south' }] },
+    { name: 'north', points: [{ x: 3, y: 5 }, { x: 3, y: 2 }, { x: 8, y: 2 }, { x: 8, y: 5 }], next: [{ path: 'final' }] },
+    { name: 'south', points: [{ x: 3, y: 5 }, { x: 3, y: 6 }, { x: 8, y: 6 }, { x: 8, y: 5 }], next: [{ path: 'final' }] },
+    { name: 'final', points: [{ x: 8, y: 5 }, { x: 15, y: 5 }] },
+  ],
+});
+
+/** World coordinate of a tile centre. */
+const world = (tile: number) => tile * TILE_SIZE + TILE_SIZE / 2;
+
+describe('PathFollower', () => {
+  // ──────────────────────────────────────────────
+  // Movement
+  // ──────────────────────────────────────────────
+
+  describe('movement', () => {
+    const waypoints = [
+      { x: 0, y: 0 },
+      { x: 100, y: 0 },
+      { x: 100, y: 100 },
+    ];
+
+    it('should move along the waypoints and report progress', () => {
+      const follower = new PathFollower(waypoints);
+      const pos = follower.update(0, 0, 150, 1);
+      expect(pos).toEqual({ x: 100, y: 50 });
+      expect(follower.pathProgress).toBeCloseTo(0.75);
+    });
+
+    it('should report the distance left to the end of the route', () => {
+      const follower = new PathFollower(waypoints);
+      follower.update(0, 0, 50, 1);
+      expect(follower.distanceRemaining).toBeCloseTo(150);
+    });
+
+    it('should finish at the last waypoint', () => {
+      const follower = new PathFollower(waypoints);
+      const pos = follower.update(0, 0, 1000, 1);
+      expect(follower.finished).toBe(true);
+      expect(pos).toEqual({ x: 100, y: 100 });
+      expect(follower.distanceRemaining).toBe(0);
+    });
+  });
+
+  // ──────────────────────────────────────────────
+  // Route resolution
+  // ──────────────────────────────────────────────
+
+  describe('resolveRoute', () => {
+    it('should return the single path of a legacy map unchanged', () => {
+      const map = MAPS[0];
+      const route = PathFollower.resolveRoute(getPathGraph(map), MAIN_PATH, new SeededRandom(1));
+      expect(route).toHaveLength(map.pathPoints.length);
+      expect(route[0]).toEqual({ x: world(map.pathPoints[0].x), y: world(map.pathPoints[0].y) });
+    });
+
+    it('should stitch branches together without repeating the junction', () => {
+      const route = PathFollower.resolveRoute(getPathGraph(FORKED_MAP), 'trunk', new SeededRandom(1));
+      // trunk (2) + branch (3 new) + final (1 new)
+      expect(route).toHaveLength(6);
+      expect(route[0]).toEqual({ x: world(0), y: world(5) });
+      expect(route[route.length - 1]).toEqual({ x: world(15), y: world(5) });
+    });
+
+    it('should take every branch of an even fork over many spawns', () => {
+      const graph = getPathGraph(FORKED_MAP);
+      const rng = new SeededRandom(7);
+      const branchYs = new Set<number>();
+      for (let i = 0; i < 50; i++) {
+        branchYs.add(PathFollower.resolveRoute(graph, 'trunk', rng)[2].y);
+      }
+      expect(branchYs).toEqual(new Set([world(2), world(6)]));
+    });
+
+    it('should honour branch weights', () => {
+      const weighted = createTestMap({
+        paths: FORKED_MAP.paths!.map((p) =>
+          p.name === 'trunk' ? { ...p, next: [{ path: 'north', weight: 9 }, { path: 'south', weight: 1 }] } : p,
+        ),
+      });
+      const graph = getPathGraph(weighted);
+      const rng = new SeededRandom(3);
+      let north = 0;
+      for (let i = 0; i < 500; i++) {
+        if (PathFollower.resolveRoute(graph, 'trunk', rng)[2].y === world(2)) north++;
+      }
+      expect(north / 500).toBeGreaterThan(0.8);
+    });
+
+    it('should reject an unknown start path', () => {
+      expect(() => PathFollower.resolveRoute(getPathGraph(FORKED_MAP), 'nowhere', new SeededRandom(1))).toThrow(
+        /Unknown path/,
+      );
+    });
+  });
+
+  // ──────────────────────────────────────────────
+  // Path graph
+  // ──────────────────────────────────────────────
+
+  describe('getPathGraph', () => {
+    it('should treat paths no other path continues into as entries', () => {
+      const graph = getPathGraph(
+        createTestMap({
+          paths: [
+            { name: 'west', points: [{ x: 0, y: 1 }, { x: 5, y: 1 }], next: [{ path: 'shared' }] },
+            { name: 'east', points: [{ x: 15, y: 1 }, { x: 10, y: 1 }], next: [{ path: 'shared' }] },
+            { name: 'shared', points: [{ x: 7, y: 1 }, { x: 7, y: 11 }] },
+          ],
+        }),
+      );
+      expect(graph.entries).toEqual(['west', 'east']);
+    });
+
+    it('should reject branches to unknown paths', () => {
+      const map = createTestMap({ paths: [{ name: 'a', points: [{ x: 0, y: 0 }], next: [{ path: 'b' }] }] });
+      expect(() => getPathGraph(map)).toThrow(/unknown path "b"/);
+    });
+
+    it('should reject paths that loop', () => {
+      const map = createTestMap({
+        paths: [
+          { name: 'start', points: [{ x: 0, y: 0 }], next: [{ path: 'a' }] },
+          { name: 'a', points: [{ x: 1, y: 0 }], next: [{ path: 'b' }] },
+          { name: 'b', points: [{ x: 2, y: 0 }], next: [{ path: 'a' }] },
+        ],
+      });
+      expect(() => getPathGraph(map)).toThrow(/loop/);
+    });
+
+    it('should reject duplicate path names', () => {
+      const map = createTestMap({
+        paths: [
+          { name: 'a', points: [{ x: 0, y: 0 }] },
+          { name: 'a', points: [{ x: 1, y: 0 }] },
+        ],
+      });
+      expect(() => getPathGraph(map)).toThrow(/duplicate path name "a"/);
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SavedRunStore } from '../SavedRunStore';
+import { Simulation } from '../../sim/Simulation';
+import { ReplayRecorder } from '../../sim/Replay';
+import { LEVELS } from '../../config/levels';
+import { getMapByLevel } from '../../config/maps';
+
+/**
+ * Test suite for SavedRunStore, the mid-level save slot.
+ */
+
+function startRun(seed: number = 11): { sim: Simulation; recorder: ReplayRecorder } {
+  const sim = new Simulation(LEVELS[0], getMapByLevel(LEVELS[0].level), { seed });
+  const recorder = new ReplayRecorder(sim, 'Pack');
+  sim.placeTower(2, 2, 'laser');
+  for (let i = 0; i < 300; i++) sim.step();
+  return { sim, recorder };
+}
+
+describe('SavedRunStore', () => {
+  let store: SavedRunStore;
+
+  beforeEach(() => {
+    localStorage.clear();
+    store = new SavedRunStore(localStorage);
+  });
+
+  it('should be empty at first', () => {
+    expect(store.load()).toBeNull();
+  });
+
+  it('should round-trip a saved run', () => {
+    const { sim, recorder } = startRun();
+    store.save(sim.serialize(), recorder.toReplay());
+
+    const run = new SavedRunStore(localStorage).load();
+    expect(run?.snapshot).toEqual(sim.serialize());
+    expect(run?.replay.pack).toBe('Pack');
+    expect(run?.replay.actions).toHaveLength(1);
+  });
+
+  it('should keep only the latest run', () => {
+    const first = startRun(1);
+    const second = startRun(2);
+    store.save(first.sim.serialize(), first.recorder.toReplay());
+    store.save(second.sim.serialize(), second.recorder.toReplay());
+    expect(store.load()?.snapshot.seed).toBe(2);
+  });
+
+  it('should ignore corrupt or mismatched saves', () => {
+    localStorage.setItem(SavedRunStore.STORAGE_KEY, '{not json');
+    expect(store.load()).toBeNull();
+
+    const { sim, recorder } = startRun();
+    store.save(sim.serialize(), { ...recorder.toReplay(), seed: 12 });
+    expect(store.load()).toBeNull();
+  });
+
+  it('should forget the run when cleared', () => {
+    const { sim, recorder } = startRun();
+    store.save(sim.serialize(), recorder.toReplay());
+    store.clear();
+    expect(store.load()).toBeNull();
+  });
+});
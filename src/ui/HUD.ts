@@ -7,6 +7,9 @@ import { SoundManager } from '../systems/SoundManager';
  * The `level` and `isVictory` fields are optional -- they are used by the
  * showLevelComplete overlay to display the level number and distinguish
  * between a mid-game level clear and a final-level victory screen.
+ * `seed` is the simulation seed, shown so a run can be reproduced.
+ * `stars` (1-3) and `newBest` are set for campaign levels once the result
+ * has been saved to the player's progress.
  */
 export interface LevelStats {
   enemiesKilled: number;
@@ -15,6 +18,9 @@ export interface LevelStats {
   livesMax?: number;
   level?: number;
   isVictory?: boolean;
+  seed?: number;
+  stars?: number;
+  newBest?: boolean;
 }
 
 /**
@@ -24,7 +30,26 @@ export interface LevelStats {
  * screen. All elements are fixed to the camera (scrollFactor 0) and drawn
  * at depth 1000 so they always render on top of the game world.
  *
- * Also provides overlay methods for level-complete and game-over screens.
+ * Also provides overlay methods for level-complete and game-over screens,
+ * and a badge marking replay playback or an editor test play.
+ *
+ * In wave mode it also shows a "Wave 3/10" counter and, during build
+ * phases, a "Call next wave early" button.
+ *
+ * Under the top-right corner sit a game speed button (1x/2x/3x) and a
+ * pause button; pausing opens an overlay with Resume, Restart and Quit.
+ *
+ * While a boss is on the field, a large health bar with its name, shield
+ * and phase marks is centered under the top bar.
+ *
+ * Events emitted:
+ *   'cycle-speed'    -- game speed button clicked
+ *   'pause'          -- pause button clicked
+ *   'resume' / 'restart' / 'quit' -- pause overlay buttons
+ *   'call-next-wave' -- "Call next wave early" clicked during a build phase
+ *   'next-level'   -- "Next Level" clicked on the level-complete overlay
+ *   'save-replay'  -- "Save Replay" clicked on the level-complete overlay
+ *   'retry' / 'menu' -- game-over overlay buttons
  */
 export class HUD extends Phaser.Events.EventEmitter {
   private scene: Phaser.Scene;
@@ -37,6 +62,10 @@ export class HUD extends Phaser.Events.EventEmitter {
   private livesText: Phaser.GameObjects.Text;
   private enemiesText: Phaser.GameObjects.Text;
   private levelNameText: Phaser.GameObjects.Text;
+  private waveText: Phaser.GameObjects.Text;
+
+  // ---- Call-next-wave button (visible during build phases) ----
+  private callWaveButton: Phaser.GameObjects.Text;
 
   // ---- Cached lives max for single-arg updateLives calls ----
   private livesMax: number = 10;
@@ -47,6 +76,18 @@ export class HUD extends Phaser.Events.EventEmitter {
   // ---- Mute toggle button ----
   private muteButton: Phaser.GameObjects.Text;
 
+  // ---- Game speed and pause buttons (under the mute button) ----
+  private speedButton: Phaser.GameObjects.Text;
+  private pauseButton: Phaser.GameObjects.Text;
+
+  // ---- Replay / test play badge (created on demand) ----
+  private badge: Phaser.GameObjects.Text | null = null;
+
+  // ---- Boss health bar (created while a boss is on the field) ----
+  private bossBar: Phaser.GameObjects.Container | null = null;
+  private bossHpFill: Phaser.GameObjects.Rectangle | null = null;
+  private bossShieldFill: Phaser.GameObjects.Rectangle | null = null;
+
   // ---- Style constants ----
   private static readonly FONT_FAMILY = 'monospace';
   private static readonly LABEL_COLOR = '#00ffcc';
@@ -55,6 +96,9 @@ export class HUD extends Phaser.Events.EventEmitter {
   private static readonly BG_ALPHA = 0.8;
   private static readonly BAR_HEIGHT = 36;
   private static readonly DEPTH = 1000;
+  private static readonly BOSS_BAR_WIDTH = 480;
+  private static readonly BOSS_BAR_HEIGHT = 14;
+  private static readonly BOSS_COLOR = 0xff2266;
 
   constructor(scene: Phaser.Scene) {
     super();
@@ -108,6 +152,40 @@ export class HUD extends Phaser.Events.EventEmitter {
     this.levelNameText.setScrollFactor(0);
     this.levelNameText.setDepth(HUD.DEPTH);
 
+    // ---- Wave counter (left of the level name, hidden outside wave mode) ----
+    this.waveText = scene.add.text(180, 8, '', {
+      fontFamily: HUD.FONT_FAMILY,
+      fontSize: '16px',
+      color: HUD.LABEL_COLOR,
+    });
+    this.waveText.setScrollFactor(0);
+    this.waveText.setDepth(HUD.DEPTH);
+    this.waveText.setVisible(false);
+
+    // ---- Call next wave early (centered under the top bar) ----
+    this.callWaveButton = scene.add.text(512, HUD.BAR_HEIGHT + 8, '', {
+      fontFamily: HUD.FONT_FAMILY,
+      fontSize: '14px',
+      color: HUD.VALUE_COLOR,
+      backgroundColor: '#333366',
+      padding: { x: 10, y: 4 },
+    });
+    this.callWaveButton.setOrigin(0.5, 0);
+    this.callWaveButton.setScrollFactor(0);
+    this.callWaveButton.setDepth(HUD.DEPTH);
+    this.callWaveButton.setInteractive({ useHandCursor: true });
+    this.callWaveButton.setVisible(false);
+
+    this.callWaveButton.on('pointerover', () => {
+      this.callWaveButton.setColor(HUD.LABEL_COLOR);
+    });
+    this.callWaveButton.on('pointerout', () => {
+      this.callWaveButton.setColor(HUD.VALUE_COLOR);
+    });
+    this.callWaveButton.on('pointerdown', () => {
+      this.emit('call-next-wave');
+    });
+
     // ---- Mute toggle button (top-right corner) ----
     const sm = scene.registry.get('soundManager') as SoundManager | undefined;
     const muteLabel = sm?.isMuted ? '[MUTED]' : '[SFX]';
@@ -135,6 +213,11 @@ export class HUD extends Phaser.Events.EventEmitter {
       this.muteButton.setText(nowMuted ? '[MUTED]' : '[SFX]');
       this.muteButton.setColor(nowMuted ? '#666666' : HUD.LABEL_COLOR);
     });
+
+    // ---- Pause and game speed buttons (right-aligned under the top bar) ----
+    this.pauseButton = this.createCornerButton(1006, '[ II ]', 'pause');
+    const speedX = this.pauseButton.x - this.pauseButton.width - 8;
+    this.speedButton = this.createCornerButton(speedX, '[ 1x ]', 'cycle-speed');
   }
 
   // -------------------------------------------------------------------
@@ -182,12 +265,130 @@ export class HUD extends Phaser.Events.EventEmitter {
     this.levelNameText.setText(`Level ${level}: ${name}`);
   }
 
+  /**
+   * Update the wave counter ("Wave 3/10"). `current` is 0 before the
+   * first wave starts.
+   */
+  updateWave(current: number, total: number): void {
+    this.waveText.setText(`Wave ${current}/${total}`);
+    this.waveText.setVisible(true);
+  }
+
+  /**
+   * Show (or refresh) the "Call next wave early" button with the build
+   * phase countdown and the bonus for calling now.
+   */
+  showCallWaveButton(nextWave: number, secondsLeft: number, bonus: number): void {
+    this.callWaveButton.setText(
+      `Call wave ${nextWave} early (+${bonus})  ${Math.ceil(secondsLeft)}s`,
+    );
+    this.callWaveButton.setVisible(true);
+  }
+
+  /**
+   * Hide the "Call next wave early" button.
+   */
+  hideCallWaveButton(): void {
+    this.callWaveButton.setVisible(false);
+  }
+
+  /**
+   * Show the current game speed multiplier on the speed button.
+   */
+  updateSpeed(speed: number): void {
+    this.speedButton.setText(`[ ${speed}x ]`);
+  }
+
+  /**
+   * Show a pulsing "REPLAY" badge under the top bar while a recorded run
+   * is being played back.
+   */
+  showReplayBadge(): void {
+    this.showBadge('\u25CF REPLAY', '#ff4444');
+  }
+
+  /**
+   * Show a pulsing "TEST PLAY" badge while a level editor draft is played.
+   */
+  showTestPlayBadge(): void {
+    this.showBadge('\u25CF TEST PLAY (Esc: back to editor)', '#ffcc00');
+  }
+
+  // -------------------------------------------------------------------
+  // Boss health bar
+  // -------------------------------------------------------------------
+
+  /**
+   * Show the boss health bar, replacing any previous one. `phaseThresholds`
+   * are the HP fractions at which the boss changes phase; each gets a mark
+   * on the bar.
+   */
+  showBossBar(name: string, phaseThresholds: readonly number[]): void {
+    this.hideBossBar();
+
+    const centerX = 512;
+    const barY = HUD.BAR_HEIGHT + 34;
+    const width = HUD.BOSS_BAR_WIDTH;
+    const height = HUD.BOSS_BAR_HEIGHT;
+    const left = centerX - width / 2;
+
+    const container = this.scene.add.container(0, 0);
+    container.setScrollFactor(0);
+    container.setDepth(HUD.DEPTH);
+    this.bossBar = container;
+
+    const label = this.scene.add.text(centerX, HUD.BAR_HEIGHT + 8, name.toUpperCase(), {
+      fontFamily: HUD.FONT_FAMILY,
+      fontSize: '14px',
+      color: '#ff4466',
+    });
+    label.setOrigin(0.5, 0);
+
+    const bg = this.scene.add.rectangle(centerX, barY, width + 4, height + 4, 0x000000, 0.7);
+    bg.setStrokeStyle(1, HUD.BOSS_COLOR, 0.9);
+
+    this.bossHpFill = this.scene.add.rectangle(left, barY, width, height, HUD.BOSS_COLOR);
+    this.bossHpFill.setOrigin(0, 0.5);
+
+    // Shield: a blue strip over the top half of the bar
+    this.bossShieldFill = this.scene.add.rectangle(left, barY - height / 4, 0, height / 2, 0x4488ff, 0.9);
+    this.bossShieldFill.setOrigin(0, 0.5);
+
+    container.add([label, bg, this.bossHpFill, this.bossShieldFill]);
+
+    for (const threshold of phaseThresholds) {
+      container.add(this.scene.add.rectangle(left + width * threshold, barY, 2, height + 4, 0xffffff, 0.8));
+    }
+  }
+
+  /**
+   * Refresh the boss health bar. The shield strip is measured against max
+   * HP, so a 25% shield covers a quarter of the bar.
+   */
+  updateBossBar(hp: number, maxHp: number, shieldHp: number): void {
+    if (!this.bossHpFill || !this.bossShieldFill) return;
+    const width = HUD.BOSS_BAR_WIDTH;
+    this.bossHpFill.setSize(width * Phaser.Math.Clamp(hp / maxHp, 0, 1), HUD.BOSS_BAR_HEIGHT);
+    this.bossShieldFill.setSize(width * Phaser.Math.Clamp(shieldHp / maxHp, 0, 1), HUD.BOSS_BAR_HEIGHT / 2);
+  }
+
+  /**
+   * Remove the boss health bar, if shown.
+   */
+  hideBossBar(): void {
+    this.bossBar?.destroy(true);
+    this.bossBar = null;
+    this.bossHpFill = null;
+    this.bossShieldFill = null;
+  }
+
   // -------------------------------------------------------------------
   // Overlay screens
   // -------------------------------------------------------------------
 
   /**
-   * Show a centered "Level Complete" overlay with stats and a "Next Level" button.
+   * Show a centered "Level Complete" overlay with stats and
+   * "Next Level" / "Save Replay" buttons.
    */
   showLevelComplete(stats: LevelStats): void {
     this.clearOverlay();
@@ -195,11 +396,16 @@ export class HUD extends Phaser.Events.EventEmitter {
     const { container, yOffset } = this.createOverlayBase('LEVEL COMPLETE', stats);
 
     // "Next Level" button
-    this.createOverlayButton(container, 0, yOffset, 'Next Level', () => {
+    this.createOverlayButton(container, -80, yOffset, 'Next Level', () => {
       this.clearOverlay();
       this.emit('next-level');
     });
 
+    // "Save Replay" button -- overlay stays open so the player can continue
+    this.createOverlayButton(container, 80, yOffset, 'Save Replay', () => {
+      this.emit('save-replay');
+    });
+
     this.overlayContainer = container;
   }
 
@@ -226,17 +432,63 @@ export class HUD extends Phaser.Events.EventEmitter {
     this.overlayContainer = container;
   }
 
+  /**
+   * Show the pause overlay with "Resume", "Restart" and "Quit" buttons.
+   */
+  showPauseMenu(quitLabel: string = 'Quit to Menu'): void {
+    this.clearOverlay();
+
+    const { container } = this.createOverlayBase('PAUSED');
+
+    this.createOverlayButton(container, 0, 354, 'Resume', () => this.emit('resume'));
+    this.createOverlayButton(container, 0, 404, 'Restart', () => this.emit('restart'));
+    this.createOverlayButton(container, 0, 454, quitLabel, () => this.emit('quit'), 180);
+
+    this.overlayContainer = container;
+  }
+
+  /**
+   * Close the pause overlay.
+   */
+  hidePauseMenu(): void {
+    this.clearOverlay();
+  }
+
   // -------------------------------------------------------------------
   // Private helpers
   // -------------------------------------------------------------------
 
   /**
-   * Build the shared overlay base: dimmed backdrop, title, and stats text.
+   * Create a small right-aligned text button under the top bar that emits
+   * `event` when clicked.
+   */
+  private createCornerButton(rightX: number, label: string, event: string): Phaser.GameObjects.Text {
+    const button = this.scene.add.text(rightX, HUD.BAR_HEIGHT + 6, label, {
+      fontFamily: HUD.FONT_FAMILY,
+      fontSize: '14px',
+      color: HUD.LABEL_COLOR,
+      backgroundColor: '#1a1a2e',
+      padding: { x: 4, y: 2 },
+    });
+    button.setOrigin(1, 0);
+    button.setScrollFactor(0);
+    button.setDepth(HUD.DEPTH);
+    button.setInteractive({ useHandCursor: true });
+
+    button.on('pointerover', () => button.setColor(HUD.VALUE_COLOR));
+    button.on('pointerout', () => button.setColor(HUD.LABEL_COLOR));
+    button.on('pointerdown', () => this.emit(event));
+    return button;
+  }
+
+  /**
+   * Build the shared overlay base: dimmed backdrop, title, and stats text
+   * (when stats are given).
    * Returns the container and the Y offset where buttons should start.
    */
   private createOverlayBase(
     title: string,
-    stats: LevelStats,
+    stats?: LevelStats,
   ): { container: Phaser.GameObjects.Container; yOffset: number } {
     const centerX = 512;
     const centerY = 384;
@@ -245,13 +497,14 @@ export class HUD extends Phaser.Events.EventEmitter {
     container.setScrollFactor(0);
     container.setDepth(HUD.DEPTH + 1);
 
-    // Full-screen dim overlay
+    // Full-screen dim overlay; interactive so clicks do not reach the map underneath
     const dimBg = this.scene.add.rectangle(centerX, centerY, 1024, 768, 0x000000, 0.6);
+    dimBg.setInteractive();
     container.add(dimBg);
 
     // Panel background
     const panelWidth = 360;
-    const panelHeight = 280;
+    const panelHeight = 320;
     const panelBg = this.scene.add.rectangle(
       centerX,
       centerY,
@@ -273,6 +526,8 @@ export class HUD extends Phaser.Events.EventEmitter {
     titleText.setOrigin(0.5);
     container.add(titleText);
 
+    if (!stats) return { container, yOffset: centerY + 100 };
+
     // Stats lines
     const statsLines: string[] = [];
     if (stats.level !== undefined) {
@@ -283,8 +538,15 @@ export class HUD extends Phaser.Events.EventEmitter {
     if (stats.livesRemaining !== undefined && stats.livesMax !== undefined) {
       statsLines.push(`Lives Remaining: ${stats.livesRemaining}/${stats.livesMax}`);
     }
+    if (stats.seed !== undefined) {
+      statsLines.push(`Seed: ${stats.seed}`);
+    }
+    if (stats.stars !== undefined) {
+      const stars = '\u2605'.repeat(stats.stars) + '\u2606'.repeat(3 - stats.stars);
+      statsLines.push(stats.newBest ? `${stars}  New best!` : stars);
+    }
 
-    let lineY = centerY - 50;
+    let lineY = centerY - 60;
     for (const line of statsLines) {
       const lineText = this.scene.add.text(centerX, lineY, line, {
         fontFamily: HUD.FONT_FAMILY,
@@ -294,10 +556,35 @@ export class HUD extends Phaser.Events.EventEmitter {
       });
       lineText.setOrigin(0.5);
       container.add(lineText);
-      lineY += 28;
+      lineY += 26;
     }
 
-    return { container, yOffset: centerY + 80 };
+    return { container, yOffset: centerY + 100 };
+  }
+
+  /**
+   * Show a pulsing badge under the top bar, left-aligned. Only one badge
+   * is shown at a time.
+   */
+  private showBadge(label: string, color: string): void {
+    if (this.badge) return;
+
+    this.badge = this.scene.add.text(16, HUD.BAR_HEIGHT + 6, label, {
+      fontFamily: HUD.FONT_FAMILY,
+      fontSize: '14px',
+      color,
+    });
+    this.badge.setScrollFactor(0);
+    this.badge.setDepth(HUD.DEPTH);
+
+    this.scene.tweens.add({
+      targets: this.badge,
+      alpha: 0.4,
+      duration: 800,
+      ease: 'Sine.easeInOut',
+      yoyo: true,
+      repeat: -1,
+    });
   }
 
   /**
@@ -309,10 +596,11 @@ export class HUD extends Phaser.Events.EventEmitter {
     y: number,
     label: string,
     callback: () => void,
+    width: number = 140,
   ): void {
     const centerX = 512;
 
-    const btnBg = this.scene.add.rectangle(centerX + offsetX, y, 140, 36, 0x00ffcc, 0.15);
+    const btnBg = this.scene.add.rectangle(centerX + offsetX, y, width, 36, 0x00ffcc, 0.15);
     btnBg.setStrokeStyle(1, 0x00ffcc, 0.8);
     btnBg.setInteractive({ useHandCursor: true });
     container.add(btnBg);
@@ -356,7 +644,13 @@ export class HUD extends Phaser.Events.EventEmitter {
     this.livesText.destroy();
     this.enemiesText.destroy();
     this.levelNameText.destroy();
+    this.waveText.destroy();
+    this.callWaveButton.destroy();
     this.muteButton.destroy();
+    this.speedButton.destroy();
+    this.pauseButton.destroy();
+    this.badge?.destroy();
+    this.hideBossBar();
     super.destroy();
   }
 }
@@ -0,0 +1,109 @@
+import Phaser from 'phaser';
+import { findPathTilesInRange, TILE_SIZE } from '../config/maps';
+import { TOWERS } from '../config/towers';
+
+/**
+ * PlacementPreview -- shows what placing a tower on a build slot would
+ * give the player before they pay for it.
+ *
+ * While a tower type is selected in the TowerPicker and the pointer is over
+ * an empty build slot, the preview draws a translucent ghost of the tower,
+ * its tier-1 range circle (and detection circle, for detector towers), and
+ * highlights the path tiles inside that range. Support towers show the
+ * reach of their aura instead.
+ *
+ * Depth is 5: above the map and units, below the HUD at 1000.
+ */
+export class PlacementPreview {
+  private scene: Phaser.Scene;
+  private grid: number[][];
+  private container: Phaser.GameObjects.Container | null = null;
+  /** Tower and tile currently previewed, to skip redundant redraws. */
+  private shown: { towerKey: string; tileX: number; tileY: number } | null = null;
+
+  // ---- Style constants ----
+  private static readonly GHOST_ALPHA = 0.5;
+  private static readonly RANGE_FILL_ALPHA = 0.1;
+  private static readonly COVERAGE_COLOR = 0x00ffcc;
+  private static readonly COVERAGE_ALPHA = 0.25;
+  private static readonly DETECTION_COLOR = 0x66ddff;
+  private static readonly DEPTH = 5;
+
+  constructor(scene: Phaser.Scene, grid: number[][]) {
+    this.scene = scene;
+    this.grid = grid;
+  }
+
+  // -------------------------------------------------------------------
+  // Public API
+  // -------------------------------------------------------------------
+
+  /**
+   * Show the preview for placing `towerKey` on the tile at (tileX, tileY),
+   * replacing any preview already shown. Cheap to call every frame: an
+   * unchanged preview is left as it is.
+   */
+  show(towerKey: string, tileX: number, tileY: number): void {
+    const { shown } = this;
+    if (shown && shown.towerKey === towerKey && shown.tileX === tileX && shown.tileY === tileY) return;
+    this.hide();
+
+    const config = TOWERS[towerKey];
+    if (!config) return;
+
+    const x = tileX * TILE_SIZE + TILE_SIZE / 2;
+    const y = tileY * TILE_SIZE + TILE_SIZE / 2;
+    const aura = config.tiers[0].aura;
+    const range = aura ? aura.radius * TILE_SIZE : config.tiers[0].range;
+    const color = Phaser.Display.Color.HexStringToColor(config.color).color;
+
+    this.shown = { towerKey, tileX, tileY };
+    this.container = this.scene.add.container(0, 0);
+    this.container.setDepth(PlacementPreview.DEPTH);
+
+    // ---- Path tiles the tower would cover ----
+    const coverage = this.scene.add.graphics();
+    coverage.fillStyle(PlacementPreview.COVERAGE_COLOR, PlacementPreview.COVERAGE_ALPHA);
+    for (const tile of config.support ? [] : findPathTilesInRange(this.grid, x, y, range)) {
+      coverage.fillRect(tile.x * TILE_SIZE, tile.y * TILE_SIZE, TILE_SIZE, TILE_SIZE);
+    }
+    this.container.add(coverage);
+
+    // ---- Range circle ----
+    const rangeCircle = this.scene.add.arc(x, y, range, 0, 360, false, 0xffffff, PlacementPreview.RANGE_FILL_ALPHA);
+    rangeCircle.setStrokeStyle(1, color, 0.6);
+    this.container.add(rangeCircle);
+
+    // ---- Detection circle (outline only) ----
+    const detectionRadius = config.tiers[0].detectionRadius ?? 0;
+    if (detectionRadius > 0) {
+      const detectionCircle = this.scene.add.arc(x, y, detectionRadius, 0, 360, false);
+      detectionCircle.setStrokeStyle(1, PlacementPreview.DETECTION_COLOR, 0.6);
+      this.container.add(detectionCircle);
+    }
+
+    // ---- Ghost (sprite if texture exists, fallback to colored circle) ----
+    const textureKey = `tower-${towerKey}`;
+    const ghost = this.scene.textures.exists(textureKey)
+      ? this.scene.add.sprite(x, y, textureKey).setDisplaySize(40, 40)
+      : this.scene.add.arc(x, y, 20, 0, 360, false, color, 1);
+    ghost.setAlpha(PlacementPreview.GHOST_ALPHA);
+    this.container.add(ghost);
+  }
+
+  /**
+   * Remove the preview, if shown.
+   */
+  hide(): void {
+    this.container?.destroy(true);
+    this.container = null;
+    this.shown = null;
+  }
+
+  /**
+   * Clean up everything. Call when the scene shuts down.
+   */
+  destroy(): void {
+    this.hide();
+  }
+}
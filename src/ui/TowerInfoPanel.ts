@@ -1,24 +1,38 @@
 import Phaser from 'phaser';
-import { Tower, UPGRADE_KILLS_REQUIRED } from '../entities/Tower';
-import { TowerTier, TOWERS } from '../config/towers';
+import { SimTower, TargetingMode, TARGETING_MODES, UPGRADE_KILLS_REQUIRED } from '../sim/SimTower';
+import { describeAura, getSpecializedTier, TowerTier } from '../config/towers';
+import { DEFAULT_MAX_BEAM_RAMP } from '../sim/SimTower';
+import { DAMAGE_TYPE_LABELS } from '../config/damage';
+import { describeStatusEffect, STATUS_EFFECT_RULES } from '../config/statusEffects';
 import { SoundManager } from '../systems/SoundManager';
 
 /**
  * TowerInfoPanel -- Floating info/action panel for a placed tower.
  *
  * Shown when the player clicks a placed tower. Displays the tower's current
- * stats, and provides Upgrade, Sell, and Close buttons.
+ * stats, and provides Targeting, Upgrade, Sell, and Close buttons. The
+ * targeting button cycles a projectile tower through the targeting modes.
+ * At tier 2 a branching tower shows one upgrade button per specialization,
+ * each with how its tier-3 stats differ from the current ones, and
+ * `promptBranch()` flashes them when the player tries to upgrade such a
+ * tower without picking one (the U hotkey). Stats include
+ * aura buffs, which are listed below them with the tower giving each one.
  *
  * Emits:
- *   'upgrade-requested' { tower: Tower }
- *   'sell-requested'    { tower: Tower }
+ *   'targeting-requested' SimTower, TargetingMode (the next mode in the cycle)
+ *   'upgrade-requested'   SimTower, string | undefined (the chosen specialization)
+ *   'sell-requested'      SimTower
  *
  * Depth is 1001 (above HUD at 1000).
  */
 export class TowerInfoPanel extends Phaser.Events.EventEmitter {
   private scene: Phaser.Scene;
   private container: Phaser.GameObjects.Container | null = null;
-  private currentTower: Tower | null = null;
+  private currentTower: SimTower | null = null;
+  private upgradeEnabled = false;
+  private branchKeyHints: readonly (string | undefined)[] = [];
+  private branchButtons: Phaser.GameObjects.Rectangle[] = [];
+  private panelHeight = 0;
 
   // ---- Click-away listener reference ----
   private clickAwayHandler: ((pointer: Phaser.Input.Pointer) => void) | null = null;
@@ -26,13 +40,26 @@ export class TowerInfoPanel extends Phaser.Events.EventEmitter {
   // ---- Style constants ----
   private static readonly FONT_FAMILY = 'monospace';
   private static readonly LABEL_COLOR = '#00ffcc';
+  private static readonly BUFF_COLOR = '#ffaa33';
   private static readonly VALUE_COLOR = '#ffffff';
   private static readonly DIMMED_COLOR = '#666666';
   private static readonly BG_COLOR = 0x1a1a2e;
   private static readonly BG_ALPHA = 0.95;
   private static readonly PANEL_WIDTH = 200;
-  private static readonly PANEL_HEIGHT = 260;
+  private static readonly PANEL_HEIGHT = 292;
+  /** Extra height for the second branch button and the stat changes under each branch. */
+  private static readonly BRANCH_EXTRA_HEIGHT = 76;
+  private static readonly BRANCH_SPACING = 54;
+  private static readonly STAT_LINE_HEIGHT = 18;
   private static readonly DEPTH = 1001;
+  private static readonly TARGETING_LABELS: Record<TargetingMode, string> = {
+    first: 'First',
+    last: 'Last',
+    strongest: 'Strongest',
+    weakest: 'Weakest',
+    closest: 'Closest',
+    shielded: 'Shielded first',
+  };
 
   constructor(scene: Phaser.Scene) {
     super();
@@ -46,12 +73,12 @@ export class TowerInfoPanel extends Phaser.Events.EventEmitter {
   /**
    * Show the info panel for the given tower.
    *
-   * @param tower            - The Tower entity to display info for.
+   * @param tower            - The simulated tower to display info for.
    * @param canAffordUpgrade - Whether the player can afford the next upgrade.
    *                           Defaults to true when not provided (the upgrade
    *                           button will still be disabled at max tier).
    */
-  show(tower: Tower, canAffordUpgrade?: boolean): void {
+  show(tower: SimTower, canAffordUpgrade?: boolean): void {
     // Default to true -- the button is self-disabling at max tier anyway
     if (canAffordUpgrade === undefined) {
       canAffordUpgrade = true;
@@ -63,10 +90,16 @@ export class TowerInfoPanel extends Phaser.Events.EventEmitter {
     const config = tower.config;
     const tier: TowerTier = tower.getCurrentTierStats();
     const tierNum = tower.currentTier;
+    const branches = tower.needsSpecialization() ? config.specializations! : [];
+    const buffs = tower.getBuffs();
 
     // ---- Calculate panel position (offset to stay on screen) ----
     const panelW = TowerInfoPanel.PANEL_WIDTH;
-    const panelH = TowerInfoPanel.PANEL_HEIGHT;
+    const panelH =
+      TowerInfoPanel.PANEL_HEIGHT +
+      (branches.length > 0 ? TowerInfoPanel.BRANCH_EXTRA_HEIGHT : 0) +
+      buffs.length * TowerInfoPanel.STAT_LINE_HEIGHT;
+    this.panelHeight = panelH;
     let px = tower.x + 50;
     let py = tower.y - panelH / 2;
 
@@ -102,7 +135,7 @@ export class TowerInfoPanel extends Phaser.Events.EventEmitter {
 
     // ---- Tower name ----
     let lineY = -panelH / 2 + 20;
-    const nameText = this.scene.add.text(0, lineY, config.name, {
+    const nameText = this.scene.add.text(0, lineY, tower.displayName, {
       fontFamily: TowerInfoPanel.FONT_FAMILY,
       fontSize: '14px',
       color: TowerInfoPanel.LABEL_COLOR,
@@ -125,26 +158,55 @@ export class TowerInfoPanel extends Phaser.Events.EventEmitter {
 
     // ---- Stats ----
     lineY += 24;
-    const statsLines = [
-      `DMG: ${tier.damage}`,
-      `RNG: ${tier.range}`,
-      `ROF: ${tier.fireRate}/s`,
-    ];
+    const damageType = DAMAGE_TYPE_LABELS[config.damageType];
+    const statsLines = config.support
+      ? []
+      : tier.beam
+        ? [
+            `DPS: ${TowerInfoPanel.round(tier.damage)} ${damageType} beam`,
+            `RNG: ${TowerInfoPanel.round(tier.range)}`,
+          ]
+        : [
+            `DMG: ${TowerInfoPanel.round(tier.damage)} ${damageType}`,
+            `RNG: ${TowerInfoPanel.round(tier.range)}`,
+            `ROF: ${TowerInfoPanel.round(tier.fireRate)}/s`,
+          ];
+    if (tier.beam?.rampRate) {
+      const max = tier.beam.maxRamp ?? DEFAULT_MAX_BEAM_RAMP;
+      statsLines.push(`Ramp: +${Math.round(tier.beam.rampRate * 100)}%/s to +${Math.round(max * 100)}%`);
+    }
 
     // Append special stats if applicable
     if (tier.splashRadius !== undefined && tier.splashRadius > 0) {
       statsLines.push(`Splash: ${tier.splashRadius}`);
     }
-    if (tier.slowFactor !== undefined) {
-      statsLines.push(`Slow: ${Math.round((1 - tier.slowFactor) * 100)}%`);
+    for (const effect of tier.effects ?? []) {
+      statsLines.push(describeStatusEffect(effect));
+    }
+    if (tier.armorPiercing !== undefined && tier.armorPiercing > 0) {
+      statsLines.push(`Armor pierce: ${tier.armorPiercing}`);
+    }
+    if (tier.detectionRadius !== undefined && tier.detectionRadius > 0) {
+      statsLines.push(`Detect: ${tier.detectionRadius}`);
+    }
+    if (config.groundOnly) {
+      statsLines.push('Ground targets only');
+    }
+    if (tier.aura) {
+      statsLines.push(`Aura: ${describeAura(tier.aura)}`, `Aura radius: ${tier.aura.radius} tiles`);
+    }
+    if (tier.incomeBonus !== undefined && tier.incomeBonus > 0) {
+      statsLines.push(`Income: +${tier.incomeBonus}/s`);
     }
 
-    // Kill count and upgrade requirement
-    if (tierNum < 3) {
-      const required = UPGRADE_KILLS_REQUIRED[tierNum - 1];
-      statsLines.push(`Kills: ${tower.kills}/${required}`);
-    } else {
-      statsLines.push(`Kills: ${tower.kills}`);
+    // Kill count and upgrade requirement (support towers upgrade without kills)
+    if (!config.support) {
+      if (tierNum < 3) {
+        const required = UPGRADE_KILLS_REQUIRED[tierNum - 1];
+        statsLines.push(`Kills: ${tower.kills}/${required}`);
+      } else {
+        statsLines.push(`Kills: ${tower.kills}`);
+      }
     }
 
     for (const line of statsLines) {
@@ -156,11 +218,44 @@ export class TowerInfoPanel extends Phaser.Events.EventEmitter {
       });
       statText.setOrigin(0.5);
       this.container.add(statText);
-      lineY += 18;
+      lineY += TowerInfoPanel.STAT_LINE_HEIGHT;
+    }
+
+    // Active buffs and the tower giving each
+    for (const buff of buffs) {
+      const buffText = this.scene.add.text(0, lineY, `${buff.source.displayName}: ${describeAura(buff.aura)}`, {
+        fontFamily: TowerInfoPanel.FONT_FAMILY,
+        fontSize: '10px',
+        color: TowerInfoPanel.BUFF_COLOR,
+        align: 'center',
+      });
+      buffText.setOrigin(0.5);
+      this.container.add(buffText);
+      lineY += TowerInfoPanel.STAT_LINE_HEIGHT;
     }
 
     // ---- Buttons area ----
     const buttonY = panelH / 2 - 56;
+    const targetingY = buttonY - 32 - (branches.length > 0 ? TowerInfoPanel.BRANCH_EXTRA_HEIGHT : 0);
+
+    // Targeting button (area towers hit everything in range)
+    const modeIndex = TARGETING_MODES.indexOf(tower.targetingMode);
+    const nextMode = TARGETING_MODES[(modeIndex + 1) % TARGETING_MODES.length];
+    this.createPanelButton(
+      0,
+      targetingY,
+      tower.usesTargeting()
+        ? `Target: ${TowerInfoPanel.TARGETING_LABELS[tower.targetingMode]}`
+        : config.support
+          ? 'Target: none (support)'
+          : 'Target: all in range',
+      tower.usesTargeting(),
+      () => {
+        if (this.currentTower) {
+          this.emit('targeting-requested', this.currentTower, nextMode);
+        }
+      },
+    );
 
     // Upgrade button
     const isMaxTier = tierNum >= 3;
@@ -172,19 +267,50 @@ export class TowerInfoPanel extends Phaser.Events.EventEmitter {
       : needsMoreKills
         ? `Need ${killsNeeded} more kill${killsNeeded !== 1 ? 's' : ''}`
         : `Upgrade ($${upgradeCost})`;
-    const upgradeEnabled = !isMaxTier && canAffordUpgrade && !needsMoreKills;
-
-    this.createPanelButton(
-      0,
-      buttonY,
-      upgradeLabel,
-      upgradeEnabled,
-      () => {
-        if (this.currentTower) {
-          this.emit('upgrade-requested', this.currentTower);
+    this.upgradeEnabled = !isMaxTier && canAffordUpgrade && !needsMoreKills;
+
+    if (branches.length > 0) {
+      // One button per branch, each above its stat changes (up to two lines)
+      branches.forEach((branch, i) => {
+        const y = buttonY - TowerInfoPanel.BRANCH_EXTRA_HEIGHT + i * TowerInfoPanel.BRANCH_SPACING;
+        const button = this.createPanelButton(
+          0,
+          y,
+          needsMoreKills ? branch.name : `${branch.name} ($${upgradeCost})`,
+          this.upgradeEnabled,
+          () => this.requestUpgrade(branch.key),
+        );
+        if (button) this.branchButtons.push(button);
+        const keyHint = this.branchKeyHints[i];
+        if (keyHint) {
+          const keyText = this.scene.add.text(-81, y, keyHint, {
+            fontFamily: TowerInfoPanel.FONT_FAMILY,
+            fontSize: '9px',
+            color: TowerInfoPanel.DIMMED_COLOR,
+          });
+          keyText.setOrigin(0, 0.5);
+          this.container!.add(keyText);
         }
-      },
-    );
+        const delta = TowerInfoPanel.describeDelta(tower.getBaseTierStats(), getSpecializedTier(config, branch.key));
+        const deltaText = this.scene.add.text(0, y + 26, delta, {
+          fontFamily: TowerInfoPanel.FONT_FAMILY,
+          fontSize: '10px',
+          color: TowerInfoPanel.VALUE_COLOR,
+          align: 'center',
+          wordWrap: { width: panelW - 12 },
+        });
+        deltaText.setOrigin(0.5);
+        this.container!.add(deltaText);
+      });
+    } else {
+      this.createPanelButton(
+        0,
+        buttonY,
+        upgradeLabel,
+        this.upgradeEnabled,
+        () => this.requestUpgrade(),
+      );
+    }
 
     // Sell button
     const sellValue = tower.getSellValue();
@@ -193,12 +319,7 @@ export class TowerInfoPanel extends Phaser.Events.EventEmitter {
       buttonY + 32,
       `Sell ($${sellValue})`,
       true,
-      () => {
-        if (this.currentTower) {
-          this.emit('sell-requested', this.currentTower);
-          this.hide();
-        }
-      },
+      () => this.requestSell(),
     );
 
     // Close button (top-right corner)
@@ -270,13 +391,88 @@ export class TowerInfoPanel extends Phaser.Events.EventEmitter {
     }
 
     this.currentTower = null;
+    this.upgradeEnabled = false;
+    this.branchButtons = [];
+  }
+
+  /**
+   * Set the hotkey names shown on the branch buttons, in branch order
+   * (undefined for an unbound branch). Applies from the next `show()`.
+   */
+  setBranchKeyHints(hints: readonly (string | undefined)[]): void {
+    this.branchKeyHints = hints;
+  }
+
+  /**
+   * Flash the branch buttons and show `message` above the panel, for an
+   * upgrade that needs a specialization but was asked for without one.
+   * Returns false if the shown tower has no branches to pick from.
+   */
+  promptBranch(message: string): boolean {
+    if (!this.container || this.branchButtons.length === 0) return false;
+
+    const hint = this.scene.add.text(0, -this.panelHeight / 2 - 14, message, {
+      fontFamily: TowerInfoPanel.FONT_FAMILY,
+      fontSize: '11px',
+      color: TowerInfoPanel.BUFF_COLOR,
+      align: 'center',
+      backgroundColor: '#1a1a2e',
+    });
+    hint.setOrigin(0.5);
+    this.container.add(hint);
+
+    this.scene.tweens.add({
+      targets: this.branchButtons,
+      fillAlpha: 0.5,
+      duration: 150,
+      yoyo: true,
+      repeat: 2,
+    });
+    this.scene.tweens.add({
+      targets: hint,
+      alpha: 0,
+      delay: 1200,
+      duration: 400,
+      onComplete: () => hint.destroy(),
+    });
+    return true;
+  }
+
+  /**
+   * Emit 'upgrade-requested' for the shown tower, as the Upgrade (or
+   * branch) button does. Returns false if no tower is shown, the button is
+   * disabled, or the tower must branch and no specialization was given.
+   */
+  requestUpgrade(specialization?: string): boolean {
+    if (!this.currentTower || !this.upgradeEnabled) return false;
+    if (!this.currentTower.canUpgrade(specialization)) return false;
+    this.emit('upgrade-requested', this.currentTower, specialization);
+    return true;
+  }
+
+  /**
+   * Emit 'sell-requested' for the shown tower and close the panel, as the
+   * Sell button does. Returns false if no tower is shown.
+   */
+  requestSell(): boolean {
+    if (!this.currentTower) return false;
+    this.emit('sell-requested', this.currentTower);
+    this.hide();
+    return true;
+  }
+
+  /**
+   * The tower the panel is showing, or null when hidden.
+   */
+  getTower(): SimTower | null {
+    return this.currentTower;
   }
 
   /**
    * Refresh the panel for the given tower (e.g. after an upgrade).
    * Tears down and rebuilds the panel contents.
    */
-  refresh(tower: Tower, canAffordUpgrade?: boolean): void {
+  refresh(tower: SimTower, canAffordUpgrade?: boolean): void {
     if (canAffordUpgrade === undefined) {
       canAffordUpgrade = true;
     }
@@ -302,8 +498,56 @@ export class TowerInfoPanel extends Phaser.Events.EventEmitter {
   // Private helpers
   // -------------------------------------------------------------------
 
+  /** Round a buffed stat to one decimal for display. */
+  private static round(value: number): number {
+    return Math.round(value * 10) / 10;
+  }
+
+  /**
+   * Short summary of how `to` differs from `from`, e.g. "DMG -9  ROF +8".
+   * New status effects are listed by label.
+   */
+  private static describeDelta(from: TowerTier, to: TowerTier): string {
+    // Beam damage is per second, so compare damage per second across styles
+    const dps = (tier: TowerTier) => (tier.beam ? tier.damage : tier.damage * tier.fireRate * (tier.targets ?? 1));
+    type StatDelta = [string, number | undefined, number | undefined];
+    const damage: StatDelta[] =
+      from.beam || to.beam
+        ? [['DPS', dps(from), dps(to)]]
+        : [
+            ['DMG', from.damage, to.damage],
+            ['ROF', from.fireRate, to.fireRate],
+          ];
+    const stats: StatDelta[] = [
+      ...damage,
+      ['RNG', from.range, to.range],
+      ['Splash', from.splashRadius, to.splashRadius],
+      ['Pierce', from.armorPiercing, to.armorPiercing],
+      ['Detect', from.detectionRadius, to.detectionRadius],
+      ['Targets', from.targets ?? 1, to.targets ?? 1],
+      ['Income', from.incomeBonus, to.incomeBonus],
+    ];
+    const parts: string[] = to.beam && !from.beam ? ['Beam'] : [];
+    for (const [label, before, after] of stats) {
+      const delta = Math.round(((after ?? 0) - (before ?? 0)) * 10) / 10;
+      if (delta !== 0) parts.push(`${label} ${delta > 0 ? '+' : ''}${delta}`);
+    }
+    for (const effect of to.effects ?? []) {
+      if (!from.effects?.some((e) => e.kind === effect.kind)) {
+        parts.push(`+${STATUS_EFFECT_RULES[effect.kind].label}`);
+      }
+    }
+    const aura = to.aura ? `Aura ${describeAura(to.aura)} (${to.aura.radius} tiles)` : '';
+    const oldAura = from.aura ? `Aura ${describeAura(from.aura)} (${from.aura.radius} tiles)` : '';
+    if (aura !== oldAura && aura !== '') {
+      parts.push(aura);
+    }
+    return parts.join('  ') || 'No stat changes';
+  }
+
   /**
-   * Create a clickable button within the info panel.
+   * Create a clickable button within the info panel. Returns its
+   * background, or undefined when the panel is hidden.
    */
   private createPanelButton(
     x: number,
@@ -311,8 +555,8 @@ export class TowerInfoPanel extends Phaser.Events.EventEmitter {
     label: string,
     enabled: boolean,
     callback: () => void,
-  ): void {
-    if (!this.container) return;
+  ): Phaser.GameObjects.Rectangle | undefined {
+    if (!this.container) return undefined;
 
     const btnWidth = 170;
     const btnHeight = 26;
@@ -355,5 +599,6 @@ export class TowerInfoPanel extends Phaser.Events.EventEmitter {
     });
     btnText.setOrigin(0.5);
     this.container.add(btnText);
+    return btnBg;
   }
 }
@@ -14,6 +14,7 @@ interface TowerButton {
   colorSwatch: Phaser.GameObjects.Rectangle | Phaser.GameObjects.Sprite;
   nameText: Phaser.GameObjects.Text;
   costText: Phaser.GameObjects.Text;
+  keyText: Phaser.GameObjects.Text;
   affordable: boolean;
 }
 
@@ -131,6 +132,26 @@ export class TowerPicker extends Phaser.Events.EventEmitter {
     }
   }
 
+  /**
+   * Toggle the tower at `index` (0-based, left to right) as if its button
+   * had been clicked. Returns false if there is no such tower or it cannot
+   * be afforded.
+   */
+  toggleAt(index: number): boolean {
+    const button = this.buttons[index];
+    if (!button || !button.affordable) return false;
+    this.toggle(button);
+    return true;
+  }
+
+  /**
+   * Show a hotkey hint in the corner of each button, in button order.
+   * Missing entries clear the hint.
+   */
+  setKeyHints(hints: readonly (string | undefined)[]): void {
+    this.buttons.forEach((btn, index) => btn.keyText.setText(hints[index] ?? ''));
+  }
+
   /**
    * Clear the current selection without emitting an event.
    */
@@ -201,6 +222,14 @@ export class TowerPicker extends Phaser.Events.EventEmitter {
     costText.setOrigin(0.5, 0.5);
     container.add(costText);
 
+    // Hotkey hint (filled in by setKeyHints)
+    const keyText = this.scene.add.text(-51, -27, '', {
+      fontFamily: TowerPicker.FONT_FAMILY,
+      fontSize: '9px',
+      color: TowerPicker.DIMMED_COLOR,
+    });
+    container.add(keyText);
+
     const button: TowerButton = {
       key,
       config,
@@ -209,6 +238,7 @@ export class TowerPicker extends Phaser.Events.EventEmitter {
       colorSwatch,
       nameText,
       costText,
+      keyText,
       affordable: true,
     };
 
@@ -225,27 +255,34 @@ export class TowerPicker extends Phaser.Events.EventEmitter {
 
     bg.on('pointerdown', () => {
       if (!button.affordable) return;
-
-      // Play click sound
-      const sm = this.scene.registry.get('soundManager') as SoundManager | undefined;
-      sm?.play('ui-click');
-
-      if (this.selectedKey === key) {
-        // Deselect
-        this.deselectCurrent();
-        this.emit('tower-selected', null);
-      } else {
-        // Deselect previous, select new
-        this.deselectCurrent();
-        this.selectedKey = key;
-        bg.setStrokeStyle(2, TowerPicker.SELECTED_STROKE_COLOR, 1);
-        this.emit('tower-selected', key);
-      }
+      this.toggle(button);
     });
 
     this.buttons.push(button);
   }
 
+  /**
+   * Select `button`, or deselect it if it is already selected, and emit
+   * 'tower-selected'.
+   */
+  private toggle(button: TowerButton): void {
+    // Play click sound
+    const sm = this.scene.registry.get('soundManager') as SoundManager | undefined;
+    sm?.play('ui-click');
+
+    if (this.selectedKey === button.key) {
+      // Deselect
+      this.deselectCurrent();
+      this.emit('tower-selected', null);
+    } else {
+      // Deselect previous, select new
+      this.deselectCurrent();
+      this.selectedKey = button.key;
+      button.bg.setStrokeStyle(2, TowerPicker.SELECTED_STROKE_COLOR, 1);
+      this.emit('tower-selected', button.key);
+    }
+  }
+
   /**
    * Visually deselect the currently selected button and clear the key.
    */